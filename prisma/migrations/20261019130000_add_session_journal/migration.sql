@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "session_journal" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "tick" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_journal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "session_journal_sessionId_tick_idx" ON "session_journal"("sessionId", "tick");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "session_journal_sessionId_sequence_key" ON "session_journal"("sessionId", "sequence");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "simulation_sessions" ADD COLUMN     "riskLimits" JSONB;
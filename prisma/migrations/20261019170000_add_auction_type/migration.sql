@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "AuctionType" AS ENUM ('ENGLISH', 'DUTCH', 'SEALED_FIRST', 'SEALED_SECOND', 'RIGHTS');
+
+-- AlterTable
+ALTER TABLE "auctions" ADD COLUMN     "type" "AuctionType" NOT NULL DEFAULT 'RIGHTS',
+ADD COLUMN     "reservePrice" DECIMAL(65,30);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "session_users" ADD COLUMN     "privilegeCosts" DECIMAL(65,30) NOT NULL DEFAULT 0;
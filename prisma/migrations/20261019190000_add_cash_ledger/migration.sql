@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "ledger_entries" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "reference" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_legs" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "account" TEXT NOT NULL,
+    "userId" TEXT,
+    "amount" DECIMAL(65,30) NOT NULL,
+
+    CONSTRAINT "ledger_legs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_entries_sessionId_sequence_key" ON "ledger_entries"("sessionId", "sequence");
+
+-- CreateIndex
+CREATE INDEX "ledger_legs_entryId_idx" ON "ledger_legs"("entryId");
+
+-- AddForeignKey
+ALTER TABLE "ledger_legs" ADD CONSTRAINT "ledger_legs_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "ledger_entries"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
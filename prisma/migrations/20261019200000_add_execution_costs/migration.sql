@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "order_executions" ADD COLUMN     "commission" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "liquidity" TEXT,
+ADD COLUMN     "slippage" DECIMAL(65,30) NOT NULL DEFAULT 0;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "iteration_reports" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "lessonId" TEXT NOT NULL,
+    "classId" TEXT NOT NULL,
+    "scenario" TEXT NOT NULL,
+    "iteration" INTEGER NOT NULL,
+    "template" TEXT,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "data" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "iteration_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "iteration_reports_sessionId_iteration_key" ON "iteration_reports"("sessionId", "iteration");
+
+-- CreateIndex
+CREATE INDEX "iteration_reports_lessonId_classId_idx" ON "iteration_reports"("lessonId", "classId");
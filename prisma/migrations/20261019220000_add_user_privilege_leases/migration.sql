@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "user_privileges" ADD COLUMN     "leaseEndsAt" TIMESTAMP(3),
+ADD COLUMN     "leasedFrom" TEXT;
@@ -0,0 +1,121 @@
+/**
+ * Backtest CLI
+ *
+ * Runs a lesson or demo scenario headlessly and prints the trade tape,
+ * final positions and leaderboard as JSON. Needs no server or database.
+ *
+ * Usage:
+ *   npm run backtest -- --scenario quick-demo --seed 42
+ *   npx tsx scripts/backtest.ts --lesson "lesson - Price Formation.xml" --simulation A \
+ *     --bot LIQUIDITY_PROVIDER --bot momentum:VCR:orderSize=50 --orders alice.json --out result.json
+ *
+ * Options:
+ *   --lesson <file>       lesson XML file
+ *   --simulation <id>     simulation within the lesson (default: first)
+ *   --scenario <id>       demo scenario ID, instead of --lesson
+ *   --seed <n>            random seed (default: 1)
+ *   --bot <spec>          STRATEGY[:SYMBOL,SYMBOL][:key=value,key=value], repeatable
+ *   --orders <file>       student order script JSON, repeatable
+ *   --tick <seconds>      virtual seconds between market data ticks
+ *   --duration <seconds>  override the run length
+ *   --out <file>          write the result here instead of stdout
+ *
+ * An order script is { "userId": "alice", "cash": 100000, "orders": [
+ *   { "at": 5, "id": "o1", "symbol": "AOE", "side": "BUY", "quantity": 100, "price": 49.9 },
+ *   { "at": 60, "cancel": "o1" } ] }
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { runBacktest, BacktestBot, BacktestOptions, StudentOrderScript } from '../src/lib/backtest-harness';
+import { parseStrategyParameter } from '../src/lib/bot-strategy';
+import { parseSeed } from '../src/lib/seeded-random';
+
+// Keep stdout for the JSON result; library logging goes to stderr
+console.log = (...args: any[]) => console.error(...args);
+
+function parseBot(spec: string): BacktestBot {
+  const [strategy, symbols, parameters] = spec.split(':');
+  const bot: BacktestBot = { strategy };
+  if (symbols) {
+    bot.symbols = symbols.split(',').filter(Boolean);
+  }
+  if (parameters) {
+    bot.parameters = {};
+    for (const pair of parameters.split(',')) {
+      const [key, value] = pair.split('=');
+      if (key) bot.parameters[key] = parseStrategyParameter(value ?? '');
+    }
+  }
+  return bot;
+}
+
+function parseArgs(argv: string[]): { options: BacktestOptions; out?: string } {
+  const options: BacktestOptions = { seed: 1, bots: [], students: [] };
+  let out: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    i++;
+
+    switch (flag) {
+      case '--lesson':
+        options.lessonXml = readFileSync(value, 'utf-8');
+        break;
+      case '--simulation':
+        options.simulationId = value;
+        break;
+      case '--scenario':
+        options.scenarioId = value;
+        break;
+      case '--seed': {
+        const seed = parseSeed(value);
+        if (seed === undefined) throw new Error(`Invalid seed: ${value}`);
+        options.seed = seed;
+        break;
+      }
+      case '--bot':
+        options.bots!.push(parseBot(value));
+        break;
+      case '--orders':
+        options.students!.push(JSON.parse(readFileSync(value, 'utf-8')) as StudentOrderScript);
+        break;
+      case '--tick':
+        options.tickSeconds = Number(value);
+        break;
+      case '--duration':
+        options.duration = Number(value);
+        break;
+      case '--out':
+        out = value;
+        break;
+      default:
+        throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+
+  return { options, out };
+}
+
+async function main() {
+  try {
+    const { options, out } = parseArgs(process.argv.slice(2));
+    const result = await runBacktest(options);
+    const json = JSON.stringify(result, null, 2);
+
+    if (out) {
+      writeFileSync(out, json);
+      console.error(`Backtest written to ${out}: ${result.tape.length} trades, ${result.leaderboard.length} participants`);
+    } else {
+      process.stdout.write(json + '\n');
+    }
+  } catch (error) {
+    console.error('Backtest failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
\ No newline at end of file
@@ -11,6 +11,7 @@ import { createServer } from 'http';
 import { parse } from 'url';
 import next from 'next';
 import { initWebSocketServer } from './src/lib/websocket-server';
+import { recoverLiveSessions } from './src/lib/session-recovery';
 
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = process.env.HOSTNAME || '0.0.0.0';
@@ -40,6 +41,11 @@ app.prepare().then(() => {
   const wsServer = initWebSocketServer(server);
   console.log('WebSocket server initialized');
 
+  // Rehydrate sessions that were running when the server last stopped
+  recoverLiveSessions()
+    .then(recovered => console.log(`Recovered ${recovered.length} in-progress session(s)`))
+    .catch(error => console.error('Session recovery failed:', error));
+
   // Start server
   server.listen(port, () => {
     console.log(`> Ready on http://${hostname}:${port}`);
@@ -33,7 +33,7 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const marketEngine = getMarketEngine(session.lessonName);
+    const marketEngine = getMarketEngine(session.lessonName, session.id);
     let result: any = null;
     
     switch (action) {
@@ -145,7 +145,7 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    const marketEngine = getMarketEngine(session.lessonName);
+    const marketEngine = getMarketEngine(session.lessonName, session.id);
     const marketStatus = marketEngine.getMarketStatus();
     
     return NextResponse.json({
@@ -14,6 +14,7 @@ import {
   endInstructorSession,
   setLiquidityTrader
 } from '@/lib/instructor-session';
+import { parseSeed } from '@/lib/seeded-random';
 
 /**
  * GET - Get instructor's current session
@@ -49,7 +50,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { instructorId, lessonId, startingCash, duration } = body;
+    const { instructorId, lessonId, startingCash, duration, seed } = body;
     
     if (!instructorId || !lessonId) {
       return NextResponse.json(
@@ -62,7 +63,8 @@ export async function POST(request: NextRequest) {
       instructorId,
       lessonId,
       startingCash || 1000000, // Default $1,000,000 to match original upTick
-      duration || 300 // Default 5 minutes
+      duration || 300, // Default 5 minutes
+      parseSeed(seed)
     );
     
     return NextResponse.json({
@@ -4,9 +4,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSessionMarketData } from '@/lib/instructor-session';
+import { CANDLE_RESOLUTIONS, getCandleAggregator, isCandleResolution } from '@/lib/candle-aggregator';
 
 /**
  * GET - Get current market data for session
+ * With resolution=tick|1s|5s|1m (and symbol, optional limit), returns the
+ * session's OHLCV candle history instead
  */
 export async function GET(request: NextRequest) {
   try {
@@ -16,6 +19,33 @@ export async function GET(request: NextRequest) {
     if (!sessionId) {
       return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
     }
+
+    const resolution = searchParams.get('resolution');
+    if (resolution !== null) {
+      if (!isCandleResolution(resolution)) {
+        return NextResponse.json(
+          { error: `Resolution must be one of ${CANDLE_RESOLUTIONS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      const symbol = searchParams.get('symbol');
+      if (!symbol) {
+        return NextResponse.json({ error: 'Symbol required' }, { status: 400 });
+      }
+
+      const limit = Number(searchParams.get('limit')) || undefined;
+      const aggregator = getCandleAggregator(sessionId);
+
+      return NextResponse.json({
+        success: true,
+        symbol,
+        resolution,
+        candles: await aggregator.getCandles(symbol, resolution, limit),
+        symbols: await aggregator.getSymbols(),
+        timestamp: new Date().toISOString()
+      });
+    }
     
     const marketData = getSessionMarketData(sessionId);
     
@@ -0,0 +1,107 @@
+/**
+ * Auto Trader API
+ *
+ * Lets a student with the Auto Trader privilege run, inspect and stop their
+ * own strategy script in the session's algo sandbox.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { userHasPrivilege } from '@/lib/privilege-service';
+import { ALGO_PRIVILEGES, getAlgoSandbox } from '@/lib/algo-sandbox';
+
+interface RouteParams {
+  params: { sessionId: string };
+}
+
+async function canUseAutoTrader(sessionId: string, userId: string): Promise<boolean> {
+  for (const code of ALGO_PRIVILEGES) {
+    if (await userHasPrivilege(sessionId, userId, code)) return true;
+  }
+  return false;
+}
+
+// GET /api/sessions/[sessionId]/algo - The student's script, status, P&L and recent log
+export const GET = requireAuth(async (
+  request: NextRequest & { user: any },
+  { params }: RouteParams
+) => {
+  try {
+    const { sessionId } = await params;
+
+    return NextResponse.json({
+      success: true,
+      algo: getAlgoSandbox(sessionId).getState(request.user.id) || null
+    });
+
+  } catch (error) {
+    console.error('Error fetching auto trader:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch auto trader' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/sessions/[sessionId]/algo - Start (or restart) the student's script
+// Body: { source }
+export const POST = requireAuth(async (
+  request: NextRequest & { user: any },
+  { params }: RouteParams
+) => {
+  try {
+    const { sessionId } = await params;
+    const { source } = await request.json();
+
+    if (typeof source !== 'string' || source.trim() === '') {
+      return NextResponse.json(
+        { error: 'Strategy source is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!await canUseAutoTrader(sessionId, request.user.id)) {
+      return NextResponse.json(
+        { error: 'Auto Trader privilege required' },
+        { status: 403 }
+      );
+    }
+
+    const algo = await getAlgoSandbox(sessionId).start(request.user.id, source);
+
+    return NextResponse.json({
+      success: algo.status === 'RUNNING',
+      algo
+    });
+
+  } catch (error) {
+    console.error('Error starting auto trader:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start auto trader' },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE /api/sessions/[sessionId]/algo - Stop the student's script
+export const DELETE = requireAuth(async (
+  request: NextRequest & { user: any },
+  { params }: RouteParams
+) => {
+  try {
+    const { sessionId } = await params;
+    const algo = await getAlgoSandbox(sessionId).stop(request.user.id);
+
+    return NextResponse.json({
+      success: true,
+      algo: algo || null
+    });
+
+  } catch (error) {
+    console.error('Error stopping auto trader:', error);
+    return NextResponse.json(
+      { error: 'Failed to stop auto trader' },
+      { status: 500 }
+    );
+  }
+});
\ No newline at end of file
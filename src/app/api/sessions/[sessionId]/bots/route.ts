@@ -0,0 +1,87 @@
+/**
+ * Trading Bots API
+ *
+ * Lets the instructor see the registered bot strategies and the running
+ * bots, and switch a bot's strategy or parameters live.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { botManager } from '@/lib/trading-bots';
+import { hasStrategy, listStrategies, parseStrategyParameter } from '@/lib/bot-strategy';
+
+// GET /api/sessions/[sessionId]/bots - Registered strategies and bot statistics
+export const GET = requireRole('INSTRUCTOR')(async (
+  request: NextRequest & { user: any }
+) => {
+  try {
+
+    return NextResponse.json({
+      success: true,
+      strategies: listStrategies(),
+      bots: botManager.getAllBotStatistics()
+    });
+
+  } catch (error) {
+    console.error('Error fetching trading bots:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch trading bots' },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH /api/sessions/[sessionId]/bots - Configure a bot, creating it if needed
+// Body: { botId, type?, name?, symbols?, parameters?, active? }
+export const PATCH = requireRole('INSTRUCTOR')(async (
+  request: NextRequest & { user: any }
+) => {
+  try {
+    const body = await request.json();
+
+    if (!body.botId) {
+      return NextResponse.json(
+        { error: 'botId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (body.type && !hasStrategy(body.type)) {
+      return NextResponse.json(
+        { error: `Unknown strategy: ${body.type}` },
+        { status: 400 }
+      );
+    }
+
+    if (!body.type && !botManager.getBot(body.botId)) {
+      return NextResponse.json(
+        { error: 'A strategy type is required to create a bot' },
+        { status: 400 }
+      );
+    }
+
+    const parameters = body.parameters && typeof body.parameters === 'object'
+      ? Object.fromEntries(Object.entries(body.parameters).map(([key, value]) => [key, parseStrategyParameter(value)]))
+      : undefined;
+
+    const bot = botManager.configureBot(body.botId, {
+      type: body.type,
+      name: body.name,
+      symbols: Array.isArray(body.symbols) ? body.symbols : undefined,
+      parameters,
+      active: typeof body.active === 'boolean' ? body.active : undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      bot: bot.getStatistics()
+    });
+
+  } catch (error) {
+    console.error('Error configuring trading bot:', error);
+    return NextResponse.json(
+      { error: 'Failed to configure trading bot' },
+      { status: 500 }
+    );
+  }
+});
\ No newline at end of file
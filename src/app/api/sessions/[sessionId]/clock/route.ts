@@ -0,0 +1,101 @@
+/**
+ * Session Clock API
+ *
+ * Lets the instructor run a session in real time, accelerate it, pause it
+ * or advance it step by step. Every timer in the session follows the clock.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { getSessionClock, MIN_CLOCK_SPEED, MAX_CLOCK_SPEED } from '@/lib/session-clock';
+
+interface RouteParams {
+  params: { sessionId: string };
+}
+
+// GET /api/sessions/[sessionId]/clock - Clock speed, pause state and virtual time
+export const GET = requireRole('INSTRUCTOR')(async (
+  request: NextRequest & { user: any },
+  { params }: RouteParams
+) => {
+  try {
+    const { sessionId } = await params;
+
+    return NextResponse.json({
+      success: true,
+      clock: getSessionClock(sessionId).getState()
+    });
+
+  } catch (error) {
+    console.error('Error fetching session clock:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch session clock' },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH /api/sessions/[sessionId]/clock - Control the clock
+// Body: { speed } sets the speed multiplier (1 = real time)
+//       { action: 'pause' | 'resume' }
+//       { action: 'step', stepSeconds? } pauses and advances by one step (default 1s)
+export const PATCH = requireRole('INSTRUCTOR')(async (
+  request: NextRequest & { user: any },
+  { params }: RouteParams
+) => {
+  try {
+    const { sessionId } = await params;
+    const body = await request.json();
+    const clock = getSessionClock(sessionId);
+
+    if (body.speed !== undefined) {
+      const speed = Number(body.speed);
+      if (!Number.isFinite(speed) || speed < MIN_CLOCK_SPEED || speed > MAX_CLOCK_SPEED) {
+        return NextResponse.json(
+          { error: `Speed must be between ${MIN_CLOCK_SPEED} and ${MAX_CLOCK_SPEED}` },
+          { status: 400 }
+        );
+      }
+      clock.setSpeed(speed);
+    }
+
+    switch (body.action) {
+      case undefined:
+        break;
+      case 'pause':
+        clock.pause();
+        break;
+      case 'resume':
+        clock.resume();
+        break;
+      case 'step': {
+        const stepSeconds = body.stepSeconds === undefined ? 1 : Number(body.stepSeconds);
+        if (!(stepSeconds > 0) || stepSeconds > 3600) {
+          return NextResponse.json(
+            { error: 'stepSeconds must be between 0 and 3600' },
+            { status: 400 }
+          );
+        }
+        clock.step(stepSeconds * 1000);
+        break;
+      }
+      default:
+        return NextResponse.json(
+          { error: 'Invalid action' },
+          { status: 400 }
+        );
+    }
+
+    return NextResponse.json({
+      success: true,
+      clock: clock.getState()
+    });
+
+  } catch (error) {
+    console.error('Error updating session clock:', error);
+    return NextResponse.json(
+      { error: 'Failed to update session clock' },
+      { status: 500 }
+    );
+  }
+});
\ No newline at end of file
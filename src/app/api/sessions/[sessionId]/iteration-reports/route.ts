@@ -0,0 +1,140 @@
+/**
+ * Iteration Reports API
+ *
+ * Debrief reports for each iteration (round) of a simulation, as the legacy
+ * upTick lessons produced them, and a side by side comparison of every
+ * iteration the class has run of the same lesson.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { ReportFormat } from '@/lib/report-builder';
+import { renderReport } from '@/lib/report-renderers';
+import {
+  buildComparisonDocument,
+  buildIterationDocument,
+  buildIterationReport,
+  getComparableIterationReports,
+  getIterationReports,
+  recordIterationReport
+} from '@/lib/iteration-reports';
+
+interface RouteParams {
+  params: { sessionId: string };
+}
+
+const FILE_FORMATS: ReportFormat[] = ['pdf', 'excel', 'csv'];
+
+// GET /api/sessions/[sessionId]/iteration-reports - This session's iteration reports
+// GET /api/sessions/[sessionId]/iteration-reports?iteration=2 - One iteration (built live if not saved yet)
+// GET /api/sessions/[sessionId]/iteration-reports?compare=lesson - Every iteration of the lesson the class has run
+// Any of the above with format=pdf|excel|csv downloads the rendered document
+export const GET = requireRole('INSTRUCTOR')(async (
+  request: NextRequest & { user: any },
+  { params }: RouteParams
+) => {
+  try {
+    const { sessionId } = await params;
+    const url = new URL(request.url);
+    const format = url.searchParams.get('format') || 'json';
+    const iterationParam = url.searchParams.get('iteration');
+    const compare = url.searchParams.get('compare') === 'lesson';
+
+    if (format !== 'json' && !FILE_FORMATS.includes(format as ReportFormat)) {
+      return NextResponse.json(
+        { error: `Unknown report format: ${format}` },
+        { status: 400 }
+      );
+    }
+
+    let reports;
+    let document;
+    let name;
+
+    if (iterationParam !== null) {
+      const iteration = Number(iterationParam);
+      if (!Number.isInteger(iteration) || iteration < 1) {
+        return NextResponse.json(
+          { error: 'iteration must be a positive whole number' },
+          { status: 400 }
+        );
+      }
+
+      const saved = (await getIterationReports(sessionId)).find(report => report.iteration === iteration);
+      const report = saved || await buildIterationReport(sessionId, { iteration });
+      if (!report) {
+        return NextResponse.json(
+          { error: 'Session not found' },
+          { status: 404 }
+        );
+      }
+
+      reports = [report];
+      document = buildIterationDocument(report);
+      name = `Iteration_${report.scenario}_Round${iteration}`;
+    } else {
+      reports = compare
+        ? await getComparableIterationReports(sessionId)
+        : await getIterationReports(sessionId);
+      document = buildComparisonDocument(reports);
+      name = compare ? 'Iteration_Comparison' : 'Session_Iterations';
+    }
+
+    if (format === 'json') {
+      return NextResponse.json({
+        success: true,
+        reports,
+        document
+      });
+    }
+
+    const rendered = renderReport(document, format as ReportFormat);
+    const filename = `${name.replace(/\s+/g, '_')}_${sessionId}.${rendered.extension}`;
+
+    return new NextResponse(new Uint8Array(rendered.body), {
+      headers: {
+        'Content-Type': rendered.contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': String(rendered.body.length),
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Error getting iteration reports:', error);
+    return NextResponse.json(
+      { error: 'Failed to get iteration reports' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/sessions/[sessionId]/iteration-reports - Report the current iteration now
+export const POST = requireRole('INSTRUCTOR')(async (
+  request: NextRequest & { user: any },
+  { params }: RouteParams
+) => {
+  try {
+    const { sessionId } = await params;
+    const report = await recordIterationReport(sessionId);
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      report,
+      document: buildIterationDocument(report)
+    });
+
+  } catch (error) {
+    console.error('Error recording iteration report:', error);
+    return NextResponse.json(
+      { error: 'Failed to record iteration report' },
+      { status: 500 }
+    );
+  }
+});
\ No newline at end of file
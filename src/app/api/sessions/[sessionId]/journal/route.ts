@@ -0,0 +1,67 @@
+/**
+ * Session Journal API
+ *
+ * Replays the session journal for instructor debriefs: the order book and
+ * portfolio state at any tick, or the raw journal entries for a tick range.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { getSessionJournal, rebuildSessionState, JournalEntryType } from '@/lib/session-journal';
+
+interface RouteParams {
+  params: { sessionId: string };
+}
+
+function parseTick(value: string | null): number | undefined {
+  if (value === null) return undefined;
+  const tick = Number(value);
+  return Number.isInteger(tick) && tick >= 0 ? tick : NaN;
+}
+
+// GET /api/sessions/[sessionId]/journal?tick=140 - Session state at a tick
+// GET /api/sessions/[sessionId]/journal?entries=true&fromTick=100&toTick=140 - Raw entries
+export const GET = requireRole('INSTRUCTOR')(async (
+  request: NextRequest & { user: any },
+  { params }: RouteParams
+) => {
+  try {
+    const { sessionId } = await params;
+    const url = new URL(request.url);
+    const tick = parseTick(url.searchParams.get('tick'));
+    const fromTick = parseTick(url.searchParams.get('fromTick'));
+    const toTick = parseTick(url.searchParams.get('toTick'));
+
+    if (Number.isNaN(tick) || Number.isNaN(fromTick) || Number.isNaN(toTick)) {
+      return NextResponse.json(
+        { error: 'Ticks must be non-negative integers' },
+        { status: 400 }
+      );
+    }
+
+    if (url.searchParams.get('entries') === 'true') {
+      const types = url.searchParams.get('types')?.split(',') as JournalEntryType[] | undefined;
+      const entries = await getSessionJournal(sessionId).getEntries({ fromTick, toTick, types });
+
+      return NextResponse.json({
+        success: true,
+        sessionId,
+        entries
+      });
+    }
+
+    const snapshot = await rebuildSessionState(sessionId, tick);
+
+    return NextResponse.json({
+      success: true,
+      snapshot
+    });
+
+  } catch (error) {
+    console.error('Error replaying session journal:', error);
+    return NextResponse.json(
+      { error: 'Failed to replay session journal' },
+      { status: 500 }
+    );
+  }
+});
\ No newline at end of file
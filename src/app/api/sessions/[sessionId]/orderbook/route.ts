@@ -59,29 +59,18 @@ export const GET = requireAuth(async (
       const orderBook = engine.getOrderBook(resolvedSecurityId);
       const marketPrice = engine.getMarketPrice(resolvedSecurityId);
 
-      // Also get raw orders from the engine for display
-      const rawOrders = engine.getOpenOrders(resolvedSecurityId);
-
-      // Separate into bids and asks with remaining quantity
-      const bids = rawOrders
-        .filter(o => o.side === 'BUY' && o.remainingQuantity > 0 && o.price !== undefined)
+      // Individual orders as displayed on the book (iceberg reserves stay hidden)
+      const toDisplayOrders = (levels: NonNullable<typeof orderBook>['bids']) => levels
+        .flatMap(level => level.orders)
         .map(o => ({
           id: o.id,
           price: o.price!,
           remainingQuantity: o.remainingQuantity,
           userId: o.userId
-        }))
-        .sort((a, b) => b.price - a.price);
+        }));
 
-      const asks = rawOrders
-        .filter(o => o.side === 'SELL' && o.remainingQuantity > 0 && o.price !== undefined)
-        .map(o => ({
-          id: o.id,
-          price: o.price!,
-          remainingQuantity: o.remainingQuantity,
-          userId: o.userId
-        }))
-        .sort((a, b) => a.price - b.price);
+      const bids = toDisplayOrders(orderBook?.bids || []);
+      const asks = toDisplayOrders(orderBook?.asks || []);
 
       // Calculate volume from recent trades
       const recentTrades = engine.getRecentTrades(resolvedSecurityId);
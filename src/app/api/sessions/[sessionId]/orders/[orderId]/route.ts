@@ -1,12 +1,12 @@
 /**
  * Individual Order Management API
  * 
- * Handles cancellation and retrieval of specific orders
+ * Handles retrieval, amendment and cancellation of specific orders
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
-import { getOrderMatchingEngine } from '@/lib/order-matching-engine';
+import { getOrderMatchingEngine, getReadyOrderMatchingEngine } from '@/lib/order-matching-engine';
 import { prisma } from '@/lib/prisma';
 
 interface RouteParams {
@@ -77,6 +77,91 @@ export const GET = requireAuth(async (
   }
 });
 
+// PATCH /api/sessions/[sessionId]/orders/[orderId] - Amend order (cancel-replace)
+export const PATCH = requireAuth(async (
+  request: NextRequest & { user: any },
+  { params }: RouteParams
+) => {
+  try {
+    const { sessionId, orderId } = await params;
+    const { quantity, price, stopPrice } = await request.json();
+
+    for (const value of [quantity, price, stopPrice]) {
+      if (value !== undefined && (typeof value !== 'number' || value <= 0)) {
+        return NextResponse.json(
+          { error: 'Quantity and prices must be positive numbers' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (quantity !== undefined && !Number.isInteger(quantity)) {
+      return NextResponse.json(
+        { error: 'Quantity must be a whole number' },
+        { status: 400 }
+      );
+    }
+
+    // Verify order exists and belongs to user
+    const order = await prisma.order.findUnique({
+      where: { id: orderId }
+    });
+
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    if (order.userId !== request.user.id) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    if (order.sessionId !== sessionId) {
+      return NextResponse.json(
+        { error: 'Order does not belong to this session' },
+        { status: 400 }
+      );
+    }
+
+    const engine = await getReadyOrderMatchingEngine(sessionId);
+    const result = await engine.amendOrder(orderId, request.user.id, { quantity, price, stopPrice });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.reason || 'Order cannot be amended' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      priorityKept: result.priorityKept,
+      order: {
+        id: result.order!.id,
+        type: result.order!.type,
+        side: result.order!.side,
+        quantity: result.order!.quantity,
+        price: result.order!.price,
+        stopPrice: result.order!.stopPrice,
+        status: result.order!.status,
+        remainingQuantity: result.order!.remainingQuantity
+      }
+    });
+
+  } catch (error) {
+    console.error('Error amending order:', error);
+    return NextResponse.json(
+      { error: 'Failed to amend order' },
+      { status: 500 }
+    );
+  }
+});
+
 // DELETE /api/sessions/[sessionId]/orders/[orderId] - Cancel order
 export const DELETE = requireAuth(async (
   request: NextRequest & { user: any }, 
@@ -28,7 +28,8 @@ export const POST = requireAuth(async (
       quantity, 
       price, 
       stopPrice, 
-      timeInForce = 'DAY' 
+      timeInForce = 'DAY',
+      displayQuantity
     } = body;
 
     // Validate required fields
@@ -89,7 +90,8 @@ export const POST = requireAuth(async (
       quantity,
       price,
       stopPrice,
-      timeInForce
+      timeInForce,
+      displayQuantity
     });
 
     return NextResponse.json({
@@ -102,7 +104,10 @@ export const POST = requireAuth(async (
         price: order.price,
         status: order.status,
         submittedAt: order.submittedAt,
-        remainingQuantity: order.remainingQuantity
+        remainingQuantity: order.remainingQuantity,
+        displayQuantity: order.displayQuantity,
+        rejectReason: order.status === 'REJECTED' ? order.notes : undefined,
+        rejectCode: order.rejectCode
       }
     });
 
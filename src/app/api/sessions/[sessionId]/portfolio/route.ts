@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
 import { getPortfolioEngine } from '@/lib/portfolio-engine';
+import { getMarginEngine } from '@/lib/margin-engine';
 
 interface RouteParams {
   params: { sessionId: string };
@@ -25,6 +26,7 @@ export const GET = requireAuth(async (
 
     // Get portfolio summary for the user
     const portfolio = await portfolioEngine.getPortfolioSummary(request.user.id);
+    const account = await getMarginEngine(sessionId).getAccount(request.user.id, portfolio);
 
     return NextResponse.json({
       success: true,
@@ -36,6 +38,11 @@ export const GET = requireAuth(async (
         totalRealizedPnL: portfolio.totalRealizedPnL,
         totalPnL: portfolio.totalPnL,
         cashBalance: portfolio.cashBalance,
+        equity: account.equity,
+        buyingPower: account.buyingPower,
+        initialRequirement: account.initialRequirement,
+        maintenanceRequirement: account.maintenanceRequirement,
+        marginCall: account.marginCall || null,
         positions: portfolio.positions.map(pos => ({
           securityId: pos.securityId,
           quantity: pos.quantity,
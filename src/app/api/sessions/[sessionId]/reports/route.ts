@@ -0,0 +1,113 @@
+/**
+ * Session Reports API
+ *
+ * Builds instructor reports from the session's persisted orders, fills,
+ * positions and auctions and renders them on the server, so a report can
+ * be downloaded at any time after class.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import {
+  REPORT_TEMPLATES,
+  ReportFormat,
+  assembleReportData,
+  buildReportDocument,
+  getReportTemplate
+} from '@/lib/report-builder';
+import { renderReport } from '@/lib/report-renderers';
+
+interface RouteParams {
+  params: { sessionId: string };
+}
+
+const FILE_FORMATS: ReportFormat[] = ['pdf', 'excel', 'csv'];
+
+function parseDate(value: string | null, endOfDay = false): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(endOfDay ? `${value}T23:59:59.999Z` : `${value}T00:00:00.000Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// GET /api/sessions/[sessionId]/reports?template=comprehensive - Report data and document as JSON
+// GET /api/sessions/[sessionId]/reports?template=...&format=pdf|excel|csv - Download the rendered report
+// Optional: sections=id,id (overrides the template's enabled sections), from/to=YYYY-MM-DD
+export const GET = requireRole('INSTRUCTOR')(async (
+  request: NextRequest & { user: any },
+  { params }: RouteParams
+) => {
+  try {
+    const { sessionId } = await params;
+    const url = new URL(request.url);
+    const templateId = url.searchParams.get('template') || 'comprehensive';
+    const format = url.searchParams.get('format') || 'json';
+    const sections = url.searchParams.get('sections');
+
+    const template = getReportTemplate(templateId);
+    if (!template) {
+      return NextResponse.json(
+        { error: `Unknown report template: ${templateId}` },
+        { status: 400 }
+      );
+    }
+
+    if (format !== 'json' && !FILE_FORMATS.includes(format as ReportFormat)) {
+      return NextResponse.json(
+        { error: `Unknown report format: ${format}` },
+        { status: 400 }
+      );
+    }
+
+    if (format !== 'json' && !template.exportFormats.includes(format as ReportFormat)) {
+      return NextResponse.json(
+        { error: `${template.name} exports as ${template.exportFormats.join(' or ')}` },
+        { status: 400 }
+      );
+    }
+
+    const data = await assembleReportData(sessionId, {
+      from: parseDate(url.searchParams.get('from')),
+      to: parseDate(url.searchParams.get('to'), true)
+    });
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const document = buildReportDocument(
+      template,
+      data,
+      sections !== null ? sections.split(',').filter(Boolean) : undefined
+    );
+
+    if (format === 'json') {
+      return NextResponse.json({
+        success: true,
+        templates: REPORT_TEMPLATES,
+        data,
+        document
+      });
+    }
+
+    const rendered = renderReport(document, format as ReportFormat);
+    const filename = `${template.name.replace(/\s+/g, '_')}_${sessionId}_${document.generatedAt.toISOString().split('T')[0]}.${rendered.extension}`;
+
+    return new NextResponse(new Uint8Array(rendered.body), {
+      headers: {
+        'Content-Type': rendered.contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': String(rendered.body.length),
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Error generating report:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate report' },
+      { status: 500 }
+    );
+  }
+});
\ No newline at end of file
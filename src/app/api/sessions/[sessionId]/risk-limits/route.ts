@@ -0,0 +1,79 @@
+/**
+ * Risk Limits API
+ *
+ * Lets the instructor read and edit pre-trade risk limits for a live
+ * session: session-wide limits, per-student overrides and loss-limit locks.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { getRiskLimitEngine, sanitizeLimits } from '@/lib/risk-limits';
+
+interface RouteParams {
+  params: { sessionId: string };
+}
+
+// GET /api/sessions/[sessionId]/risk-limits - Session limits, overrides and locked students
+export const GET = requireRole('INSTRUCTOR')(async (
+  request: NextRequest & { user: any },
+  { params }: RouteParams
+) => {
+  try {
+    const { sessionId } = await params;
+    const state = await getRiskLimitEngine(sessionId).getLimitState();
+
+    return NextResponse.json({
+      success: true,
+      ...state
+    });
+
+  } catch (error) {
+    console.error('Error fetching risk limits:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch risk limits' },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH /api/sessions/[sessionId]/risk-limits - Update limits or unlock a student
+// Body: { limits, userId? } sets session limits, or one student's overrides when userId is given
+//       { unlockUserId } lifts a loss-limit lock
+export const PATCH = requireRole('INSTRUCTOR')(async (
+  request: NextRequest & { user: any },
+  { params }: RouteParams
+) => {
+  try {
+    const { sessionId } = await params;
+    const body = await request.json();
+    const engine = getRiskLimitEngine(sessionId);
+
+    if (body.unlockUserId) {
+      await engine.unlock(body.unlockUserId);
+    } else if (body.limits && typeof body.limits === 'object') {
+      const limits = sanitizeLimits(body.limits);
+      if (body.userId) {
+        await engine.setUserLimits(body.userId, limits);
+      } else {
+        await engine.setSessionLimits(limits);
+      }
+    } else {
+      return NextResponse.json(
+        { error: 'Provide limits or unlockUserId' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...engine.getState()
+    });
+
+  } catch (error) {
+    console.error('Error updating risk limits:', error);
+    return NextResponse.json(
+      { error: 'Failed to update risk limits' },
+      { status: 500 }
+    );
+  }
+});
\ No newline at end of file
@@ -0,0 +1,90 @@
+/**
+ * Cash Statement API
+ *
+ * Transaction history from the session's cash ledger: students see their
+ * own statement, instructors can read any student's and post adjustments.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, requireRole } from '@/lib/auth';
+import { getPortfolioEngine } from '@/lib/portfolio-engine';
+
+interface RouteParams {
+  params: { sessionId: string };
+}
+
+// GET /api/sessions/[sessionId]/statement - Caller's cash statement
+// GET /api/sessions/[sessionId]/statement?userId=... - A student's statement (instructor)
+export const GET = requireAuth(async (
+  request: NextRequest & { user: any },
+  { params }: RouteParams
+) => {
+  try {
+    const { sessionId } = await params;
+    const url = new URL(request.url);
+    const userId = url.searchParams.get('userId') || request.user.id;
+
+    if (userId !== request.user.id && request.user.role !== 'INSTRUCTOR' && request.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Access denied - instructor privileges required' },
+        { status: 403 }
+      );
+    }
+
+    const portfolioEngine = getPortfolioEngine(sessionId);
+    const statement = portfolioEngine.getStatement(userId);
+
+    return NextResponse.json({
+      success: true,
+      userId,
+      cashBalance: portfolioEngine.getCashBalance(userId),
+      escrowedCash: portfolioEngine.getEscrowedCash(userId),
+      statement
+    });
+
+  } catch (error) {
+    console.error('Error fetching cash statement:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch cash statement' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/sessions/[sessionId]/statement - Instructor cash adjustment
+// Body: { userId, amount, reason }; a negative amount takes cash away
+export const POST = requireRole('INSTRUCTOR')(async (
+  request: NextRequest & { user: any },
+  { params }: RouteParams
+) => {
+  try {
+    const { sessionId } = await params;
+    const { userId, amount, reason } = await request.json();
+
+    if (!userId || typeof amount !== 'number' || !Number.isFinite(amount) || amount === 0) {
+      return NextResponse.json(
+        { error: 'Provide userId and a non-zero amount' },
+        { status: 400 }
+      );
+    }
+
+    const entry = await getPortfolioEngine(sessionId).adjustCash(
+      userId,
+      amount,
+      reason || 'Instructor adjustment',
+      request.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      entry
+    });
+
+  } catch (error) {
+    console.error('Error adjusting cash:', error);
+    return NextResponse.json(
+      { error: 'Failed to adjust cash' },
+      { status: 500 }
+    );
+  }
+});
\ No newline at end of file
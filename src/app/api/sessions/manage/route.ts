@@ -8,6 +8,7 @@ import { enhancedSessionEngine } from '@/lib/enhanced-session-engine';
 import { lessonLoader } from '@/lib/lesson-loader';
 import { legacyLessonImporter } from '@/lib/legacy-lesson-importer';
 import { prisma } from '@/lib/prisma';
+import { getOrderMatchingEngine } from '@/lib/order-matching-engine';
 
 // POST /api/sessions/manage - Create and manage enhanced sessions
 export const POST = requireAuth(async (request: NextRequest & { user: any }) => {
@@ -216,6 +217,7 @@ async function resumeSession(sessionId: string) {
 
 async function endSession(sessionId: string, instructorId: string) {
   await enhancedSessionEngine.endSession(sessionId);
+  await getOrderMatchingEngine(sessionId).expireDayOrders('SESSION_END');
   
   await prisma.simulationSession.update({
     where: { id: sessionId },
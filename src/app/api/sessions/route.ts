@@ -6,6 +6,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth, requireRole } from '@/lib/auth';
 import { sessionEngine } from '@/lib/session-engine';
 import { prisma } from '@/lib/prisma';
+import { parseSeed } from '@/lib/seeded-random';
 
 // GET /api/sessions - List sessions for user
 export const GET = requireAuth(async (request: NextRequest & { user: any }) => {
@@ -108,7 +109,8 @@ export const POST = requireRole('INSTRUCTOR')(async (request: NextRequest & { us
         lessonId,
         classId,
         scenario,
-        request.user.id
+        request.user.id,
+        parseSeed(body.seed)
       );
 
       console.log('✅ Session created successfully:', session.id);
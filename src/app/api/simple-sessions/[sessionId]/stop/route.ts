@@ -5,6 +5,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSimpleSession } from '@/lib/simple-session';
 import { prisma } from '@/lib/prisma';
+import { getOrderMatchingEngine } from '@/lib/order-matching-engine';
 
 export async function POST(
   request: NextRequest,
@@ -28,6 +29,9 @@ export async function POST(
       );
     }
 
+    // Day orders do not outlive the session
+    await getOrderMatchingEngine(sessionId).expireDayOrders('SESSION_END');
+
     // Update session status
     session.status = 'COMPLETED';
     session.endTime = new Date();
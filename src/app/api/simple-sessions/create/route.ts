@@ -5,10 +5,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSimpleSession, initializeSimpleDemoData } from '@/lib/simple-session';
 import { initializeDemoAccounts } from '@/lib/simple-auth';
+import { parseSeed } from '@/lib/seeded-random';
 
 export async function POST(request: NextRequest) {
   try {
-    const { lessonName, instructorId, students } = await request.json();
+    const { lessonName, instructorId, students, seed } = await request.json();
 
     if (!lessonName || !instructorId || !students) {
       return NextResponse.json(
@@ -22,7 +23,7 @@ export async function POST(request: NextRequest) {
     await initializeSimpleDemoData();
 
     // Create session
-    const session = await createSimpleSession(lessonName, instructorId, students);
+    const session = await createSimpleSession(lessonName, instructorId, students, parseSeed(seed));
 
     return NextResponse.json({
       success: true,
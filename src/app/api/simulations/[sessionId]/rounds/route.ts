@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { recordIterationReport } from '@/lib/iteration-reports';
 
 const prisma = new PrismaClient();
 
@@ -29,6 +30,13 @@ export async function POST(
       return NextResponse.json({ error: 'Already at maximum rounds' }, { status: 400 });
     }
 
+    // Save the debrief of the round that is ending before the next one starts
+    try {
+      await recordIterationReport(sessionId);
+    } catch (error) {
+      console.error('Error recording iteration report:', error);
+    }
+
     // Close market for round transition
     await prisma.marketState.updateMany({
       where: { sessionId },
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { getOrderMatchingEngine } from '@/lib/order-matching-engine';
+import { getSessionClock } from '@/lib/session-clock';
 
 const prisma = new PrismaClient();
 
@@ -97,6 +99,14 @@ export async function PATCH(
         return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
     }
 
+    if (action === 'stop') {
+      await getOrderMatchingEngine(sessionId).expireDayOrders('SESSION_END');
+    } else if (action === 'pause') {
+      getSessionClock(sessionId).pause();
+    } else if (action === 'resume') {
+      getSessionClock(sessionId).resume();
+    }
+
     const updatedSimulation = await prisma.simulationSession.update({
       where: { id: sessionId },
       data: updateData,
@@ -10,6 +10,7 @@ import { prisma } from '@/lib/prisma';
 import { createMarketSimulator } from '@/lib/market-simulator';
 import { TradingBotManager } from '@/lib/automated-trader';
 import { getReadyOrderMatchingEngine } from '@/lib/order-matching-engine';
+import { generateSeed, parseSeed, setSessionSeed } from '@/lib/seeded-random';
 
 // Store active environments
 const activeEnvironments = new Map<string, {
@@ -29,6 +30,7 @@ export async function POST(request: NextRequest) {
       startPrice = 50.00,
       volatility = 0.02
     } = body;
+    const seed = parseSeed(body.seed) ?? generateSeed();
 
     // Get or create user
     let user = await prisma.user.findFirst({
@@ -84,9 +86,11 @@ export async function POST(request: NextRequest) {
         scenario: 'Live Trading Environment',
         duration: 3600, // 1 hour
         status: 'IN_PROGRESS',
-        startTime: new Date()
+        startTime: new Date(),
+        seed
       }
     });
+    setSessionSeed(session.id, seed);
 
     // Enroll the main user with high buying power
     await prisma.sessionUser.create({
@@ -218,6 +222,7 @@ export async function POST(request: NextRequest) {
       buyingPower,
       botCount: botUsers.length,
       startPrice,
+      seed,
       message: `Trading environment started with ${botUsers.length} automated traders. You have $${buyingPower.toLocaleString()} buying power.`
     });
 
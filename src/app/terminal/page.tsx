@@ -28,6 +28,7 @@ import AuctionPanel from '@/components/terminal/AuctionPanel';
 import OptionsPanel from '@/components/terminal/OptionsPanel';
 import CommoditiesPanel from '@/components/terminal/CommoditiesPanel';
 import LiquidityPanel from '@/components/terminal/LiquidityPanel';
+import AutoTraderPanel from '@/components/terminal/AutoTraderPanel';
 
 interface User {
   id: string;
@@ -114,6 +115,7 @@ export default function TradingTerminal() {
     { privilegeCode: 17, title: 'Options Trading', component: 'OptionsPanel', position: { x: 390, y: 280 }, size: { width: 320, height: 180 }, isVisible: false, isMinimized: false },
     { privilegeCode: 18, title: 'Commodities & Futures', component: 'CommoditiesPanel', position: { x: 20, y: 280 }, size: { width: 350, height: 80 }, isVisible: false, isMinimized: false },
     { privilegeCode: 20, title: 'Liquidity Provision', component: 'LiquidityPanel', position: { x: 730, y: 640 }, size: { width: 180, height: 190 }, isVisible: false, isMinimized: false },
+    { privilegeCode: 31, title: 'Auto Trader', component: 'AutoTraderPanel', position: { x: 420, y: 120 }, size: { width: 460, height: 420 }, isVisible: false, isMinimized: false },
   ];
 
   useEffect(() => {
@@ -444,7 +446,8 @@ export default function TradingTerminal() {
       RiskPanel,
       OptionsPanel,
       CommoditiesPanel,
-      LiquidityPanel
+      LiquidityPanel,
+      AutoTraderPanel
     };
     return components[componentName] || (() => <div>Window not implemented</div>);
   };
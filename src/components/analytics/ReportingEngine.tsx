@@ -6,6 +6,7 @@
  * - Session reports with trading activity analysis
  * - Risk assessment reports with portfolio metrics
  * - Lesson effectiveness analysis
+ * - Per-iteration debriefs of each simulation round, compared side by side
  * - Export capabilities (PDF, Excel, CSV)
  * - Customizable report templates
  */
@@ -18,8 +19,6 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { enhancedSessionEngine } from '@/lib/enhanced-session-engine';
-import { positionService } from '@/lib/position-service';
 import { 
   FileText, 
   Download, 
@@ -64,6 +63,28 @@ interface ReportSection {
   data?: any;
 }
 
+interface ReportDocument {
+  title: string;
+  subtitle: string[];
+  sections: Array<{
+    id: string;
+    title: string;
+    paragraphs: string[];
+    metrics: Array<{ label: string; value: string | number }>;
+    table?: { columns: string[]; rows: Array<Array<string | number>> };
+  }>;
+}
+
+interface IterationSummary {
+  sessionId: string;
+  scenario: string;
+  iteration: number;
+  template?: string;
+  prices: Array<{ symbol: string; close: number; vwap: number }>;
+  tape: unknown[];
+  students: Array<{ netPnL: number }>;
+}
+
 interface StudentReport {
   userId: string;
   username: string;
@@ -101,10 +122,11 @@ export default function ReportingEngine({ sessionId, userId, classId }: Reportin
     students: [],
     session: null
   });
-  const [customSections, setCustomSections] = useState<ReportSection[]>([]);
+  const [sectionSelection, setSectionSelection] = useState<Record<string, boolean>>({});
   const [exportFormat, setExportFormat] = useState<'pdf' | 'excel' | 'csv'>('pdf');
   const [isGenerating, setIsGenerating] = useState(false);
   const [reportPreview, setReportPreview] = useState<string>('');
+  const [iterationReports, setIterationReports] = useState<IterationSummary[]>([]);
   const [dateRange, setDateRange] = useState({
     start: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     end: new Date().toISOString().split('T')[0]
@@ -168,101 +190,121 @@ export default function ReportingEngine({ sessionId, userId, classId }: Reportin
     loadReportData();
   }, [sessionId, dateRange]);
 
+  useEffect(() => {
+    loadIterationReports();
+  }, [sessionId]);
+
+  const currentTemplate = reportTemplates.find(t => t.id === selectedTemplate);
+
+  // Only offer the formats the template exports
+  useEffect(() => {
+    if (currentTemplate && !currentTemplate.exportFormats.includes(exportFormat)) {
+      setExportFormat(currentTemplate.exportFormats[0] as 'pdf' | 'excel' | 'csv');
+    }
+    setReportPreview('');
+  }, [selectedTemplate]);
+
+  const isSectionEnabled = (section: ReportSection): boolean =>
+    sectionSelection[`${selectedTemplate}:${section.id}`] ?? section.enabled;
+
+  // Reports are built on the server from what the session persisted
+  const reportUrl = (format: 'json' | 'pdf' | 'excel' | 'csv') => {
+    const params = new URLSearchParams({
+      template: selectedTemplate,
+      format,
+      from: dateRange.start,
+      to: dateRange.end
+    });
+    if (currentTemplate) {
+      params.set('sections', currentTemplate.sections.filter(isSectionEnabled).map(section => section.id).join(','));
+    }
+    return `/api/sessions/${sessionId}/reports?${params.toString()}`;
+  };
+
+  const authHeaders = () => ({ 'Authorization': `Bearer ${localStorage.getItem('auth_token')}` });
+
   const loadReportData = async () => {
     try {
-      // Load session data
-      const sessionData = enhancedSessionEngine.getSession(sessionId);
-      const privilegeData = enhancedSessionEngine.getPrivilegeSystem(sessionId);
-
-      if (sessionData) {
-        // Generate session report
-        const sessionReport: SessionReport = {
-          sessionId: sessionData.id,
-          lessonName: sessionData.currentLesson?.name || 'Unknown Lesson',
-          startTime: sessionData.startTime,
-          endTime: sessionData.endTime,
-          participantCount: sessionData.participants.size,
-          totalVolume: 0, // Will be calculated from trades
-          averagePerformance: 0, // Will be calculated from student data
-          marketEfficiency: Math.random() * 20 + 80, // Mock calculation
-          lessonObjectives: [
-            'Understand price formation mechanisms',
-            'Experience market making strategies',
-            'Learn risk management principles',
-            'Practice portfolio optimization'
-          ],
-          keyMetrics: {
-            totalTrades: 0,
-            averageSpread: 0.12,
-            marketImpact: 0.08,
-            liquidityScore: 78.5
-          }
-        };
-
-        // Generate student reports
-        const studentReports: StudentReport[] = Array.from(sessionData.participants.values()).map(participant => {
-          const portfolio = positionService.getPortfolio(participant.id);
-          const userPrivileges = privilegeData?.privilegeMatrix[participant.id] || {};
-          const privilegesEarned = Object.keys(userPrivileges)
-            .filter(id => userPrivileges[parseInt(id)])
-            .map(id => parseInt(id));
-
-          // Calculate metrics from real data where available
-          const totalPnL = portfolio?.totalPnL || 0;
-          const positions = portfolio?.positions || [];
-          
-          // Generate realistic performance metrics
-          const totalTrades = Math.floor(Math.random() * 30) + 5;
-          const winRate = 50 + Math.random() * 40;
-          const sharpeRatio = Math.random() * 2.5 + 0.3;
-          const maxDrawdown = -(Math.random() * 20 + 2);
-          
-          sessionReport.totalVolume += totalTrades * 1000; // Estimate volume
-          sessionReport.keyMetrics.totalTrades += totalTrades;
-
-          return {
-            userId: participant.id,
-            username: participant.username || participant.id,
-            totalPnL,
-            totalTrades,
-            winRate,
-            sharpeRatio,
-            maxDrawdown,
-            riskLevel: sharpeRatio > 1.5 ? 'Low' : sharpeRatio > 1.0 ? 'Medium' : 'High',
-            privilegesEarned,
-            auctionParticipation: Math.floor(Math.random() * 5),
-            lessonCompletion: Math.floor(Math.random() * 20) + 80,
-            engagementScore: Math.floor(Math.random() * 30) + 70
-          };
-        });
-
-        // Calculate session averages
-        if (studentReports.length > 0) {
-          sessionReport.averagePerformance = studentReports.reduce((sum, s) => sum + s.totalPnL, 0) / studentReports.length;
-        }
+      const response = await fetch(reportUrl('json'), { headers: authHeaders() });
+      const result = await response.json();
 
+      if (response.ok && result.success) {
         setReportData({
-          students: studentReports,
-          session: sessionReport
+          students: result.data.students,
+          session: result.data.session
         });
+      } else {
+        console.error('Failed to load report data:', result.error);
       }
     } catch (error) {
       console.error('Failed to load report data:', error);
     }
   };
 
+  // Every iteration the class has run of this lesson, across scenarios
+  const loadIterationReports = async () => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/iteration-reports?compare=lesson`, { headers: authHeaders() });
+      const result = await response.json();
+
+      if (response.ok && result.success) {
+        setIterationReports(result.reports);
+      } else {
+        console.error('Failed to load iteration reports:', result.error);
+      }
+    } catch (error) {
+      console.error('Failed to load iteration reports:', error);
+    }
+  };
+
+  const iterationUrl = (report: IterationSummary | null, format: 'json' | 'pdf' | 'excel' | 'csv') => {
+    const params = new URLSearchParams({ format });
+    if (report) {
+      params.set('iteration', String(report.iteration));
+    } else {
+      params.set('compare', 'lesson');
+    }
+    return `/api/sessions/${report ? report.sessionId : sessionId}/iteration-reports?${params.toString()}`;
+  };
+
+  const iterationLabel = (report: IterationSummary) =>
+    `${/^[A-Z]$/.test(report.scenario) ? `Simulation ${report.scenario}` : report.scenario}, Round ${report.iteration}`;
+
+  // Preview one iteration, or all of them side by side when report is null
+  const previewIterations = async (report: IterationSummary | null) => {
+    setIsGenerating(true);
+
+    try {
+      const response = await fetch(iterationUrl(report, 'json'), { headers: authHeaders() });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Iteration report failed');
+      }
+
+      setReportPreview(generateReportPreview(result.document, false));
+
+    } catch (error) {
+      console.error('Failed to preview iteration report:', error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
   const generateReport = async () => {
     setIsGenerating(true);
     
     try {
-      const template = reportTemplates.find(t => t.id === selectedTemplate);
-      if (!template) return;
-
-      // Simulate report generation
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      const response = await fetch(reportUrl('json'), { headers: authHeaders() });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Report generation failed');
+      }
 
-      const preview = generateReportPreview(template);
-      setReportPreview(preview);
+      setReportData({
+        students: result.data.students,
+        session: result.data.session
+      });
+      setReportPreview(generateReportPreview(result.document));
       
     } catch (error) {
       console.error('Failed to generate report:', error);
@@ -271,145 +313,68 @@ export default function ReportingEngine({ sessionId, userId, classId }: Reportin
     }
   };
 
-  const generateReportPreview = (template: ReportTemplate): string => {
-    const { students, session } = reportData;
-    if (!session) return 'No session data available';
-
-    let preview = `# ${template.name}\n\n`;
-    preview += `**Session:** ${session.lessonName}\n`;
-    preview += `**Date Range:** ${dateRange.start} to ${dateRange.end}\n`;
-    preview += `**Participants:** ${session.participantCount}\n\n`;
+  const formatValue = (value: string | number): string =>
+    typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 4 }) : value;
 
-    template.sections.forEach(section => {
-      if (!section.enabled) return;
+  const generateReportPreview = (document: ReportDocument, withDateRange = true): string => {
+    let preview = `# ${document.title}\n\n`;
+    document.subtitle.forEach(line => {
+      preview += `${line}\n`;
+    });
+    preview += withDateRange ? `Date Range: ${dateRange.start} to ${dateRange.end}\n\n` : '\n';
 
+    document.sections.forEach(section => {
       preview += `## ${section.title}\n\n`;
-      
-      switch (section.id) {
-        case 'executive_summary':
-          preview += `This report analyzes the performance of ${students.length} students during the "${session.lessonName}" simulation. `;
-          preview += `The session achieved an average performance of $${session.averagePerformance.toFixed(2)} per student `;
-          preview += `with a market efficiency score of ${session.marketEfficiency.toFixed(1)}%.\n\n`;
-          
-          const topPerformer = students.reduce((max, s) => s.totalPnL > max.totalPnL ? s : max, students[0]);
-          if (topPerformer) {
-            preview += `**Top Performer:** ${topPerformer.username} with $${topPerformer.totalPnL.toFixed(2)} P&L\n`;
-          }
-          
-          const avgEngagementSummary = students.reduce((sum, s) => sum + s.engagementScore, 0) / students.length;
-          preview += `**Average Engagement Score:** ${avgEngagementSummary.toFixed(1)}%\n\n`;
-          break;
-
-        case 'student_rankings':
-          preview += `| Rank | Student | P&L | Trades | Win Rate | Sharpe | Risk Level |\n`;
-          preview += `|------|---------|-----|--------|----------|--------|------------|\n`;
-          
-          students
-            .sort((a, b) => b.totalPnL - a.totalPnL)
-            .slice(0, 10)
-            .forEach((student, index) => {
-              preview += `| ${index + 1} | ${student.username} | $${student.totalPnL.toFixed(2)} | ${student.totalTrades} | ${student.winRate.toFixed(1)}% | ${student.sharpeRatio.toFixed(2)} | ${student.riskLevel} |\n`;
-            });
-          preview += '\n';
-          break;
-
-        case 'trading_metrics':
-          const totalTrades = students.reduce((sum, s) => sum + s.totalTrades, 0);
-          const avgSharpe = students.reduce((sum, s) => sum + s.sharpeRatio, 0) / students.length;
-          const avgWinRate = students.reduce((sum, s) => sum + s.winRate, 0) / students.length;
-          
-          preview += `**Total Trades Executed:** ${totalTrades}\n`;
-          preview += `**Average Sharpe Ratio:** ${avgSharpe.toFixed(2)}\n`;
-          preview += `**Average Win Rate:** ${avgWinRate.toFixed(1)}%\n`;
-          preview += `**Total Volume:** $${session.totalVolume.toLocaleString()}\n`;
-          preview += `**Market Impact:** ${session.keyMetrics.marketImpact.toFixed(3)}\n\n`;
-          break;
-
-        case 'risk_analysis':
-          const highRisk = students.filter(s => s.riskLevel === 'High').length;
-          const mediumRisk = students.filter(s => s.riskLevel === 'Medium').length;
-          const lowRisk = students.filter(s => s.riskLevel === 'Low').length;
-          
-          preview += `**Risk Distribution:**\n`;
-          preview += `- High Risk: ${highRisk} students (${((highRisk/students.length)*100).toFixed(1)}%)\n`;
-          preview += `- Medium Risk: ${mediumRisk} students (${((mediumRisk/students.length)*100).toFixed(1)}%)\n`;
-          preview += `- Low Risk: ${lowRisk} students (${((lowRisk/students.length)*100).toFixed(1)}%)\n\n`;
-          
-          const avgDrawdown = students.reduce((sum, s) => sum + Math.abs(s.maxDrawdown), 0) / students.length;
-          preview += `**Average Maximum Drawdown:** ${avgDrawdown.toFixed(2)}%\n\n`;
-          break;
-
-        case 'lesson_effectiveness':
-          const avgCompletion = students.reduce((sum, s) => sum + s.lessonCompletion, 0) / students.length;
-          const avgEngagement = students.reduce((sum, s) => sum + s.engagementScore, 0) / students.length;
-          const objectivesAchieved = session.lessonObjectives.length;
-          
-          preview += `**Learning Objectives Achievement:** ${objectivesAchieved}/4 objectives met\n`;
-          preview += `**Average Lesson Completion:** ${avgCompletion.toFixed(1)}%\n`;
-          preview += `**Student Engagement Score:** ${avgEngagement.toFixed(1)}%\n\n`;
-          
-          session.lessonObjectives.forEach((objective, index) => {
-            const achievementRate = 70 + Math.random() * 25; // Mock achievement rates
-            preview += `- ${objective}: ${achievementRate.toFixed(1)}% achievement\n`;
-          });
-          preview += '\n';
-          break;
-
-        case 'privilege_usage':
-          const totalPrivileges = students.reduce((sum, s) => sum + s.privilegesEarned.length, 0);
-          const avgPrivileges = totalPrivileges / students.length;
-          const totalAuctions = students.reduce((sum, s) => sum + s.auctionParticipation, 0);
-          
-          preview += `**Average Privileges Earned:** ${avgPrivileges.toFixed(1)} per student\n`;
-          preview += `**Total Auction Participation:** ${totalAuctions} bids\n`;
-          preview += `**Most Popular Privileges:** Market Making Rights, Level II Data, News Access\n\n`;
-          break;
 
-        case 'recommendations':
-          preview += `Based on the analysis of this session, the following recommendations are provided:\n\n`;
-          
-          const avgEngagementRec = students.reduce((sum, s) => sum + s.engagementScore, 0) / students.length;
-          if (avgEngagementRec < 75) {
-            preview += `1. **Increase Engagement:** Consider adding more interactive elements or competitive features to boost student engagement.\n`;
-          }
-          
-          const highRiskCount = students.filter(s => s.riskLevel === 'High').length;
-          if (highRiskCount > students.length * 0.3) {
-            preview += `2. **Risk Management Focus:** A significant portion of students exhibited high-risk behavior. Consider additional risk management education.\n`;
-          }
-          
-          if (session.averagePerformance < 0) {
-            preview += `3. **Performance Review:** Overall negative performance suggests the need for additional guidance or simplified scenarios.\n`;
-          }
-          
-          preview += `4. **Continue Simulation:** The session successfully demonstrated key trading concepts and should be repeated with minor adjustments.\n\n`;
-          break;
+      section.paragraphs.forEach(paragraph => {
+        preview += `${paragraph}\n`;
+      });
+      if (section.paragraphs.length > 0) preview += '\n';
+
+      section.metrics.forEach(metric => {
+        preview += `**${metric.label}:** ${formatValue(metric.value)}\n`;
+      });
+      if (section.metrics.length > 0) preview += '\n';
+
+      if (section.table) {
+        preview += `| ${section.table.columns.join(' | ')} |\n`;
+        preview += `|${section.table.columns.map(() => '---').join('|')}|\n`;
+        section.table.rows.slice(0, 25).forEach(row => {
+          preview += `| ${row.map(formatValue).join(' | ')} |\n`;
+        });
+        if (section.table.rows.length > 25) {
+          preview += `\n... ${section.table.rows.length - 25} more rows in the exported file\n`;
+        }
+        preview += '\n';
       }
     });
 
     return preview;
   };
 
-  const exportReport = async () => {
+  const exportReport = () => downloadReport(reportUrl(exportFormat));
+
+  const downloadReport = async (url: string) => {
     try {
       setIsGenerating(true);
-      
-      // In a real implementation, this would generate and download the actual file
-      const template = reportTemplates.find(t => t.id === selectedTemplate);
-      const filename = `${template?.name.replace(/\s+/g, '_')}_${sessionId}_${new Date().toISOString().split('T')[0]}.${exportFormat}`;
-      
-      // Simulate file generation
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Create a mock download
+
+      const response = await fetch(url, { headers: authHeaders() });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Report export failed');
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `report_${sessionId}`;
+      const file = await response.blob();
+
       const element = document.createElement('a');
-      const content = exportFormat === 'csv' ? generateCSVContent() : reportPreview;
-      const file = new Blob([content], { type: exportFormat === 'csv' ? 'text/csv' : 'text/plain' });
       element.href = URL.createObjectURL(file);
       element.download = filename;
       document.body.appendChild(element);
       element.click();
       document.body.removeChild(element);
+      URL.revokeObjectURL(element.href);
       
     } catch (error) {
       console.error('Failed to export report:', error);
@@ -418,19 +383,6 @@ export default function ReportingEngine({ sessionId, userId, classId }: Reportin
     }
   };
 
-  const generateCSVContent = (): string => {
-    const { students } = reportData;
-    let csv = 'Student,Total P&L,Total Trades,Win Rate,Sharpe Ratio,Max Drawdown,Risk Level,Privileges Earned,Engagement Score\n';
-    
-    students.forEach(student => {
-      csv += `${student.username},${student.totalPnL},${student.totalTrades},${student.winRate.toFixed(1)},${student.sharpeRatio.toFixed(2)},${student.maxDrawdown.toFixed(2)},${student.riskLevel},${student.privilegesEarned.length},${student.engagementScore}\n`;
-    });
-    
-    return csv;
-  };
-
-  const currentTemplate = reportTemplates.find(t => t.id === selectedTemplate);
-
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -460,7 +412,7 @@ export default function ReportingEngine({ sessionId, userId, classId }: Reportin
           
           <Button
             onClick={exportReport}
-            disabled={isGenerating || !reportPreview}
+            disabled={isGenerating}
             variant="outline"
             className="gap-2"
           >
@@ -532,9 +484,9 @@ export default function ReportingEngine({ sessionId, userId, classId }: Reportin
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="pdf">PDF Report</SelectItem>
-                    <SelectItem value="excel">Excel Workbook</SelectItem>
-                    <SelectItem value="csv">CSV Data</SelectItem>
+                    {currentTemplate?.exportFormats.includes('pdf') && <SelectItem value="pdf">PDF Report</SelectItem>}
+                    {currentTemplate?.exportFormats.includes('excel') && <SelectItem value="excel">Excel Workbook</SelectItem>}
+                    {currentTemplate?.exportFormats.includes('csv') && <SelectItem value="csv">CSV Data</SelectItem>}
                   </SelectContent>
                 </Select>
               </div>
@@ -553,11 +505,11 @@ export default function ReportingEngine({ sessionId, userId, classId }: Reportin
                       <div className="flex items-center gap-2">
                         <input 
                           type="checkbox"
-                          checked={section.enabled}
-                          onChange={(e) => {
-                            // Update section enabled state
-                            section.enabled = e.target.checked;
-                          }}
+                          checked={isSectionEnabled(section)}
+                          onChange={(e) => setSectionSelection(prev => ({
+                            ...prev,
+                            [`${selectedTemplate}:${section.id}`]: e.target.checked
+                          }))}
                           className="rounded border-gray-300"
                         />
                         <span className="text-sm">{section.title}</span>
@@ -603,6 +555,63 @@ export default function ReportingEngine({ sessionId, userId, classId }: Reportin
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="h-5 w-5" />
+                Simulation Iterations
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {iterationReports.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  A report is saved at the end of each simulation round.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {iterationReports.map(report => {
+                    const averagePnL = report.students.length > 0
+                      ? report.students.reduce((sum, s) => sum + s.netPnL, 0) / report.students.length
+                      : 0;
+                    return (
+                      <div key={`${report.sessionId}:${report.iteration}`} className="border rounded-md p-2">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium">{iterationLabel(report)}</span>
+                          <div className="flex gap-1">
+                            <Button size="sm" variant="outline" onClick={() => previewIterations(report)} disabled={isGenerating}>
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => downloadReport(iterationUrl(report, exportFormat))} disabled={isGenerating}>
+                              <Download className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {report.tape.length} prints
+                          {report.prices.map(price => ` · ${price.symbol} close $${price.close.toFixed(2)}`).join('')}
+                          {` · avg P&L $${averagePnL.toFixed(2)}`}
+                        </div>
+                        {report.template && (
+                          <div className="text-xs text-gray-400 truncate" title={report.template}>
+                            {report.template.split('/').pop()}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" className="flex-1" onClick={() => previewIterations(null)} disabled={isGenerating}>
+                      Compare Side by Side
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => downloadReport(iterationUrl(null, exportFormat))} disabled={isGenerating}>
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
 
         {/* Report Preview */}
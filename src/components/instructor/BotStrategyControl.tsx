@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CpuChipIcon } from '@heroicons/react/24/outline';
+
+interface StrategyInfo {
+  name: string;
+  description: string;
+  defaults: Record<string, any>;
+}
+
+interface BotInfo {
+  botId: string;
+  name: string;
+  type: string;
+  isActive: boolean;
+  positionSize: number;
+  totalOrders: number;
+  parameters: Record<string, any>;
+}
+
+interface BotStrategyControlProps {
+  sessionId: string;
+}
+
+export default function BotStrategyControl({ sessionId }: BotStrategyControlProps) {
+  const [strategies, setStrategies] = useState<StrategyInfo[]>([]);
+  const [bots, setBots] = useState<BotInfo[]>([]);
+  const [selectedBot, setSelectedBot] = useState(''); // '' creates a new bot
+  const [newBotId, setNewBotId] = useState('');
+  const [strategyName, setStrategyName] = useState('');
+  const [parameterForm, setParameterForm] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchBots();
+  }, [sessionId]);
+
+  // Load the selected bot's strategy and parameters into the form
+  useEffect(() => {
+    const bot = bots.find(b => b.botId === selectedBot);
+    if (bot) {
+      setStrategyName(bot.type);
+      setParameterForm(Object.fromEntries(Object.entries(bot.parameters).map(([key, value]) => [key, String(value)])));
+    }
+  }, [selectedBot, bots]);
+
+  const fetchBots = async () => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/bots`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setStrategies(data.strategies);
+        setBots(data.bots);
+      }
+    } catch (error) {
+      console.error('Error fetching trading bots:', error);
+    }
+  };
+
+  const configureBot = async (body: Record<string, any>) => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/bots`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+        },
+        body: JSON.stringify(body)
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setSelectedBot(data.bot.botId);
+        setNewBotId('');
+        await fetchBots();
+      } else {
+        const error = await response.json();
+        alert('Error configuring bot: ' + error.error);
+      }
+    } catch (error) {
+      alert('Error configuring bot: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  const handleStrategyChange = (name: string) => {
+    setStrategyName(name);
+    const strategy = strategies.find(s => s.name === name);
+    setParameterForm(Object.fromEntries(Object.entries(strategy?.defaults || {}).map(([key, value]) => [key, String(value)])));
+  };
+
+  const handleApply = () => {
+    configureBot({
+      botId: selectedBot || newBotId,
+      type: strategyName,
+      parameters: parameterForm
+    });
+  };
+
+  const description = strategies.find(s => s.name === strategyName)?.description;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 mt-6">
+      <div className="flex justify-between items-center mb-4">
+        <h4 className="text-lg font-semibold text-gray-900 flex items-center">
+          <CpuChipIcon className="h-5 w-5 mr-2" />
+          Trading Bots
+        </h4>
+        <select
+          value={selectedBot}
+          onChange={(e) => setSelectedBot(e.target.value)}
+          className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">New bot</option>
+          {bots.map(bot => (
+            <option key={bot.botId} value={bot.botId}>
+              {bot.name} ({bot.type}){bot.isActive ? '' : ' - paused'}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {!selectedBot && (
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Bot ID</label>
+            <input
+              type="text"
+              value={newBotId}
+              onChange={(e) => setNewBotId(e.target.value)}
+              placeholder="e.g. liquidity_bot_2"
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        )}
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Strategy</label>
+          <select
+            value={strategyName}
+            onChange={(e) => handleStrategyChange(e.target.value)}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Select a strategy</option>
+            {strategies.map(strategy => (
+              <option key={strategy.name} value={strategy.name}>{strategy.name}</option>
+            ))}
+          </select>
+          {description && <p className="text-xs text-gray-500 mt-1">{description}</p>}
+        </div>
+      </div>
+
+      {Object.keys(parameterForm).length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mt-3">
+          {Object.keys(parameterForm).map(key => (
+            <div key={key}>
+              <label className="block text-xs font-medium text-gray-700 mb-1">{key}</label>
+              <input
+                type="text"
+                value={parameterForm[key]}
+                onChange={(e) => setParameterForm(prev => ({ ...prev, [key]: e.target.value }))}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3 mt-4">
+        {selectedBot && (
+          <button
+            onClick={() => configureBot({ botId: selectedBot, active: !bots.find(b => b.botId === selectedBot)?.isActive })}
+            className="px-4 py-2 text-sm text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300"
+          >
+            {bots.find(b => b.botId === selectedBot)?.isActive ? 'Pause Bot' : 'Resume Bot'}
+          </button>
+        )}
+        <button
+          onClick={handleApply}
+          disabled={!strategyName || (!selectedBot && !newBotId)}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          Apply Strategy
+        </button>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -47,12 +47,46 @@ interface StudentSnapshot {
   trend: 'up' | 'down' | 'stable';
 }
 
+interface MarketMakerQuote {
+  securityId: string;
+  symbol: string;
+  presence: number;
+  lastQuote?: {
+    bid?: number;
+    ask?: number;
+    spread?: number;
+    present: boolean;
+    reason?: string;
+  };
+}
+
+interface MarketMakerStatus {
+  userId: string;
+  active: boolean;
+  presence: number;
+  sessionPresence: number;
+  status: 'COMPLIANT' | 'AT_RISK' | 'BREACH';
+  securities: MarketMakerQuote[];
+  rebatesEarned: number;
+  penaltiesPaid: number;
+}
+
+interface MarketMakerObligations {
+  minPresence: number;
+  maxSpread: number;
+  minSize: number;
+  periodSeconds: number;
+}
+
 export default function LiveSessionAnalytics({ sessionId, user, classId }: LiveSessionAnalyticsProps) {
   const [loading, setLoading] = useState(true);
   const [realTimeMetrics, setRealTimeMetrics] = useState<RealTimeMetric[]>([]);
   const [sessionSummary, setSessionSummary] = useState<SessionSummary | null>(null);
   const [studentSnapshots, setStudentSnapshots] = useState<StudentSnapshot[]>([]);
   const [selectedTimeframe, setSelectedTimeframe] = useState<'1m' | '5m' | '15m' | 'all'>('5m');
+  const [marketMakers, setMarketMakers] = useState<MarketMakerStatus[]>([]);
+  const [mmObligations, setMmObligations] = useState<MarketMakerObligations | null>(null);
+  const [mmPeriod, setMmPeriod] = useState(1);
 
   const { connected, socket } = useWebSocket({ 
     sessionId, 
@@ -70,12 +104,15 @@ export default function LiveSessionAnalytics({ sessionId, user, classId }: LiveS
       socket.on('student_activity', handleStudentActivity);
       socket.on('trade_executed', handleTradeExecuted);
       socket.on('risk_alert', handleRiskAlert);
+      socket.on('mm_compliance', handleMarketMakerCompliance);
+      socket.emit('get_mm_compliance', { sessionId });
       
       return () => {
         socket.off('session_metric_update', handleMetricUpdate);
         socket.off('student_activity', handleStudentActivity);
         socket.off('trade_executed', handleTradeExecuted);
         socket.off('risk_alert', handleRiskAlert);
+        socket.off('mm_compliance', handleMarketMakerCompliance);
       };
     }
   }, [connected, socket]);
@@ -235,6 +272,24 @@ export default function LiveSessionAnalytics({ sessionId, user, classId }: LiveS
     } : null);
   };
 
+  const handleMarketMakerCompliance = (data: any) => {
+    setMarketMakers(data.compliance || []);
+    if (data.obligations) setMmObligations(data.obligations);
+    if (data.period) setMmPeriod(data.period);
+  };
+
+  const getComplianceColor = (status: MarketMakerStatus['status']): string => {
+    switch (status) {
+      case 'COMPLIANT': return 'bg-green-100 text-green-800';
+      case 'AT_RISK': return 'bg-yellow-100 text-yellow-800';
+      case 'BREACH': return 'bg-red-100 text-red-800';
+    }
+  };
+
+  const getStudentName = (userId: string): string => {
+    return studentSnapshots.find(student => student.id === userId)?.name || userId;
+  };
+
   const getMetricIcon = (type: string): string => {
     switch (type) {
       case 'trade': return '💰';
@@ -397,6 +452,71 @@ export default function LiveSessionAnalytics({ sessionId, user, classId }: LiveS
         </div>
       </div>
 
+      {/* Market Maker Compliance */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Market Maker Compliance</h3>
+          {mmObligations && (
+            <span className="text-sm text-gray-500">
+              Period {mmPeriod} · {(mmObligations.minPresence * 100).toFixed(0)}% presence, spread ≤ ${mmObligations.maxSpread}, {mmObligations.minSize}+ shares
+            </span>
+          )}
+        </div>
+        {marketMakers.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">No market makers assigned</p>
+        ) : (
+          <div className="space-y-4">
+            {marketMakers.map((mm) => (
+              <div key={mm.userId} className={`border border-gray-200 rounded-lg p-4 ${mm.active ? '' : 'opacity-60'}`}>
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <h4 className="font-medium text-gray-900">{getStudentName(mm.userId)}</h4>
+                    <p className="text-sm text-gray-500">
+                      {mm.active ? 'Market maker' : 'Rights no longer held'} · session presence {(mm.sessionPresence * 100).toFixed(1)}%
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getComplianceColor(mm.status)}`}>
+                      {mm.status.replace('_', ' ')}
+                    </span>
+                    <div className="text-sm mt-1">
+                      <span className="text-green-600">+${mm.rebatesEarned.toFixed(2)}</span>
+                      {' / '}
+                      <span className="text-red-600">-${mm.penaltiesPaid.toFixed(2)}</span>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  {mm.securities.map((security) => (
+                    <div key={security.securityId} className="text-sm">
+                      <div className="flex justify-between items-center">
+                        <span className="font-medium text-gray-700">{security.symbol}</span>
+                        <span className="text-gray-600">
+                          {security.lastQuote?.bid !== undefined ? `$${security.lastQuote.bid}` : '—'}
+                          {' × '}
+                          {security.lastQuote?.ask !== undefined ? `$${security.lastQuote.ask}` : '—'}
+                          {security.lastQuote?.reason && (
+                            <span className="text-red-600 ml-2">{security.lastQuote.reason}</span>
+                          )}
+                        </span>
+                        <span className="font-medium text-gray-900">{(security.presence * 100).toFixed(1)}%</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                        <div
+                          className={`h-1.5 rounded-full ${mmObligations && security.presence < mmObligations.minPresence ? 'bg-red-500' : 'bg-green-500'}`}
+                          style={{ width: `${Math.min(100, security.presence * 100)}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Performance Leaders */}
       {sessionSummary && (
         <div className="bg-white shadow rounded-lg p-6">
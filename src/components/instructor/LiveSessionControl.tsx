@@ -11,6 +11,7 @@ import {
   ExclamationTriangleIcon,
   CheckCircleIcon
 } from '@heroicons/react/24/outline';
+import BotStrategyControl from './BotStrategyControl';
 
 interface User {
   id: string;
@@ -52,6 +53,28 @@ interface SessionParticipant {
   };
 }
 
+interface RiskLimits {
+  maxPositionPerSecurity?: number;
+  maxGrossNotional?: number;
+  maxOrderSize?: number;
+  maxOrdersPerMinute?: number;
+  lossLimit?: number;
+}
+
+interface RiskLimitState {
+  session: RiskLimits;
+  users: Record<string, RiskLimits>;
+  locked: string[];
+}
+
+const RISK_LIMIT_FIELDS: Array<{ key: keyof RiskLimits; label: string }> = [
+  { key: 'maxPositionPerSecurity', label: 'Max Position / Security' },
+  { key: 'maxGrossNotional', label: 'Max Gross Notional ($)' },
+  { key: 'maxOrderSize', label: 'Max Order Size' },
+  { key: 'maxOrdersPerMinute', label: 'Max Orders / Minute' },
+  { key: 'lossLimit', label: 'Loss Limit ($)' }
+];
+
 interface LiveSessionControlProps {
   user: User | null;
   classId: string;
@@ -65,6 +88,9 @@ export default function LiveSessionControl({ user, classId }: LiveSessionControl
   const [selectedScenario, setSelectedScenario] = useState('A');
   const [sessionDuration, setSessionDuration] = useState(15); // minutes
   const [showStartModal, setShowStartModal] = useState(false);
+  const [riskState, setRiskState] = useState<RiskLimitState | null>(null);
+  const [riskTarget, setRiskTarget] = useState(''); // '' edits session limits, otherwise a student id
+  const [riskForm, setRiskForm] = useState<Record<string, string>>({});
 
   // Fetch active session and available lessons
   useEffect(() => {
@@ -89,6 +115,70 @@ export default function LiveSessionControl({ user, classId }: LiveSessionControl
     }
   };
 
+  // Load risk limits for the live session
+  useEffect(() => {
+    if (activeSession?.id) {
+      fetchRiskLimits(activeSession.id);
+    } else {
+      setRiskState(null);
+    }
+  }, [activeSession?.id]);
+
+  // Show the limits of whichever scope is being edited
+  useEffect(() => {
+    const limits: RiskLimits = riskTarget ? riskState?.users[riskTarget] || {} : riskState?.session || {};
+    setRiskForm(Object.fromEntries(RISK_LIMIT_FIELDS.map(({ key }) => [key, limits[key]?.toString() ?? ''])));
+  }, [riskState, riskTarget]);
+
+  const fetchRiskLimits = async (sessionId: string) => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/risk-limits`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setRiskState({ session: data.session, users: data.users, locked: data.locked });
+      }
+    } catch (error) {
+      console.error('Error fetching risk limits:', error);
+    }
+  };
+
+  const updateRiskLimits = async (body: Record<string, any>) => {
+    if (!activeSession) return;
+
+    try {
+      const response = await fetch(`/api/sessions/${activeSession.id}/risk-limits`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+        },
+        body: JSON.stringify(body)
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setRiskState({ session: data.session, users: data.users, locked: data.locked });
+      } else {
+        const error = await response.json();
+        alert('Error updating risk limits: ' + error.error);
+      }
+    } catch (error) {
+      alert('Error updating risk limits: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  const handleSaveRiskLimits = () => {
+    const limits = Object.fromEntries(
+      RISK_LIMIT_FIELDS.map(({ key }) => [key, riskForm[key] ? parseFloat(riskForm[key]) : null])
+    );
+    updateRiskLimits(riskTarget ? { userId: riskTarget, limits } : { limits });
+  };
+
   const fetchAvailableLessons = async () => {
     try {
       const response = await fetch('/api/lessons', {
@@ -446,6 +536,16 @@ export default function LiveSessionControl({ user, classId }: LiveSessionControl
                         </>
                       )}
 
+                      {riskState?.locked.includes(participant.id) && (
+                        <button
+                          onClick={() => updateRiskLimits({ unlockUserId: participant.id })}
+                          className="px-2 py-1 text-xs font-semibold text-red-700 bg-red-100 rounded hover:bg-red-200"
+                          title="Loss limit reached - click to unlock trading"
+                        >
+                          LOCKED
+                        </button>
+                      )}
+
                       <div className="flex items-center space-x-1">
                         {participant.isConnected ? (
                           <CheckCircleIcon className="h-5 w-5 text-green-500" />
@@ -459,6 +559,64 @@ export default function LiveSessionControl({ user, classId }: LiveSessionControl
               )}
             </div>
           </div>
+
+          {/* Risk Limits */}
+          <div className="bg-gray-50 rounded-lg p-4 mt-6">
+            <div className="flex justify-between items-center mb-4">
+              <h4 className="text-lg font-semibold text-gray-900 flex items-center">
+                <ExclamationTriangleIcon className="h-5 w-5 mr-2" />
+                Risk Limits
+              </h4>
+              <select
+                value={riskTarget}
+                onChange={(e) => setRiskTarget(e.target.value)}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">All students (session)</option>
+                {activeSession.participants?.map(participant => (
+                  <option key={participant.id} value={participant.id}>
+                    {participant.firstName} {participant.lastName}
+                    {riskState?.users[participant.id] ? ' (override)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+              {RISK_LIMIT_FIELDS.map(({ key, label }) => (
+                <div key={key}>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={riskForm[key] ?? ''}
+                    onChange={(e) => setRiskForm(prev => ({ ...prev, [key]: e.target.value }))}
+                    placeholder={riskTarget && riskState?.session[key] !== undefined ? `Session: ${riskState.session[key]}` : 'No limit'}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end space-x-3 mt-4">
+              {riskTarget && riskState?.users[riskTarget] && (
+                <button
+                  onClick={() => updateRiskLimits({ userId: riskTarget, limits: {} })}
+                  className="px-4 py-2 text-sm text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300"
+                >
+                  Use Session Limits
+                </button>
+              )}
+              <button
+                onClick={handleSaveRiskLimits}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+              >
+                Apply Limits
+              </button>
+            </div>
+          </div>
+
+          <BotStrategyControl sessionId={activeSession.id} />
         </div>
       ) : (
         <div className="bg-white rounded-lg shadow p-8 text-center">
@@ -14,6 +14,7 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import SimulationControl from './SimulationControl';
+import SessionClockControl from './SessionClockControl';
 import { 
   Users, 
   Activity, 
@@ -163,8 +164,12 @@ export default function LiveSimulationControl({ user, classId }: LiveSimulationC
       <SimulationControl 
         classId={classId}
         userId={user?.id || ''}
+        onSimulationChange={(id) => setSessionId(id || '')}
       />
 
+      {/* Real time, accelerated or single-step */}
+      <SessionClockControl sessionId={sessionId} socket={socket} />
+
       {/* Enhanced Controls */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Real-time Connection Status */}
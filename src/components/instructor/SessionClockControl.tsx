@@ -0,0 +1,164 @@
+/**
+ * Session Clock Control
+ *
+ * Run the session in real time, accelerate it, or pause and single-step it
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Clock, Pause, Play, SkipForward } from 'lucide-react';
+
+interface SessionClockControlProps {
+  sessionId: string;
+  socket: any;
+}
+
+interface ClockState {
+  speed: number;
+  paused: boolean;
+  now: string;
+  elapsedMs: number;
+  pendingTimers: number;
+}
+
+const SPEED_PRESETS = [1, 2, 5, 10, 25];
+
+export default function SessionClockControl({ sessionId, socket }: SessionClockControlProps) {
+  const [clock, setClock] = useState<ClockState | null>(null);
+  const [stepSeconds, setStepSeconds] = useState('1');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    fetch(`/api/sessions/${sessionId}/clock`, {
+      headers: { 'Authorization': `Bearer ${localStorage.getItem('auth_token')}` }
+    })
+      .then(response => response.ok ? response.json() : null)
+      .then(data => data && setClock(data.clock))
+      .catch(error => console.error('Failed to load session clock:', error));
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (socket) {
+      socket.on('clock_update', (state: ClockState) => {
+        setClock(state);
+      });
+
+      return () => {
+        socket.off('clock_update');
+      };
+    }
+  }, [socket]);
+
+  const updateClock = async (body: Record<string, any>) => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/clock`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+        },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setClock(data.clock);
+        setError('');
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Failed to update session clock:', error);
+    }
+  };
+
+  const formatElapsed = (ms: number) => {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            Session Clock
+          </span>
+          {clock && (
+            <Badge variant={clock.paused ? "secondary" : "default"}>
+              {clock.paused ? 'Paused' : `${clock.speed}x`}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!sessionId ? (
+          <p className="text-sm text-gray-500">Start a simulation to control its clock.</p>
+        ) : (
+          <div className="space-y-4">
+            {clock && (
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Session time</span>
+                <span className="font-medium">
+                  {formatElapsed(clock.elapsedMs)} ({new Date(clock.now).toLocaleTimeString()})
+                </span>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              {SPEED_PRESETS.map(speed => (
+                <Button
+                  key={speed}
+                  size="sm"
+                  variant={clock?.speed === speed ? "default" : "outline"}
+                  onClick={() => updateClock({ speed })}
+                >
+                  {speed}x
+                </Button>
+              ))}
+            </div>
+
+            <div className="flex gap-2 items-center">
+              {clock?.paused ? (
+                <Button size="sm" variant="outline" onClick={() => updateClock({ action: 'resume' })}>
+                  <Play className="w-4 h-4 mr-2" />
+                  Run
+                </Button>
+              ) : (
+                <Button size="sm" variant="outline" onClick={() => updateClock({ action: 'pause' })}>
+                  <Pause className="w-4 h-4 mr-2" />
+                  Freeze
+                </Button>
+              )}
+              <Input
+                type="number"
+                min="0.1"
+                step="0.1"
+                value={stepSeconds}
+                onChange={(e) => setStepSeconds(e.target.value)}
+                className="w-20"
+              />
+              <span className="text-sm text-gray-600">s</span>
+              <Button size="sm" onClick={() => updateClock({ action: 'step', stepSeconds: Number(stepSeconds) })}>
+                <SkipForward className="w-4 h-4 mr-2" />
+                Step
+              </Button>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
\ No newline at end of file
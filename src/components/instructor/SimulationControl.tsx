@@ -31,9 +31,10 @@ interface SimulationState {
 interface InstructorSimulationControlProps {
   classId: string;
   userId: string;
+  onSimulationChange?: (sessionId: string | null) => void;
 }
 
-export default function SimulationControl({ classId, userId }: InstructorSimulationControlProps) {
+export default function SimulationControl({ classId, userId, onSimulationChange }: InstructorSimulationControlProps) {
   const [simulation, setSimulation] = useState<SimulationState | null>(null);
   const [availableLessons] = useState([
     { id: 'price-formation', name: 'Price Formation', scenarios: ['A', 'B', 'C'] },
@@ -62,6 +63,7 @@ export default function SimulationControl({ classId, userId }: InstructorSimulat
       if (response.ok) {
         const newSimulation = await response.json();
         setSimulation(newSimulation);
+        onSimulationChange?.(newSimulation.id);
       }
     } catch (error) {
       console.error('Failed to start simulation:', error);
@@ -118,6 +120,7 @@ export default function SimulationControl({ classId, userId }: InstructorSimulat
       
       if (response.ok) {
         setSimulation(null);
+        onSimulationChange?.(null);
       }
     } catch (error) {
       console.error('Failed to stop simulation:', error);
@@ -14,8 +14,9 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useWebSocket } from '@/hooks/useWebSocket';
-import { PRIVILEGE_DEFINITIONS } from '@/lib/privilege-system';
+import { PRIVILEGE_DEFINITIONS, PrivilegeAuctionType } from '@/lib/privilege-system';
 import { sessionManager } from '@/lib/session-manager';
+import PrivilegeMarket from './PrivilegeMarket';
 import { 
   Gavel, 
   Clock, 
@@ -41,12 +42,34 @@ interface AuctionData {
   id: string;
   privilegeId: number;
   privilegeName: string;
+  type: PrivilegeAuctionType;
   minBid: number;
+  currentPrice: number;
+  increment: number;
+  units: number;
   endTime: Date;
   bids: Array<{ userId: string; amount: number; timestamp: Date }>;
   status: 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
 }
 
+const AUCTION_TYPE_LABELS: Record<PrivilegeAuctionType, string> = {
+  ENGLISH: 'English',
+  DUTCH: 'Dutch',
+  SEALED_FIRST: 'Sealed (first price)',
+  SEALED_SECOND: 'Sealed (second price)',
+  RIGHTS: 'Rights'
+};
+
+const isClockAuction = (auction: AuctionData) => auction.type === 'DUTCH' || auction.type === 'RIGHTS';
+const isSealed = (auction: AuctionData) => auction.type === 'SEALED_FIRST' || auction.type === 'SEALED_SECOND';
+
+// Lowest amount the auction will accept right now
+const getMinimumBid = (auction: AuctionData) => {
+  if (isClockAuction(auction)) return auction.currentPrice;
+  if (auction.type === 'ENGLISH' && auction.bids.length > 0) return auction.currentPrice + auction.increment;
+  return auction.minBid;
+};
+
 export default function PrivilegeAuction({ sessionId, userId, currentCash }: PrivilegeAuctionProps) {
   const [activeAuctions, setActiveAuctions] = useState<AuctionData[]>([]);
   const [bidAmounts, setBidAmounts] = useState<Record<string, number>>({});
@@ -85,13 +108,10 @@ export default function PrivilegeAuction({ sessionId, userId, currentCash }: Pri
       }));
       setActiveAuctions(mappedAuctions);
 
-      // Initialize bid amounts to minimum bid + 10
+      // Initialize bid amounts to the lowest acceptable bid
       const newBidAmounts: Record<string, number> = {};
       mappedAuctions.forEach(auction => {
-        const currentHighBid = auction.bids.length > 0 
-          ? Math.max(...auction.bids.map(b => b.amount))
-          : auction.minBid - 10;
-        newBidAmounts[auction.id] = Math.max(auction.minBid, currentHighBid + 10);
+        newBidAmounts[auction.id] = getMinimumBid(auction);
       });
       setBidAmounts(newBidAmounts);
 
@@ -193,23 +213,33 @@ export default function PrivilegeAuction({ sessionId, userId, currentCash }: Pri
 
   if (activeAuctions.length === 0) {
     return (
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Gavel className="h-5 w-5" />
-            Privilege Auctions
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-center py-8">
-            <Gavel className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            <p className="text-gray-500">No active auctions at this time</p>
-            <p className="text-sm text-gray-400 mt-2">
-              Auctions will appear here when the instructor starts them
-            </p>
-          </div>
-        </CardContent>
-      </Card>
+      <div className="space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Gavel className="h-5 w-5" />
+              Privilege Auctions
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-center py-8">
+              <Gavel className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-500">No active auctions at this time</p>
+              <p className="text-sm text-gray-400 mt-2">
+                Auctions will appear here when the instructor starts them
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <PrivilegeMarket
+          sessionId={sessionId}
+          userId={userId}
+          currentCash={currentCash}
+          userPrivileges={userPrivileges}
+          socket={socket}
+        />
+      </div>
     );
   }
 
@@ -236,6 +266,7 @@ export default function PrivilegeAuction({ sessionId, userId, currentCash }: Pri
           const isHighBidder = isUserHighBidder(auction);
           const remaining = timeRemaining[auction.id] || 0;
           const hasPrivilege = userPrivileges.includes(auction.privilegeId);
+          const minimumBid = getMinimumBid(auction);
 
           return (
             <Card key={auction.id} className={`border-2 ${isHighBidder ? 'border-green-300 bg-green-50' : 'border-gray-200'}`}>
@@ -245,9 +276,14 @@ export default function PrivilegeAuction({ sessionId, userId, currentCash }: Pri
                     {getPrivilegeIcon(privilege.category)}
                     {auction.privilegeName}
                   </CardTitle>
-                  <Badge className={getPrivilegeColor(privilege.category)}>
-                    {privilege.category}
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">
+                      {AUCTION_TYPE_LABELS[auction.type]}{auction.units > 1 ? ` x${auction.units}` : ''}
+                    </Badge>
+                    <Badge className={getPrivilegeColor(privilege.category)}>
+                      {privilege.category}
+                    </Badge>
+                  </div>
                 </div>
                 <p className="text-sm text-gray-600">{privilege.description}</p>
               </CardHeader>
@@ -277,9 +313,11 @@ export default function PrivilegeAuction({ sessionId, userId, currentCash }: Pri
                     <span className="ml-2 font-bold">${auction.minBid}</span>
                   </div>
                   <div>
-                    <span className="text-gray-500">High Bid:</span>
+                    <span className="text-gray-500">{isClockAuction(auction) ? 'Clock Price:' : 'High Bid:'}</span>
                     <span className="ml-2 font-bold">
-                      {currentHighBid > 0 ? `$${currentHighBid}` : 'None'}
+                      {isClockAuction(auction) ? `$${auction.currentPrice}` :
+                        isSealed(auction) ? 'Sealed' :
+                        currentHighBid > 0 ? `$${currentHighBid}` : 'None'}
                     </span>
                   </div>
                   <div>
@@ -347,7 +385,7 @@ export default function PrivilegeAuction({ sessionId, userId, currentCash }: Pri
                         ...prev,
                         [auction.id]: parseInt(e.target.value) || auction.minBid
                       }))}
-                      min={Math.max(auction.minBid, currentHighBid + 1)}
+                      min={minimumBid}
                       max={currentCash}
                       className="flex-1"
                     />
@@ -358,13 +396,15 @@ export default function PrivilegeAuction({ sessionId, userId, currentCash }: Pri
                     disabled={
                       remaining <= 0 ||
                       (bidAmounts[auction.id] || 0) > currentCash ||
-                      (bidAmounts[auction.id] || 0) < Math.max(auction.minBid, currentHighBid + 1)
+                      (bidAmounts[auction.id] || 0) < minimumBid
                     }
                     className="w-full"
                     variant={isHighBidder ? "outline" : "default"}
                   >
                     <Gavel className="h-4 w-4 mr-2" />
-                    {isHighBidder ? 'Increase Bid' : 'Place Bid'} - ${bidAmounts[auction.id] || auction.minBid}
+                    {isClockAuction(auction)
+                      ? `Accept - $${auction.currentPrice}`
+                      : `${isHighBidder ? 'Increase Bid' : 'Place Bid'} - $${bidAmounts[auction.id] || auction.minBid}`}
                   </Button>
                 </div>
 
@@ -392,6 +432,14 @@ export default function PrivilegeAuction({ sessionId, userId, currentCash }: Pri
           );
         })}
       </div>
+
+      <PrivilegeMarket
+        sessionId={sessionId}
+        userId={userId}
+        currentCash={currentCash}
+        userPrivileges={userPrivileges}
+        socket={socket}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,194 @@
+/**
+ * Privilege Market Component for Students
+ *
+ * Lets students offer privileges they hold for sale or lease to classmates
+ * and take up open offers
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PRIVILEGE_DEFINITIONS } from '@/lib/privilege-system';
+import { Handshake, Tag, X } from 'lucide-react';
+
+interface PrivilegeMarketProps {
+  sessionId: string;
+  userId: string;
+  currentCash: number;
+  userPrivileges: number[];
+  socket: any;
+}
+
+interface ListingData {
+  id: string;
+  privilegeId: number;
+  sellerId: string;
+  kind: 'SALE' | 'LEASE';
+  price: number;
+  leaseSeconds?: number;
+  createdAt: string;
+}
+
+export default function PrivilegeMarket({ sessionId, userId, currentCash, userPrivileges, socket }: PrivilegeMarketProps) {
+  const [listings, setListings] = useState<ListingData[]>([]);
+  const [privilegeId, setPrivilegeId] = useState('');
+  const [kind, setKind] = useState<'SALE' | 'LEASE'>('SALE');
+  const [price, setPrice] = useState('');
+  const [leaseMinutes, setLeaseMinutes] = useState('5');
+
+  useEffect(() => {
+    if (socket) {
+      socket.on('privilege_listings', (data: ListingData[]) => {
+        setListings(data);
+      });
+      socket.emit('get_privilege_listings', { sessionId });
+
+      return () => {
+        socket.off('privilege_listings');
+      };
+    }
+  }, [socket, sessionId]);
+
+  // Privileges the student could hand over; admin privileges stay put
+  const tradeable = userPrivileges.filter(id =>
+    PRIVILEGE_DEFINITIONS[id] && PRIVILEGE_DEFINITIONS[id].category !== 'ADMIN' && !PRIVILEGE_DEFINITIONS[id].defaultGranted
+  );
+
+  const listPrivilege = () => {
+    if (!socket) {
+      alert('Not connected to privilege market');
+      return;
+    }
+
+    socket.emit('list_privilege', {
+      userId,
+      privilegeId: parseInt(privilegeId),
+      kind,
+      price: Number(price),
+      leaseSeconds: kind === 'LEASE' ? Number(leaseMinutes) * 60 : undefined
+    });
+    setPrice('');
+  };
+
+  const formatLease = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    return minutes > 0 ? `${minutes} min` : `${seconds}s`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Handshake className="h-5 w-5" />
+          Privilege Market
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {tradeable.length > 0 && (
+          <div className="space-y-3 pb-4 border-b">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="market-privilege" className="text-sm font-medium">Offer:</Label>
+              <select
+                id="market-privilege"
+                value={privilegeId}
+                onChange={(e) => setPrivilegeId(e.target.value)}
+                className="flex-1 border rounded px-2 py-1 text-sm"
+              >
+                <option value="">Choose a privilege</option>
+                {tradeable.map(id => (
+                  <option key={id} value={id}>{PRIVILEGE_DEFINITIONS[id].name}</option>
+                ))}
+              </select>
+              <select
+                value={kind}
+                onChange={(e) => setKind(e.target.value as 'SALE' | 'LEASE')}
+                className="border rounded px-2 py-1 text-sm"
+              >
+                <option value="SALE">Sale</option>
+                <option value="LEASE">Lease</option>
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min="0"
+                placeholder="Price"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                className="flex-1"
+              />
+              {kind === 'LEASE' && (
+                <>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={leaseMinutes}
+                    onChange={(e) => setLeaseMinutes(e.target.value)}
+                    className="w-20"
+                  />
+                  <span className="text-sm text-gray-600">min</span>
+                </>
+              )}
+              <Button
+                onClick={listPrivilege}
+                disabled={!privilegeId || price === '' || Number(price) < 0 || (kind === 'LEASE' && !(Number(leaseMinutes) > 0))}
+              >
+                <Tag className="h-4 w-4 mr-2" />
+                List
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {listings.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No privileges on offer</p>
+        ) : (
+          <div className="space-y-2">
+            {listings.map(listing => {
+              const privilege = PRIVILEGE_DEFINITIONS[listing.privilegeId];
+              const isOwn = listing.sellerId === userId;
+
+              return (
+                <div key={listing.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{privilege?.name || `Privilege ${listing.privilegeId}`}</span>
+                    <Badge variant="outline">
+                      {listing.kind === 'LEASE' ? `Lease ${formatLease(listing.leaseSeconds || 0)}` : 'Sale'}
+                    </Badge>
+                    {isOwn && <span className="text-xs text-blue-600">Yours</span>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold">${listing.price}</span>
+                    {isOwn ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => socket?.emit('cancel_privilege_listing', { userId, listingId: listing.id })}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        onClick={() => socket?.emit('accept_privilege_listing', { userId, listingId: listing.id })}
+                        disabled={listing.price > currentCash || userPrivileges.includes(listing.privilegeId)}
+                      >
+                        {listing.kind === 'LEASE' ? 'Lease' : 'Buy'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
\ No newline at end of file
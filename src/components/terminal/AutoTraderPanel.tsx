@@ -0,0 +1,183 @@
+/**
+ * Auto Trader Panel - Student Strategy Scripts
+ * Privilege Code: 31
+ */
+
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+
+interface AutoTraderProps {
+  user: any;
+  sessionState: any;
+  socket: any;
+}
+
+interface AlgoLogEntry {
+  level: 'info' | 'warn' | 'error';
+  message: string;
+  timestamp: string;
+}
+
+interface AlgoStatus {
+  status: 'RUNNING' | 'STOPPED';
+  pnl: number;
+  ordersPlaced: number;
+  stopReason?: string;
+}
+
+const STARTER_SCRIPT = `// Called every second. ctx.market[security] has bid, ask and last.
+function onTick(ctx) {
+  var security = Object.keys(ctx.market)[0];
+  if (!security) return;
+  var quote = ctx.market[security];
+  if (ctx.position(security) === 0 && ctx.openOrders.length === 0 && quote.bid) {
+    ctx.buy(security, 100, quote.bid);
+  }
+}
+
+// Called when one of this script's orders fills
+function onFill(ctx, fill) {
+  console.log('Filled', fill.side, fill.quantity, fill.securityId, '@', fill.price);
+}
+`;
+
+export default function AutoTraderPanel({ user, sessionState, socket }: AutoTraderProps) {
+  const [source, setSource] = useState(STARTER_SCRIPT);
+  const [status, setStatus] = useState<AlgoStatus>({ status: 'STOPPED', pnl: 0, ordersPlaced: 0 });
+  const [logs, setLogs] = useState<AlgoLogEntry[]>([]);
+  const [busy, setBusy] = useState(false);
+  const logEndRef = useRef<HTMLDivElement>(null);
+
+  const sessionId = sessionState?.id;
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    // Pick up a script that is already running, e.g. after a page reload
+    fetch(`/api/sessions/${sessionId}/algo`, {
+      headers: { 'Authorization': `Bearer ${localStorage.getItem('auth_token')}` }
+    })
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data?.algo) {
+          setSource(data.algo.source);
+          setStatus(data.algo);
+          setLogs(data.algo.logs);
+        }
+      })
+      .catch(error => console.error('Error loading auto trader:', error));
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (socket) {
+      socket.on('algo_log', (entry: AlgoLogEntry) => {
+        setLogs(prev => [...prev, entry].slice(-200));
+      });
+
+      socket.on('algo_status', (data: AlgoStatus) => {
+        setStatus(data);
+      });
+
+      return () => {
+        socket.off('algo_log');
+        socket.off('algo_status');
+      };
+    }
+  }, [socket]);
+
+  useEffect(() => {
+    logEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [logs]);
+
+  const sendRequest = async (method: 'POST' | 'DELETE') => {
+    if (!sessionId) return;
+    setBusy(true);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/algo`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+        },
+        body: method === 'POST' ? JSON.stringify({ source }) : undefined
+      });
+      const data = await response.json();
+
+      if (data.algo) {
+        setStatus(data.algo);
+        setLogs(data.algo.logs);
+      } else if (!response.ok) {
+        setLogs(prev => [...prev, { level: 'error' as const, message: data.error, timestamp: new Date().toISOString() }]);
+      }
+    } catch (error) {
+      console.error('Error contacting auto trader:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const getLevelColor = (level: string) => {
+    switch (level) {
+      case 'warn': return 'text-yellow-400';
+      case 'error': return 'text-red-400';
+      default: return 'text-gray-300';
+    }
+  };
+
+  const running = status.status === 'RUNNING';
+
+  return (
+    <div className="h-full p-3 text-xs bg-black text-white flex flex-col">
+      <div className="flex justify-between items-center text-orange-400 font-bold mb-2 border-b border-gray-700 pb-1">
+        <span>AUTO TRADER</span>
+        <span className="flex items-center space-x-3">
+          <span className={running ? 'text-green-400' : 'text-gray-500'}>{status.status}</span>
+          <span className={status.pnl >= 0 ? 'text-green-400' : 'text-red-400'}>
+            P&L {status.pnl >= 0 ? '+' : ''}${status.pnl.toFixed(2)}
+          </span>
+          <span className="text-gray-400">ORDERS {status.ordersPlaced}</span>
+        </span>
+      </div>
+
+      <textarea
+        value={source}
+        onChange={(e) => setSource(e.target.value)}
+        spellCheck={false}
+        className="flex-1 min-h-0 w-full bg-gray-900 text-green-300 font-mono text-xs p-2 rounded border border-gray-700 focus:outline-none focus:border-orange-400"
+      />
+
+      <div className="flex justify-between items-center my-2">
+        <span className="text-gray-500 truncate">
+          {!running && status.stopReason ? `Stopped: ${status.stopReason}` : user?.username}
+        </span>
+        <div className="space-x-2">
+          <button
+            onClick={() => sendRequest('POST')}
+            disabled={busy || !sessionId}
+            className="px-3 py-1 bg-green-700 text-white rounded hover:bg-green-600 disabled:opacity-50"
+          >
+            {running ? 'RESTART' : 'START'}
+          </button>
+          <button
+            onClick={() => sendRequest('DELETE')}
+            disabled={busy || !running}
+            className="px-3 py-1 bg-red-700 text-white rounded hover:bg-red-600 disabled:opacity-50"
+          >
+            STOP
+          </button>
+        </div>
+      </div>
+
+      <div className="h-24 overflow-y-auto bg-gray-900 rounded p-1 font-mono">
+        {logs.map((entry, index) => (
+          <div key={index} className={getLevelColor(entry.level)}>
+            <span className="text-gray-500">{new Date(entry.timestamp).toLocaleTimeString()}</span> {entry.message}
+          </div>
+        ))}
+        <div ref={logEndRef} />
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
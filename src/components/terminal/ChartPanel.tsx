@@ -1,11 +1,20 @@
 /**
  * Chart Panel - Technical Analysis & Price Charts
  * Privilege Code: 3
+ *
+ * Candles come from the session's own executions: history from
+ * /api/market/data, then live bars over the socket. Indicators are
+ * computed from that series.
  */
 
 'use client';
 
 import { useState, useEffect } from 'react';
+import {
+  simpleMovingAverage,
+  relativeStrengthIndex,
+  movingAverageConvergenceDivergence
+} from '@/lib/technical-indicators';
 
 interface ChartProps {
   user: any;
@@ -13,18 +22,31 @@ interface ChartProps {
   socket: any;
 }
 
+type Resolution = 'tick' | '1s' | '5s' | '1m';
+
 interface OHLC {
-  timestamp: string;
+  time: number;
   open: number;
   high: number;
   low: number;
   close: number;
   volume: number;
+  trades: number;
 }
 
+const DEFAULT_SYMBOLS = ['AOE', 'BOND1', 'BOND2', 'BOND3'];
+const VISIBLE_CANDLES = 40;
+const MAX_CANDLES = 1000;
+
+// Chart geometry in viewBox units
+const CHART_WIDTH = 220;
+const PRICE_HEIGHT = 70;
+const VOLUME_TOP = 76;
+const VOLUME_HEIGHT = 24;
+
 export default function ChartPanel({ user, sessionState, socket }: ChartProps) {
   const [selectedSymbol, setSelectedSymbol] = useState('AOE');
-  const [timeframe, setTimeframe] = useState('1m');
+  const [timeframe, setTimeframe] = useState<Resolution>('1m');
   const [indicators, setIndicators] = useState({
     sma20: true,
     sma50: false,
@@ -32,64 +54,160 @@ export default function ChartPanel({ user, sessionState, socket }: ChartProps) {
     macd: false,
     volume: true
   });
+  const [chartData, setChartData] = useState<OHLC[]>([]);
+  const [symbols, setSymbols] = useState<string[]>(DEFAULT_SYMBOLS);
+  const [loading, setLoading] = useState(false);
 
-  const [chartData] = useState<OHLC[]>([
-    { timestamp: '09:30', open: 49.50, high: 49.75, low: 49.25, close: 49.60, volume: 1250 },
-    { timestamp: '09:31', open: 49.60, high: 49.85, low: 49.45, close: 49.70, volume: 1480 },
-    { timestamp: '09:32', open: 49.70, high: 50.10, low: 49.65, close: 49.95, volume: 2100 },
-    { timestamp: '09:33', open: 49.95, high: 50.15, low: 49.80, close: 50.05, volume: 1875 },
-    { timestamp: '09:34', open: 50.05, high: 50.25, low: 49.90, close: 50.20, volume: 1650 },
-    { timestamp: '09:35', open: 50.20, high: 50.35, low: 50.00, close: 50.15, volume: 1420 },
-    { timestamp: '09:36', open: 50.15, high: 50.30, low: 49.95, close: 50.25, volume: 1890 },
-    { timestamp: '09:37', open: 50.25, high: 50.45, low: 50.10, close: 50.35, volume: 2250 },
-  ]);
-
-  const currentPrice = chartData[chartData.length - 1]?.close || 50.00;
-  const priceChange = currentPrice - (chartData[0]?.open || 49.50);
-  const priceChangePercent = (priceChange / (chartData[0]?.open || 49.50)) * 100;
-
-  const maxPrice = Math.max(...chartData.map(d => d.high));
-  const minPrice = Math.min(...chartData.map(d => d.low));
-  const priceRange = maxPrice - minPrice;
+  const sessionId = sessionState?.id;
 
-  const drawCandle = (data: OHLC, index: number) => {
-    const x = index * 25 + 10;
-    const bodyHeight = Math.abs(data.close - data.open) / priceRange * 80;
-    const wickTop = (maxPrice - data.high) / priceRange * 80;
-    const wickBottom = (data.low - minPrice) / priceRange * 80;
-    const bodyTop = data.close > data.open ? 
-      (maxPrice - data.close) / priceRange * 80 : 
-      (maxPrice - data.open) / priceRange * 80;
+  // History for the selected symbol and resolution
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const loadCandles = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ sessionId, symbol: selectedSymbol, resolution: timeframe });
+        const response = await fetch(`/api/market/data?${params.toString()}`);
+        const result = await response.json();
+
+        if (response.ok && result.success) {
+          setChartData(result.candles);
+          setSymbols(Array.from(new Set([...DEFAULT_SYMBOLS, ...result.symbols])));
+        } else {
+          console.error('Failed to load candles:', result.error);
+        }
+      } catch (error) {
+        console.error('Failed to load candles:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    setChartData([]);
+    loadCandles();
+  }, [sessionId, selectedSymbol, timeframe]);
+
+  // Live bars: replace the bar being built or append a new one
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleCandleUpdate = (data: { symbol: string; candles: Record<Resolution, OHLC> }) => {
+      if (!symbols.includes(data.symbol)) {
+        setSymbols(prev => prev.includes(data.symbol) ? prev : [...prev, data.symbol]);
+      }
+      if (data.symbol !== selectedSymbol) return;
+
+      const candle = data.candles[timeframe];
+      if (!candle) return;
 
+      setChartData(prev => {
+        const index = prev.findIndex(existing => existing.time === candle.time);
+        if (index >= 0 && timeframe !== 'tick') {
+          const next = [...prev];
+          next[index] = candle;
+          return next;
+        }
+        return [...prev, candle].sort((a, b) => a.time - b.time).slice(-MAX_CANDLES);
+      });
+    };
+
+    socket.on('candle_update', handleCandleUpdate);
+
+    return () => {
+      socket.off('candle_update', handleCandleUpdate);
+    };
+  }, [socket, selectedSymbol, timeframe, symbols]);
+
+  const closes = chartData.map(d => d.close);
+  const sma20 = simpleMovingAverage(closes, 20);
+  const sma50 = simpleMovingAverage(closes, 50);
+  const rsi = relativeStrengthIndex(closes, 14);
+  const macd = movingAverageConvergenceDivergence(closes);
+
+  const firstVisible = Math.max(0, chartData.length - VISIBLE_CANDLES);
+  const visible = chartData.slice(firstVisible);
+  const step = CHART_WIDTH / VISIBLE_CANDLES;
+  const xAt = (index: number) => index * step + step / 2;
+
+  const currentPrice = chartData[chartData.length - 1]?.close || 0;
+  const openPrice = chartData[0]?.open || currentPrice;
+  const priceChange = currentPrice - openPrice;
+  const priceChangePercent = openPrice > 0 ? (priceChange / openPrice) * 100 : 0;
+
+  // Price scale covers the visible bars and any moving average drawn over them
+  const overlay = [
+    ...(indicators.sma20 ? sma20.slice(firstVisible) : []),
+    ...(indicators.sma50 ? sma50.slice(firstVisible) : [])
+  ].filter((value): value is number => value !== null);
+  const maxPrice = Math.max(...visible.map(d => d.high), ...overlay);
+  const minPrice = Math.min(...visible.map(d => d.low), ...overlay);
+  const priceRange = maxPrice - minPrice || Math.max(maxPrice * 0.001, 0.01);
+  const yAt = (price: number) => (maxPrice - price) / priceRange * PRICE_HEIGHT + 2;
+  const maxVolume = Math.max(1, ...visible.map(d => d.volume));
+
+  const formatTime = (time: number) => new Date(time).toLocaleTimeString();
+
+  const linePoints = (values: Array<number | null>, y: (value: number) => number) =>
+    values.slice(firstVisible)
+      .map((value, index) => value === null ? null : `${xAt(index)},${y(value)}`)
+      .filter(Boolean)
+      .join(' ');
+
+  const drawCandle = (data: OHLC, index: number) => {
+    const x = xAt(index);
     const isGreen = data.close >= data.open;
+    const color = isGreen ? '#10b981' : '#ef4444';
+    const bodyTop = yAt(Math.max(data.open, data.close));
+    const bodyHeight = Math.abs(data.close - data.open) / priceRange * PRICE_HEIGHT;
 
     return (
-      <g key={index}>
+      <g key={data.time + ':' + index}>
         {/* Wick */}
-        <line 
-          x1={x} y1={wickTop} x2={x} y2={100 - wickBottom}
-          stroke={isGreen ? '#10b981' : '#ef4444'} 
-          strokeWidth="1"
+        <line
+          x1={x} y1={yAt(data.high)} x2={x} y2={yAt(data.low)}
+          stroke={color}
+          strokeWidth="0.5"
         />
         {/* Body */}
         <rect
-          x={x - 4}
+          x={x - step * 0.3}
           y={bodyTop}
-          width="8"
-          height={bodyHeight || 1}
-          fill={isGreen ? '#10b981' : '#ef4444'}
-          stroke={isGreen ? '#10b981' : '#ef4444'}
+          width={step * 0.6}
+          height={bodyHeight || 0.5}
+          fill={color}
+          stroke={color}
+          strokeWidth="0.2"
         />
+        {/* Volume */}
+        {indicators.volume && (
+          <rect
+            x={x - step * 0.3}
+            y={VOLUME_TOP + VOLUME_HEIGHT - data.volume / maxVolume * VOLUME_HEIGHT}
+            width={step * 0.6}
+            height={data.volume / maxVolume * VOLUME_HEIGHT}
+            fill={color}
+            opacity="0.4"
+          />
+        )}
       </g>
     );
   };
 
+  const latestRSI = rsi[rsi.length - 1];
+  const latestMACD = macd[macd.length - 1];
+  const macdValues = macd.slice(firstVisible).flatMap(point =>
+    point ? [point.macd, point.signal ?? point.macd, point.histogram ?? 0] : []
+  );
+  const macdScale = Math.max(0.0001, ...macdValues.map(Math.abs));
+  const macdY = (value: number) => 15 - value / macdScale * 13;
+
   return (
     <div className="h-full p-3 text-xs bg-black text-white">
       <div className="text-orange-400 font-bold mb-3 border-b border-gray-700 pb-1">
         PRICE CHART & TECHNICAL ANALYSIS
       </div>
-      
+
       {/* Chart Controls */}
       <div className="mb-3 flex gap-4">
         <div>
@@ -98,23 +216,21 @@ export default function ChartPanel({ user, sessionState, socket }: ChartProps) {
             onChange={(e) => setSelectedSymbol(e.target.value)}
             className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-xs"
           >
-            <option value="AOE">AOE</option>
-            <option value="BOND1">BOND1</option>
-            <option value="BOND2">BOND2</option>
-            <option value="BOND3">BOND3</option>
+            {symbols.map(symbol => (
+              <option key={symbol} value={symbol}>{symbol}</option>
+            ))}
           </select>
         </div>
         <div>
           <select
             value={timeframe}
-            onChange={(e) => setTimeframe(e.target.value)}
+            onChange={(e) => setTimeframe(e.target.value as Resolution)}
             className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-xs"
           >
+            <option value="tick">Tick</option>
+            <option value="1s">1 Sec</option>
+            <option value="5s">5 Sec</option>
             <option value="1m">1 Min</option>
-            <option value="5m">5 Min</option>
-            <option value="15m">15 Min</option>
-            <option value="1h">1 Hour</option>
-            <option value="1d">Daily</option>
           </select>
         </div>
       </div>
@@ -124,7 +240,7 @@ export default function ChartPanel({ user, sessionState, socket }: ChartProps) {
         <div className="grid grid-cols-4 gap-2">
           <div>
             <span className="text-gray-400">Last:</span>
-            <div className="text-white font-bold">${currentPrice.toFixed(2)}</div>
+            <div className="text-white font-bold">{chartData.length > 0 ? `$${currentPrice.toFixed(2)}` : '--'}</div>
           </div>
           <div>
             <span className="text-gray-400">Change:</span>
@@ -148,41 +264,107 @@ export default function ChartPanel({ user, sessionState, socket }: ChartProps) {
       {/* Candlestick Chart */}
       <div className="mb-3">
         <div className="bg-gray-900 p-2 rounded">
-          <svg width="100%" height="120" viewBox="0 0 220 100">
-            {chartData.map((data, index) => drawCandle(data, index))}
-            
-            {/* Price Labels */}
-            <text x="225" y="15" fill="#9ca3af" fontSize="8">${maxPrice.toFixed(2)}</text>
-            <text x="225" y="95" fill="#9ca3af" fontSize="8">${minPrice.toFixed(2)}</text>
-          </svg>
+          {visible.length === 0 ? (
+            <div className="h-[120px] flex items-center justify-center text-gray-500">
+              {loading ? 'LOADING...' : `NO TRADES IN ${selectedSymbol} YET`}
+            </div>
+          ) : (
+            <svg width="100%" height="120" viewBox="0 0 250 100">
+              {visible.map((data, index) => drawCandle(data, index))}
+
+              {indicators.sma20 && (
+                <polyline points={linePoints(sma20, yAt)} fill="none" stroke="#facc15" strokeWidth="0.6" />
+              )}
+              {indicators.sma50 && (
+                <polyline points={linePoints(sma50, yAt)} fill="none" stroke="#60a5fa" strokeWidth="0.6" />
+              )}
+
+              {/* Price Labels */}
+              <text x="223" y="8" fill="#9ca3af" fontSize="7">${maxPrice.toFixed(2)}</text>
+              <text x="223" y={PRICE_HEIGHT + 2} fill="#9ca3af" fontSize="7">${minPrice.toFixed(2)}</text>
+              {indicators.volume && (
+                <text x="223" y={VOLUME_TOP + 8} fill="#9ca3af" fontSize="6">{maxVolume.toLocaleString()}</text>
+              )}
+            </svg>
+          )}
+          {visible.length > 0 && (
+            <div className="flex justify-between text-gray-500 mt-1">
+              <span>{formatTime(visible[0].time)}</span>
+              <span>{formatTime(visible[visible.length - 1].time)}</span>
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Oscillators */}
+      {indicators.rsi && (
+        <div className="mb-2 bg-gray-900 p-2 rounded">
+          <div className="flex justify-between text-gray-400">
+            <span>RSI (14)</span>
+            <span className="text-white">{latestRSI != null ? latestRSI.toFixed(1) : '--'}</span>
+          </div>
+          <svg width="100%" height="30" viewBox="0 0 250 30">
+            <line x1="0" y1="9" x2={CHART_WIDTH} y2="9" stroke="#4b5563" strokeWidth="0.3" strokeDasharray="2" />
+            <line x1="0" y1="21" x2={CHART_WIDTH} y2="21" stroke="#4b5563" strokeWidth="0.3" strokeDasharray="2" />
+            <polyline points={linePoints(rsi, value => 30 - value * 0.3)} fill="none" stroke="#a78bfa" strokeWidth="0.6" />
+            <text x="223" y="11" fill="#9ca3af" fontSize="6">70</text>
+            <text x="223" y="23" fill="#9ca3af" fontSize="6">30</text>
+          </svg>
+        </div>
+      )}
+
+      {indicators.macd && (
+        <div className="mb-2 bg-gray-900 p-2 rounded">
+          <div className="flex justify-between text-gray-400">
+            <span>MACD (12, 26, 9)</span>
+            <span className="text-white">
+              {latestMACD ? `${latestMACD.macd.toFixed(3)} / ${latestMACD.signal?.toFixed(3) ?? '--'}` : '--'}
+            </span>
+          </div>
+          <svg width="100%" height="30" viewBox="0 0 250 30">
+            <line x1="0" y1="15" x2={CHART_WIDTH} y2="15" stroke="#4b5563" strokeWidth="0.3" />
+            {macd.slice(firstVisible).map((point, index) => point?.histogram != null && (
+              <rect
+                key={index}
+                x={xAt(index) - step * 0.3}
+                y={Math.min(15, macdY(point.histogram))}
+                width={step * 0.6}
+                height={Math.abs(macdY(point.histogram) - 15)}
+                fill={point.histogram >= 0 ? '#10b981' : '#ef4444'}
+                opacity="0.5"
+              />
+            ))}
+            <polyline points={linePoints(macd.map(point => point?.macd ?? null), macdY)} fill="none" stroke="#38bdf8" strokeWidth="0.6" />
+            <polyline points={linePoints(macd.map(point => point?.signal ?? null), macdY)} fill="none" stroke="#fb923c" strokeWidth="0.6" />
+          </svg>
+        </div>
+      )}
+
       {/* Technical Indicators */}
       <div className="mb-3">
         <div className="text-yellow-400 font-bold mb-1">INDICATORS</div>
         <div className="grid grid-cols-2 gap-1 text-xs">
           <label className="flex items-center">
-            <input 
-              type="checkbox" 
+            <input
+              type="checkbox"
               checked={indicators.sma20}
               onChange={(e) => setIndicators(prev => ({...prev, sma20: e.target.checked}))}
               className="mr-1"
             />
-            <span>SMA 20</span>
+            <span>SMA 20 {sma20[sma20.length - 1] != null && `(${sma20[sma20.length - 1]!.toFixed(2)})`}</span>
           </label>
           <label className="flex items-center">
-            <input 
-              type="checkbox" 
+            <input
+              type="checkbox"
               checked={indicators.sma50}
               onChange={(e) => setIndicators(prev => ({...prev, sma50: e.target.checked}))}
               className="mr-1"
             />
-            <span>SMA 50</span>
+            <span>SMA 50 {sma50[sma50.length - 1] != null && `(${sma50[sma50.length - 1]!.toFixed(2)})`}</span>
           </label>
           <label className="flex items-center">
-            <input 
-              type="checkbox" 
+            <input
+              type="checkbox"
               checked={indicators.rsi}
               onChange={(e) => setIndicators(prev => ({...prev, rsi: e.target.checked}))}
               className="mr-1"
@@ -190,14 +372,23 @@ export default function ChartPanel({ user, sessionState, socket }: ChartProps) {
             <span>RSI</span>
           </label>
           <label className="flex items-center">
-            <input 
-              type="checkbox" 
+            <input
+              type="checkbox"
               checked={indicators.macd}
               onChange={(e) => setIndicators(prev => ({...prev, macd: e.target.checked}))}
               className="mr-1"
             />
             <span>MACD</span>
           </label>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={indicators.volume}
+              onChange={(e) => setIndicators(prev => ({...prev, volume: e.target.checked}))}
+              className="mr-1"
+            />
+            <span>Volume</span>
+          </label>
         </div>
       </div>
 
@@ -1,6 +1,10 @@
 /**
  * Commodities Trading Panel - Futures & Commodity Markets
  * Privilege Code: 18
+ *
+ * Quotes are the lesson's listed futures. Orders go to the matching engine;
+ * positions are marked to market at each daily settlement and the variation
+ * is paid to or taken from cash.
  */
 
 'use client';
@@ -14,73 +18,143 @@ interface CommoditiesProps {
 }
 
 interface CommodityContract {
+  securityId: string;
   symbol: string;
   name: string;
-  month: string;
+  sector: string;
+  multiplier: number;
+  tickSize: number;
+  tickValue: number;
+  initialMargin: number;
+  maintenanceMargin: number;
   price: number;
+  settlement: number;
   change: number;
   changePercent: number;
+  high?: number;
+  low?: number;
   volume: number;
   openInterest: number;
-  high: number;
-  low: number;
-  settlement: number;
-  marginReq: number;
-  tickSize: number;
-  tickValue: number;
+  bid?: number;
+  ask?: number;
+  day: number;
+  daysToExpiry: number;
+  status: 'OPEN' | 'EXPIRED';
 }
 
+// Enough decimals to show a whole tick
+const decimals = (tickSize: number) => Math.max(2, (tickSize.toString().split('.')[1] || '').length);
+
 export default function CommoditiesPanel({ user, sessionState, socket }: CommoditiesProps) {
-  const [selectedSector, setSelectedSector] = useState('ENERGY');
-  const [selectedContract, setSelectedContract] = useState<CommodityContract | null>(null);
-  
-  const [commoditiesData] = useState<{[key: string]: CommodityContract[]}>({
-    ENERGY: [
-      { symbol: 'CLZ4', name: 'Crude Oil', month: 'Dec 2024', price: 78.45, change: 1.25, changePercent: 1.62, volume: 125400, openInterest: 89500, high: 79.12, low: 77.80, settlement: 78.45, marginReq: 4500, tickSize: 0.01, tickValue: 10 },
-      { symbol: 'NGZ4', name: 'Natural Gas', month: 'Dec 2024', price: 3.125, change: -0.085, changePercent: -2.65, volume: 89200, openInterest: 156000, high: 3.210, low: 3.105, settlement: 3.125, marginReq: 1200, tickSize: 0.001, tickValue: 10 },
-      { symbol: 'RBZ4', name: 'RBOB Gasoline', month: 'Dec 2024', price: 2.1450, change: 0.0325, changePercent: 1.54, volume: 45600, openInterest: 67800, high: 2.1580, low: 2.1320, settlement: 2.1450, marginReq: 3200, tickSize: 0.0001, tickValue: 4.20 },
-    ],
-    METALS: [
-      { symbol: 'GCZ4', name: 'Gold', month: 'Dec 2024', price: 1985.60, change: 12.80, changePercent: 0.65, volume: 78900, openInterest: 245000, high: 1992.40, low: 1978.20, settlement: 1985.60, marginReq: 6500, tickSize: 0.10, tickValue: 10 },
-      { symbol: 'SIZ4', name: 'Silver', month: 'Dec 2024', price: 24.125, change: -0.385, changePercent: -1.57, volume: 52400, openInterest: 89600, high: 24.580, low: 24.020, settlement: 24.125, marginReq: 4800, tickSize: 0.005, tickValue: 25 },
-      { symbol: 'HGZ4', name: 'Copper', month: 'Dec 2024', price: 3.8250, change: 0.0475, changePercent: 1.26, volume: 32100, openInterest: 67500, high: 3.8420, low: 3.7890, settlement: 3.8250, marginReq: 2800, tickSize: 0.0005, tickValue: 12.50 },
-    ],
-    AGRICULTURE: [
-      { symbol: 'CZ4', name: 'Corn', month: 'Dec 2024', price: 455.75, change: -8.25, changePercent: -1.78, volume: 95600, openInterest: 187000, high: 465.50, low: 454.00, settlement: 455.75, marginReq: 1500, tickSize: 0.25, tickValue: 12.50 },
-      { symbol: 'SZ4', name: 'Soybeans', month: 'Jan 2025', price: 1245.50, change: 15.75, changePercent: 1.28, volume: 67800, openInterest: 145000, high: 1252.00, low: 1238.25, settlement: 1245.50, marginReq: 3200, tickSize: 0.25, tickValue: 12.50 },
-      { symbol: 'WZ4', name: 'Wheat', month: 'Dec 2024', price: 585.25, change: -12.50, changePercent: -2.09, volume: 42300, openInterest: 98500, high: 598.75, low: 582.00, settlement: 585.25, marginReq: 1800, tickSize: 0.25, tickValue: 12.50 },
-    ]
-  });
-
-  const currentContracts = commoditiesData[selectedSector] || [];
+  const [selectedSector, setSelectedSector] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [contracts, setContracts] = useState<CommodityContract[]>([]);
+  const [quantity, setQuantity] = useState('1');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [status, setStatus] = useState('');
+
+  const sessionId = sessionState?.id;
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleQuotes = (data: { quotes: CommodityContract[] }) => {
+      setContracts(data.quotes);
+    };
+    const handleVariation = (data: { symbol: string; amount: number; settlementPrice: number; final: boolean }) => {
+      const amount = `${data.amount < 0 ? '-' : '+'}$${Math.abs(data.amount).toFixed(2)}`;
+      setStatus(`${data.final ? 'FINAL SETTLEMENT' : 'VARIATION MARGIN'} ${data.symbol} @ ${data.settlementPrice}: ${amount}`);
+    };
+
+    socket.on('futures_quotes', handleQuotes);
+    socket.on('variation_margin', handleVariation);
+
+    if (sessionId) {
+      socket.emit('get_futures_quotes', { sessionId });
+    }
+
+    return () => {
+      socket.off('futures_quotes', handleQuotes);
+      socket.off('variation_margin', handleVariation);
+    };
+  }, [socket, sessionId]);
+
+  const sectors = [...new Set(contracts.map(contract => contract.sector))];
+  const sector = sectors.includes(selectedSector) ? selectedSector : sectors[0] || '';
+  const currentContracts = contracts.filter(contract => contract.sector === sector);
+  const selectedContract = contracts.find(contract => contract.securityId === selectedId) || null;
 
   const getTotalValue = (contract: CommodityContract) => {
-    // Simplified contract value calculation
-    return contract.price * 100; // Assuming 100 unit contracts
+    return contract.price * contract.multiplier;
+  };
+
+  const selectContract = (contract: CommodityContract) => {
+    setSelectedId(contract.securityId);
+    setLimitPrice(contract.price.toFixed(decimals(contract.tickSize)));
   };
 
-  const sectors = Object.keys(commoditiesData);
+  const submitOrder = (side: 'BUY' | 'SELL') => {
+    if (!selectedContract) return;
+    const contractsToTrade = parseInt(quantity);
+    if (!contractsToTrade || contractsToTrade <= 0) {
+      setStatus('ERROR: Invalid quantity');
+      return;
+    }
+    const limit = limitPrice ? parseFloat(limitPrice) : undefined;
+    if (limit !== undefined && !(limit > 0)) {
+      setStatus('ERROR: Invalid price');
+      return;
+    }
+    if (!socket || !socket.connected) {
+      setStatus('ERROR: Not connected to trading system');
+      return;
+    }
+
+    socket.emit('submit_order', {
+      id: `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId: user?.id || 'unknown',
+      securityId: selectedContract.securityId,
+      symbol: selectedContract.symbol,
+      side,
+      type: limit !== undefined ? 'LIMIT' : 'MARKET',
+      quantity: contractsToTrade,
+      price: limit,
+      timeInForce: 'DAY'
+    });
+    setStatus(`${side} ${contractsToTrade} ${selectedContract.symbol} ${limit !== undefined ? `@ ${limit}` : 'MKT'} SENT`);
+  };
+
+  if (contracts.length === 0) {
+    return (
+      <div className="h-full p-3 text-xs bg-black text-white">
+        <div className="text-orange-400 font-bold mb-3 border-b border-gray-700 pb-1">
+          COMMODITIES & FUTURES
+        </div>
+        <div className="text-gray-500 text-center py-6">No futures contracts are listed in this lesson</div>
+      </div>
+    );
+  }
 
   return (
     <div className="h-full p-3 text-xs bg-black text-white">
       <div className="text-orange-400 font-bold mb-3 border-b border-gray-700 pb-1">
         COMMODITIES & FUTURES
       </div>
-      
+
       {/* Sector Selection */}
       <div className="mb-3">
         <div className="flex gap-1">
-          {sectors.map((sector) => (
+          {sectors.map((name) => (
             <button
-              key={sector}
-              onClick={() => setSelectedSector(sector)}
+              key={name}
+              onClick={() => setSelectedSector(name)}
               className={`px-2 py-1 text-xs rounded ${
-                selectedSector === sector 
-                  ? 'bg-orange-600 text-white' 
+                sector === name
+                  ? 'bg-orange-600 text-white'
                   : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
               }`}
             >
-              {sector}
+              {name}
             </button>
           ))}
         </div>
@@ -88,8 +162,8 @@ export default function CommoditiesPanel({ user, sessionState, socket }: Commodi
 
       {/* Contracts Table */}
       <div className="mb-3">
-        <div className="text-yellow-400 font-bold mb-2">{selectedSector} FUTURES</div>
-        
+        <div className="text-yellow-400 font-bold mb-2">{sector} FUTURES</div>
+
         {/* Headers */}
         <div className="grid grid-cols-7 gap-1 text-gray-400 border-b border-gray-700 pb-1 text-xs">
           <span>SYMBOL</span>
@@ -104,24 +178,24 @@ export default function CommoditiesPanel({ user, sessionState, socket }: Commodi
         {/* Contract Rows */}
         <div className="max-h-32 overflow-y-auto">
           {currentContracts.map((contract) => (
-            <div 
-              key={contract.symbol} 
+            <div
+              key={contract.securityId}
               className={`grid grid-cols-7 gap-1 text-xs py-1 hover:bg-gray-800 cursor-pointer ${
-                selectedContract?.symbol === contract.symbol ? 'bg-gray-800' : ''
+                selectedContract?.securityId === contract.securityId ? 'bg-gray-800' : ''
               }`}
-              onClick={() => setSelectedContract(contract)}
+              onClick={() => selectContract(contract)}
             >
               <span className="text-yellow-400">{contract.symbol}</span>
-              <span className="text-white">{contract.price.toFixed(contract.symbol.startsWith('NG') ? 3 : 2)}</span>
+              <span className="text-white">{contract.price.toFixed(decimals(contract.tickSize))}</span>
               <span className={contract.change >= 0 ? 'text-green-400' : 'text-red-400'}>
-                {contract.change >= 0 ? '+' : ''}{contract.change.toFixed(2)}
+                {contract.change >= 0 ? '+' : ''}{contract.change.toFixed(decimals(contract.tickSize))}
               </span>
               <span className={contract.changePercent >= 0 ? 'text-green-400' : 'text-red-400'}>
                 {contract.changePercent >= 0 ? '+' : ''}{contract.changePercent.toFixed(2)}%
               </span>
               <span className="text-gray-300">{contract.volume.toLocaleString()}</span>
               <span className="text-gray-300">{contract.openInterest.toLocaleString()}</span>
-              <span className="text-cyan-400">${contract.marginReq.toLocaleString()}</span>
+              <span className="text-cyan-400">${contract.initialMargin.toLocaleString()}</span>
             </div>
           ))}
         </div>
@@ -133,23 +207,25 @@ export default function CommoditiesPanel({ user, sessionState, socket }: Commodi
           <div className="text-yellow-400 font-bold mb-2">
             {selectedContract.name} ({selectedContract.symbol})
           </div>
-          
+
           <div className="grid grid-cols-2 gap-2 text-xs mb-2">
             <div>
-              <span className="text-gray-400">Contract Month:</span>
-              <div className="text-white">{selectedContract.month}</div>
+              <span className="text-gray-400">Expiry:</span>
+              <div className="text-white">
+                {selectedContract.status === 'EXPIRED' ? 'EXPIRED' : `${selectedContract.daysToExpiry} day(s)`}
+              </div>
             </div>
             <div>
               <span className="text-gray-400">Settlement:</span>
-              <div className="text-white">{selectedContract.settlement.toFixed(2)}</div>
+              <div className="text-white">{selectedContract.settlement.toFixed(decimals(selectedContract.tickSize))}</div>
             </div>
             <div>
               <span className="text-gray-400">Day High:</span>
-              <div className="text-green-400">{selectedContract.high.toFixed(2)}</div>
+              <div className="text-green-400">{selectedContract.high?.toFixed(decimals(selectedContract.tickSize)) ?? '-'}</div>
             </div>
             <div>
               <span className="text-gray-400">Day Low:</span>
-              <div className="text-red-400">{selectedContract.low.toFixed(2)}</div>
+              <div className="text-red-400">{selectedContract.low?.toFixed(decimals(selectedContract.tickSize)) ?? '-'}</div>
             </div>
             <div>
               <span className="text-gray-400">Tick Size:</span>
@@ -157,12 +233,20 @@ export default function CommoditiesPanel({ user, sessionState, socket }: Commodi
             </div>
             <div>
               <span className="text-gray-400">Tick Value:</span>
-              <div className="text-white">${selectedContract.tickValue}</div>
+              <div className="text-white">${selectedContract.tickValue.toFixed(2)}</div>
+            </div>
+            <div>
+              <span className="text-gray-400">Multiplier:</span>
+              <div className="text-white">{selectedContract.multiplier.toLocaleString()}</div>
+            </div>
+            <div>
+              <span className="text-gray-400">Maintenance:</span>
+              <div className="text-white">${selectedContract.maintenanceMargin.toLocaleString()}</div>
             </div>
           </div>
 
           <div className="border-t border-gray-700 pt-2">
-            <div className="text-gray-400 text-xs mb-1">Contract Value (Est.):</div>
+            <div className="text-gray-400 text-xs mb-1">Contract Value:</div>
             <div className="text-green-400 font-bold">${getTotalValue(selectedContract).toLocaleString()}</div>
           </div>
         </div>
@@ -174,7 +258,7 @@ export default function CommoditiesPanel({ user, sessionState, socket }: Commodi
         <div className="grid grid-cols-2 gap-2 text-xs">
           <div>
             <span className="text-gray-400">Active Contracts:</span>
-            <div className="text-white">{currentContracts.length}</div>
+            <div className="text-white">{currentContracts.filter(c => c.status === 'OPEN').length}</div>
           </div>
           <div>
             <span className="text-gray-400">Total Volume:</span>
@@ -191,21 +275,47 @@ export default function CommoditiesPanel({ user, sessionState, socket }: Commodi
         </div>
       </div>
 
+      {/* Order Entry */}
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <input
+          type="number"
+          min="1"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          placeholder="Contracts"
+          className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-xs"
+        />
+        <input
+          type="number"
+          step={selectedContract?.tickSize ?? 0.01}
+          value={limitPrice}
+          onChange={(e) => setLimitPrice(e.target.value)}
+          placeholder="Limit (blank = market)"
+          className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-xs"
+        />
+      </div>
+
       {/* Trading Actions */}
       <div className="grid grid-cols-2 gap-2">
-        <button 
-          className="bg-green-700 hover:bg-green-600 text-white py-1 px-2 rounded text-xs"
-          disabled={!selectedContract}
+        <button
+          onClick={() => submitOrder('BUY')}
+          className="bg-green-700 hover:bg-green-600 disabled:bg-gray-700 text-white py-1 px-2 rounded text-xs"
+          disabled={!selectedContract || selectedContract.status === 'EXPIRED'}
         >
           BUY
         </button>
-        <button 
-          className="bg-red-700 hover:bg-red-600 text-white py-1 px-2 rounded text-xs"
-          disabled={!selectedContract}
+        <button
+          onClick={() => submitOrder('SELL')}
+          className="bg-red-700 hover:bg-red-600 disabled:bg-gray-700 text-white py-1 px-2 rounded text-xs"
+          disabled={!selectedContract || selectedContract.status === 'EXPIRED'}
         >
           SELL
         </button>
       </div>
+
+      {status && (
+        <div className="mt-2 text-gray-300">{status}</div>
+      )}
     </div>
   );
 }
\ No newline at end of file
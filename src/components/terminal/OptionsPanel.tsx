@@ -1,6 +1,10 @@
 /**
  * Options Trading Panel - Options Chain & Greeks
  * Privilege Code: 17
+ *
+ * The chain is the session's listed series with theoretical values and
+ * greeks from the server's pricing model. Orders go to the matching engine
+ * like any other security; American series can be exercised from here.
  */
 
 'use client';
@@ -14,44 +18,97 @@ interface OptionsProps {
 }
 
 interface OptionContract {
+  securityId: string;
   symbol: string;
-  strike: number;
-  expiration: string;
+  underlying: string;
   type: 'CALL' | 'PUT';
-  bid: number;
-  ask: number;
-  last: number;
+  strike: number;
+  style: 'AMERICAN' | 'EUROPEAN';
+  expiryDays: number;
+  daysToExpiry: number;
+  underlyingPrice: number;
+  theoreticalValue: number;
+  intrinsicValue: number;
+  impliedVol: number;
+  greeks: {
+    delta: number;
+    gamma: number;
+    theta: number;
+    vega: number;
+    rho: number;
+  };
+  bid?: number;
+  ask?: number;
+  last?: number;
   volume: number;
   openInterest: number;
-  impliedVol: number;
-  delta: number;
-  gamma: number;
-  theta: number;
-  vega: number;
+  status: 'OPEN' | 'EXPIRED';
 }
 
+const price = (value?: number) => value !== undefined ? value.toFixed(2) : '-';
+
 export default function OptionsPanel({ user, sessionState, socket }: OptionsProps) {
-  const [underlyingSymbol, setUnderlyingSymbol] = useState('AOE');
-  const [selectedExpiration, setSelectedExpiration] = useState('2024-01-19');
-  const [underlyingPrice] = useState(50.00);
-  
-  const [optionsChain] = useState<OptionContract[]>([
-    // Calls
-    { symbol: 'AOE240119C47500', strike: 47.5, expiration: '2024-01-19', type: 'CALL', bid: 3.20, ask: 3.30, last: 3.25, volume: 150, openInterest: 1250, impliedVol: 0.285, delta: 0.78, gamma: 0.15, theta: -0.08, vega: 0.12 },
-    { symbol: 'AOE240119C50000', strike: 50.0, expiration: '2024-01-19', type: 'CALL', bid: 1.85, ask: 1.95, last: 1.90, volume: 320, openInterest: 2100, impliedVol: 0.265, delta: 0.52, gamma: 0.18, theta: -0.12, vega: 0.15 },
-    { symbol: 'AOE240119C52500', strike: 52.5, expiration: '2024-01-19', type: 'CALL', bid: 0.95, ask: 1.05, last: 1.00, volume: 85, openInterest: 850, impliedVol: 0.275, delta: 0.28, gamma: 0.12, theta: -0.09, vega: 0.11 },
-    
-    // Puts  
-    { symbol: 'AOE240119P47500', strike: 47.5, expiration: '2024-01-19', type: 'PUT', bid: 0.75, ask: 0.85, last: 0.80, volume: 95, openInterest: 750, impliedVol: 0.290, delta: -0.22, gamma: 0.15, theta: -0.08, vega: 0.12 },
-    { symbol: 'AOE240119P50000', strike: 50.0, expiration: '2024-01-19', type: 'PUT', bid: 1.80, ask: 1.90, last: 1.85, volume: 220, openInterest: 1850, impliedVol: 0.265, delta: -0.48, gamma: 0.18, theta: -0.12, vega: 0.15 },
-    { symbol: 'AOE240119P52500', strike: 52.5, expiration: '2024-01-19', type: 'PUT', bid: 3.45, ask: 3.55, last: 3.50, volume: 140, openInterest: 980, impliedVol: 0.275, delta: -0.72, gamma: 0.12, theta: -0.09, vega: 0.11 },
-  ]);
-
-  const [selectedOption, setSelectedOption] = useState<OptionContract | null>(null);
-
-  const callOptions = optionsChain.filter(opt => opt.type === 'CALL');
-  const putOptions = optionsChain.filter(opt => opt.type === 'PUT');
-  const strikes = [...new Set(optionsChain.map(opt => opt.strike))].sort((a, b) => a - b);
+  const [optionsChain, setOptionsChain] = useState<OptionContract[]>([]);
+  const [underlyingSymbol, setUnderlyingSymbol] = useState('');
+  const [selectedExpiration, setSelectedExpiration] = useState<number | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [quantity, setQuantity] = useState('1');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [status, setStatus] = useState('');
+
+  const sessionId = sessionState?.id;
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleChain = (data: { chain: OptionContract[] }) => {
+      setOptionsChain(data.chain);
+    };
+    const handleExercised = (data: { symbol: string; quantity: number; intrinsicValue: number }) => {
+      setStatus(`EXERCISED ${data.quantity} ${data.symbol} @ ${data.intrinsicValue.toFixed(2)} intrinsic`);
+    };
+    const handleAssigned = (data: { symbol: string; quantity: number }) => {
+      setStatus(`ASSIGNED ${data.quantity} ${data.symbol}`);
+    };
+    const handleExerciseRejected = (data: { reason: string }) => {
+      setStatus(`EXERCISE REJECTED: ${data.reason}`);
+    };
+    const handleExpired = (data: { symbol: string; settlementPrice: number }) => {
+      setStatus(`${data.symbol} EXPIRED, SETTLED @ ${data.settlementPrice.toFixed(2)}`);
+    };
+
+    socket.on('options_chain', handleChain);
+    socket.on('option_exercised', handleExercised);
+    socket.on('option_assigned', handleAssigned);
+    socket.on('option_exercise_rejected', handleExerciseRejected);
+    socket.on('option_expired', handleExpired);
+
+    if (sessionId) {
+      socket.emit('get_options_chain', { sessionId });
+    }
+
+    return () => {
+      socket.off('options_chain', handleChain);
+      socket.off('option_exercised', handleExercised);
+      socket.off('option_assigned', handleAssigned);
+      socket.off('option_exercise_rejected', handleExerciseRejected);
+      socket.off('option_expired', handleExpired);
+    };
+  }, [socket, sessionId]);
+
+  const underlyings = [...new Set(optionsChain.map(opt => opt.underlying))];
+  const underlying = underlyings.includes(underlyingSymbol) ? underlyingSymbol : underlyings[0] || '';
+  const forUnderlying = optionsChain.filter(opt => opt.underlying === underlying);
+  const expirations = [...new Set(forUnderlying.map(opt => opt.expiryDays))].sort((a, b) => a - b);
+  const expiration = selectedExpiration !== null && expirations.includes(selectedExpiration) ? selectedExpiration : expirations[0];
+  const series = forUnderlying.filter(opt => opt.expiryDays === expiration);
+
+  const callOptions = series.filter(opt => opt.type === 'CALL');
+  const putOptions = series.filter(opt => opt.type === 'PUT');
+  const strikes = [...new Set(series.map(opt => opt.strike))].sort((a, b) => a - b);
+  const underlyingPrice = series[0]?.underlyingPrice ?? 0;
+  const daysToExpiry = series[0]?.daysToExpiry;
+  const selectedOption = optionsChain.find(opt => opt.securityId === selectedId) || null;
 
   const getMoneyness = (strike: number) => {
     const diff = underlyingPrice - strike;
@@ -69,33 +126,103 @@ export default function OptionsPanel({ user, sessionState, socket }: OptionsProp
     }
   };
 
+  const selectOption = (option?: OptionContract) => {
+    if (!option) return;
+    setSelectedId(option.securityId);
+    setLimitPrice(option.theoreticalValue.toFixed(2));
+  };
+
+  const submitOrder = (side: 'BUY' | 'SELL') => {
+    if (!selectedOption) {
+      setStatus('ERROR: Select an option from the chain');
+      return;
+    }
+    const contracts = parseInt(quantity);
+    if (!contracts || contracts <= 0) {
+      setStatus('ERROR: Invalid quantity');
+      return;
+    }
+    const limit = limitPrice ? parseFloat(limitPrice) : undefined;
+    if (limit !== undefined && !(limit > 0)) {
+      setStatus('ERROR: Invalid price');
+      return;
+    }
+    if (!socket || !socket.connected) {
+      setStatus('ERROR: Not connected to trading system');
+      return;
+    }
+
+    socket.emit('submit_order', {
+      id: `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId: user?.id || 'unknown',
+      securityId: selectedOption.securityId,
+      symbol: selectedOption.symbol,
+      side,
+      type: limit !== undefined ? 'LIMIT' : 'MARKET',
+      quantity: contracts,
+      price: limit,
+      timeInForce: 'DAY'
+    });
+    setStatus(`${side} ${contracts} ${selectedOption.symbol} ${limit !== undefined ? `@ ${limit.toFixed(2)}` : 'MKT'} SENT`);
+  };
+
+  const exerciseOption = () => {
+    if (!selectedOption || !socket || !socket.connected) return;
+    const contracts = parseInt(quantity);
+    if (!contracts || contracts <= 0) {
+      setStatus('ERROR: Invalid quantity');
+      return;
+    }
+
+    socket.emit('exercise_option', {
+      userId: user?.id,
+      securityId: selectedOption.securityId,
+      quantity: contracts
+    });
+  };
+
+  const cellClass = (option: OptionContract | undefined, color: string) =>
+    `${color} cursor-pointer ${option && option.securityId === selectedId ? 'underline' : ''}`;
+
+  if (optionsChain.length === 0) {
+    return (
+      <div className="h-full p-3 text-xs bg-black text-white">
+        <div className="text-orange-400 font-bold mb-3 border-b border-gray-700 pb-1">
+          OPTIONS TRADING
+        </div>
+        <div className="text-gray-500 text-center py-6">No option series are listed in this lesson</div>
+      </div>
+    );
+  }
+
   return (
     <div className="h-full p-3 text-xs bg-black text-white">
       <div className="text-orange-400 font-bold mb-3 border-b border-gray-700 pb-1">
         OPTIONS TRADING
       </div>
-      
+
       {/* Controls */}
       <div className="mb-3 flex gap-4">
         <div>
           <select
-            value={underlyingSymbol}
+            value={underlying}
             onChange={(e) => setUnderlyingSymbol(e.target.value)}
             className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-xs"
           >
-            <option value="AOE">AOE</option>
-            <option value="BOND1">BOND1</option>
+            {underlyings.map(symbol => (
+              <option key={symbol} value={symbol}>{symbol}</option>
+            ))}
           </select>
         </div>
         <div>
           <select
-            value={selectedExpiration}
-            onChange={(e) => setSelectedExpiration(e.target.value)}
+            value={expiration}
+            onChange={(e) => setSelectedExpiration(Number(e.target.value))}
             className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-xs"
           >
-            <option value="2024-01-19">Jan 19, 2024</option>
-            <option value="2024-02-16">Feb 16, 2024</option>
-            <option value="2024-03-15">Mar 15, 2024</option>
+            {expirations.map(days => (
+              <option key={days} value={days}>{days} day series</option>
+            ))}
           </select>
         </div>
       </div>
@@ -105,15 +232,17 @@ export default function OptionsPanel({ user, sessionState, socket }: OptionsProp
         <div className="grid grid-cols-3 gap-2">
           <div>
             <span className="text-gray-400">Underlying:</span>
-            <div className="text-white font-bold">{underlyingSymbol} ${underlyingPrice.toFixed(2)}</div>
+            <div className="text-white font-bold">{underlying} ${underlyingPrice.toFixed(2)}</div>
           </div>
           <div>
-            <span className="text-gray-400">Expiration:</span>
-            <div className="text-white">{selectedExpiration}</div>
+            <span className="text-gray-400">Style:</span>
+            <div className="text-white">{series[0]?.style}</div>
           </div>
           <div>
             <span className="text-gray-400">DTE:</span>
-            <div className="text-yellow-400">12 days</div>
+            <div className="text-yellow-400">
+              {series[0]?.status === 'EXPIRED' ? 'EXPIRED' : `${daysToExpiry?.toFixed(1)} days`}
+            </div>
           </div>
         </div>
       </div>
@@ -121,18 +250,18 @@ export default function OptionsPanel({ user, sessionState, socket }: OptionsProp
       {/* Options Chain */}
       <div className="mb-3">
         <div className="text-yellow-400 font-bold mb-2">OPTIONS CHAIN</div>
-        
+
         {/* Headers */}
         <div className="grid grid-cols-11 gap-1 text-gray-400 border-b border-gray-700 pb-1 text-xs">
           <span>BID</span>
           <span>ASK</span>
-          <span>LAST</span>
+          <span>THEO</span>
           <span>VOL</span>
           <span>OI</span>
           <span>STRIKE</span>
           <span>BID</span>
           <span>ASK</span>
-          <span>LAST</span>
+          <span>THEO</span>
           <span>VOL</span>
           <span>OI</span>
         </div>
@@ -142,23 +271,23 @@ export default function OptionsPanel({ user, sessionState, socket }: OptionsProp
           {strikes.map((strike) => {
             const call = callOptions.find(opt => opt.strike === strike);
             const put = putOptions.find(opt => opt.strike === strike);
-            
+
             return (
               <div key={strike} className={`grid grid-cols-11 gap-1 text-xs py-1 hover:bg-gray-800 ${getMoneynessBg(strike)}`}>
                 {/* Call Side */}
-                <span className="text-green-400">{call?.bid.toFixed(2) || '-'}</span>
-                <span className="text-red-400">{call?.ask.toFixed(2) || '-'}</span>
-                <span className="text-white">{call?.last.toFixed(2) || '-'}</span>
+                <span className={cellClass(call, 'text-green-400')} onClick={() => selectOption(call)}>{price(call?.bid)}</span>
+                <span className={cellClass(call, 'text-red-400')} onClick={() => selectOption(call)}>{price(call?.ask)}</span>
+                <span className={cellClass(call, 'text-white')} onClick={() => selectOption(call)}>{price(call?.theoreticalValue)}</span>
                 <span className="text-gray-300">{call?.volume || '-'}</span>
                 <span className="text-gray-300">{call?.openInterest || '-'}</span>
-                
+
                 {/* Strike */}
                 <span className="text-yellow-400 font-bold text-center">{strike.toFixed(1)}</span>
-                
+
                 {/* Put Side */}
-                <span className="text-green-400">{put?.bid.toFixed(2) || '-'}</span>
-                <span className="text-red-400">{put?.ask.toFixed(2) || '-'}</span>
-                <span className="text-white">{put?.last.toFixed(2) || '-'}</span>
+                <span className={cellClass(put, 'text-green-400')} onClick={() => selectOption(put)}>{price(put?.bid)}</span>
+                <span className={cellClass(put, 'text-red-400')} onClick={() => selectOption(put)}>{price(put?.ask)}</span>
+                <span className={cellClass(put, 'text-white')} onClick={() => selectOption(put)}>{price(put?.theoreticalValue)}</span>
                 <span className="text-gray-300">{put?.volume || '-'}</span>
                 <span className="text-gray-300">{put?.openInterest || '-'}</span>
               </div>
@@ -172,39 +301,94 @@ export default function OptionsPanel({ user, sessionState, socket }: OptionsProp
         <div className="bg-gray-900 p-2 rounded mb-3">
           <div className="text-yellow-400 font-bold mb-2">GREEKS - {selectedOption.symbol}</div>
           <div className="grid grid-cols-2 gap-2 text-xs">
+            <div>
+              <span className="text-gray-400">Theo:</span>
+              <span className="ml-1 text-white">{selectedOption.theoreticalValue.toFixed(2)}</span>
+            </div>
+            <div>
+              <span className="text-gray-400">Intrinsic:</span>
+              <span className="ml-1 text-white">{selectedOption.intrinsicValue.toFixed(2)}</span>
+            </div>
             <div>
               <span className="text-gray-400">Delta:</span>
-              <span className="ml-1 text-white">{selectedOption.delta.toFixed(3)}</span>
+              <span className="ml-1 text-white">{selectedOption.greeks.delta.toFixed(3)}</span>
             </div>
             <div>
               <span className="text-gray-400">Gamma:</span>
-              <span className="ml-1 text-white">{selectedOption.gamma.toFixed(3)}</span>
+              <span className="ml-1 text-white">{selectedOption.greeks.gamma.toFixed(3)}</span>
             </div>
             <div>
               <span className="text-gray-400">Theta:</span>
-              <span className="ml-1 text-red-400">{selectedOption.theta.toFixed(3)}</span>
+              <span className="ml-1 text-red-400">{selectedOption.greeks.theta.toFixed(3)}</span>
             </div>
             <div>
               <span className="text-gray-400">Vega:</span>
-              <span className="ml-1 text-white">{selectedOption.vega.toFixed(3)}</span>
+              <span className="ml-1 text-white">{selectedOption.greeks.vega.toFixed(3)}</span>
+            </div>
+            <div>
+              <span className="text-gray-400">Rho:</span>
+              <span className="ml-1 text-white">{selectedOption.greeks.rho.toFixed(3)}</span>
             </div>
             <div>
               <span className="text-gray-400">IV:</span>
               <span className="ml-1 text-cyan-400">{(selectedOption.impliedVol * 100).toFixed(1)}%</span>
             </div>
+            <div>
+              <span className="text-gray-400">Last:</span>
+              <span className="ml-1 text-white">{price(selectedOption.last)}</span>
+            </div>
           </div>
         </div>
       )}
 
+      {/* Order Entry */}
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <input
+          type="number"
+          min="1"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          placeholder="Contracts"
+          className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-xs"
+        />
+        <input
+          type="number"
+          step="0.01"
+          value={limitPrice}
+          onChange={(e) => setLimitPrice(e.target.value)}
+          placeholder="Limit (blank = market)"
+          className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-xs"
+        />
+      </div>
+
       {/* Quick Actions */}
-      <div className="grid grid-cols-2 gap-2">
-        <button className="bg-green-700 hover:bg-green-600 text-white py-1 px-2 rounded text-xs">
-          BUY CALL
+      <div className="grid grid-cols-3 gap-2">
+        <button
+          onClick={() => submitOrder('BUY')}
+          disabled={!selectedOption || selectedOption.status === 'EXPIRED'}
+          className="bg-green-700 hover:bg-green-600 disabled:bg-gray-700 text-white py-1 px-2 rounded text-xs"
+        >
+          BUY {selectedOption?.type || ''}
         </button>
-        <button className="bg-red-700 hover:bg-red-600 text-white py-1 px-2 rounded text-xs">
-          BUY PUT
+        <button
+          onClick={() => submitOrder('SELL')}
+          disabled={!selectedOption || selectedOption.status === 'EXPIRED'}
+          className="bg-red-700 hover:bg-red-600 disabled:bg-gray-700 text-white py-1 px-2 rounded text-xs"
+        >
+          SELL {selectedOption?.type || ''}
+        </button>
+        <button
+          onClick={exerciseOption}
+          disabled={!selectedOption || selectedOption.style !== 'AMERICAN' || selectedOption.status === 'EXPIRED'}
+          className="bg-blue-700 hover:bg-blue-600 disabled:bg-gray-700 text-white py-1 px-2 rounded text-xs"
+        >
+          EXERCISE
         </button>
       </div>
+
+      {status && (
+        <div className="mt-2 text-gray-300">{status}</div>
+      )}
     </div>
   );
 }
\ No newline at end of file
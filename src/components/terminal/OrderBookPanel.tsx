@@ -174,6 +174,10 @@ export default function OrderBookPanel({ user, sessionState, socket }: OrderBook
         </div>
       </div>
 
+      <div className="mt-2 text-gray-500 text-xs">
+        Sizes show displayed quantity only; iceberg reserves are hidden.
+      </div>
+
       {/* Trading Actions */}
       <div className="mt-3 pt-2 border-t border-gray-700">
         <div className="grid grid-cols-2 gap-2">
@@ -19,7 +19,8 @@ interface OrderFormData {
   orderType: 'MARKET' | 'LIMIT' | 'STOP';
   quantity: string;
   price: string;
-  timeInForce: 'DAY' | 'IOC' | 'GTC';
+  displayQuantity: string; // iceberg: size shown on the book, blank for a plain limit
+  timeInForce: 'DAY' | 'IOC' | 'FOK' | 'GTC';
 }
 
 export default function OrderEntryPanel({ user, sessionState, socket }: OrderEntryProps) {
@@ -29,12 +30,16 @@ export default function OrderEntryPanel({ user, sessionState, socket }: OrderEnt
     orderType: 'MARKET',
     quantity: '',
     price: '',
+    displayQuantity: '',
     timeInForce: 'DAY'
   });
 
   const [buyingPower, setBuyingPower] = useState(50000);
+  const [marginCall, setMarginCall] = useState<{ deficiency: number; deadline: string } | null>(null);
   const [lastOrderStatus, setLastOrderStatus] = useState<string>('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [workingOrder, setWorkingOrder] = useState<{ id: string; type: string; quantity: number; price?: number } | null>(null);
+  const [amendForm, setAmendForm] = useState({ quantity: '', price: '' });
 
   const symbols = ['AOE', 'BOND1', 'BOND2', 'BOND3', 'SPX'];
 
@@ -48,10 +53,14 @@ export default function OrderEntryPanel({ user, sessionState, socket }: OrderEnt
         setIsSubmitting(false);
         if (data.order && data.order.userId === user?.id) {
           setLastOrderStatus(`SUCCESS: Order ${data.order.id} submitted`);
+          const working = data.order.status === 'PENDING' || data.order.status === 'PARTIALLY_FILLED' || data.order.status === 'PENDING_TRIGGER';
+          setWorkingOrder(working ? data.order : null);
+          setAmendForm({ quantity: '', price: '' });
           // Clear form on successful submission
           setOrderForm(prev => ({
             ...prev,
             quantity: '',
+            displayQuantity: '',
             price: orderForm.orderType === 'MARKET' ? '' : prev.price
           }));
           
@@ -65,11 +74,40 @@ export default function OrderEntryPanel({ user, sessionState, socket }: OrderEnt
         }
       });
 
-      socket.on('order_rejected', (data: { orderId: string; reason: string; timestamp: Date }) => {
+      socket.on('order_rejected', (data: { orderId: string; reason: string; code?: string; timestamp: Date }) => {
         setIsSubmitting(false);
+        setLastOrderStatus(data.code ? `REJECTED [${data.code}]: ${data.reason}` : `ERROR: ${data.reason}`);
+      });
+
+      socket.on('order_modified', (data: { order: any; priorityKept: boolean }) => {
+        setWorkingOrder(data.order);
+        setAmendForm({ quantity: '', price: '' });
+        setLastOrderStatus(`MODIFIED: Order ${data.order.id}${data.priorityKept ? ', priority kept' : ', moved to back of queue'}`);
+      });
+
+      socket.on('order_modify_rejected', (data: { orderId: string; reason: string }) => {
         setLastOrderStatus(`ERROR: ${data.reason}`);
       });
 
+      socket.on('order_expired', (data: { orderId: string; reason: string; remainingQuantity: number; timestamp: Date }) => {
+        setLastOrderStatus(`EXPIRED: Order ${data.orderId} (${data.reason}), ${data.remainingQuantity} unfilled`);
+      });
+
+      socket.on('buying_power_update', (data: { buyingPower: number; marginCall: boolean }) => {
+        setBuyingPower(Math.floor(data.buyingPower));
+        if (!data.marginCall) setMarginCall(null);
+      });
+
+      socket.on('margin_call', (data: { deficiency: number; deadline: string }) => {
+        setMarginCall(data);
+        setLastOrderStatus(`MARGIN CALL: reduce positions to cover a $${data.deficiency.toFixed(2)} deficiency`);
+      });
+
+      socket.on('margin_liquidation', () => {
+        setMarginCall(null);
+        setLastOrderStatus('MARGIN CALL NOT MET: positions are being liquidated');
+      });
+
       socket.on('error', (data: { message: string }) => {
         setIsSubmitting(false);
         setLastOrderStatus(`ERROR: ${data.message}`);
@@ -78,6 +116,12 @@ export default function OrderEntryPanel({ user, sessionState, socket }: OrderEnt
       return () => {
         socket.off('order_update');
         socket.off('order_rejected');
+        socket.off('order_modified');
+        socket.off('order_modify_rejected');
+        socket.off('order_expired');
+        socket.off('buying_power_update');
+        socket.off('margin_call');
+        socket.off('margin_liquidation');
         socket.off('error');
       };
     }
@@ -96,6 +140,14 @@ export default function OrderEntryPanel({ user, sessionState, socket }: OrderEnt
       return;
     }
 
+    const displayQuantity = orderForm.orderType === 'LIMIT' && orderForm.displayQuantity
+      ? parseInt(orderForm.displayQuantity)
+      : undefined;
+    if (displayQuantity !== undefined && (displayQuantity <= 0 || displayQuantity > parseInt(orderForm.quantity))) {
+      setLastOrderStatus('ERROR: Display quantity must be between 1 and the order quantity');
+      return;
+    }
+
     if (!socket || !socket.connected) {
       setLastOrderStatus('ERROR: Not connected to trading system');
       return;
@@ -113,7 +165,8 @@ export default function OrderEntryPanel({ user, sessionState, socket }: OrderEnt
       type: orderForm.orderType,
       quantity: parseInt(orderForm.quantity),
       price: orderForm.orderType === 'MARKET' ? undefined : parseFloat(orderForm.price),
-      timeInForce: orderForm.timeInForce
+      timeInForce: orderForm.timeInForce,
+      displayQuantity
     };
 
     try {
@@ -124,6 +177,24 @@ export default function OrderEntryPanel({ user, sessionState, socket }: OrderEnt
     }
   };
 
+  const handleModifyOrder = () => {
+    if (!workingOrder || !socket || !socket.connected) return;
+
+    const quantity = amendForm.quantity ? parseInt(amendForm.quantity) : undefined;
+    const price = amendForm.price ? parseFloat(amendForm.price) : undefined;
+    if ((quantity !== undefined && quantity <= 0) || (price !== undefined && price <= 0)) {
+      setLastOrderStatus('ERROR: Invalid modification');
+      return;
+    }
+
+    socket.emit('modify_order', {
+      orderId: workingOrder.id,
+      userId: user?.id,
+      quantity,
+      price
+    });
+  };
+
   const getEstimatedValue = () => {
     const qty = parseInt(orderForm.quantity) || 0;
     const price = parseFloat(orderForm.price) || 50; // Default price estimate
@@ -145,6 +216,14 @@ export default function OrderEntryPanel({ user, sessionState, socket }: OrderEnt
           <span>BUYING POWER:</span>
           <span className="text-green-400">${buyingPower.toLocaleString()}</span>
         </div>
+        {marginCall && (
+          <div className="flex justify-between mb-1">
+            <span>MARGIN CALL:</span>
+            <span className="text-red-400">
+              -${marginCall.deficiency.toFixed(2)} BY {new Date(marginCall.deadline).toLocaleTimeString()}
+            </span>
+          </div>
+        )}
         <div className="flex justify-between">
           <span>MARKET STATUS:</span>
           <span className={sessionState?.marketState?.isOpen ? 'text-green-400' : 'text-red-400'}>
@@ -242,6 +321,21 @@ export default function OrderEntryPanel({ user, sessionState, socket }: OrderEnt
           </div>
         )}
 
+        {/* Display Quantity (iceberg limit orders) */}
+        {orderForm.orderType === 'LIMIT' && (
+          <div className="mb-3">
+            <label className="block text-gray-400 mb-1">DISPLAY QTY (ICEBERG)</label>
+            <input
+              type="number"
+              value={orderForm.displayQuantity}
+              onChange={(e) => handleInputChange('displayQuantity', e.target.value)}
+              className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white"
+              placeholder="Show full size"
+              min="1"
+            />
+          </div>
+        )}
+
         {/* Time in Force */}
         <div className="mb-3">
           <label className="block text-gray-400 mb-1">TIME IN FORCE</label>
@@ -252,6 +346,7 @@ export default function OrderEntryPanel({ user, sessionState, socket }: OrderEnt
           >
             <option value="DAY">DAY</option>
             <option value="IOC">IOC (Immediate or Cancel)</option>
+            <option value="FOK">FOK (Fill or Kill)</option>
             <option value="GTC">GTC (Good Till Cancel)</option>
           </select>
         </div>
@@ -262,6 +357,7 @@ export default function OrderEntryPanel({ user, sessionState, socket }: OrderEnt
           <div className="text-white">
             {orderForm.side} {orderForm.quantity || '0'} {orderForm.symbol} @ {orderForm.orderType}
             {orderForm.orderType !== 'MARKET' && orderForm.price && ` $${orderForm.price}`}
+            {orderForm.orderType === 'LIMIT' && orderForm.displayQuantity && ` (SHOW ${orderForm.displayQuantity})`}
           </div>
           {orderForm.quantity && orderForm.orderType !== 'MARKET' && orderForm.price && (
             <div className="text-yellow-400 text-xs mt-1">
@@ -291,10 +387,44 @@ export default function OrderEntryPanel({ user, sessionState, socket }: OrderEnt
         </button>
       </form>
 
+      {/* Modify working order: smaller size keeps priority, new price or larger size loses it */}
+      {workingOrder && (
+        <div className="mt-2 bg-gray-800 p-2 rounded">
+          <div className="text-gray-400 mb-1">MODIFY ORDER {workingOrder.id}</div>
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="number"
+              value={amendForm.quantity}
+              onChange={(e) => setAmendForm(prev => ({ ...prev, quantity: e.target.value }))}
+              className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white"
+              placeholder={`QTY ${workingOrder.quantity}`}
+              min="1"
+            />
+            <input
+              type="number"
+              step="0.01"
+              value={amendForm.price}
+              onChange={(e) => setAmendForm(prev => ({ ...prev, price: e.target.value }))}
+              className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white"
+              placeholder={workingOrder.price !== undefined ? `PX ${workingOrder.price}` : 'PX'}
+              disabled={workingOrder.type === 'MARKET'}
+            />
+            <button
+              type="button"
+              onClick={handleModifyOrder}
+              disabled={!amendForm.quantity && !amendForm.price}
+              className="bg-orange-600 hover:bg-orange-700 disabled:bg-gray-700 text-white rounded font-bold"
+            >
+              MODIFY
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Status */}
       {lastOrderStatus && (
         <div className={`mt-2 p-2 rounded text-xs ${
-          lastOrderStatus.startsWith('ERROR') 
+          lastOrderStatus.startsWith('ERROR') || lastOrderStatus.startsWith('EXPIRED')
             ? 'bg-red-900 text-red-400' 
             : 'bg-green-900 text-green-400'
         }`}>
@@ -33,6 +33,7 @@ interface PortfolioSummary {
   dayPnLPercent: number;
   cashBalance: number;
   buyingPower: number;
+  privilegeCosts: number;
 }
 
 export default function PortfolioPanel({ user, sessionState, socket }: PortfolioProps) {
@@ -44,7 +45,8 @@ export default function PortfolioPanel({ user, sessionState, socket }: Portfolio
     dayPnL: 0,
     dayPnLPercent: 0,
     cashBalance: 50000,
-    buyingPower: 50000
+    buyingPower: 50000,
+    privilegeCosts: 0
   });
 
   const [selectedPosition, setSelectedPosition] = useState<string | null>(null);
@@ -55,7 +57,7 @@ export default function PortfolioPanel({ user, sessionState, socket }: Portfolio
       socket.emit('get_portfolio');
 
       // Listen for portfolio updates
-      socket.on('portfolio_update', (data: { positions: any[] }) => {
+      socket.on('portfolio_update', (data: { positions: any[]; privilegeCosts?: number }) => {
         const updatedPositions = data.positions.map(pos => ({
           symbol: pos.symbol,
           quantity: pos.quantity,
@@ -71,12 +73,14 @@ export default function PortfolioPanel({ user, sessionState, socket }: Portfolio
         
         // Update summary
         const totalValue = updatedPositions.reduce((sum, pos) => sum + pos.marketValue, summary.cashBalance);
-        const totalPnL = updatedPositions.reduce((sum, pos) => sum + pos.unrealizedPnL, 0);
+        const privilegeCosts = data.privilegeCosts ?? 0;
+        const totalPnL = updatedPositions.reduce((sum, pos) => sum + pos.unrealizedPnL, 0) - privilegeCosts;
         
         setSummary(prev => ({
           ...prev,
           totalValue,
           totalPnL,
+          privilegeCosts,
           totalPnLPercent: (totalPnL / prev.cashBalance) * 100,
           dayPnL: totalPnL,
           dayPnLPercent: (totalPnL / prev.cashBalance) * 100
@@ -188,6 +192,12 @@ export default function PortfolioPanel({ user, sessionState, socket }: Portfolio
                   {formatCurrency(summary.dayPnL)} ({formatPercent(summary.dayPnLPercent)})
                 </span>
               </div>
+              <div className="flex justify-between">
+                <span>Privilege Costs:</span>
+                <span className={getPnLColor(-summary.privilegeCosts)}>
+                  {formatCurrency(-summary.privilegeCosts)}
+                </span>
+              </div>
             </div>
           </div>
         </div>
@@ -38,7 +38,7 @@ interface SymbolExposure {
 
 interface RiskAlert {
   id: string;
-  type: 'MARGIN' | 'CONCENTRATION' | 'VAR' | 'DRAWDOWN';
+  type: 'MARGIN' | 'CONCENTRATION' | 'VAR' | 'DRAWDOWN' | 'LIMIT';
   severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
   message: string;
   timestamp: string;
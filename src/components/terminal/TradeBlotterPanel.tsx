@@ -1,6 +1,9 @@
 /**
  * Trade Blotter Panel - Order Log
  * Privilege Code: 12
+ *
+ * Working orders can be modified in place: a smaller size keeps time
+ * priority, a new price or a larger size sends the order to the back.
  */
 
 'use client';
@@ -22,6 +25,9 @@ interface Trade {
   price: number;
   status: 'FILLED' | 'PARTIAL' | 'PENDING' | 'CANCELLED';
   type: string;
+  commission?: number; // negative when a maker rebate was paid
+  slippage?: number;
+  liquidity?: 'MAKER' | 'TAKER' | 'AUCTION';
 }
 
 export default function TradeBlotterPanel({ user, sessionState, socket }: TradeBlotterProps) {
@@ -32,18 +38,51 @@ export default function TradeBlotterPanel({ user, sessionState, socket }: TradeB
     { id: '1004', time: '09:34:22', symbol: 'BOND2', side: 'BUY', quantity: 200, price: 102.75, status: 'PARTIAL', type: 'LIMIT' },
   ]);
 
+  const [editing, setEditing] = useState<{ id: string; quantity: string; price: string } | null>(null);
+  const [modifyStatus, setModifyStatus] = useState<string>('');
+
   useEffect(() => {
     if (socket) {
       socket.on('trade_execution', (trade: Trade) => {
         setTrades(prev => [trade, ...prev].slice(0, 50)); // Keep last 50 trades
       });
 
+      socket.on('order_modified', (data: { order: any; priorityKept: boolean }) => {
+        setTrades(prev => prev.map(trade => trade.id === data.order.id
+          ? { ...trade, quantity: data.order.quantity, price: data.order.price ?? trade.price }
+          : trade
+        ));
+        setModifyStatus(`Order ${data.order.id} modified${data.priorityKept ? ' (priority kept)' : ' (moved to back of queue)'}`);
+      });
+
+      socket.on('order_modify_rejected', (data: { orderId: string; reason: string }) => {
+        setModifyStatus(`ERROR: ${data.reason}`);
+      });
+
       return () => {
         socket.off('trade_execution');
+        socket.off('order_modified');
+        socket.off('order_modify_rejected');
       };
     }
   }, [socket]);
 
+  const handleModify = () => {
+    if (!editing || !socket) return;
+
+    const trade = trades.find(t => t.id === editing.id);
+    const quantity = parseInt(editing.quantity);
+    const price = parseFloat(editing.price);
+
+    socket.emit('modify_order', {
+      orderId: editing.id,
+      userId: user?.id,
+      quantity: quantity !== trade?.quantity ? quantity : undefined,
+      price: trade?.type !== 'MARKET' && price !== trade?.price ? price : undefined
+    });
+    setEditing(null);
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'FILLED': return 'text-green-400';
@@ -54,10 +93,16 @@ export default function TradeBlotterPanel({ user, sessionState, socket }: TradeB
     }
   };
 
+  const formatCosts = (trade: Trade) => {
+    if (trade.commission === undefined && trade.slippage === undefined) return '-';
+    const costs = (trade.commission ?? 0) + (trade.slippage ?? 0);
+    return costs < 0 ? `+$${(-costs).toFixed(2)}` : `$${costs.toFixed(2)}`;
+  };
+
   return (
     <div className="h-full p-3 text-xs">
       <div className="text-orange-400 font-bold mb-3">ORDER LOG & EXECUTIONS</div>
-      <div className="grid grid-cols-8 gap-1 text-gray-400 border-b border-gray-700 pb-1">
+      <div className="grid grid-cols-10 gap-1 text-gray-400 border-b border-gray-700 pb-1">
         <span>TIME</span>
         <span>ORDER ID</span>
         <span>SYMBOL</span>
@@ -65,11 +110,13 @@ export default function TradeBlotterPanel({ user, sessionState, socket }: TradeB
         <span>QTY</span>
         <span>PRICE</span>
         <span>TYPE</span>
+        <span>FEES</span>
         <span>STATUS</span>
+        <span></span>
       </div>
       <div className="max-h-32 overflow-y-auto">
         {trades.map((trade) => (
-          <div key={trade.id} className="grid grid-cols-8 gap-1 py-1 hover:bg-gray-800">
+          <div key={trade.id} className="grid grid-cols-10 gap-1 py-1 hover:bg-gray-800">
             <span className="text-gray-300">{trade.time}</span>
             <span className="text-blue-400">{trade.id}</span>
             <span className="text-yellow-400">{trade.symbol}</span>
@@ -79,10 +126,56 @@ export default function TradeBlotterPanel({ user, sessionState, socket }: TradeB
             <span className="text-white">{trade.quantity}</span>
             <span className="text-white">${trade.price.toFixed(2)}</span>
             <span className="text-gray-300">{trade.type}</span>
+            <span
+              className={(trade.commission ?? 0) + (trade.slippage ?? 0) < 0 ? 'text-green-400' : 'text-gray-300'}
+              title={trade.liquidity ? `${trade.liquidity}: commission $${(trade.commission ?? 0).toFixed(2)}, slippage $${(trade.slippage ?? 0).toFixed(2)}` : undefined}
+            >
+              {formatCosts(trade)}
+            </span>
             <span className={getStatusColor(trade.status)}>{trade.status}</span>
+            {(trade.status === 'PENDING' || trade.status === 'PARTIAL') ? (
+              <button
+                onClick={() => setEditing({ id: trade.id, quantity: String(trade.quantity), price: String(trade.price) })}
+                className="text-orange-400 hover:text-orange-300 text-left"
+              >
+                MOD
+              </button>
+            ) : <span></span>}
           </div>
         ))}
       </div>
+
+      {editing && (
+        <div className="mt-2 p-2 bg-gray-800 rounded flex items-center gap-2">
+          <span className="text-gray-400">MODIFY {editing.id}</span>
+          <input
+            type="number"
+            value={editing.quantity}
+            onChange={(e) => setEditing({ ...editing, quantity: e.target.value })}
+            className="w-20 bg-gray-900 border border-gray-600 rounded px-1 text-white"
+            min="1"
+          />
+          <input
+            type="number"
+            step="0.01"
+            value={editing.price}
+            onChange={(e) => setEditing({ ...editing, price: e.target.value })}
+            className="w-20 bg-gray-900 border border-gray-600 rounded px-1 text-white"
+          />
+          <button onClick={handleModify} className="bg-orange-600 hover:bg-orange-500 text-white px-2 rounded">
+            SEND
+          </button>
+          <button onClick={() => setEditing(null)} className="text-gray-400 hover:text-white">
+            CANCEL
+          </button>
+        </div>
+      )}
+
+      {modifyStatus && (
+        <div className={`mt-2 ${modifyStatus.startsWith('ERROR') ? 'text-red-400' : 'text-green-400'}`}>
+          {modifyStatus}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,650 @@
+/**
+ * Algo Sandbox
+ *
+ * Runs student-written strategy scripts behind the Auto Trader window.
+ * Every script gets its own Node process with no permissions, no
+ * environment and a memory cap, and runs in a vm context there; each hook
+ * call runs under a CPU timeout and script globals persist between calls.
+ * Only JSON lines cross the process boundary, so a script never holds a
+ * reference to a server object. A script that exceeds its limits, or keeps
+ * throwing, is stopped.
+ *
+ * Orders a script places go through the order matching engine as the
+ * student's own orders, so risk limits, margin and market hours apply to
+ * them exactly as they do to orders entered by hand.
+ *
+ * Scripts define any of these functions:
+ *
+ *   function onTick(ctx) { ... }         // every ALGO_TICK_MS
+ *   function onTrade(ctx, trade) { ... } // any trade in the session
+ *   function onFill(ctx, fill) { ... }   // a fill on one of the script's orders
+ *
+ * ctx.market, ctx.positions, ctx.cash, ctx.pnl and ctx.openOrders describe
+ * the market and account; ctx.buy(security, quantity, price?),
+ * ctx.sell(...), ctx.cancel(orderId) and ctx.cancelAll() act on it, and
+ * console.log() / ctx.log() write to the student's Auto Trader log.
+ */
+
+import { EventEmitter } from 'events';
+import { spawn, ChildProcess } from 'child_process';
+import { createInterface } from 'readline';
+import { getPortfolioEngine, PortfolioEngine } from './portfolio-engine';
+import { getSessionClock, ClockTimer } from './session-clock';
+import {
+  getOrderMatchingEngine,
+  getReadyOrderMatchingEngine,
+  MarketOrder,
+  OrderExecution,
+  OrderMatchingEngine,
+  resolveSecurityId
+} from './order-matching-engine';
+
+export type AlgoHook = 'onTick' | 'onTrade' | 'onFill';
+
+export type AlgoStatus = 'RUNNING' | 'STOPPED';
+
+export interface AlgoLogEntry {
+  level: 'info' | 'warn' | 'error';
+  message: string;
+  timestamp: Date;
+}
+
+export interface AlgoState {
+  userId: string;
+  status: AlgoStatus;
+  source: string;
+  startedAt?: Date;
+  stoppedAt?: Date;
+  stopReason?: string;
+  pnl: number;
+  ordersPlaced: number;
+  logs: AlgoLogEntry[];
+}
+
+type AlgoAction =
+  | { type: 'order'; securityId: string; side: 'BUY' | 'SELL'; quantity: number; price?: number }
+  | { type: 'cancel'; orderId: string }
+  | { type: 'cancelAll' };
+
+interface RunningAlgo {
+  state: AlgoState;
+  process?: ChildProcess;
+  queued: number; // hook calls waiting or running
+  queue: Promise<void>;
+  consecutiveErrors: number;
+  orderIds: Set<string>;
+  nextCallId: number;
+  pending: Map<number, { resolve: (result: any) => void; timer: NodeJS.Timeout }>;
+}
+
+// Sandbox limits
+export const ALGO_PRIVILEGES = [2, 31]; // Auto Trader Window / Auto-Trading Window
+export const ALGO_TICK_MS = 1000;
+const MAX_SOURCE_LENGTH = 20000;
+const CPU_TIMEOUT_MS = 50; // per hook call
+const WALL_TIMEOUT_MS = 2000; // per hook call, including process scheduling
+const MEMORY_LIMIT_MB = 32;
+const MAX_ACTIONS_PER_CALL = 20;
+const MAX_QUEUED_CALLS = 10; // trades beyond this are not delivered to a slow script
+const MAX_CONSECUTIVE_ERRORS = 5;
+const MAX_LOG_ENTRIES = 200;
+const MAX_LOG_LENGTH = 500;
+
+/**
+ * Sandbox process body. The process runs with Node's permission model (no
+ * file system, child processes, workers or native addons), no environment
+ * and no code generation from strings. The script runs in a vm context
+ * inside it, behind a bootstrap that catches and describes everything the
+ * script throws, so the process never reads a property of a value that
+ * came out of the context. Requests and replies are JSON lines on
+ * stdin/stdout.
+ */
+const SANDBOX_SOURCE = `
+'use strict';
+const vm = require('vm');
+const readline = require('readline');
+
+const context = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+  microtaskMode: 'afterEvaluate'
+});
+
+new vm.Script(${JSON.stringify(`
+  (function () {
+    var parse = JSON.parse;
+    var stringify = JSON.stringify;
+    var toString = String;
+    var map = Array.prototype.map;
+    var join = Array.prototype.join;
+    var filter = Array.prototype.filter;
+    var split = String.prototype.split;
+    var indexOf = String.prototype.indexOf;
+    var actions = [];
+    var logs = [];
+    var snapshot = {};
+    var loadError;
+    // Keep only the frames in the student's own script
+    function describe(e) {
+      try {
+        var lines = split.call(toString(e && e.stack || e), '\\n');
+        return join.call(filter.call(lines, function (line, i) {
+          return i === 0 || indexOf.call(line, 'strategy.js') !== -1;
+        }), '\\n');
+      } catch (ignored) {
+        return 'Unknown error';
+      }
+    }
+    function format(args) {
+      return join.call(map.call(args, function (a) {
+        try {
+          return typeof a === 'string' ? a : stringify(a);
+        } catch (e) {
+          return describe(e);
+        }
+      }), ' ');
+    }
+    function log(level, args) { logs.push({ level: level, message: format(args) }); }
+    globalThis.console = {
+      log: function () { log('info', arguments); },
+      info: function () { log('info', arguments); },
+      warn: function () { log('warn', arguments); },
+      error: function () { log('error', arguments); }
+    };
+    function order(side, securityId, quantity, price) {
+      actions.push({ type: 'order', side: side, securityId: toString(securityId), quantity: Number(quantity), price: price === undefined ? undefined : Number(price) });
+    }
+    var ctx = {
+      get time() { return snapshot.time; },
+      get market() { return snapshot.market; },
+      get positions() { return snapshot.positions; },
+      get cash() { return snapshot.cash; },
+      get pnl() { return snapshot.pnl; },
+      get openOrders() { return snapshot.openOrders; },
+      position: function (securityId) { return snapshot.positions[securityId] || 0; },
+      buy: function (securityId, quantity, price) { order('BUY', securityId, quantity, price); },
+      sell: function (securityId, quantity, price) { order('SELL', securityId, quantity, price); },
+      cancel: function (orderId) { actions.push({ type: 'cancel', orderId: toString(orderId) }); },
+      cancelAll: function () { actions.push({ type: 'cancelAll' }); },
+      log: function () { log('info', arguments); }
+    };
+    function reply(error) {
+      try {
+        return stringify({ actions: actions, logs: logs, error: error });
+      } catch (e) {
+        return stringify({ actions: [], logs: [], error: describe(e) });
+      }
+    }
+    Object.defineProperty(globalThis, '__loadFailed', {
+      value: function (e) { loadError = describe(e); }
+    });
+    Object.defineProperty(globalThis, '__loaded', {
+      value: function () { return reply(loadError); }
+    });
+    Object.defineProperty(globalThis, '__dispatch', {
+      value: function (hook, snapshotJson, payloadJson) {
+        actions = [];
+        logs = [];
+        var error;
+        try {
+          snapshot = parse(snapshotJson);
+          var fn = globalThis[hook];
+          if (typeof fn === 'function') fn(ctx, parse(payloadJson));
+        } catch (e) {
+          error = describe(e);
+        }
+        return reply(error);
+      }
+    });
+  })();
+`)}).runInContext(context);
+
+// Values are passed in as literals in the calling script, never as
+// properties set on the context
+function run(code, timeout, filename = 'dispatch.js') {
+  const started = Date.now();
+  try {
+    const result = new vm.Script(code, { filename }).runInContext(context, { timeout });
+    return { result: typeof result === 'string' ? result : undefined };
+  } catch (ignored) {
+    return Date.now() - started >= timeout
+      ? { error: 'Timed out', timedOut: true }
+      : { error: 'Script failed' };
+  }
+}
+
+function load(source, timeout) {
+  try {
+    new vm.Script(source, { filename: 'strategy.js' });
+  } catch (e) {
+    // Compile errors are raised by this process, not by the script
+    return { error: String(e.message) };
+  }
+  // Top-level errors are caught inside the context; the prefix shares the
+  // first line so line numbers are unchanged
+  const loaded = run('try { ' + source + '\\n} catch (e) { __loadFailed(e); }', timeout, 'strategy.js');
+  if (loaded.error) return loaded;
+  const reply = run('__loaded()', timeout);
+  if (reply.error) return reply;
+  const error = JSON.parse(reply.result).error;
+  return error ? { error } : {};
+}
+
+let timeout = 0;
+readline.createInterface({ input: process.stdin }).on('line', line => {
+  const { id, source, hook, snapshot, payload, timeout: limit } = JSON.parse(line);
+  let response;
+  if (id === 0) {
+    timeout = limit;
+    response = load(source, timeout);
+  } else {
+    response = run('__dispatch(' + JSON.stringify(hook) + ', ' + JSON.stringify(snapshot) + ', ' + JSON.stringify(payload) + ')', timeout);
+  }
+  process.stdout.write(JSON.stringify({ id, ...response }) + '\\n');
+});
+`;
+
+const SANDBOX_FLAGS = [
+  '--experimental-permission',
+  '--disallow-code-generation-from-strings',
+  `--max-old-space-size=${MEMORY_LIMIT_MB}`,
+  '--no-warnings'
+];
+
+export class AlgoSandbox extends EventEmitter {
+  private sessionId: string;
+  private engine: OrderMatchingEngine;
+  private portfolioEngine: PortfolioEngine;
+  private algos: Map<string, RunningAlgo> = new Map();
+  private tickTimer?: ClockTimer;
+
+  constructor(sessionId: string) {
+    super();
+    this.sessionId = sessionId;
+    this.engine = getOrderMatchingEngine(sessionId);
+    this.portfolioEngine = getPortfolioEngine(sessionId);
+
+    this.engine.on('tradeExecuted', (trade) => {
+      for (const algo of this.algos.values()) {
+        this.call(algo, 'onTrade', {
+          securityId: trade.securityId,
+          price: trade.price,
+          quantity: trade.quantity,
+          timestamp: trade.timestamp
+        });
+      }
+    });
+
+    this.engine.on('orderExecuted', ({ order1, order2, execution1, execution2 }: {
+      order1: MarketOrder; order2: MarketOrder; execution1: OrderExecution; execution2: OrderExecution;
+    }) => {
+      for (const [order, fill] of [[order1, execution1], [order2, execution2]] as const) {
+        const algo = this.algos.get(order.userId);
+        if (!algo?.orderIds.has(order.id)) continue;
+
+        if (order.status === 'FILLED') algo.orderIds.delete(order.id);
+        this.call(algo, 'onFill', {
+          orderId: order.id,
+          securityId: order.securityId,
+          side: order.side,
+          quantity: fill.quantity,
+          price: fill.price,
+          remainingQuantity: order.remainingQuantity,
+          timestamp: fill.timestamp
+        });
+      }
+    });
+  }
+
+  /**
+   * Start (or restart) a student's script
+   */
+  async start(userId: string, source: string): Promise<AlgoState> {
+    if (source.length > MAX_SOURCE_LENGTH) {
+      throw new Error(`Script is too long (limit ${MAX_SOURCE_LENGTH} characters)`);
+    }
+
+    if (this.algos.get(userId)?.state.status === 'RUNNING') {
+      await this.stop(userId, 'Restarted');
+    }
+
+    const algo: RunningAlgo = {
+      state: {
+        userId,
+        status: 'RUNNING',
+        source,
+        startedAt: new Date(),
+        pnl: 0,
+        ordersPlaced: 0,
+        logs: []
+      },
+      queued: 0,
+      queue: Promise.resolve(),
+      consecutiveErrors: 0,
+      orderIds: new Set(),
+      nextCallId: 1,
+      pending: new Map()
+    };
+    this.algos.set(userId, algo);
+
+    const child = spawn(process.execPath, [...SANDBOX_FLAGS, '-e', SANDBOX_SOURCE], {
+      env: {} as NodeJS.ProcessEnv, // nothing from the server's environment
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+    algo.process = child;
+    child.stdin!.on('error', () => {
+      // The process has exited; its exit handler stops the script
+    });
+
+    let stderr = '';
+    child.stderr!.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+
+    createInterface({ input: child.stdout! }).on('line', (line: string) => {
+      let message: { id: number; result?: string; error?: string; timedOut?: boolean };
+      try {
+        message = JSON.parse(line);
+      } catch {
+        return;
+      }
+      const pending = algo.pending.get(message.id);
+      if (pending) {
+        clearTimeout(pending.timer);
+        algo.pending.delete(message.id);
+        pending.resolve(message);
+      }
+    });
+
+    child.on('error', (error: Error) => {
+      this.stop(userId, `Sandbox error: ${error.message}`).catch(err => console.error('Error stopping algo:', err));
+    });
+
+    child.on('exit', () => {
+      if (algo.process !== child) return;
+      const reason = stderr.includes('heap out of memory')
+        ? `Memory limit of ${MEMORY_LIMIT_MB} MB exceeded`
+        : 'Sandbox process exited';
+      this.stop(userId, reason).catch(err => console.error('Error stopping algo:', err));
+    });
+
+    // The sandbox answers id 0 once the script's top level has run
+    const loaded = await this.request(algo, 0, { source, timeout: CPU_TIMEOUT_MS });
+    if (loaded.error) {
+      await this.stop(userId, loaded.timedOut ? `CPU limit of ${CPU_TIMEOUT_MS} ms exceeded while loading` : `Script error: ${loaded.error}`);
+      return this.getState(userId)!;
+    }
+
+    this.log(algo, 'info', 'Strategy started');
+    this.emit('algoStatus', this.getState(userId));
+    this.ensureTicking();
+    return this.getState(userId)!;
+  }
+
+  /**
+   * Stop a student's script and cancel the orders it still has working
+   */
+  async stop(userId: string, reason: string = 'Stopped by student'): Promise<AlgoState | undefined> {
+    const algo = this.algos.get(userId);
+    if (!algo || algo.state.status === 'STOPPED') return this.getState(userId);
+
+    algo.state.status = 'STOPPED';
+    algo.state.stoppedAt = new Date();
+    algo.state.stopReason = reason;
+    algo.pending.forEach(({ resolve, timer }) => {
+      clearTimeout(timer);
+      resolve({ error: 'Stopped' });
+    });
+    algo.pending.clear();
+    const child = algo.process;
+    algo.process = undefined;
+    child?.kill();
+
+    for (const orderId of algo.orderIds) {
+      try {
+        await this.engine.cancelOrder(orderId, userId);
+      } catch (error) {
+        console.error('Error cancelling algo order:', error);
+      }
+    }
+    algo.orderIds.clear();
+
+    this.log(algo, reason === 'Stopped by student' ? 'info' : 'error', `Strategy stopped: ${reason}`);
+    this.emit('algoStatus', this.getState(userId));
+
+    if (![...this.algos.values()].some(a => a.state.status === 'RUNNING') && this.tickTimer) {
+      getSessionClock(this.sessionId).clear(this.tickTimer);
+      this.tickTimer = undefined;
+    }
+    return this.getState(userId);
+  }
+
+  /**
+   * Stop every script in the session
+   */
+  async stopAll(reason: string): Promise<void> {
+    for (const userId of this.algos.keys()) {
+      await this.stop(userId, reason);
+    }
+  }
+
+  getState(userId: string): AlgoState | undefined {
+    const algo = this.algos.get(userId);
+    return algo ? { ...algo.state, logs: [...algo.state.logs] } : undefined;
+  }
+
+  private ensureTicking(): void {
+    if (this.tickTimer) return;
+    // Ticks follow the session clock; the CPU and wall-time limits stay real
+    this.tickTimer = getSessionClock(this.sessionId).setInterval(() => {
+      for (const algo of this.algos.values()) {
+        // Ticks are dropped rather than queued while a script is still busy
+        if (algo.queued === 0) this.call(algo, 'onTick', {});
+      }
+    }, ALGO_TICK_MS);
+  }
+
+  /**
+   * Queue a hook call; calls for one script run one at a time, in order
+   */
+  private call(algo: RunningAlgo, hook: AlgoHook, payload: Record<string, any>): void {
+    if (algo.state.status !== 'RUNNING' || algo.queued >= MAX_QUEUED_CALLS) return;
+
+    algo.queued++;
+    algo.queue = algo.queue
+      .then(() => this.dispatch(algo, hook, payload))
+      .catch(error => console.error('Error running algo hook:', error))
+      .finally(() => {
+        algo.queued--;
+      });
+  }
+
+  private async dispatch(algo: RunningAlgo, hook: AlgoHook, payload: Record<string, any>): Promise<void> {
+    if (algo.state.status !== 'RUNNING') return;
+    const userId = algo.state.userId;
+
+    const snapshot = await this.snapshot(userId);
+    algo.state.pnl = snapshot.pnl;
+
+    const response = await this.request(algo, algo.nextCallId++, {
+      hook,
+      snapshot: JSON.stringify(snapshot),
+      payload: JSON.stringify(payload)
+    });
+    if (algo.state.status !== 'RUNNING') return;
+
+    if (response.error || typeof response.result !== 'string') {
+      await this.stop(userId, response.timedOut ? `CPU limit of ${CPU_TIMEOUT_MS} ms exceeded in ${hook}` : response.error || 'Malformed sandbox reply');
+      return;
+    }
+
+    // The reply is built by the script's own context, so check its shape
+    const result: { actions: AlgoAction[]; logs: Array<{ level: AlgoLogEntry['level']; message: string }>; error?: string } = JSON.parse(response.result);
+    if (!Array.isArray(result?.actions) || !Array.isArray(result.logs)) {
+      await this.stop(userId, 'Malformed sandbox reply');
+      return;
+    }
+    result.logs.forEach(entry => this.log(algo, ['info', 'warn', 'error'].includes(entry?.level) ? entry.level : 'info', String(entry?.message)));
+
+    if (result.error) {
+      this.log(algo, 'error', `${hook} threw: ${result.error}`);
+      if (++algo.consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
+        await this.stop(userId, `${MAX_CONSECUTIVE_ERRORS} consecutive errors`);
+        return;
+      }
+    } else {
+      algo.consecutiveErrors = 0;
+    }
+
+    if (result.actions.length > MAX_ACTIONS_PER_CALL) {
+      this.log(algo, 'warn', `Only the first ${MAX_ACTIONS_PER_CALL} of ${result.actions.length} actions were sent`);
+    }
+    for (const action of result.actions.slice(0, MAX_ACTIONS_PER_CALL)) {
+      await this.perform(algo, action);
+    }
+
+    if (hook === 'onTick') {
+      this.emit('algoStatus', { ...this.getState(userId), logs: undefined });
+    }
+  }
+
+  /**
+   * Send a call to the sandbox process; a call that doesn't come back in
+   * time stops the script
+   */
+  private request(algo: RunningAlgo, id: number, message: Record<string, any>): Promise<any> {
+    return new Promise(resolve => {
+      if (!algo.process) {
+        resolve({ error: 'Stopped' });
+        return;
+      }
+      const timer = setTimeout(() => {
+        algo.pending.delete(id);
+        resolve({ error: `Time limit of ${WALL_TIMEOUT_MS} ms exceeded`, timedOut: false });
+      }, WALL_TIMEOUT_MS);
+      algo.pending.set(id, { resolve, timer });
+      algo.process.stdin!.write(JSON.stringify({ id, ...message }) + '\n');
+    });
+  }
+
+  /**
+   * What a script sees: top of book for every security, its account and
+   * its own working orders
+   */
+  private async snapshot(userId: string) {
+    const summary = await this.portfolioEngine.getPortfolioSummary(userId);
+    const algo = this.algos.get(userId);
+
+    const market: Record<string, { bid?: number; ask?: number; bidSize?: number; askSize?: number; last: number }> = {};
+    const openOrders: Array<{ id: string; securityId: string; side: string; quantity: number; remainingQuantity: number; price?: number }> = [];
+
+    for (const securityId of this.engine.getSecurityIds()) {
+      const book = this.engine.getOrderBook(securityId);
+      market[securityId] = {
+        bid: book?.bids[0]?.price,
+        ask: book?.asks[0]?.price,
+        bidSize: book?.bids[0]?.quantity,
+        askSize: book?.asks[0]?.quantity,
+        last: this.engine.getMarketPrice(securityId)
+      };
+      for (const order of this.engine.getOpenOrders(securityId)) {
+        if (algo?.orderIds.has(order.id)) {
+          openOrders.push({
+            id: order.id,
+            securityId: order.securityId,
+            side: order.side,
+            quantity: order.quantity,
+            remainingQuantity: order.remainingQuantity,
+            price: order.price
+          });
+        }
+      }
+    }
+
+    return {
+      time: new Date().toISOString(),
+      market,
+      positions: Object.fromEntries(summary.positions.map(position => [position.securityId, position.quantity])),
+      cash: summary.cashBalance,
+      pnl: summary.totalPnL,
+      openOrders
+    };
+  }
+
+  private async perform(algo: RunningAlgo, action: AlgoAction): Promise<void> {
+    const userId = algo.state.userId;
+
+    if (action.type === 'cancel') {
+      if (algo.orderIds.has(action.orderId)) {
+        await this.engine.cancelOrder(action.orderId, userId);
+        algo.orderIds.delete(action.orderId);
+      }
+      return;
+    }
+
+    if (action.type === 'cancelAll') {
+      for (const orderId of algo.orderIds) {
+        await this.engine.cancelOrder(orderId, userId);
+      }
+      algo.orderIds.clear();
+      return;
+    }
+
+    if (action.type !== 'order' || (action.side !== 'BUY' && action.side !== 'SELL') || typeof action.securityId !== 'string') {
+      return;
+    }
+    if (!Number.isInteger(action.quantity) || action.quantity <= 0) {
+      this.log(algo, 'warn', `Ignored ${action.side} with invalid quantity ${action.quantity}`);
+      return;
+    }
+    if (action.price !== undefined && !(action.price > 0)) {
+      this.log(algo, 'warn', `Ignored ${action.side} with invalid price ${action.price}`);
+      return;
+    }
+
+    const engine = await getReadyOrderMatchingEngine(this.sessionId);
+    const order = await engine.submitOrder({
+      sessionId: this.sessionId,
+      userId,
+      securityId: await resolveSecurityId(action.securityId),
+      type: action.price === undefined ? 'MARKET' : 'LIMIT',
+      side: action.side,
+      quantity: action.quantity,
+      price: action.price,
+      timeInForce: 'DAY',
+      notes: 'Auto Trader'
+    });
+    algo.state.ordersPlaced++;
+
+    if (order.status === 'REJECTED') {
+      this.log(algo, 'warn', `${action.side} ${action.quantity} ${action.securityId} rejected${order.rejectCode ? ` [${order.rejectCode}]` : ''}: ${order.notes}`);
+      return;
+    }
+
+    if (order.status !== 'FILLED' && order.status !== 'CANCELLED' && order.status !== 'EXPIRED') {
+      algo.orderIds.add(order.id);
+    }
+    this.log(algo, 'info', `${action.side} ${action.quantity} ${action.securityId}${action.price !== undefined ? ` @ ${action.price.toFixed(2)}` : ''} ${order.status.toLowerCase()} (${order.id})`);
+  }
+
+  private log(algo: RunningAlgo, level: AlgoLogEntry['level'], message: string): void {
+    const entry: AlgoLogEntry = { level, message: String(message).slice(0, MAX_LOG_LENGTH), timestamp: new Date() };
+    algo.state.logs.push(entry);
+    if (algo.state.logs.length > MAX_LOG_ENTRIES) {
+      algo.state.logs.shift();
+    }
+    this.emit('algoLog', { userId: algo.state.userId, entry });
+  }
+}
+
+// Global algo sandboxes by session
+const algoSandboxes = new Map<string, AlgoSandbox>();
+
+/**
+ * Get or create algo sandbox for a session
+ */
+export function getAlgoSandbox(sessionId: string): AlgoSandbox {
+  if (!algoSandboxes.has(sessionId)) {
+    algoSandboxes.set(sessionId, new AlgoSandbox(sessionId));
+  }
+  return algoSandboxes.get(sessionId)!;
+}
\ No newline at end of file
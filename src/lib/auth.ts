@@ -9,6 +9,7 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { prisma } from './prisma';
 import { PRIVILEGE_DEFINITIONS, ROLE_PRIVILEGE_PRESETS } from './privilege-definitions';
+import { getSessionJournal } from './session-journal';
 
 export interface AuthUser {
   id: string;
@@ -272,12 +273,14 @@ export class AuthorizationService {
   }
 
   /**
-   * Grant privileges to user in session
+   * Grant privileges to user in session. A lease records the owner the
+   * privileges return to and when.
    */
   async grantPrivileges(
     sessionId: string,
     userId: string,
-    privilegeCodes: number[]
+    privilegeCodes: number[],
+    lease?: { leasedFrom: string; leaseEndsAt: Date }
   ): Promise<void> {
     // Get privilege definitions
     const privileges = await prisma.privilegeDefinition.findMany({
@@ -291,7 +294,9 @@ export class AuthorizationService {
       sessionId,
       userId,
       privilegeId: privilege.id,
-      isActive: true
+      isActive: true,
+      leasedFrom: lease?.leasedFrom ?? null,
+      leaseEndsAt: lease?.leaseEndsAt ?? null
     }));
 
     // Use individual upserts for reliable cross-database compatibility
@@ -306,11 +311,15 @@ export class AuthorizationService {
         },
         update: {
           isActive: true,
-          revokedAt: null
+          revokedAt: null,
+          leasedFrom: userPrivilege.leasedFrom,
+          leaseEndsAt: userPrivilege.leaseEndsAt
         },
         create: userPrivilege
       });
     }
+
+    getSessionJournal(sessionId).append('PRIVILEGE_GRANTED', { userId, privilegeCodes });
   }
 
   /**
@@ -343,6 +352,8 @@ export class AuthorizationService {
         revokedAt: new Date()
       }
     });
+
+    getSessionJournal(sessionId).append('PRIVILEGE_REVOKED', { userId, privilegeCodes });
   }
 
   /**
@@ -2,14 +2,25 @@
  * Automated Test Trader
  *
  * Bot traders for testing the exchange with synthetic market data.
- * Implements simple strategies: momentum, mean-reversion, random.
+ * Each trader runs a strategy from the bot strategy registry (momentum,
+ * mean_reversion, random, news_reactive, or any registered strategy).
  */
 
 import { EventEmitter } from 'events';
-import { getReadyOrderMatchingEngine } from './order-matching-engine';
+import { getOrderMatchingEngine, getReadyOrderMatchingEngine } from './order-matching-engine';
 import { MarketSimulator, MarketTick, NewsEvent } from './market-simulator';
-
-export type TradingStrategy = 'momentum' | 'mean_reversion' | 'random' | 'news_reactive';
+import { getSessionRandom } from './seeded-random';
+import { getSessionClock } from './session-clock';
+import {
+  BotStrategy,
+  createStrategy,
+  getStrategyBook,
+  MarketView,
+  StrategyContext,
+  StrategyOrder
+} from './bot-strategy';
+
+export type TradingStrategy = 'momentum' | 'mean_reversion' | 'random' | 'news_reactive' | (string & {});
 
 export interface TraderConfig {
   id: string;
@@ -17,11 +28,12 @@ export interface TraderConfig {
   sessionId: string;
   userId: string;           // Database user ID
   securityId: string;       // Database security ID
-  strategy: TradingStrategy;
+  strategy: TradingStrategy; // Registered strategy name
   maxPosition: number;      // Max shares to hold (positive or negative for short)
   orderSize: number;        // Shares per order
   tradeFrequency: number;   // Probability of trading on each tick (0-1)
   aggressiveness: number;   // How aggressively to trade (0-1)
+  parameters?: Record<string, any>; // Extra strategy parameters
 }
 
 export interface TraderState {
@@ -39,6 +51,19 @@ export class AutomatedTrader extends EventEmitter {
   private state: TraderState;
   private isActive: boolean = false;
   private priceHistoryLimit: number = 20;
+  private strategy: BotStrategy;
+  private context: StrategyContext;
+  private market?: MarketView;
+  private pendingOrders: StrategyOrder[] = [];
+  private onTradeExecuted = (trade: { securityId: string; price: number; quantity: number; timestamp: Date }) => {
+    if (!this.isActive || trade.securityId !== this.config.securityId || !this.market) return;
+    this.runHook(() => this.strategy.onTrade?.(this.context, {
+      symbol: this.market!.symbol,
+      price: trade.price,
+      quantity: trade.quantity,
+      timestamp: trade.timestamp
+    }));
+  };
 
   constructor(config: TraderConfig) {
     super();
@@ -52,6 +77,28 @@ export class AutomatedTrader extends EventEmitter {
       lastPrice: 0,
       priceHistory: []
     };
+
+    const { strategy, parameters } = createStrategy(config.strategy, {
+      maxPosition: config.maxPosition,
+      orderSize: config.orderSize,
+      tradeFrequency: config.tradeFrequency,
+      aggressiveness: config.aggressiveness,
+      priceHistoryLimit: this.priceHistoryLimit,
+      ...config.parameters
+    });
+    this.strategy = strategy;
+    this.context = {
+      botId: config.id,
+      sessionId: config.sessionId,
+      parameters,
+      random: getSessionRandom(config.sessionId, `trader:${config.id}`),
+      now: () => getSessionClock(config.sessionId).now(),
+      getMarket: (symbol) => this.market?.symbol === symbol ? this.market : undefined,
+      // The trader quotes one security; its symbol maps to the database ID
+      getBook: () => getStrategyBook(config.sessionId, config.securityId),
+      getPosition: () => this.state.position,
+      placeOrder: (order) => { this.pendingOrders.push(order); }
+    };
   }
 
   /**
@@ -59,15 +106,19 @@ export class AutomatedTrader extends EventEmitter {
    */
   start(): void {
     this.isActive = true;
+    getOrderMatchingEngine(this.config.sessionId).on('tradeExecuted', this.onTradeExecuted);
     console.log(`[AutoTrader:${this.config.name}] Started with strategy: ${this.config.strategy}`);
     this.emit('started', { traderId: this.config.id, strategy: this.config.strategy });
+    this.runHook(() => this.strategy.onStart?.(this.context));
   }
 
   /**
    * Stop trading
    */
   stop(): void {
+    this.runHook(() => this.strategy.onStop?.(this.context));
     this.isActive = false;
+    getOrderMatchingEngine(this.config.sessionId).off('tradeExecuted', this.onTradeExecuted);
     console.log(`[AutoTrader:${this.config.name}] Stopped. Final P&L: $${this.state.realizedPnL.toFixed(2)}`);
     this.emit('stopped', { traderId: this.config.id, state: this.state });
   }
@@ -90,135 +141,77 @@ export class AutomatedTrader extends EventEmitter {
       this.state.unrealizedPnL = (tick.price - this.state.avgPrice) * this.state.position;
     }
 
-    // Decide whether to trade this tick
-    if (Math.random() > this.config.tradeFrequency) return;
-
-    // Get trading signal from strategy
-    const signal = this.getStrategySignal(tick);
-    if (signal === 0) return;
+    this.market = {
+      symbol: tick.symbol,
+      bid: tick.bid,
+      ask: tick.ask,
+      last: tick.price,
+      volume: tick.volume,
+      volatility: tick.price > 0 ? Math.abs(tick.high - tick.low) / tick.price : 0
+    };
 
-    // Execute trade
-    await this.executeTrade(signal > 0 ? 'BUY' : 'SELL', tick);
+    const market = this.market;
+    await this.runHook(() => this.strategy.onTick?.(this.context, market));
+    await this.flushOrders();
   }
 
   /**
    * Process news event
    */
   async processNews(news: NewsEvent): Promise<void> {
-    if (!this.isActive || this.config.strategy !== 'news_reactive') return;
-
-    // React to news
-    const signal = news.impact === 'positive' ? 1 : news.impact === 'negative' ? -1 : 0;
-    if (signal === 0) return;
-
-    console.log(`[AutoTrader:${this.config.name}] Reacting to news: ${news.headline}`);
-
-    // Get current price from history
-    if (this.state.lastPrice === 0) return;
+    if (!this.isActive || !this.strategy.onNews) return;
 
-    await this.executeTrade(signal > 0 ? 'BUY' : 'SELL', {
-      price: this.state.lastPrice,
-      bid: this.state.lastPrice * 0.999,
-      ask: this.state.lastPrice * 1.001
-    } as MarketTick);
-  }
-
-  /**
-   * Get trading signal based on strategy
-   * Returns: 1 = buy, -1 = sell, 0 = hold
-   */
-  private getStrategySignal(tick: MarketTick): number {
-    switch (this.config.strategy) {
-      case 'momentum':
-        return this.momentumSignal();
-      case 'mean_reversion':
-        return this.meanReversionSignal();
-      case 'random':
-        return this.randomSignal();
-      case 'news_reactive':
-        // News reactive only trades on news events
-        return 0;
-      default:
-        return 0;
+    await this.runHook(() => this.strategy.onNews?.(this.context, news));
+    if (this.pendingOrders.length > 0) {
+      console.log(`[AutoTrader:${this.config.name}] Reacting to news: ${news.headline}`);
     }
+    await this.flushOrders();
   }
 
   /**
-   * Momentum strategy: buy when price is trending up, sell when trending down
-   */
-  private momentumSignal(): number {
-    if (this.state.priceHistory.length < 5) return 0;
-
-    const recent = this.state.priceHistory.slice(-5);
-    const sma5 = recent.reduce((a, b) => a + b, 0) / 5;
-    const currentPrice = this.state.lastPrice;
-
-    // Check position limits
-    if (this.state.position >= this.config.maxPosition && currentPrice > sma5) return 0;
-    if (this.state.position <= -this.config.maxPosition && currentPrice < sma5) return 0;
-
-    // Momentum signal
-    if (currentPrice > sma5 * 1.005) return 1;  // 0.5% above SMA = buy
-    if (currentPrice < sma5 * 0.995) return -1; // 0.5% below SMA = sell
-
-    return 0;
-  }
-
-  /**
-   * Mean reversion strategy: buy when price drops, sell when price rises
+   * Run a strategy hook; a failing strategy must not stop the simulation
    */
-  private meanReversionSignal(): number {
-    if (this.state.priceHistory.length < 10) return 0;
-
-    const sma10 = this.state.priceHistory.slice(-10).reduce((a, b) => a + b, 0) / 10;
-    const currentPrice = this.state.lastPrice;
-    const deviation = (currentPrice - sma10) / sma10;
-
-    // Check position limits
-    if (this.state.position >= this.config.maxPosition && deviation < -0.01) return 0;
-    if (this.state.position <= -this.config.maxPosition && deviation > 0.01) return 0;
-
-    // Mean reversion: buy oversold, sell overbought
-    if (deviation < -0.02) return 1;   // 2% below mean = buy
-    if (deviation > 0.02) return -1;   // 2% above mean = sell
-
-    return 0;
+  private async runHook(hook: () => void | Promise<void>): Promise<void> {
+    try {
+      await hook();
+    } catch (error) {
+      console.error(`[AutoTrader:${this.config.name}] Strategy error:`, error);
+    }
   }
 
   /**
-   * Random strategy: random buys and sells
+   * Send the orders a hook placed, in order
    */
-  private randomSignal(): number {
-    // Check position limits
-    const rand = Math.random();
-    if (rand < 0.4 && this.state.position < this.config.maxPosition) return 1;
-    if (rand > 0.6 && this.state.position > -this.config.maxPosition) return -1;
-    return 0;
+  private async flushOrders(): Promise<void> {
+    const orders = this.pendingOrders;
+    this.pendingOrders = [];
+    for (const order of orders) {
+      await this.executeTrade(order);
+    }
   }
 
   /**
    * Execute a trade
    */
-  private async executeTrade(side: 'BUY' | 'SELL', tick: MarketTick): Promise<void> {
+  private async executeTrade(request: StrategyOrder): Promise<void> {
     try {
       const engine = await getReadyOrderMatchingEngine(this.config.sessionId);
-
-      // Use market price for limit order (slightly better than market)
-      const price = side === 'BUY' ? tick.ask : tick.bid;
+      const side = request.side;
 
       const order = await engine.submitOrder({
         sessionId: this.config.sessionId,
         userId: this.config.userId,
         securityId: this.config.securityId,
-        type: 'LIMIT',
+        type: request.type,
         side,
-        quantity: this.config.orderSize,
-        price,
-        timeInForce: 'IOC' // Immediate or cancel
+        quantity: request.quantity,
+        price: request.price,
+        timeInForce: request.timeInForce || 'IOC' // Immediate or cancel
       });
 
       if (order.status === 'FILLED' || order.status === 'PARTIALLY_FILLED') {
-        const filledQty = this.config.orderSize - order.remainingQuantity;
+        const filledQty = request.quantity - order.remainingQuantity;
+        const price = request.price ?? this.state.lastPrice;
 
         // Update position
         const prevPosition = this.state.position;
@@ -259,6 +252,14 @@ export class AutomatedTrader extends EventEmitter {
           position: this.state.position,
           realizedPnL: this.state.realizedPnL
         });
+
+        await this.runHook(() => this.strategy.onFill?.(this.context, {
+          symbol: request.symbol,
+          side,
+          quantity: filledQty,
+          price,
+          timestamp: new Date()
+        }));
       }
     } catch (error) {
       console.error(`[AutoTrader:${this.config.name}] Trade error:`, error);
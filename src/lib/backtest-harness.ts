@@ -0,0 +1,794 @@
+/**
+ * Backtest Harness
+ *
+ * Runs a lesson or demo scenario headlessly: no sockets, no database and no
+ * wall-clock timers. Lesson commands, scripted student orders and bot
+ * strategies are replayed in virtual time against the session's own
+ * OrderMatchingEngine, and the run returns its trade tape, final positions
+ * and leaderboard.
+ *
+ * The run's engines write to an in-memory session database, so orders go
+ * through the same validation, risk and margin checks, fees, auctions and
+ * settlement as in a live session. The harness paces the session clock
+ * itself: it is stepped to each tick and scheduled action, which fires the
+ * engine's auction uncrosses at their virtual times. The market-facing
+ * lesson commands (Open Market, Close Market, Set Liquidity Trader, Set
+ * Holding Value) are applied; every other command is recorded as skipped.
+ * Strategies read virtual time through ctx.now(), so a fixed seed makes a
+ * run reproducible.
+ *
+ * Usage:
+ *   const result = await runBacktest({ scenarioId: 'quick-demo', seed: 42 });
+ */
+
+import { getMatchingCore, MatchingCore, MarketOrder, ExecutionEvent, OrderSide, TimeInForce, AuctionIndication } from './matching-core';
+import { getOrderMatchingEngine, OrderMatchingEngine } from './order-matching-engine';
+import { getPortfolioEngine, PortfolioEngine } from './portfolio-engine';
+import { getSessionClock, SessionClock } from './session-clock';
+import { createMemoryDatabase, releaseSessionDatabase, MemoryDatabase } from './session-database';
+import { createStrategy, parseStrategyParameter, BotStrategy, MarketView, StrategyContext, StrategyNews, StrategyOrder } from './bot-strategy';
+import { setSessionSeed, getSessionRandom, SeededRandom } from './seeded-random';
+import { getMarketConfig } from './market-config';
+import { XMLLessonParser, Command } from './xml-parser';
+import { DEMO_SCENARIOS } from './demo-scenarios';
+
+export interface BacktestBot {
+  id?: string;
+  strategy: string; // a registered bot strategy name
+  symbols?: string[]; // defaults to every security in the run
+  parameters?: Record<string, any>;
+}
+
+export type ScriptedOrder =
+  | {
+      at: number; // seconds from the start of the run
+      id?: string; // lets a later entry cancel this order
+      symbol: string;
+      side: OrderSide;
+      quantity: number;
+      type?: 'MARKET' | 'LIMIT';
+      price?: number;
+      timeInForce?: TimeInForce;
+    }
+  | { at: number; cancel: string };
+
+export interface StudentOrderScript {
+  userId: string;
+  cash?: number; // overrides the lesson's holding value
+  orders: ScriptedOrder[];
+}
+
+export interface BacktestOptions {
+  lessonXml?: string;
+  simulationId?: string; // which lesson simulation to run; defaults to the first
+  scenarioId?: string; // a DEMO_SCENARIOS id, used when no lesson XML is given
+  seed: number;
+  bots?: BacktestBot[]; // defaults to DEFAULT_BACKTEST_BOTS
+  students?: StudentOrderScript[];
+  tickSeconds?: number; // virtual seconds between market data ticks
+  duration?: number; // seconds; overrides the lesson or scenario length
+}
+
+export interface TapeEntry {
+  time: number;
+  symbol: string;
+  price: number;
+  quantity: number;
+  buyer: string;
+  seller: string;
+  aggressor?: OrderSide; // absent for auction prints
+}
+
+export interface BacktestPosition {
+  participant: string;
+  symbol: string;
+  quantity: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  participant: string;
+  kind: 'STUDENT' | 'BOT';
+  cash: number;
+  marketValue: number;
+  pnl: number;
+  trades: number;
+}
+
+export interface BacktestEvent {
+  time: number;
+  event: string;
+  detail?: string;
+}
+
+export interface RejectedOrder {
+  time: number;
+  participant: string;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  reason: string;
+}
+
+export interface BacktestResult {
+  lesson: string;
+  simulation?: string;
+  seed: number;
+  duration: number;
+  closingPrices: Record<string, number>;
+  tape: TapeEntry[];
+  positions: BacktestPosition[];
+  leaderboard: LeaderboardEntry[];
+  events: BacktestEvent[];
+  rejectedOrders: RejectedOrder[];
+}
+
+export const DEFAULT_BACKTEST_BOTS: BacktestBot[] = [
+  { id: 'liquidity_bot_1', strategy: 'LIQUIDITY_PROVIDER' },
+  { id: 'noise_bot_1', strategy: 'NOISE_TRADER' }
+];
+
+const DEFAULT_CASH = 100000;
+const DEFAULT_TICK_SECONDS = 2; // BotManager's market data interval
+const DEFAULT_CALL_PERIOD_SECONDS = 30;
+const MAX_DRAIN_ROUNDS = 50; // bounds fill -> order -> fill chains within one step
+
+const SCENARIO_VOLATILITY: Record<string, number> = { LOW: 0.01, MEDIUM: 0.02, HIGH: 0.04 };
+
+interface Account {
+  id: string;
+  kind: 'STUDENT' | 'BOT';
+  startingCash: number;
+  fixedCash: boolean; // set explicitly, so Set Holding Value leaves it alone
+  positions: Map<string, number>; // mirrors the engine's settled positions for strategies
+  trades: number;
+}
+
+interface HarnessBot {
+  id: string;
+  account: Account;
+  symbols: string[];
+  type: string;
+  strategy: BotStrategy;
+  context: StrategyContext;
+  active: boolean;
+}
+
+interface ReferencePrice {
+  last: number;
+  previous: number;
+  volatility: number;
+  volume: number;
+}
+
+interface ScheduledAction {
+  time: number;
+  sequence: number;
+  run: () => void | Promise<void>;
+}
+
+type Notification = { bot: HarnessBot; hook: () => void | Promise<void> };
+
+let runCounter = 0;
+
+/**
+ * Run a lesson or demo scenario to completion in virtual time
+ */
+export async function runBacktest(options: BacktestOptions): Promise<BacktestResult> {
+  const run = new BacktestRun(options);
+  return run.execute();
+}
+
+class BacktestRun {
+  private readonly sessionId = `backtest_${++runCounter}`;
+  private readonly database: MemoryDatabase;
+  private readonly clock: SessionClock;
+  private readonly origin: number; // virtual epoch milliseconds at the start of the run
+  private readonly random: SeededRandom;
+  private readonly tickSeconds: number;
+
+  // Created once the lesson is seeded into the database
+  private engine?: OrderMatchingEngine;
+  private portfolio?: PortfolioEngine;
+  private core?: MatchingCore;
+
+  private holdingValue = DEFAULT_CASH;
+  private liquidityActive = true;
+  private lessonConfiguresBots = false;
+  private auctionEndsAt?: number;
+
+  private references = new Map<string, ReferencePrice>();
+  private accounts = new Map<string, Account>();
+  private bots = new Map<string, HarnessBot>();
+  private schedule: ScheduledAction[] = [];
+  private nextSequence = 0;
+  private outbox: Array<{ bot: HarnessBot; order: StrategyOrder }> = [];
+  private notifications: Notification[] = [];
+  private studentOrderIds = new Map<string, string>(); // `${userId}:${script id}` -> engine order ID
+
+  private tape: TapeEntry[] = [];
+  private events: BacktestEvent[] = [];
+  private rejectedOrders: RejectedOrder[] = [];
+
+  constructor(private readonly options: BacktestOptions) {
+    this.database = createMemoryDatabase(this.sessionId);
+    this.clock = getSessionClock(this.sessionId);
+    this.clock.pause();
+    this.origin = this.clock.now();
+    setSessionSeed(this.sessionId, options.seed);
+    this.random = getSessionRandom(this.sessionId, 'market');
+    this.tickSeconds = options.tickSeconds && options.tickSeconds > 0 ? options.tickSeconds : DEFAULT_TICK_SECONDS;
+  }
+
+  async execute(): Promise<BacktestResult> {
+    try {
+      const { lesson, simulation, duration } = await this.load();
+      await this.openSession(lesson);
+
+      // A lesson that sets up its own liquidity traders runs without the defaults
+      const bots = this.options.bots && this.options.bots.length > 0
+        ? this.options.bots
+        : this.lessonConfiguresBots ? [] : DEFAULT_BACKTEST_BOTS;
+      for (const bot of bots) {
+        await this.addBot(bot.id || `${bot.strategy.toLowerCase()}_${this.bots.size + 1}`, bot.strategy, bot.symbols, bot.parameters);
+      }
+      await this.scheduleStudentOrders();
+
+      // Market data ticks drive the bots; scheduled actions due at or before a
+      // tick run first, each at its own virtual time
+      for (let tick = 0; tick <= duration; tick += this.tickSeconds) {
+        await this.runScheduled(tick);
+        await this.advanceTo(tick);
+        if (tick < duration) {
+          await this.tick();
+        }
+      }
+
+      // Closing auctions may finish after the nominal end of the run
+      await this.runScheduled(Infinity);
+      if (this.engine!.getAuctionPhase() && this.auctionEndsAt !== undefined) {
+        await this.advanceTo(this.auctionEndsAt);
+      }
+
+      return await this.buildResult(lesson, simulation, duration);
+    } finally {
+      releaseSessionDatabase(this.sessionId);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Setup
+  // -------------------------------------------------------------------------
+
+  private async load(): Promise<{ lesson: string; simulation?: string; duration: number }> {
+    if (this.options.lessonXml) {
+      const parser = new XMLLessonParser();
+      const config = await parser.parseLesson(this.options.lessonXml);
+      const simulation = this.options.simulationId
+        ? config.simulations.find(s => s.id === this.options.simulationId)
+        : config.simulations[0];
+      if (!simulation) {
+        throw new Error(`Simulation not found in lesson ${config.name}: ${this.options.simulationId || '(none)'}`);
+      }
+
+      for (const security of getMarketConfig(config.name).securities.filter(s => s.enabled)) {
+        this.addSecurity(security.symbol, security.startingPrice, security.volatility);
+      }
+
+      const duration = this.options.duration ?? simulation.duration;
+      this.lessonConfiguresBots = simulation.startCommands.some(command =>
+        command.name === 'Set Liquidity Trader' && command.parameters[1] === 'Strategy');
+      for (const command of simulation.startCommands) {
+        this.at(0, () => this.applyCommand(command));
+      }
+      for (const command of simulation.endCommands) {
+        this.at(duration, () => this.applyCommand(command));
+      }
+      return { lesson: config.name, simulation: simulation.id, duration };
+    }
+
+    if (this.options.scenarioId) {
+      const scenario = DEMO_SCENARIOS[this.options.scenarioId];
+      if (!scenario) {
+        throw new Error(`Demo scenario not found: ${this.options.scenarioId}`);
+      }
+
+      const conditions = scenario.marketConditions;
+      const volatility = SCENARIO_VOLATILITY[conditions.volatility] ?? SCENARIO_VOLATILITY.MEDIUM;
+      for (const [symbol, price] of Object.entries(conditions.initialPrices)) {
+        this.addSecurity(symbol, price, volatility);
+      }
+
+      for (const participant of scenario.participants.filter(p => p.role === 'STUDENT')) {
+        await this.getAccount(participant.id, 'STUDENT', participant.initialCash);
+      }
+
+      const opening = scenario.timeline.find(event => event.type === 'MARKET_OPEN');
+      this.at(opening?.time ?? 0, () => this.engine!.openMarket());
+
+      for (const shock of conditions.priceShocks) {
+        this.at(shock.time, () => {
+          const reference = this.references.get(shock.symbol);
+          if (!reference) return;
+          const factor = shock.direction === 'UP' ? 1 + shock.magnitude / 100 : 1 - shock.magnitude / 100;
+          reference.last *= factor;
+          this.record('PRICE_SHOCK', `${shock.symbol} ${shock.direction} ${shock.magnitude}%`);
+        });
+      }
+
+      for (const news of conditions.newsEvents) {
+        this.at(news.time, () => this.broadcastNews({
+          headline: news.title,
+          impact: news.impact.toLowerCase() as StrategyNews['impact']
+        }));
+      }
+
+      const duration = this.options.duration ?? scenario.duration * 60;
+      this.at(duration, () => this.engine!.closeMarket());
+      return { lesson: scenario.name, duration };
+    }
+
+    throw new Error('A backtest needs lesson XML or a demo scenario ID');
+  }
+
+  private addSecurity(symbol: string, price: number, volatility: number): void {
+    this.references.set(symbol, { last: price, previous: price, volatility, volume: 0 });
+  }
+
+  /**
+   * Seed the in-memory database with the session, its lesson and securities,
+   * then start the session's engines on it. The margin, fee and derivatives
+   * engines load the lesson's market configuration by name.
+   */
+  private async openSession(lesson: string): Promise<void> {
+    this.database.model('lesson').seed({ id: this.sessionId, name: lesson });
+    this.database.model('simulationSession').seed({ id: this.sessionId, lessonId: this.sessionId, status: 'IN_PROGRESS' });
+    this.references.forEach((_, symbol) => {
+      this.database.model('security').seed({ id: symbol, symbol, name: symbol, type: 'EQUITY', isActive: true });
+    });
+
+    this.engine = getOrderMatchingEngine(this.sessionId);
+    this.portfolio = getPortfolioEngine(this.sessionId);
+    this.core = getMatchingCore(this.sessionId);
+    this.core.on('execution', (event: ExecutionEvent) => this.settle(event));
+
+    this.engine.on('marketOpened', ({ auction }: { auction: boolean }) => {
+      this.record('MARKET_OPENED', auction ? 'opening auction' : undefined);
+    });
+    this.engine.on('auctionCallStarted', ({ phase, endsAt }: { phase: string; endsAt: Date }) => {
+      this.auctionEndsAt = (endsAt.getTime() - this.origin) / 1000;
+      this.record('AUCTION_STARTED', `${phase}, ${this.auctionEndsAt - this.now()}s call`);
+    });
+    this.engine.on('auctionUncrossed', ({ phase, results }: { phase: string; results: AuctionIndication[] }) => {
+      const summary = results
+        .map(result => `${result.securityId} ${result.volume}@${result.price ?? '-'}`)
+        .join(', ');
+      this.record('AUCTION_UNCROSSED', `${phase}: ${summary || 'no orders'}`);
+    });
+    this.engine.on('marketClosed', () => this.record('MARKET_CLOSED'));
+
+    for (const account of this.accounts.values()) {
+      await this.fund(account);
+    }
+  }
+
+  private async getAccount(id: string, kind: Account['kind'], cash?: number): Promise<Account> {
+    let account = this.accounts.get(id);
+    if (!account) {
+      account = { id, kind, startingCash: cash ?? this.holdingValue, fixedCash: cash !== undefined, positions: new Map(), trades: 0 };
+      this.accounts.set(id, account);
+      await this.fund(account);
+    } else if (cash !== undefined) {
+      account.startingCash = cash;
+      account.fixedCash = true;
+      await this.fund(account);
+    }
+    return account;
+  }
+
+  /**
+   * Set an account's cash in the portfolio engine to its starting cash.
+   * Accounts registered before the engines start are funded when they do.
+   */
+  private async fund(account: Account): Promise<void> {
+    if (!this.portfolio) return;
+
+    const balance = this.portfolio.getCashBalance(account.id);
+    if (balance !== account.startingCash) {
+      await this.portfolio.adjustCash(account.id, account.startingCash - balance, 'Starting cash');
+    }
+  }
+
+  private async addBot(id: string, type: string, symbols?: string[], parameters: Record<string, any> = {}): Promise<HarnessBot> {
+    const resolved = createStrategy(type, parameters);
+    const existing = this.bots.get(id);
+    const account = existing?.account || await this.getAccount(`bot_${id}`, 'BOT', DEFAULT_CASH);
+    const bot: HarnessBot = {
+      id,
+      account,
+      symbols: symbols && symbols.length > 0 ? symbols : Array.from(this.references.keys()),
+      type,
+      strategy: resolved.strategy,
+      active: existing?.active ?? true,
+      context: undefined as unknown as StrategyContext
+    };
+    bot.context = {
+      botId: id,
+      sessionId: this.sessionId,
+      parameters: resolved.parameters,
+      random: getSessionRandom(this.sessionId, `bot:${id}`),
+      now: () => this.now() * 1000,
+      getMarket: (symbol) => this.getMarketView(symbol),
+      getBook: (symbol) => this.core!.getDisplayBook(symbol),
+      getPosition: (symbol) => account.positions.get(symbol) || 0,
+      placeOrder: (order) => { this.outbox.push({ bot, order }); }
+    };
+    this.bots.set(id, bot);
+
+    if (bot.active) {
+      await this.callHook(bot, () => bot.strategy.onStart?.(bot.context));
+    }
+    return bot;
+  }
+
+  private async scheduleStudentOrders(): Promise<void> {
+    for (const script of this.options.students || []) {
+      const account = await this.getAccount(script.userId, 'STUDENT', script.cash);
+
+      for (const entry of script.orders) {
+        this.at(entry.at, async () => {
+          if ('cancel' in entry) {
+            const orderId = this.studentOrderIds.get(`${script.userId}:${entry.cancel}`);
+            const cancelled = orderId ? await this.engine!.cancelOrder(orderId, script.userId) : false;
+            if (!cancelled) {
+              this.record('CANCEL_IGNORED', `${script.userId} ${entry.cancel}`);
+            }
+            return;
+          }
+
+          const order = await this.submitOrder(account, false, {
+            symbol: entry.symbol,
+            side: entry.side,
+            quantity: entry.quantity,
+            price: entry.price,
+            type: entry.type || (entry.price !== undefined ? 'LIMIT' : 'MARKET'),
+            timeInForce: entry.timeInForce
+          });
+          if (order && entry.id) {
+            this.studentOrderIds.set(`${script.userId}:${entry.id}`, order.id);
+          }
+        });
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Virtual time
+  // -------------------------------------------------------------------------
+
+  /**
+   * Seconds of virtual time since the start of the run
+   */
+  private now(): number {
+    return (this.clock.now() - this.origin) / 1000;
+  }
+
+  /**
+   * Step the session clock forward, firing the engine timers that fall due,
+   * and let the settlements they start finish
+   */
+  private async advanceTo(time: number): Promise<void> {
+    const ms = Math.round((time - this.now()) * 1000);
+    if (ms <= 0) return;
+
+    this.clock.step(ms);
+    await new Promise(resolve => setImmediate(resolve));
+    await this.drain();
+  }
+
+  private at(time: number, run: ScheduledAction['run']): void {
+    this.schedule.push({ time: Math.max(0, time), sequence: this.nextSequence++, run });
+    this.schedule.sort((a, b) => a.time - b.time || a.sequence - b.sequence);
+  }
+
+  private async runScheduled(until: number): Promise<void> {
+    while (this.schedule.length > 0 && this.schedule[0].time <= until) {
+      const action = this.schedule.shift()!;
+      await this.advanceTo(action.time);
+      await action.run();
+      await this.drain();
+    }
+  }
+
+  /**
+   * Move the reference prices and give every active bot its tick
+   */
+  private async tick(): Promise<void> {
+    this.references.forEach(reference => {
+      reference.previous = reference.last;
+      reference.last = reference.last * (1 + (this.random.next() - 0.5) * reference.volatility);
+    });
+
+    if (!this.engine!.isMarketCurrentlyOpen()) return;
+
+    for (const bot of this.bots.values()) {
+      if (!bot.active) continue;
+      for (const symbol of bot.symbols) {
+        const market = this.getMarketView(symbol);
+        if (!market) continue;
+
+        // Bots re-quote every tick, so their previous quotes are withdrawn
+        for (const order of this.engine!.getOpenOrders(symbol)) {
+          if (order.userId === bot.account.id) await this.engine!.cancelOrder(order.id, order.userId);
+        }
+        await this.callHook(bot, () => bot.strategy.onTick?.(bot.context, market));
+      }
+    }
+    await this.drain();
+  }
+
+  /**
+   * Submit orders the bots placed and deliver the fills and trades they
+   * caused, until nothing new happens
+   */
+  private async drain(): Promise<void> {
+    for (let round = 0; round < MAX_DRAIN_ROUNDS && (this.outbox.length > 0 || this.notifications.length > 0); round++) {
+      for (const { bot, order } of this.outbox.splice(0)) {
+        if (!bot.active) continue;
+        await this.submitOrder(bot.account, true, {
+          ...order,
+          price: order.price !== undefined ? Math.round(order.price * 100) / 100 : undefined
+        });
+      }
+      for (const { bot, hook } of this.notifications.splice(0)) {
+        await this.callHook(bot, hook);
+      }
+    }
+  }
+
+  /**
+   * Run a strategy hook; a failing strategy must not end the run
+   */
+  private async callHook(bot: HarnessBot, hook: () => void | Promise<void>): Promise<void> {
+    try {
+      await hook();
+    } catch (error) {
+      console.error(`Error in bot strategy ${bot.type}:`, error);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Market
+  // -------------------------------------------------------------------------
+
+  private getMarketView(symbol: string): MarketView | undefined {
+    const reference = this.references.get(symbol);
+    if (!reference) return undefined;
+
+    const book = this.core!.getDisplayBook(symbol);
+    const change = (reference.last - reference.previous) / reference.previous;
+    return {
+      symbol,
+      bid: book.bids[0]?.price ?? reference.last - 0.01,
+      ask: book.asks[0]?.price ?? reference.last + 0.01,
+      last: reference.last,
+      volume: reference.volume,
+      volatility: reference.volatility,
+      trend: change > 0.001 ? 'UP' : change < -0.001 ? 'DOWN' : 'SIDEWAYS'
+    };
+  }
+
+  private async submitOrder(account: Account, isBot: boolean, request: StrategyOrder): Promise<MarketOrder | undefined> {
+    const reject = (reason: string) => {
+      this.rejectedOrders.push({
+        time: this.now(),
+        participant: account.id,
+        symbol: request.symbol,
+        side: request.side,
+        quantity: request.quantity,
+        reason
+      });
+      return undefined;
+    };
+
+    // The engine opens a book for any security ID it is sent
+    if (!this.references.has(request.symbol)) return reject(`Unknown security: ${request.symbol}`);
+
+    const order = await this.engine!.submitOrder({
+      sessionId: this.sessionId,
+      userId: account.id,
+      securityId: request.symbol,
+      type: request.type,
+      side: request.side,
+      quantity: request.quantity,
+      price: request.type === 'LIMIT' ? request.price : undefined,
+      timeInForce: request.timeInForce || 'DAY',
+      isBot
+    });
+    if (order.status === 'REJECTED') {
+      return reject(order.notes || 'Rejected');
+    }
+    return order;
+  }
+
+  /**
+   * Record an execution on the tape, mirror both sides' positions for the
+   * strategies and queue their callbacks. Cash is settled by the engine.
+   */
+  private settle({ execution, buyOrder, sellOrder }: ExecutionEvent): void {
+    const { securityId: symbol, price, quantity } = execution;
+
+    const buyer = this.accounts.get(buyOrder.userId)!;
+    const seller = this.accounts.get(sellOrder.userId)!;
+    buyer.positions.set(symbol, (buyer.positions.get(symbol) || 0) + quantity);
+    buyer.trades++;
+    seller.positions.set(symbol, (seller.positions.get(symbol) || 0) - quantity);
+    seller.trades++;
+
+    const reference = this.references.get(symbol);
+    if (reference) reference.volume += quantity;
+
+    this.tape.push({
+      time: this.now(),
+      symbol,
+      price,
+      quantity,
+      buyer: buyer.id,
+      seller: seller.id,
+      aggressor: execution.aggressorSide
+    });
+
+    const timestamp = new Date();
+    for (const bot of this.bots.values()) {
+      if (!bot.active || !bot.symbols.includes(symbol)) continue;
+
+      const side: OrderSide | undefined = bot.account === buyer ? 'BUY' : bot.account === seller ? 'SELL' : undefined;
+      if (side) {
+        this.notifications.push({ bot, hook: () => bot.strategy.onFill?.(bot.context, { symbol, side, quantity, price, timestamp }) });
+      }
+      this.notifications.push({ bot, hook: () => bot.strategy.onTrade?.(bot.context, { symbol, price, quantity, timestamp }) });
+    }
+  }
+
+  private broadcastNews(news: StrategyNews): void {
+    this.record('NEWS', news.headline);
+    for (const bot of this.bots.values()) {
+      if (!bot.active) continue;
+      if (news.symbol && !bot.symbols.includes(news.symbol)) continue;
+      this.notifications.push({ bot, hook: () => bot.strategy.onNews?.(bot.context, news) });
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Lesson commands
+  // -------------------------------------------------------------------------
+
+  private async applyCommand(command: Command): Promise<void> {
+    const parameters = command.parameters;
+    const auctionAt = (index: number) => String(parameters[index] ?? '').toUpperCase() === 'AUCTION';
+    const callPeriodAt = (index: number) => Number(parameters[index]) > 0 ? Number(parameters[index]) : DEFAULT_CALL_PERIOD_SECONDS;
+
+    switch (command.name) {
+      case 'Open Market': {
+        const delay = Number(parameters[0]) || 0;
+        this.record('COMMAND', `${command.name} ${parameters.join(' ')}`.trim());
+        this.at(this.now() + delay, () => this.engine!.openMarket({ auction: auctionAt(1), callPeriodSeconds: callPeriodAt(2) }));
+        return;
+      }
+      case 'Close Market':
+        this.record('COMMAND', `${command.name} ${parameters.join(' ')}`.trim());
+        await this.engine!.closeMarket({ auction: auctionAt(0), callPeriodSeconds: callPeriodAt(1) });
+        return;
+      case 'Set Liquidity Trader':
+        this.record('COMMAND', `${command.name} ${parameters.join(' ')}`);
+        await this.setLiquidityTrader(parameters);
+        return;
+      case 'Set Holding Value':
+        this.record('COMMAND', `${command.name} ${parameters.join(' ')}`);
+        if (parameters[0] === 'ALL') {
+          this.holdingValue = Number(parameters[2]);
+          for (const account of this.accounts.values()) {
+            if (account.kind === 'STUDENT' && !account.fixedCash) {
+              account.startingCash = this.holdingValue;
+              await this.fund(account);
+            }
+          }
+        }
+        return;
+      default:
+        this.record('COMMAND_SKIPPED', `${command.name} ${parameters.join(' ')}`.trim());
+    }
+  }
+
+  /**
+   * Same settings as SessionEngine.handleSetLiquidityTrader
+   */
+  private async setLiquidityTrader(parameters: Command['parameters']): Promise<void> {
+    const botId = `liquidity_trader_${parameters[0]}`;
+    const setting = String(parameters[1]);
+    const value = parameters[2];
+    const bot = this.bots.get(botId);
+
+    try {
+      if (setting === 'Active') {
+        this.liquidityActive = value === true || value === 'true';
+        if (bot) bot.active = this.liquidityActive;
+      } else if (setting === 'Strategy') {
+        const strategyParameters: Record<string, any> = {};
+        for (let i = 3; i + 1 < parameters.length; i += 2) {
+          strategyParameters[String(parameters[i])] = parseStrategyParameter(parameters[i + 1]);
+        }
+        const configured = await this.addBot(botId, String(value), bot?.symbols, strategyParameters);
+        configured.active = this.liquidityActive;
+      } else if (bot) {
+        (bot.context.parameters as Record<string, any>)[setting] = parseStrategyParameter(value);
+      }
+    } catch (error) {
+      console.error('Error configuring liquidity trader:', error);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Results
+  // -------------------------------------------------------------------------
+
+  private record(event: string, detail?: string): void {
+    const time = this.now();
+    this.events.push(detail ? { time, event, detail } : { time, event });
+  }
+
+  /**
+   * Positions and cash come from the portfolio engine, so trading costs the
+   * engine charged are in the P&L
+   */
+  private async buildResult(lesson: string, simulation: string | undefined, duration: number): Promise<BacktestResult> {
+    const closingPrices: Record<string, number> = {};
+    this.references.forEach((reference, symbol) => {
+      closingPrices[symbol] = this.core!.getLastPrice(symbol) ?? Math.round(reference.last * 100) / 100;
+    });
+
+    const positions: BacktestPosition[] = [];
+    const leaderboard: LeaderboardEntry[] = [];
+    for (const account of this.accounts.values()) {
+      const summary = await this.portfolio!.getPortfolioSummary(account.id);
+      const cash = summary.cashBalance + summary.escrowedCash;
+      let marketValue = 0;
+      for (const position of summary.positions) {
+        if (position.quantity === 0) continue;
+        positions.push({ participant: account.id, symbol: position.securityId, quantity: position.quantity });
+        marketValue += position.quantity * (closingPrices[position.securityId] ?? position.avgPrice);
+      }
+
+      leaderboard.push({
+        rank: 0,
+        participant: account.id,
+        kind: account.kind,
+        cash: roundCents(cash),
+        marketValue: roundCents(marketValue),
+        pnl: roundCents(cash + marketValue - account.startingCash),
+        trades: account.trades
+      });
+    }
+
+    leaderboard
+      .sort((a, b) => b.pnl - a.pnl || a.participant.localeCompare(b.participant))
+      .forEach((entry, index) => { entry.rank = index + 1; });
+
+    return {
+      lesson,
+      simulation,
+      seed: this.options.seed,
+      duration,
+      closingPrices,
+      tape: this.tape,
+      positions,
+      leaderboard,
+      events: this.events,
+      rejectedOrders: this.rejectedOrders
+    };
+  }
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
\ No newline at end of file
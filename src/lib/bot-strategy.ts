@@ -0,0 +1,388 @@
+/**
+ * Bot Strategy SDK
+ *
+ * One strategy interface for every automated trader. A strategy reacts to
+ * onTick/onTrade/onFill/onNews hooks and acts through a context that gives
+ * typed access to market data, the order book and the bot's own position.
+ * Strategies are registered by name, so TradingBot, AutomatedTrader, lesson
+ * XML and the instructor UI can all pick one without a switch statement.
+ *
+ * Built-in strategies are registered at the bottom of this file. New
+ * liquidity behaviours register themselves the same way:
+ *
+ *   registerStrategy({
+ *     name: 'SPREAD_FADER',
+ *     description: 'Fades wide spreads',
+ *     defaults: { size: 50 },
+ *     create: () => ({ onTick(ctx, market) { ... } })
+ *   });
+ */
+
+import { SeededRandom } from './seeded-random';
+import { getMatchingCore, OrderBook, OrderSide, TimeInForce } from './matching-core';
+
+export interface MarketView {
+  symbol: string;
+  bid: number;
+  ask: number;
+  last: number;
+  volume: number;
+  volatility: number;
+  trend?: 'UP' | 'DOWN' | 'SIDEWAYS';
+}
+
+export interface StrategyOrder {
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price?: number; // omitted for market orders
+  type: 'MARKET' | 'LIMIT';
+  timeInForce?: TimeInForce;
+}
+
+export interface StrategyTrade {
+  symbol: string;
+  price: number;
+  quantity: number;
+  timestamp: Date;
+}
+
+export interface StrategyFill {
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  timestamp: Date;
+}
+
+export interface StrategyNews {
+  headline: string;
+  impact: 'positive' | 'negative' | 'neutral';
+  magnitude?: number;
+  symbol?: string;
+}
+
+/**
+ * What a strategy can see and do
+ */
+export interface StrategyContext {
+  readonly botId: string;
+  readonly sessionId: string;
+  readonly parameters: Record<string, any>; // strategy defaults merged with the bot's configuration
+  readonly random: SeededRandom; // the bot's own seeded stream
+  now(): number; // session clock time in ms; use instead of Date.now()
+  getMarket(symbol: string): MarketView | undefined;
+  getBook(symbol: string): OrderBook; // displayed depth; iceberg reserves stay hidden
+  getPosition(symbol: string): number;
+  placeOrder(order: StrategyOrder): void;
+}
+
+/**
+ * Strategy hooks. Every hook is optional; the host calls them in event order.
+ */
+export interface BotStrategy {
+  onStart?(ctx: StrategyContext): void | Promise<void>;
+  onTick?(ctx: StrategyContext, market: MarketView): void | Promise<void>;
+  onTrade?(ctx: StrategyContext, trade: StrategyTrade): void | Promise<void>;
+  onFill?(ctx: StrategyContext, fill: StrategyFill): void | Promise<void>;
+  onNews?(ctx: StrategyContext, news: StrategyNews): void | Promise<void>;
+  onStop?(ctx: StrategyContext): void | Promise<void>;
+}
+
+export interface StrategyDefinition {
+  name: string;
+  description: string;
+  defaults: Record<string, any>;
+  create(): BotStrategy; // a fresh instance per bot, so strategies may keep state
+}
+
+const strategies = new Map<string, StrategyDefinition>();
+
+/**
+ * Register a strategy by name; registering a name again replaces it
+ */
+export function registerStrategy(definition: StrategyDefinition): void {
+  strategies.set(definition.name, definition);
+}
+
+export function hasStrategy(name: string): boolean {
+  return strategies.has(name);
+}
+
+/**
+ * Registered strategies, for pickers in the instructor UI
+ */
+export function listStrategies(): Array<Omit<StrategyDefinition, 'create'>> {
+  return Array.from(strategies.values()).map(({ name, description, defaults }) => ({ name, description, defaults }));
+}
+
+/**
+ * Instantiate a registered strategy with its parameters resolved
+ */
+export function createStrategy(name: string, parameters: Record<string, any> = {}): { strategy: BotStrategy; parameters: Record<string, any> } {
+  const definition = strategies.get(name);
+  if (!definition) {
+    throw new Error(`Unknown bot strategy: ${name}`);
+  }
+  return {
+    strategy: definition.create(),
+    parameters: { ...definition.defaults, ...parameters }
+  };
+}
+
+/**
+ * Depth for a symbol from the session's matching core
+ */
+export function getStrategyBook(sessionId: string, symbol: string): OrderBook {
+  return getMatchingCore(sessionId).getDisplayBook(symbol);
+}
+
+/**
+ * Parse a strategy parameter from lesson XML or a form, where every value
+ * arrives as a string
+ */
+export function parseStrategyParameter(value: unknown): any {
+  if (typeof value !== 'string') return value;
+  if (value === 'true' || value === 'false') return value === 'true';
+  const number = Number(value);
+  return value.trim() !== '' && Number.isFinite(number) ? number : value;
+}
+
+// ---------------------------------------------------------------------------
+// Liquidity strategies (TradingBot)
+// ---------------------------------------------------------------------------
+
+registerStrategy({
+  name: 'LIQUIDITY_PROVIDER',
+  description: 'Continuous two-way quotes around the last price',
+  defaults: { minSpread: 0.02, quoteSize: 100, maxPosition: 1000 },
+  create: () => ({
+    onTick(ctx, market) {
+      const { minSpread, quoteSize, maxPosition } = ctx.parameters;
+      const position = ctx.getPosition(market.symbol);
+
+      // Don't provide liquidity if position is too large
+      if (Math.abs(position) > maxPosition) return;
+
+      if (position < maxPosition) {
+        ctx.placeOrder({ symbol: market.symbol, side: 'BUY', quantity: quoteSize, price: market.last - minSpread / 2, type: 'LIMIT' });
+      }
+      if (position > -maxPosition) {
+        ctx.placeOrder({ symbol: market.symbol, side: 'SELL', quantity: quoteSize, price: market.last + minSpread / 2, type: 'LIMIT' });
+      }
+    }
+  })
+});
+
+registerStrategy({
+  name: 'MOMENTUM_TRADER',
+  description: 'Follows recent price trends with a cooldown between trades',
+  defaults: { tradeSize: 200, momentumThreshold: 0.02, cooldownMs: 10000 },
+  create: () => {
+    const prices = new Map<string, number[]>();
+    let lastTradeAt = 0;
+
+    return {
+      onTick(ctx, market) {
+        const history = prices.get(market.symbol) || [];
+        history.push(market.last);
+        if (history.length > 5) history.shift();
+        prices.set(market.symbol, history);
+        if (history.length < 2) return;
+
+        const momentum = (market.last - history[0]) / history[0];
+        if (Math.abs(momentum) <= ctx.parameters.momentumThreshold) return;
+
+        // Don't chase too aggressively
+        const now = ctx.now();
+        if (now - lastTradeAt < ctx.parameters.cooldownMs) return;
+        lastTradeAt = now;
+
+        ctx.placeOrder({
+          symbol: market.symbol,
+          side: momentum > 0 ? 'BUY' : 'SELL',
+          quantity: ctx.parameters.tradeSize,
+          type: 'MARKET'
+        });
+      }
+    };
+  }
+});
+
+registerStrategy({
+  name: 'ARBITRAGEUR',
+  description: 'Steps inside wide spreads to capture them',
+  defaults: { minProfit: 0.01, expectedSpread: 0.02, quoteSize: 50 },
+  create: () => ({
+    onTick(ctx, market) {
+      const { minProfit, expectedSpread, quoteSize } = ctx.parameters;
+      if (market.ask - market.bid <= expectedSpread + minProfit) return;
+
+      ctx.placeOrder({ symbol: market.symbol, side: 'BUY', quantity: quoteSize, price: market.bid + 0.01, type: 'LIMIT' });
+      ctx.placeOrder({ symbol: market.symbol, side: 'SELL', quantity: quoteSize, price: market.ask - 0.01, type: 'LIMIT' });
+    }
+  })
+});
+
+registerStrategy({
+  name: 'NOISE_TRADER',
+  description: 'Random limit orders near the last price to add activity',
+  defaults: { frequency: 0.1, maxSize: 100 },
+  create: () => ({
+    onTick(ctx, market) {
+      if (ctx.random.next() >= ctx.parameters.frequency) return;
+
+      const side = ctx.random.next() < 0.5 ? 'BUY' : 'SELL';
+      const quantity = ctx.random.nextInt(ctx.parameters.maxSize) + 10;
+      const priceVariation = (ctx.random.next() - 0.5) * 0.02; // ±1% price variation
+
+      ctx.placeOrder({ symbol: market.symbol, side, quantity, price: market.last * (1 + priceVariation), type: 'LIMIT' });
+    }
+  })
+});
+
+registerStrategy({
+  name: 'MARKET_MAKER',
+  description: 'Inventory-skewed quotes with volatility-adjusted spreads',
+  defaults: { baseSpread: 0.02, sizeMultiplier: 1.0, inventoryTarget: 0, maxInventory: 500 },
+  create: () => ({
+    onTick(ctx, market) {
+      const { baseSpread, sizeMultiplier, inventoryTarget, maxInventory } = ctx.parameters;
+      const position = ctx.getPosition(market.symbol);
+
+      // Adjust spread for volatility and skew prices against inventory
+      const inventorySkew = (position - inventoryTarget) / maxInventory;
+      const adjustedSpread = baseSpread * (1 + market.volatility * 0.5);
+      const bidPrice = market.last - adjustedSpread / 2 + inventorySkew * 0.01;
+      const askPrice = market.last + adjustedSpread / 2 - inventorySkew * 0.01;
+      const size = Math.floor(100 * sizeMultiplier * (1 - Math.abs(inventorySkew)));
+
+      if (size > 0 && position < maxInventory) {
+        ctx.placeOrder({ symbol: market.symbol, side: 'BUY', quantity: size, price: bidPrice, type: 'LIMIT' });
+      }
+      if (size > 0 && position > -maxInventory) {
+        ctx.placeOrder({ symbol: market.symbol, side: 'SELL', quantity: size, price: askPrice, type: 'LIMIT' });
+      }
+    }
+  })
+});
+
+// ---------------------------------------------------------------------------
+// Signal strategies (AutomatedTrader): trade orderSize at the touch as IOC,
+// on a tradeFrequency fraction of ticks
+// ---------------------------------------------------------------------------
+
+const SIGNAL_DEFAULTS = { maxPosition: 1000, orderSize: 100, tradeFrequency: 0.5, priceHistoryLimit: 20 };
+
+/**
+ * Wrap a signal function (1 = buy, -1 = sell, 0 = hold) as a strategy
+ */
+function signalStrategy(signal: (ctx: StrategyContext, history: number[], position: number) => number): () => BotStrategy {
+  return () => {
+    const prices = new Map<string, number[]>();
+
+    return {
+      onTick(ctx, market) {
+        const history = prices.get(market.symbol) || [];
+        history.push(market.last);
+        if (history.length > ctx.parameters.priceHistoryLimit) history.shift();
+        prices.set(market.symbol, history);
+
+        // Decide whether to trade this tick
+        if (ctx.random.next() > ctx.parameters.tradeFrequency) return;
+
+        const direction = signal(ctx, history, ctx.getPosition(market.symbol));
+        if (direction === 0) return;
+
+        ctx.placeOrder({
+          symbol: market.symbol,
+          side: direction > 0 ? 'BUY' : 'SELL',
+          quantity: ctx.parameters.orderSize,
+          price: direction > 0 ? market.ask : market.bid,
+          type: 'LIMIT',
+          timeInForce: 'IOC'
+        });
+      }
+    };
+  };
+}
+
+registerStrategy({
+  name: 'momentum',
+  description: 'Buys above the 5-tick average, sells below it',
+  defaults: SIGNAL_DEFAULTS,
+  create: signalStrategy((ctx, history, position) => {
+    if (history.length < 5) return 0;
+
+    const sma5 = history.slice(-5).reduce((a, b) => a + b, 0) / 5;
+    const currentPrice = history[history.length - 1];
+
+    if (position >= ctx.parameters.maxPosition && currentPrice > sma5) return 0;
+    if (position <= -ctx.parameters.maxPosition && currentPrice < sma5) return 0;
+
+    if (currentPrice > sma5 * 1.005) return 1;  // 0.5% above SMA = buy
+    if (currentPrice < sma5 * 0.995) return -1; // 0.5% below SMA = sell
+    return 0;
+  })
+});
+
+registerStrategy({
+  name: 'mean_reversion',
+  description: 'Buys 2% below the 10-tick average, sells 2% above it',
+  defaults: SIGNAL_DEFAULTS,
+  create: signalStrategy((ctx, history, position) => {
+    if (history.length < 10) return 0;
+
+    const sma10 = history.slice(-10).reduce((a, b) => a + b, 0) / 10;
+    const deviation = (history[history.length - 1] - sma10) / sma10;
+
+    if (position >= ctx.parameters.maxPosition && deviation < -0.01) return 0;
+    if (position <= -ctx.parameters.maxPosition && deviation > 0.01) return 0;
+
+    if (deviation < -0.02) return 1;   // 2% below mean = buy
+    if (deviation > 0.02) return -1;   // 2% above mean = sell
+    return 0;
+  })
+});
+
+registerStrategy({
+  name: 'random',
+  description: 'Random buys and sells within the position limit',
+  defaults: SIGNAL_DEFAULTS,
+  create: signalStrategy((ctx, history, position) => {
+    const rand = ctx.random.next();
+    if (rand < 0.4 && position < ctx.parameters.maxPosition) return 1;
+    if (rand > 0.6 && position > -ctx.parameters.maxPosition) return -1;
+    return 0;
+  })
+});
+
+registerStrategy({
+  name: 'news_reactive',
+  description: 'Trades only on news: buys good news, sells bad news',
+  defaults: SIGNAL_DEFAULTS,
+  create: () => {
+    const lastMarkets = new Map<string, MarketView>();
+
+    return {
+      onTick(ctx, market) {
+        lastMarkets.set(market.symbol, market);
+      },
+
+      onNews(ctx, news) {
+        const direction = news.impact === 'positive' ? 1 : news.impact === 'negative' ? -1 : 0;
+        const market = (news.symbol && lastMarkets.get(news.symbol)) || lastMarkets.values().next().value;
+        if (direction === 0 || !market) return;
+
+        ctx.placeOrder({
+          symbol: market.symbol,
+          side: direction > 0 ? 'BUY' : 'SELL',
+          quantity: ctx.parameters.orderSize,
+          price: direction > 0 ? market.last * 1.001 : market.last * 0.999,
+          type: 'LIMIT',
+          timeInForce: 'IOC'
+        });
+      }
+    };
+  }
+});
\ No newline at end of file
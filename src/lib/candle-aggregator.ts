@@ -0,0 +1,199 @@
+/**
+ * Candle Aggregator
+ *
+ * Builds OHLCV candles for the Chart Window from the session's executions,
+ * at tick, 1 second, 5 second and 1 minute resolutions. History is rebuilt
+ * from the persisted fills when the aggregator is created; live trades from
+ * the order engine then extend the same series, and each update is emitted
+ * so the socket layer can push the changed bars.
+ */
+
+import { EventEmitter } from 'events';
+import { prisma } from './prisma';
+
+export type CandleResolution = 'tick' | '1s' | '5s' | '1m';
+
+export const CANDLE_RESOLUTIONS: CandleResolution[] = ['tick', '1s', '5s', '1m'];
+
+// Bar length; tick bars hold one trade each
+const RESOLUTION_MS: Record<CandleResolution, number> = {
+  tick: 0,
+  '1s': 1000,
+  '5s': 5000,
+  '1m': 60000
+};
+
+// Bars kept per symbol and resolution
+const MAX_CANDLES = 1000;
+
+export interface Candle {
+  time: number; // bar start, epoch milliseconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  trades: number;
+}
+
+export interface TradePrint {
+  executionId?: string;
+  securityId: string;
+  price: number;
+  quantity: number;
+  timestamp: Date | string;
+}
+
+export interface CandleUpdate {
+  symbol: string;
+  candles: Record<CandleResolution, Candle>; // the bar each resolution changed
+}
+
+/**
+ * Whether a string names a supported resolution
+ */
+export function isCandleResolution(value: string): value is CandleResolution {
+  return (CANDLE_RESOLUTIONS as string[]).includes(value);
+}
+
+export class CandleAggregator extends EventEmitter {
+  private sessionId: string;
+  private series = new Map<string, Map<CandleResolution, Candle[]>>();
+  private symbols = new Map<string, string>(); // securityId -> symbol
+  private seen = new Set<string>(); // executions already in the series
+  private history: Promise<void>;
+
+  constructor(sessionId: string) {
+    super();
+    this.sessionId = sessionId;
+    this.history = this.loadHistory();
+  }
+
+  /**
+   * Rebuild the series from persisted fills. Both sides of a trade are
+   * saved as `<execution>_B` and `<execution>_S`; each trade counts once.
+   */
+  private async loadHistory(): Promise<void> {
+    try {
+      const executions = await prisma.orderExecution.findMany({
+        where: { order: { sessionId: this.sessionId } },
+        include: { order: { select: { securityId: true, security: { select: { symbol: true } } } } },
+        orderBy: { timestamp: 'asc' }
+      });
+
+      executions.forEach((execution: any) => {
+        const executionId = execution.id.replace(/_[BS]$/, '');
+        if (this.seen.has(executionId)) return;
+        this.seen.add(executionId);
+
+        const symbol = execution.order.security?.symbol || execution.order.securityId;
+        this.symbols.set(execution.order.securityId, symbol);
+        this.addTrade(symbol, Number(execution.price), execution.quantity, new Date(execution.timestamp).getTime());
+      });
+    } catch (error) {
+      console.error('Error loading candle history:', error);
+    }
+  }
+
+  private async symbolFor(securityId: string): Promise<string> {
+    if (!this.symbols.has(securityId)) {
+      try {
+        const security = await prisma.security.findUnique({
+          where: { id: securityId },
+          select: { symbol: true }
+        });
+        this.symbols.set(securityId, security?.symbol || securityId);
+      } catch {
+        this.symbols.set(securityId, securityId);
+      }
+    }
+    return this.symbols.get(securityId)!;
+  }
+
+  /**
+   * Fold a trade into every resolution and return the bars it changed
+   */
+  private addTrade(symbol: string, price: number, quantity: number, time: number): Record<CandleResolution, Candle> {
+    if (!this.series.has(symbol)) {
+      this.series.set(symbol, new Map(CANDLE_RESOLUTIONS.map(resolution => [resolution, []])));
+    }
+    const bySymbol = this.series.get(symbol)!;
+    const changed = {} as Record<CandleResolution, Candle>;
+
+    for (const resolution of CANDLE_RESOLUTIONS) {
+      const candles = bySymbol.get(resolution)!;
+      const length = RESOLUTION_MS[resolution];
+      const start = length > 0 ? Math.floor(time / length) * length : time;
+
+      // Trades normally arrive in order; a late one lands in its own bar
+      let index = candles.length - 1;
+      while (index >= 0 && candles[index].time > start) index--;
+
+      let candle = length > 0 && index >= 0 && candles[index].time === start ? candles[index] : undefined;
+      if (candle) {
+        candle.high = Math.max(candle.high, price);
+        candle.low = Math.min(candle.low, price);
+        if (index === candles.length - 1) candle.close = price;
+        candle.volume += quantity;
+        candle.trades += 1;
+      } else {
+        candle = { time: start, open: price, high: price, low: price, close: price, volume: quantity, trades: 1 };
+        candles.splice(index + 1, 0, candle);
+        if (candles.length > MAX_CANDLES) candles.shift();
+      }
+
+      changed[resolution] = { ...candle };
+    }
+
+    return changed;
+  }
+
+  /**
+   * Add a live trade from the order engine and publish the changed bars
+   */
+  async recordTrade(trade: TradePrint): Promise<void> {
+    await this.history;
+
+    if (trade.executionId) {
+      if (this.seen.has(trade.executionId)) return;
+      this.seen.add(trade.executionId);
+    }
+
+    const symbol = await this.symbolFor(trade.securityId);
+    const candles = this.addTrade(symbol, trade.price, trade.quantity, new Date(trade.timestamp).getTime());
+
+    this.emit('candlesUpdated', { symbol, candles } as CandleUpdate);
+  }
+
+  /**
+   * Most recent bars of a symbol at a resolution, oldest first
+   */
+  async getCandles(symbol: string, resolution: CandleResolution, limit = MAX_CANDLES): Promise<Candle[]> {
+    await this.history;
+    const candles = this.series.get(symbol.toUpperCase())?.get(resolution)
+      || this.series.get(symbol)?.get(resolution)
+      || [];
+    return candles.slice(-limit).map(candle => ({ ...candle }));
+  }
+
+  /**
+   * Symbols that have traded in the session
+   */
+  async getSymbols(): Promise<string[]> {
+    await this.history;
+    return Array.from(this.series.keys());
+  }
+}
+
+// Global candle aggregators by session
+const candleAggregators = new Map<string, CandleAggregator>();
+
+/**
+ * Get or create candle aggregator for a session
+ */
+export function getCandleAggregator(sessionId: string): CandleAggregator {
+  if (!candleAggregators.has(sessionId)) {
+    candleAggregators.set(sessionId, new CandleAggregator(sessionId));
+  }
+  return candleAggregators.get(sessionId)!;
+}
\ No newline at end of file
@@ -5,6 +5,8 @@
  * during professor presentations and demonstrations
  */
 
+import { getSessionClock, ClockTimer } from './session-clock';
+
 export interface DemoScenario {
   id: string;
   name: string;
@@ -572,7 +574,8 @@ export const DEMO_SCENARIOS: Record<string, DemoScenario> = {
 export class DemoScenarioManager {
   private currentScenario: DemoScenario | null = null;
   private scenarioStartTime: Date | null = null;
-  private eventTimers: NodeJS.Timeout[] = [];
+  private sessionId: string | null = null;
+  private eventTimers: ClockTimer[] = [];
 
   /**
    * Start a demo scenario
@@ -624,9 +627,12 @@ export class DemoScenarioManager {
   private scheduleScenarioEvents(sessionId: string, sessionManager: any): void {
     if (!this.currentScenario) return;
 
+    this.sessionId = sessionId;
+    this.scenarioStartTime = getSessionClock(sessionId).date();
+
     for (const event of this.currentScenario.timeline) {
       if (event.automated) {
-        const timer = setTimeout(() => {
+        const timer = getSessionClock(sessionId).setTimeout(() => {
           this.executeScenarioEvent(sessionId, event, sessionManager);
         }, event.time * 1000);
         
@@ -683,7 +689,8 @@ export class DemoScenarioManager {
       return { currentTime: 0, totalDuration: 0 };
     }
 
-    const currentTime = Math.floor((Date.now() - this.scenarioStartTime.getTime()) / 1000);
+    const now = this.sessionId ? getSessionClock(this.sessionId).now() : Date.now();
+    const currentTime = Math.floor((now - this.scenarioStartTime.getTime()) / 1000);
     const totalDuration = this.currentScenario.duration * 60;
 
     const nextEvent = this.currentScenario.timeline
@@ -697,10 +704,14 @@ export class DemoScenarioManager {
    * Stop current scenario
    */
   stopScenario(): void {
-    this.eventTimers.forEach(timer => clearTimeout(timer));
+    if (this.sessionId) {
+      const clock = getSessionClock(this.sessionId);
+      this.eventTimers.forEach(timer => clock.clear(timer));
+    }
     this.eventTimers = [];
     this.currentScenario = null;
     this.scenarioStartTime = null;
+    this.sessionId = null;
   }
 
   /**
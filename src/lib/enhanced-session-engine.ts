@@ -7,7 +7,10 @@
 
 import { EventEmitter } from 'events';
 import { LessonDefinition, LessonCommand, LessonSimulation } from './lesson-loader';
-import { PrivilegeSystem } from './privilege-system';
+import { PrivilegeSystem, PrivilegeAuction, PrivilegeListing, parseAuctionType, MARKET_MAKING_PRIVILEGE } from './privilege-system';
+import { getSessionJournal } from './session-journal';
+import { getSessionClock, ClockTimer } from './session-clock';
+import { getSessionRandom } from './seeded-random';
 
 export interface SessionParticipant {
   id: string;
@@ -80,7 +83,7 @@ export interface SessionEvent {
 
 export class EnhancedSessionEngine extends EventEmitter {
   private activeSessions: Map<string, ActiveSession> = new Map();
-  private commandSchedulers: Map<string, NodeJS.Timeout[]> = new Map();
+  private commandSchedulers: Map<string, ClockTimer[]> = new Map();
 
   /**
    * Initialize a new trading session from lesson
@@ -174,10 +177,11 @@ export class EnhancedSessionEngine extends EventEmitter {
    * Schedule lesson commands for execution
    */
   private scheduleCommands(session: ActiveSession): void {
-    const timers: NodeJS.Timeout[] = [];
+    const clock = getSessionClock(session.id);
+    const timers: ClockTimer[] = [];
 
     for (const command of session.pendingCommands) {
-      const timer = setTimeout(() => {
+      const timer = clock.setTimeout(() => {
         this.executeCommand(session.id, command);
       }, 1000); // Execute commands with 1 second delay
 
@@ -416,19 +420,24 @@ export class EnhancedSessionEngine extends EventEmitter {
     const privilegeId = params[0] || 22; // Default to Market Making Rights
     const duration = params[1] || 60; // Default 60 seconds
     const minimumBid = params[2] || 100; // Default $100
+    const type = parseAuctionType(params[3]) || 'ENGLISH';
+    const increment = Number(params[4]) || undefined;
+    const available = Number(params[5]) || undefined;
     
     try {
       const auctionId = session.privilegeSystem.startPrivilegeAuction(
         privilegeId,
         minimumBid,
-        duration
+        duration,
+        { type, increment, available }
       );
 
-      this.logEvent(session, 'AUCTION_STARTED', { privilegeId, duration, minimumBid, auctionId });
+      this.logEvent(session, 'AUCTION_STARTED', { privilegeId, type, duration, minimumBid, auctionId });
       this.emit('auction_started', { 
         sessionId: session.id, 
         auctionId, 
         privilegeId, 
+        type,
         duration,
         minimumBid 
       });
@@ -517,14 +526,16 @@ export class EnhancedSessionEngine extends EventEmitter {
       const symbolData = session.marketState.symbols.get(symbol);
       if (symbolData) {
         // Simulate random price movements
-        const interval = setInterval(() => {
-          const randomChange = (Math.random() - 0.5) * volatilityMultiplier;
+        const clock = getSessionClock(session.id);
+        const random = getSessionRandom(session.id, `volatility-spike:${symbol}`);
+        const interval = clock.setInterval(() => {
+          const randomChange = (random.next() - 0.5) * volatilityMultiplier;
           const newPrice = symbolData.price * (1 + randomChange / 100);
-          this.setPrice(session, { symbol, price: newPrice, volume: Math.floor(Math.random() * 1000) });
+          this.setPrice(session, { symbol, price: newPrice, volume: random.nextInt(1000) });
         }, 1000);
 
         // Stop after duration
-        setTimeout(() => clearInterval(interval), duration * 1000);
+        clock.setTimeout(() => clock.clear(interval), duration * 1000);
       }
     }
   }
@@ -572,11 +583,8 @@ export class EnhancedSessionEngine extends EventEmitter {
 
     session.status = 'PAUSED';
     
-    // Clear all scheduled commands
-    const timers = this.commandSchedulers.get(sessionId);
-    if (timers) {
-      timers.forEach(timer => clearTimeout(timer));
-    }
+    // Scheduled commands wait on the frozen clock
+    getSessionClock(sessionId).pause();
 
     this.logEvent(session, 'SESSION_PAUSED', {});
     this.emit('session_paused', { sessionId });
@@ -590,22 +598,8 @@ export class EnhancedSessionEngine extends EventEmitter {
     if (!session) return;
 
     session.status = 'IN_PROGRESS';
-    
-    // Reschedule remaining commands
-    const remainingCommands = session.pendingCommands.filter(
-      cmd => !session.executedCommands.has(cmd.id)
-    );
-
-    const timers: NodeJS.Timeout[] = [];
-    for (const command of remainingCommands) {
-      const delay = 1000; // Default 1 second delay
-      const timer = setTimeout(() => {
-        this.executeCommand(sessionId, command);
-      }, delay);
-      timers.push(timer);
-    }
-    
-    this.commandSchedulers.set(sessionId, timers);
+    getSessionClock(sessionId).resume();
+
     this.logEvent(session, 'SESSION_RESUMED', {});
     this.emit('session_resumed', { sessionId });
   }
@@ -623,7 +617,8 @@ export class EnhancedSessionEngine extends EventEmitter {
     // Clear all timers
     const timers = this.commandSchedulers.get(sessionId);
     if (timers) {
-      timers.forEach(timer => clearTimeout(timer));
+      const clock = getSessionClock(sessionId);
+      timers.forEach(timer => clock.clear(timer));
       this.commandSchedulers.delete(sessionId);
     }
 
@@ -661,6 +656,13 @@ export class EnhancedSessionEngine extends EventEmitter {
     };
   }
 
+  /**
+   * Get a privilege auction by ID
+   */
+  getAuction(sessionId: string, auctionId: string): PrivilegeAuction | undefined {
+    return this.activeSessions.get(sessionId)?.privilegeSystem.getAuction(auctionId);
+  }
+
   /**
    * Place bid in privilege auction
    */
@@ -687,6 +689,78 @@ export class EnhancedSessionEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Offer a held privilege for sale or lease to other students
+   */
+  listPrivilege(
+    sessionId: string,
+    userId: string,
+    privilegeId: number,
+    kind: PrivilegeListing['kind'],
+    price: number,
+    leaseSeconds?: number
+  ): PrivilegeListing {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    try {
+      return session.privilegeSystem.listPrivilege(userId, privilegeId, kind, price, leaseSeconds);
+    } catch (error) {
+      console.error('Failed to list privilege:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw a privilege listing
+   */
+  cancelPrivilegeListing(sessionId: string, userId: string, listingId: string): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    try {
+      session.privilegeSystem.cancelListing(userId, listingId);
+    } catch (error) {
+      console.error('Failed to cancel privilege listing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Buy or lease a listed privilege
+   */
+  async acceptPrivilegeListing(sessionId: string, userId: string, listingId: string): Promise<PrivilegeListing> {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    try {
+      return await session.privilegeSystem.acceptListing(userId, listingId);
+    } catch (error) {
+      console.error('Failed to accept privilege listing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get open privilege listings for a session
+   */
+  getPrivilegeListings(sessionId: string): PrivilegeListing[] {
+    return this.activeSessions.get(sessionId)?.privilegeSystem.getOpenListings() || [];
+  }
+
+  /**
+   * Get current holders of market-making rights in a session
+   */
+  getMarketMakers(sessionId: string): string[] {
+    return this.activeSessions.get(sessionId)?.privilegeSystem.getPrivilegeHolders(MARKET_MAKING_PRIVILEGE) || [];
+  }
+
   /**
    * Validate command conditions
    */
@@ -707,6 +781,11 @@ export class EnhancedSessionEngine extends EventEmitter {
     };
 
     session.eventLog.push(event);
+
+    // Market state changes also go to the persistent session journal
+    if (type === 'MARKET_OPENED' || type === 'MARKET_CLOSED') {
+      getSessionJournal(session.id).append(type, data);
+    }
     
     // Keep only last 1000 events to prevent memory bloat
     if (session.eventLog.length > 1000) {
@@ -767,7 +846,7 @@ export class EnhancedSessionEngine extends EventEmitter {
     session.marketState.isOpen = false;
 
     // Resume after 5 minutes
-    setTimeout(() => {
+    getSessionClock(session.id).setTimeout(() => {
       session.marketState.isOpen = originalState;
       this.emit('circuit_breaker_lifted', { sessionId: session.id, symbols });
     }, 5 * 60 * 1000);
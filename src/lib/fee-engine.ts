@@ -0,0 +1,159 @@
+/**
+ * Fee Engine
+ *
+ * Applies the lesson's fee schedule to each fill: commission, maker rebates
+ * and taker fees, and modelled slippage on market orders. The per-trade
+ * charge and minimum ticket apply once per order however many fills it
+ * takes, and auction prints pay neither taker fees nor maker rebates. Costs
+ * are posted to the cash ledger against the order and added to the
+ * student's transaction costs for the session.
+ */
+
+import { getSessionDatabase, SessionDatabase } from './session-database';
+import { getMarketConfig, FeeScheduleConfig } from './market-config';
+import { getPortfolioEngine, PortfolioEngine } from './portfolio-engine';
+
+export type Liquidity = 'MAKER' | 'TAKER' | 'AUCTION';
+
+export interface FillCostInput {
+  userId: string;
+  orderId: string;
+  securityId: string;
+  orderType: string;
+  quantity: number;
+  price: number;
+  liquidity: Liquidity;
+}
+
+export interface TradeCosts {
+  commission: number; // negative when the maker rebate exceeds the commission
+  slippage: number;
+  liquidity: Liquidity;
+  accrued: number; // order's commission before the minimum ticket, this fill included
+}
+
+const DEFAULT_FEES = getMarketConfig('').fees;
+
+/**
+ * Costs of one fill under a fee schedule. Pass the commission accrued on
+ * the order's earlier fills (omit it for the first fill) so the per-trade
+ * charge is taken once and the minimum ticket is only topped up.
+ */
+export function calculateTradeCosts(
+  fees: FeeScheduleConfig,
+  fill: Pick<FillCostInput, 'orderType' | 'quantity' | 'price' | 'liquidity'>,
+  accrued?: number
+): TradeCosts {
+  const notional = fill.quantity * fill.price;
+  const previous = accrued ?? 0;
+  const total = previous
+    + fees.perShare * fill.quantity
+    + (accrued === undefined ? fees.perTrade : 0)
+    + notional * fees.notionalBps / 10000;
+  const ticket = (base: number) => base > 0 ? Math.max(base, fees.minimumTicket) : 0;
+
+  let commission = ticket(total) - ticket(previous);
+  if (fill.liquidity === 'MAKER') {
+    commission -= fees.makerRebate * fill.quantity;
+  } else if (fill.liquidity === 'TAKER') {
+    commission += fees.takerFee * fill.quantity;
+  }
+
+  const slippage = fill.orderType === 'MARKET' ? notional * fees.slippageBps / 10000 : 0;
+
+  return {
+    commission: Math.round(commission * 100) / 100,
+    slippage: Math.round(slippage * 100) / 100,
+    liquidity: fill.liquidity,
+    accrued: total
+  };
+}
+
+export class FeeEngine {
+  private sessionId: string;
+  private db: SessionDatabase;
+  private portfolioEngine: PortfolioEngine;
+  private fees: FeeScheduleConfig = DEFAULT_FEES;
+  private configuration: Promise<void>;
+  private orderCommissions: Map<string, number> = new Map();
+
+  constructor(sessionId: string) {
+    this.sessionId = sessionId;
+    this.db = getSessionDatabase(sessionId);
+    this.portfolioEngine = getPortfolioEngine(sessionId);
+    this.configuration = this.loadSchedule();
+  }
+
+  /**
+   * Load the fee schedule for the session's lesson
+   */
+  private async loadSchedule(): Promise<void> {
+    try {
+      const session = await this.db.simulationSession.findUnique({
+        where: { id: this.sessionId },
+        include: { lesson: { select: { name: true } } }
+      });
+      if (session?.lesson) {
+        this.fees = getMarketConfig(session.lesson.name).fees;
+      }
+    } catch (error) {
+      console.error('Error loading fee schedule:', error);
+    }
+  }
+
+  /**
+   * Fee schedule in force for this session
+   */
+  async getSchedule(): Promise<FeeScheduleConfig> {
+    await this.configuration;
+    return this.fees;
+  }
+
+  /**
+   * Work out a fill's costs, post them to the ledger and add them to the
+   * student's transaction costs
+   */
+  async chargeFill(fill: FillCostInput): Promise<TradeCosts> {
+    await this.configuration;
+    const costs = calculateTradeCosts(this.fees, fill, this.orderCommissions.get(fill.orderId));
+    this.orderCommissions.set(fill.orderId, costs.accrued);
+    const description = `${fill.quantity} ${fill.securityId} @ ${fill.price} (${fill.liquidity.toLowerCase()})`;
+
+    if (costs.commission > 0) {
+      await this.portfolioEngine.chargeCash(fill.userId, costs.commission, `Commission on ${description}`, 'COMMISSION', fill.orderId);
+    } else if (costs.commission < 0) {
+      await this.portfolioEngine.creditCash(fill.userId, -costs.commission, `Maker rebate on ${description}`, 'COMMISSION', fill.orderId);
+    }
+
+    if (costs.slippage > 0) {
+      await this.portfolioEngine.chargeCash(fill.userId, costs.slippage, `Slippage on ${description}`, 'SLIPPAGE', fill.orderId);
+    }
+
+    const total = costs.commission + costs.slippage;
+    if (total !== 0) {
+      try {
+        await this.db.sessionUser.updateMany({
+          where: { sessionId: this.sessionId, userId: fill.userId },
+          data: { transactionCosts: { increment: total } }
+        });
+      } catch (error) {
+        console.error('Error recording transaction costs:', error);
+      }
+    }
+
+    return costs;
+  }
+}
+
+// Global fee engines by session
+const feeEngines = new Map<string, FeeEngine>();
+
+/**
+ * Get or create fee engine for a session
+ */
+export function getFeeEngine(sessionId: string): FeeEngine {
+  if (!feeEngines.has(sessionId)) {
+    feeEngines.set(sessionId, new FeeEngine(sessionId));
+  }
+  return feeEngines.get(sessionId)!;
+}
\ No newline at end of file
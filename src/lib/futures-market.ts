@@ -0,0 +1,397 @@
+/**
+ * Futures Market
+ *
+ * Lists the lesson's futures contracts as DERIVATIVE securities traded
+ * through the matching engine. Trades move no cash; the margin engine holds
+ * initial margin per contract instead. At the end of every simulated day
+ * each contract settles at its last trade and open positions are marked to
+ * market, paying the variation between longs and shorts. On the last day
+ * positions are marked to the lesson's final value and closed.
+ */
+
+import { EventEmitter } from 'events';
+import { getSessionDatabase, SessionDatabase } from './session-database';
+import { getMarketConfig, FuturesMarketConfig } from './market-config';
+import { getMatchingCore, ExecutionEvent } from './matching-core';
+import { getPortfolioEngine, PortfolioEngine, Position, VariationPayment } from './portfolio-engine';
+import { getSessionClock, ClockTimer } from './session-clock';
+import { getSessionJournal, SessionJournal } from './session-journal';
+
+export type ContractStatus = 'OPEN' | 'EXPIRED';
+
+export interface FuturesContract {
+  securityId: string;
+  symbol: string;
+  name: string;
+  sector: string;
+  multiplier: number;
+  tickSize: number;
+  initialMargin: number;
+  maintenanceMargin: number;
+  expiryDays: number;
+  finalValue: number;
+  settlementPrice: number; // last daily settlement, the starting price before the first
+  status: ContractStatus;
+}
+
+export interface FuturesQuote {
+  securityId: string;
+  symbol: string;
+  name: string;
+  sector: string;
+  multiplier: number;
+  tickSize: number;
+  tickValue: number;
+  initialMargin: number;
+  maintenanceMargin: number;
+  price: number;
+  settlement: number;
+  change: number; // since the last settlement
+  changePercent: number;
+  high?: number; // today
+  low?: number;
+  volume: number; // today
+  openInterest: number;
+  bid?: number;
+  ask?: number;
+  contractValue: number; // price times multiplier
+  day: number;
+  daysToExpiry: number;
+  status: ContractStatus;
+}
+
+export interface FuturesSettlement {
+  securityId: string;
+  symbol: string;
+  day: number;
+  previousSettlement: number;
+  settlementPrice: number;
+  final: boolean; // cash settlement at expiry
+  payments: VariationPayment[];
+  timestamp: Date;
+}
+
+interface TradingDay {
+  high?: number;
+  low?: number;
+  volume: number;
+}
+
+const DEFAULT_FUTURES = getMarketConfig('').futures;
+
+export class FuturesMarket extends EventEmitter {
+  private sessionId: string;
+  private db: SessionDatabase;
+  private portfolioEngine: PortfolioEngine;
+  private journal: SessionJournal;
+  private config: FuturesMarketConfig = DEFAULT_FUTURES;
+  private contracts: Map<string, FuturesContract> = new Map(); // by securityId
+  private holdings: Map<string, Map<string, number>> = new Map(); // securityId -> userId -> quantity
+  private today: Map<string, TradingDay> = new Map();
+  private configuration: Promise<void>;
+  private day = 1;
+  private settleTimer?: ClockTimer;
+  private quoteTimer?: ClockTimer;
+
+  constructor(sessionId: string) {
+    super();
+    this.sessionId = sessionId;
+    this.db = getSessionDatabase(sessionId);
+    this.portfolioEngine = getPortfolioEngine(sessionId);
+    this.journal = getSessionJournal(sessionId);
+    this.configuration = this.loadContracts();
+
+    this.portfolioEngine.on('positionUpdate', ({ data }: { data: Position }) => {
+      this.holdings.get(data.securityId)?.set(data.userId, data.quantity);
+    });
+
+    getMatchingCore(sessionId).on('execution', ({ execution }: ExecutionEvent) => {
+      const day = this.today.get(execution.securityId);
+      if (!day) return;
+      day.high = Math.max(day.high ?? execution.price, execution.price);
+      day.low = Math.min(day.low ?? execution.price, execution.price);
+      day.volume += execution.quantity;
+    });
+  }
+
+  /**
+   * Create the lesson's contracts as DERIVATIVE securities, register their
+   * terms with the portfolio engine and load positions already held
+   */
+  private async loadContracts(): Promise<void> {
+    try {
+      const session = await this.db.simulationSession.findUnique({
+        where: { id: this.sessionId },
+        include: { lesson: { select: { name: true } } }
+      });
+      if (!session?.lesson) return;
+
+      this.config = getMarketConfig(session.lesson.name).futures;
+      if (!this.config.enabled) return;
+
+      for (const contractConfig of this.config.contracts) {
+        const security = await this.db.security.upsert({
+          where: { symbol: contractConfig.symbol },
+          update: { isActive: true },
+          create: { symbol: contractConfig.symbol, name: contractConfig.name, type: 'DERIVATIVE' }
+        });
+
+        this.contracts.set(security.id, {
+          securityId: security.id,
+          symbol: contractConfig.symbol,
+          name: contractConfig.name,
+          sector: contractConfig.sector,
+          multiplier: contractConfig.multiplier,
+          tickSize: contractConfig.tickSize,
+          initialMargin: contractConfig.initialMargin,
+          maintenanceMargin: contractConfig.maintenanceMargin,
+          expiryDays: contractConfig.expiryDays,
+          finalValue: contractConfig.finalValue,
+          settlementPrice: contractConfig.startingPrice,
+          status: 'OPEN'
+        });
+        this.holdings.set(security.id, new Map());
+        this.today.set(security.id, { volume: 0 });
+        this.portfolioEngine.setContractTerms(security.id, { multiplier: contractConfig.multiplier, markedToMarket: true });
+      }
+
+      const positions = await this.db.position.findMany({
+        where: { sessionId: this.sessionId, securityId: { in: Array.from(this.contracts.keys()) } },
+        select: { userId: true, securityId: true, quantity: true }
+      });
+      positions.forEach((position: any) => {
+        this.holdings.get(position.securityId)?.set(position.userId, position.quantity);
+      });
+
+      console.log(`Futures market listed ${this.contracts.size} contracts for session ${this.sessionId}`);
+    } catch (error) {
+      console.error('Error listing futures contracts:', error);
+    }
+  }
+
+  /**
+   * Restore the simulated day and each contract's last settlement from the
+   * journal after a restart, so variation margin continues from the last
+   * mark rather than the lesson's starting price
+   */
+  async rehydrate(): Promise<void> {
+    await this.configuration;
+    if (this.contracts.size === 0) return;
+
+    try {
+      const settlements = await this.journal.getEntries({ types: ['FUTURES_SETTLED'] });
+      for (const { payload } of settlements) {
+        const contract = this.contracts.get(payload.securityId);
+        if (!contract) continue;
+
+        contract.settlementPrice = payload.settlementPrice;
+        if (payload.final) {
+          contract.status = 'EXPIRED';
+        }
+        this.day = Math.max(this.day, payload.day + 1);
+      }
+    } catch (error) {
+      console.error('Error restoring futures settlements:', error);
+    }
+  }
+
+  /**
+   * Start the daily settlement cycle and quote publishing on the session clock
+   */
+  async start(): Promise<void> {
+    await this.configuration;
+    if (this.contracts.size === 0 || this.settleTimer) return;
+
+    const clock = getSessionClock(this.sessionId);
+    this.settleTimer = clock.setInterval(() => {
+      this.settleDay().catch(error => {
+        console.error('Error settling futures:', error);
+      });
+    }, this.config.secondsPerDay * 1000);
+
+    this.quoteTimer = clock.setInterval(() => {
+      this.emit('quotesUpdated', { quotes: this.buildQuotes(), timestamp: clock.date() });
+    }, this.config.quoteSeconds * 1000);
+  }
+
+  /**
+   * Stop settling and quoting; open positions keep their last mark
+   */
+  stop(): void {
+    const clock = getSessionClock(this.sessionId);
+    clock.clear(this.settleTimer);
+    clock.clear(this.quoteTimer);
+    this.settleTimer = undefined;
+    this.quoteTimer = undefined;
+  }
+
+  /**
+   * Futures terms of a security, if it is a listed contract
+   */
+  getContract(securityId: string): FuturesContract | undefined {
+    return this.contracts.get(securityId);
+  }
+
+  /**
+   * Reject orders in expired contracts and prices off the contract's tick
+   */
+  checkOrder(order: { securityId: string; price?: number; stopPrice?: number }): { valid: boolean; reason?: string } {
+    const contract = this.contracts.get(order.securityId);
+    if (!contract) return { valid: true };
+
+    if (contract.status === 'EXPIRED') {
+      return { valid: false, reason: `${contract.symbol} has expired` };
+    }
+
+    for (const price of [order.price, order.stopPrice]) {
+      if (price === undefined) continue;
+      const ticks = price / contract.tickSize;
+      if (Math.abs(ticks - Math.round(ticks)) > 1e-6) {
+        return { valid: false, reason: `${contract.symbol} trades in ticks of ${contract.tickSize}` };
+      }
+    }
+
+    return { valid: true };
+  }
+
+  private roundToTick(price: number, tickSize: number): number {
+    return Math.round(Math.round(price / tickSize) * tickSize * 1e8) / 1e8;
+  }
+
+  private openInterest(securityId: string): number {
+    let total = 0;
+    this.holdings.get(securityId)?.forEach(quantity => {
+      if (quantity > 0) total += quantity;
+    });
+    return total;
+  }
+
+  private buildQuotes(): FuturesQuote[] {
+    const core = getMatchingCore(this.sessionId);
+
+    return Array.from(this.contracts.values()).map(contract => {
+      const book = core.getDisplayBook(contract.securityId);
+      const today = this.today.get(contract.securityId)!;
+      const price = contract.status === 'EXPIRED'
+        ? contract.finalValue
+        : core.getLastPrice(contract.securityId) ?? contract.settlementPrice;
+      const change = price - contract.settlementPrice;
+
+      return {
+        securityId: contract.securityId,
+        symbol: contract.symbol,
+        name: contract.name,
+        sector: contract.sector,
+        multiplier: contract.multiplier,
+        tickSize: contract.tickSize,
+        tickValue: contract.tickSize * contract.multiplier,
+        initialMargin: contract.initialMargin,
+        maintenanceMargin: contract.maintenanceMargin,
+        price,
+        settlement: contract.settlementPrice,
+        change,
+        changePercent: contract.settlementPrice ? change / contract.settlementPrice * 100 : 0,
+        high: today.high,
+        low: today.low,
+        volume: today.volume,
+        openInterest: this.openInterest(contract.securityId),
+        bid: book.bids[0]?.price,
+        ask: book.asks[0]?.price,
+        contractValue: price * contract.multiplier,
+        day: this.day,
+        daysToExpiry: Math.max(0, contract.expiryDays - this.day + 1),
+        status: contract.status
+      };
+    });
+  }
+
+  /**
+   * Every listed contract with today's market
+   */
+  async getQuotes(): Promise<FuturesQuote[]> {
+    await this.configuration;
+    return this.buildQuotes();
+  }
+
+  /**
+   * End of a simulated day: settle each open contract at its last trade, or
+   * at the lesson's final value on its last day
+   */
+  private async settleDay(): Promise<void> {
+    const core = getMatchingCore(this.sessionId);
+    const timestamp = getSessionClock(this.sessionId).date();
+
+    for (const contract of this.contracts.values()) {
+      if (contract.status === 'EXPIRED') continue;
+
+      const final = this.day >= contract.expiryDays;
+      const previousSettlement = contract.settlementPrice;
+      const settlementPrice = final
+        ? contract.finalValue
+        : this.roundToTick(core.getLastPrice(contract.securityId) ?? previousSettlement, contract.tickSize);
+      const reference = `futures_${contract.securityId}_day${this.day}`;
+
+      if (final) {
+        contract.status = 'EXPIRED';
+        this.emit('contractExpired', { securityId: contract.securityId, symbol: contract.symbol });
+      }
+
+      try {
+        const payments = await this.portfolioEngine.markToMarket(
+          contract.securityId,
+          settlementPrice,
+          final ? 'FUTURES_SETTLEMENT' : 'VARIATION_MARGIN',
+          reference
+        );
+        contract.settlementPrice = settlementPrice;
+        this.journal.append('FUTURES_SETTLED', { securityId: contract.securityId, day: this.day, settlementPrice, final });
+
+        // Expired positions are closed at the final value, which is now their basis
+        if (final) {
+          for (const payment of payments) {
+            await this.portfolioEngine.updatePosition(
+              payment.userId,
+              contract.securityId,
+              -payment.quantity,
+              settlementPrice,
+              0,
+              reference,
+              'FUTURES_SETTLEMENT'
+            );
+          }
+        }
+
+        this.emit('contractSettled', {
+          securityId: contract.securityId,
+          symbol: contract.symbol,
+          day: this.day,
+          previousSettlement,
+          settlementPrice,
+          final,
+          payments,
+          timestamp
+        } as FuturesSettlement);
+      } catch (error) {
+        console.error(`Error settling ${contract.symbol}:`, error);
+      }
+
+      this.today.set(contract.securityId, { volume: 0 });
+    }
+
+    this.day++;
+    this.emit('quotesUpdated', { quotes: this.buildQuotes(), timestamp });
+  }
+}
+
+// Global futures markets by session
+const futuresMarkets = new Map<string, FuturesMarket>();
+
+/**
+ * Get or create futures market for a session
+ */
+export function getFuturesMarket(sessionId: string): FuturesMarket {
+  if (!futuresMarkets.has(sessionId)) {
+    futuresMarkets.set(sessionId, new FuturesMarket(sessionId));
+  }
+  return futuresMarkets.get(sessionId)!;
+}
\ No newline at end of file
@@ -6,7 +6,11 @@
  */
 
 import { prisma } from './prisma';
-import { getMarketEngine, MarketOrder } from './market-engine';
+import { getMarketEngine } from './market-engine';
+import { getMatchingCore, ExecutionEvent } from './matching-core';
+import { getOrderMatchingEngine } from './order-matching-engine';
+import { getPortfolioEngine } from './portfolio-engine';
+import { generateSeed, getSessionSeed, setSessionSeed } from './seeded-random';
 
 export interface InstructorSession {
   id: string;
@@ -22,6 +26,7 @@ export interface InstructorSession {
   startingCash: number;
   duration: number; // in seconds
   selectedSimulation?: string; // e.g., "Simulation A"
+  seed: number; // RNG seed; reuse it to replay the same market for another section
   
   // Student management
   waitingStudents: string[]; // userIds waiting to join
@@ -65,6 +70,9 @@ if (process.env.NODE_ENV === 'development') {
   globalForInstructorSessions.instructorSessions = instructorSessions;
 }
 
+// Sessions whose matching core already settles fills into portfolios
+const executionListenerSessions = new Set<string>();
+
 /**
  * Create a new instructor session (replaces any existing session)
  */
@@ -72,7 +80,8 @@ export async function createInstructorSession(
   instructorId: string,
   lessonId: string,
   startingCash: number = 1000000, // Default to $1,000,000 to match original upTick
-  duration: number = 300 // Default 5 minutes
+  duration: number = 300, // Default 5 minutes
+  seed: number = generateSeed()
 ): Promise<InstructorSession> {
   console.log(`🏫 Creating instructor session for instructor ${instructorId}`);
   
@@ -106,6 +115,7 @@ export async function createInstructorSession(
     createdAt: new Date(),
     startingCash,
     duration,
+    seed,
     waitingStudents: [],
     activeStudents: [],
     portfolios: {},
@@ -114,12 +124,14 @@ export async function createInstructorSession(
   
   // Store session
   instructorSessions.set(sessionId, session);
+  setSessionSeed(sessionId, seed);
   
   console.log(`✅ Created instructor session: ${sessionId}`);
   console.log(`🗂️ Total sessions in memory: ${instructorSessions.size}`);
   console.log(`📚 Lesson: ${lesson.name}`);
   console.log(`💰 Starting cash: $${startingCash.toLocaleString()}`);
   console.log(`⏱️ Duration: ${duration} seconds`);
+  console.log(`🎲 Seed: ${seed}`);
   
   return session;
 }
@@ -186,7 +198,9 @@ export async function startInstructorSession(sessionId: string): Promise<Instruc
   session.activeStudents = [...session.waitingStudents];
   session.waitingStudents = [];
   
-  // Initialize portfolios for all active students
+  // Initialize portfolios for all active students, funding their ledger
+  // accounts with the instructor's starting cash
+  const portfolioEngine = getPortfolioEngine(sessionId);
   for (const userId of session.activeStudents) {
     session.portfolios[userId] = {
       userId,
@@ -195,10 +209,16 @@ export async function startInstructorSession(sessionId: string): Promise<Instruc
       totalValue: session.startingCash,
       pnl: 0
     };
+    
+    const balance = portfolioEngine.getCashBalance(userId);
+    if (balance !== session.startingCash) {
+      await portfolioEngine.adjustCash(userId, session.startingCash - balance, 'Starting cash');
+    }
   }
   
   session.status = 'IN_PROGRESS';
   session.startedAt = new Date();
+  await getOrderMatchingEngine(sessionId).openMarket();
   
   console.log(`🚀 Started session ${sessionId}`);
   console.log(`👥 Active students: ${session.activeStudents.length}`);
@@ -218,6 +238,7 @@ export async function endInstructorSession(sessionId: string): Promise<Instructo
   
   session.status = 'COMPLETED';
   session.endedAt = new Date();
+  await getOrderMatchingEngine(sessionId).closeMarket();
   
   console.log(`🏁 Ended session ${sessionId}`);
   
@@ -289,71 +310,43 @@ export async function placeSessionOrder(
     throw new Error('User is not active in this session');
   }
   
-  const portfolio = session.portfolios[userId];
-  if (!portfolio) {
+  if (!session.portfolios[userId]) {
     throw new Error('Portfolio not found');
   }
   
-  // Get market engine configured for this lesson
-  const marketEngine = getMarketEngine(session.lessonName);
-  
-  // For market orders, check if user has enough cash using current market price
-  if (side === 'BUY' && !price) {
-    const marketData = marketEngine.getMarketData(symbol);
-    const estimatedPrice = marketData?.currentPrice || 50.00;
-    const estimatedCost = estimatedPrice * quantity * 1.05; // Add 5% buffer for market orders
-    
-    if (portfolio.cash < estimatedCost) {
-      throw new Error('Insufficient cash for market order');
-    }
-  }
-  
-  // For limit buy orders, check exact amount
-  if (side === 'BUY' && price) {
-    const totalCost = price * quantity;
-    if (portfolio.cash < totalCost) {
-      throw new Error('Insufficient cash');
-    }
-  }
-  
-  // For sell orders, check if user has enough shares
-  if (side === 'SELL') {
-    const currentPosition = portfolio.positions[symbol] || 0;
-    if (currentPosition < quantity) {
-      throw new Error('Insufficient shares to sell');
-    }
-  }
+  // Fills (now or later, against any front-end) settle through the session's matching core
+  attachExecutionListener(session);
   
-  // Place order in market engine
-  const marketOrder = marketEngine.placeOrder({
-    userId: `student_${userId}`, // Prefix to distinguish from bots
+  // Store the order in the session first so fills made on arrival are recorded
+  const sessionOrder: SessionOrder = {
+    id: `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    userId,
     symbol,
     side,
     quantity,
     price,
-    type: price ? 'LIMIT' : 'MARKET'
-  });
+    type: price ? 'LIMIT' : 'MARKET',
+    status: 'PENDING'
+  };
+  session.orders.push(sessionOrder);
   
-  // Convert market order to session order format
-  const sessionOrder: SessionOrder = {
-    id: marketOrder.id,
+  // The order matching engine applies risk limits, margin, trading costs
+  // and the ledger, as for orders placed through the session API
+  const marketOrder = await getOrderMatchingEngine(sessionId).submitOrder({
+    id: sessionOrder.id,
+    sessionId,
     userId,
-    symbol,
+    securityId: symbol,
+    type: sessionOrder.type,
     side,
     quantity,
     price,
-    type: marketOrder.type,
-    status: marketOrder.status === 'FILLED' ? 'FILLED' : 'PENDING',
-    fillPrice: marketOrder.avgFillPrice,
-    fillTime: marketOrder.status === 'FILLED' ? new Date() : undefined
-  };
-  
-  // Store order in session
-  session.orders.push(sessionOrder);
+    timeInForce: 'DAY'
+  });
   
-  // Update portfolio if order was filled
-  if (marketOrder.status === 'FILLED' && marketOrder.avgFillPrice) {
-    updatePortfolioFromTrade(session, userId, symbol, side, marketOrder.filledQuantity, marketOrder.avgFillPrice);
+  if (marketOrder.status === 'REJECTED') {
+    session.orders = session.orders.filter(order => order.id !== sessionOrder.id);
+    throw new Error(marketOrder.notes || 'Order rejected');
   }
   
   console.log(`📊 Order placed in market: ${side} ${quantity} ${symbol} ${price ? `@ $${price}` : 'MARKET'} by student ${userId} - Status: ${marketOrder.status}`);
@@ -361,6 +354,35 @@ export async function placeSessionOrder(
   return sessionOrder;
 }
 
+/**
+ * Settle matching core executions for student orders into session portfolios
+ */
+function attachExecutionListener(session: InstructorSession) {
+  if (executionListenerSessions.has(session.id)) return;
+  executionListenerSessions.add(session.id);
+  
+  getMatchingCore(session.id).on('execution', ({ execution, buyOrder, sellOrder }: ExecutionEvent) => {
+    for (const order of [buyOrder, sellOrder]) {
+      if (!session.portfolios[order.userId]) continue;
+      
+      const userId = order.userId;
+      updatePortfolioFromTrade(session, userId, execution.securityId, order.side, execution.quantity, execution.price);
+      
+      // Resting orders filled after placement
+      const sessionOrder = session.orders.find(o => o.id === order.id);
+      if (sessionOrder) {
+        const filledQuantity = order.quantity - order.remainingQuantity;
+        const previousQuantity = filledQuantity - execution.quantity;
+        sessionOrder.fillPrice = ((sessionOrder.fillPrice || 0) * previousQuantity + execution.price * execution.quantity) / filledQuantity;
+        if (order.status === 'FILLED') {
+          sessionOrder.status = 'FILLED';
+          sessionOrder.fillTime = execution.timestamp;
+        }
+      }
+    }
+  });
+}
+
 /**
  * Update portfolio after a trade
  */
@@ -386,7 +408,7 @@ function updatePortfolioFromTrade(
   }
   
   // Recalculate total value using current market prices
-  const marketEngine = getMarketEngine();
+  const marketEngine = getMarketEngine(session.lessonName, session.id);
   let positionValue = 0;
   
   Object.entries(portfolio.positions).forEach(([sym, qty]) => {
@@ -436,7 +458,7 @@ export function getSessionMarketData(sessionId: string) {
     return null;
   }
   
-  const marketEngine = getMarketEngine(session.lessonName);
+  const marketEngine = getMarketEngine(session.lessonName, session.id);
   return {
     marketData: marketEngine.getAllMarketData(),
     orderBooks: marketEngine.getSymbols().map(symbol => marketEngine.generateOrderBook(symbol)),
@@ -454,7 +476,7 @@ export function getSessionTrades(sessionId: string, symbol?: string, limit: numb
     return [];
   }
   
-  const marketEngine = getMarketEngine(session.lessonName);
+  const marketEngine = getMarketEngine(session.lessonName, session.id);
   if (symbol) {
     return marketEngine.getRecentTrades(symbol, limit);
   }
@@ -478,7 +500,7 @@ export function setLiquidityTrader(sessionId: string, traderId: string, setting:
     throw new Error('Session not found');
   }
   
-  const marketEngine = getMarketEngine();
+  const marketEngine = getMarketEngine(session.lessonName, session.id);
   marketEngine.setLiquidityTrader(traderId, setting, value);
   
   console.log(`🎛️ Instructor control: Liquidity trader ${traderId} ${setting} set to ${value}`);
@@ -493,7 +515,7 @@ export function refreshPortfolioValues(sessionId: string) {
     return;
   }
   
-  const marketEngine = getMarketEngine(session.lessonName);
+  const marketEngine = getMarketEngine(session.lessonName, session.id);
   
   // Update all student portfolios with current market prices
   Object.values(session.portfolios).forEach(portfolio => {
@@ -531,6 +553,7 @@ export function createInstructorSessionSync(sessionId: string, config: {
   startTime?: string;
   students?: any[];
   currentTick?: number;
+  seed?: number;
 }): InstructorSession {
   const session: InstructorSession = {
     id: sessionId,
@@ -542,6 +565,7 @@ export function createInstructorSessionSync(sessionId: string, config: {
     startedAt: config.startTime ? new Date(config.startTime) : new Date(),
     startingCash: 10000,
     duration: config.duration || 3600,
+    seed: config.seed ?? getSessionSeed(sessionId),
     waitingStudents: [],
     activeStudents: [],
     portfolios: {},
@@ -549,5 +573,6 @@ export function createInstructorSessionSync(sessionId: string, config: {
   };
 
   instructorSessions.set(sessionId, session);
+  setSessionSeed(sessionId, session.seed);
   return session;
 }
\ No newline at end of file
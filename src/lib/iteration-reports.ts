@@ -0,0 +1,572 @@
+/**
+ * Iteration Reports
+ *
+ * Reproduces the legacy upTick debrief that closed every simulation
+ * iteration. A lesson's <report iteration="n" ppt="..."> entries picked the
+ * slide deck for each round; here each iteration is reported from the fills
+ * it persisted (price path, trade tape, student P&L and price against
+ * holding value) and saved, so the rounds of scenarios A, B and C can be
+ * laid side by side in the debrief.
+ *
+ * Like the legacy lessons, which reset holdings between runs, an iteration
+ * is reported on its own fills: every student starts it flat with their
+ * starting equity.
+ */
+
+import { prisma } from './prisma';
+import { STARTING_CASH } from './portfolio-engine';
+import { ReportDocument, ReportDocumentSection, ReportFill, replayFills } from './report-builder';
+
+/**
+ * A <report> entry of a lesson simulation, as the lesson loader
+ * (pptTemplate) or the XML importer (pptFile) stores it
+ */
+export interface LegacyReportConfig {
+  iteration?: number;
+  pptTemplate?: string;
+  pptFile?: string;
+}
+
+export interface PricePoint {
+  timestamp: string;
+  elapsed: number; // seconds since the iteration started
+  price: number;
+  quantity: number;
+}
+
+export interface PriceSummary {
+  symbol: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  vwap: number;
+  volume: number;
+  trades: number;
+}
+
+export interface TapePrint {
+  timestamp: string;
+  elapsed: number;
+  symbol: string;
+  price: number;
+  quantity: number;
+  buyer: string;
+  seller: string;
+}
+
+export interface IterationStudent {
+  userId: string;
+  username: string;
+  trades: number;
+  sharesBought: number;
+  sharesSold: number;
+  realizedPnL: number;
+  unrealizedPnL: number; // open shares marked at the iteration's closing price
+  costs: number; // commissions and slippage
+  netPnL: number;
+  startingValue: number;
+  endingValue: number; // cash plus holdings at the closing price
+}
+
+export interface HoldingComparison {
+  userId: string;
+  username: string;
+  symbol: string;
+  quantity: number;
+  avgPrice: number; // price paid (or received, when short)
+  closePrice: number;
+  costBasis: number;
+  holdingValue: number;
+  difference: number; // holding value less cost basis
+}
+
+export interface IterationReportData {
+  sessionId: string;
+  lessonId: string;
+  lessonName: string;
+  classId: string;
+  scenario: string;
+  iteration: number;
+  template?: string;
+  startTime: string;
+  endTime: string;
+  prices: PriceSummary[];
+  pricePath: Record<string, PricePoint[]>; // symbol -> prints in time order
+  tape: TapePrint[];
+  students: IterationStudent[];
+  holdings: HoldingComparison[];
+  holdingPaths: Record<string, Array<{ elapsed: number; value: number }>>; // userId -> holding value after each print
+}
+
+// Counterparty shown on the tape when the other side was not a student
+const MARKET_COUNTERPARTY = 'Market';
+
+/**
+ * Pick the legacy report for an iteration: the entry numbered for it, else
+ * the unnumbered entry that covers every other round
+ */
+export function resolveReportTemplate(reports: LegacyReportConfig[], iteration: number): string | undefined {
+  const fileOf = (report?: LegacyReportConfig) => report?.pptTemplate || report?.pptFile;
+  const numbered = reports.find(report => report.iteration === iteration);
+  const fallback = reports.find(report => report.iteration === undefined || report.iteration === null);
+  return fileOf(numbered) || fileOf(fallback);
+}
+
+/**
+ * Report entries of the lesson simulation a session runs. Sessions store the
+ * scenario either as the simulation ID or as its letter.
+ */
+async function loadReportConfigs(lessonId: string, scenario: string): Promise<LegacyReportConfig[]> {
+  try {
+    const simulations = await prisma.lessonSimulation.findMany({ where: { lessonId } });
+    const simulation = simulations.find((sim: any) =>
+      sim.simulationId === scenario || sim.simulationId === `Simulation ${scenario}`
+    );
+    return Array.isArray(simulation?.reports) ? simulation.reports as LegacyReportConfig[] : [];
+  } catch (error) {
+    console.error('Error loading lesson report configuration:', error);
+    return [];
+  }
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Build the report for one iteration of a session. The iteration runs from
+ * the end of the previous iteration's report (or the session start) to now,
+ * or to when the iteration was last reported if the session has moved on.
+ * Returns null when the session was never saved.
+ */
+export async function buildIterationReport(
+  sessionId: string,
+  options: { iteration?: number; templates?: LegacyReportConfig[] } = {}
+): Promise<IterationReportData | null> {
+  const session = await prisma.simulationSession.findUnique({
+    where: { id: sessionId },
+    include: {
+      lesson: { select: { name: true } },
+      users: { include: { user: { select: { id: true, username: true } } } }
+    }
+  });
+  if (!session) return null;
+
+  const iteration = options.iteration ?? session.iteration;
+  const [previous, existing] = await Promise.all([
+    prisma.iterationReport.findFirst({
+      where: { sessionId, iteration: { lt: iteration } },
+      orderBy: { iteration: 'desc' }
+    }),
+    prisma.iterationReport.findUnique({
+      where: { sessionId_iteration: { sessionId, iteration } }
+    })
+  ]);
+
+  const startTime = new Date(previous?.endTime ?? session.startTime ?? session.createdAt);
+  const endTime = existing && iteration < session.iteration
+    ? new Date(existing.endTime)
+    : new Date(session.endTime ?? Date.now());
+
+  const orders = await prisma.order.findMany({
+    where: { sessionId },
+    include: {
+      security: { select: { symbol: true } },
+      executions: { where: { timestamp: { gte: startTime, lte: endTime } } }
+    }
+  });
+
+  const usernames = new Map<string, string>(
+    session.users.map((sessionUser: any) => [sessionUser.userId, sessionUser.user?.username || sessionUser.userId])
+  );
+  const nameOf = (userId: string) => usernames.get(userId) || userId;
+  const elapsedOf = (timestamp: Date) => Math.max(0, Math.round((new Date(timestamp).getTime() - startTime.getTime()) / 1000));
+
+  const fills: ReportFill[] = [];
+  for (const order of orders as any[]) {
+    for (const execution of order.executions) {
+      fills.push({
+        executionId: execution.id.replace(/_[BS]$/, ''),
+        timestamp: execution.timestamp,
+        userId: order.userId,
+        username: nameOf(order.userId),
+        symbol: order.security?.symbol || order.securityId,
+        side: order.side,
+        quantity: execution.quantity,
+        price: Number(execution.price),
+        commission: Number(execution.commission || 0),
+        slippage: Number(execution.slippage || 0),
+        liquidity: execution.liquidity || undefined
+      });
+    }
+  }
+  fills.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  // Trade tape: both student sides of a trade are saved as fills
+  // (`<execution>_B` and `<execution>_S`) and print once
+  const tape: TapePrint[] = [];
+  const printFills: ReportFill[][] = [];
+  const printed = new Set<ReportFill>();
+  for (const fill of fills) {
+    if (printed.has(fill)) continue;
+    printed.add(fill);
+
+    const counter = fills.find(other => !printed.has(other) && other.executionId === fill.executionId);
+    if (counter) printed.add(counter);
+
+    const buy = fill.side === 'BUY' ? fill : counter;
+    const sell = fill.side === 'SELL' ? fill : counter;
+    tape.push({
+      timestamp: new Date(fill.timestamp).toISOString(),
+      elapsed: elapsedOf(fill.timestamp),
+      symbol: fill.symbol,
+      price: fill.price,
+      quantity: fill.quantity,
+      buyer: buy?.username || MARKET_COUNTERPARTY,
+      seller: sell?.username || MARKET_COUNTERPARTY
+    });
+    printFills.push(counter ? [fill, counter] : [fill]);
+  }
+
+  // Price path and summary per security
+  const pricePath: Record<string, PricePoint[]> = {};
+  tape.forEach(print => {
+    (pricePath[print.symbol] = pricePath[print.symbol] || []).push({
+      timestamp: print.timestamp,
+      elapsed: print.elapsed,
+      price: print.price,
+      quantity: print.quantity
+    });
+  });
+
+  const prices: PriceSummary[] = Object.entries(pricePath).map(([symbol, points]) => {
+    const volume = points.reduce((sum, point) => sum + point.quantity, 0);
+    return {
+      symbol,
+      open: points[0].price,
+      high: Math.max(...points.map(point => point.price)),
+      low: Math.min(...points.map(point => point.price)),
+      close: points[points.length - 1].price,
+      vwap: roundCents(points.reduce((sum, point) => sum + point.price * point.quantity, 0) / volume),
+      volume,
+      trades: points.length
+    };
+  });
+  const closes = new Map(prices.map(summary => [summary.symbol, summary.close]));
+
+  // Student P&L and holdings at the close
+  const students: IterationStudent[] = [];
+  const holdings: HoldingComparison[] = [];
+  const startingValues = new Map<string, number>();
+  for (const sessionUser of session.users as any[]) {
+    const userId = sessionUser.userId;
+    const startingValue = Number(sessionUser.startingEquity) || STARTING_CASH;
+    const userFills = fills.filter(fill => fill.userId === userId);
+    const replay = replayFills(userFills, startingValue);
+    startingValues.set(userId, startingValue);
+
+    let unrealizedPnL = 0;
+    replay.books.forEach((book, symbol) => {
+      if (book.quantity === 0) return;
+      const closePrice = closes.get(symbol) ?? book.avgPrice;
+      const costBasis = book.quantity * book.avgPrice;
+      const holdingValue = book.quantity * closePrice;
+      unrealizedPnL += holdingValue - costBasis;
+      holdings.push({
+        userId,
+        username: nameOf(userId),
+        symbol,
+        quantity: book.quantity,
+        avgPrice: roundCents(book.avgPrice),
+        closePrice,
+        costBasis: roundCents(costBasis),
+        holdingValue: roundCents(holdingValue),
+        difference: roundCents(holdingValue - costBasis)
+      });
+    });
+
+    const realizedPnL = replay.closingPnL.reduce((sum, pnl) => sum + pnl, 0);
+    const costs = userFills.reduce((sum, fill) => sum + fill.commission + fill.slippage, 0);
+    const netPnL = realizedPnL + unrealizedPnL - costs;
+
+    students.push({
+      userId,
+      username: nameOf(userId),
+      trades: userFills.length,
+      sharesBought: userFills.filter(fill => fill.side === 'BUY').reduce((sum, fill) => sum + fill.quantity, 0),
+      sharesSold: userFills.filter(fill => fill.side === 'SELL').reduce((sum, fill) => sum + fill.quantity, 0),
+      realizedPnL: roundCents(realizedPnL),
+      unrealizedPnL: roundCents(unrealizedPnL),
+      costs: roundCents(costs),
+      netPnL: roundCents(netPnL),
+      startingValue,
+      endingValue: roundCents(startingValue + netPnL)
+    });
+  }
+  students.sort((a, b) => b.netPnL - a.netPnL);
+
+  // Holding value of each student after every print, for charting against price
+  const holdingPaths: Record<string, Array<{ elapsed: number; value: number }>> = {};
+  const cash = new Map<string, number>();
+  const shares = new Map<string, Map<string, number>>();
+  const lastPrices = new Map<string, number>();
+  tape.forEach((print, index) => {
+    for (const fill of printFills[index]) {
+      const signed = fill.side === 'BUY' ? fill.quantity : -fill.quantity;
+      const held = shares.get(fill.userId) || new Map<string, number>();
+      held.set(fill.symbol, (held.get(fill.symbol) || 0) + signed);
+      shares.set(fill.userId, held);
+      cash.set(fill.userId, (cash.get(fill.userId) || 0) - signed * fill.price - fill.commission - fill.slippage);
+    }
+    lastPrices.set(print.symbol, print.price);
+
+    startingValues.forEach((startingValue, userId) => {
+      let value = startingValue + (cash.get(userId) || 0);
+      (shares.get(userId) || new Map<string, number>()).forEach((quantity, symbol) => {
+        value += quantity * (lastPrices.get(symbol) || 0);
+      });
+      (holdingPaths[userId] = holdingPaths[userId] || []).push({ elapsed: print.elapsed, value: roundCents(value) });
+    });
+  });
+
+  const templates = options.templates ?? await loadReportConfigs(session.lessonId, session.scenario);
+
+  return {
+    sessionId,
+    lessonId: session.lessonId,
+    lessonName: session.lesson?.name || 'Unknown Lesson',
+    classId: session.classId,
+    scenario: session.scenario,
+    iteration,
+    template: resolveReportTemplate(templates, iteration),
+    startTime: startTime.toISOString(),
+    endTime: endTime.toISOString(),
+    prices,
+    pricePath,
+    tape,
+    students,
+    holdings,
+    holdingPaths
+  };
+}
+
+/**
+ * Build and save the report for a session's current iteration. Call it when
+ * an iteration ends; running it again for the same iteration replaces the
+ * saved report.
+ */
+export async function recordIterationReport(
+  sessionId: string,
+  templates?: LegacyReportConfig[]
+): Promise<IterationReportData | null> {
+  const report = await buildIterationReport(sessionId, { templates });
+  if (!report) return null;
+
+  const record = {
+    lessonId: report.lessonId,
+    classId: report.classId,
+    scenario: report.scenario,
+    template: report.template ?? null,
+    startTime: new Date(report.startTime),
+    endTime: new Date(report.endTime),
+    data: report as any
+  };
+
+  await prisma.iterationReport.upsert({
+    where: { sessionId_iteration: { sessionId, iteration: report.iteration } },
+    create: { sessionId, iteration: report.iteration, ...record },
+    update: record
+  });
+
+  return report;
+}
+
+/**
+ * Saved iteration reports of a session, in round order
+ */
+export async function getIterationReports(sessionId: string): Promise<IterationReportData[]> {
+  const records = await prisma.iterationReport.findMany({
+    where: { sessionId },
+    orderBy: { iteration: 'asc' }
+  });
+  return records.map((record: any) => record.data as IterationReportData);
+}
+
+/**
+ * Saved iteration reports of every session the class ran of the same
+ * lesson, ordered by scenario and round, for side by side comparison
+ */
+export async function getComparableIterationReports(sessionId: string): Promise<IterationReportData[]> {
+  const session = await prisma.simulationSession.findUnique({
+    where: { id: sessionId },
+    select: { lessonId: true, classId: true }
+  });
+  if (!session) return [];
+
+  const records = await prisma.iterationReport.findMany({
+    where: { lessonId: session.lessonId, classId: session.classId },
+    orderBy: [{ scenario: 'asc' }, { iteration: 'asc' }, { createdAt: 'asc' }]
+  });
+  return records.map((record: any) => record.data as IterationReportData);
+}
+
+const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+const clockTime = (elapsed: number) => `${Math.floor(elapsed / 60)}:${String(elapsed % 60).padStart(2, '0')}`;
+
+/**
+ * "Simulation A, Round 2" for a report, whichever way the scenario was stored
+ */
+export function iterationLabel(report: Pick<IterationReportData, 'scenario' | 'iteration'>): string {
+  const scenario = /^[A-Z]$/.test(report.scenario) ? `Simulation ${report.scenario}` : report.scenario;
+  return `${scenario}, Round ${report.iteration}`;
+}
+
+function section(
+  id: string,
+  title: string,
+  type: ReportDocumentSection['type'],
+  content: Partial<ReportDocumentSection>
+): ReportDocumentSection {
+  return { id, title, type, paragraphs: [], metrics: [], ...content };
+}
+
+/**
+ * Lay out one iteration's debrief for the report renderers
+ */
+export function buildIterationDocument(report: IterationReportData): ReportDocument {
+  const totalVolume = report.prices.reduce((sum, summary) => sum + summary.volume, 0);
+  const averagePnL = report.students.length > 0
+    ? report.students.reduce((sum, student) => sum + student.netPnL, 0) / report.students.length
+    : 0;
+
+  const pricePath = Object.entries(report.pricePath).flatMap(([symbol, points]) => {
+    let cumulative = 0;
+    return points.map(point => {
+      cumulative += point.quantity;
+      return [clockTime(point.elapsed), symbol, point.price, roundCents(point.price - points[0].price), cumulative];
+    });
+  });
+
+  return {
+    templateId: 'iteration',
+    title: `${report.lessonName}: ${iterationLabel(report)}`,
+    subtitle: [
+      `Session: ${report.sessionId}`,
+      `Iteration: ${report.startTime} to ${report.endTime}`,
+      ...(report.template ? [`Legacy report: ${report.template}`] : [])
+    ],
+    generatedAt: new Date(),
+    sections: [
+      section('price_summary', 'Price Summary', 'metrics', {
+        paragraphs: report.prices.length > 0
+          ? report.prices.map(summary =>
+              `${summary.symbol} opened at ${money(summary.open)} and closed at ${money(summary.close)}, ` +
+              `trading between ${money(summary.low)} and ${money(summary.high)} with a VWAP of ${money(summary.vwap)}.`)
+          : ['No trades were printed in this iteration.'],
+        metrics: [
+          { label: 'Prints', value: report.tape.length },
+          { label: 'Shares Traded', value: totalVolume },
+          { label: 'Students', value: report.students.length },
+          { label: 'Average P&L', value: roundCents(averagePnL) }
+        ],
+        table: {
+          columns: ['Symbol', 'Open', 'High', 'Low', 'Close', 'VWAP', 'Volume', 'Prints'],
+          rows: report.prices.map(summary => [
+            summary.symbol, summary.open, summary.high, summary.low, summary.close, summary.vwap, summary.volume, summary.trades
+          ])
+        }
+      }),
+      section('price_path', 'Price Path', 'chart', {
+        table: {
+          columns: ['Time', 'Symbol', 'Price', 'Change', 'Cumulative Volume'],
+          rows: pricePath
+        }
+      }),
+      section('trade_tape', 'Trade Tape', 'table', {
+        table: {
+          columns: ['Time', 'Symbol', 'Price', 'Quantity', 'Buyer', 'Seller'],
+          rows: report.tape.map(print => [clockTime(print.elapsed), print.symbol, print.price, print.quantity, print.buyer, print.seller])
+        }
+      }),
+      section('student_pnl', 'Student P&L', 'table', {
+        table: {
+          columns: ['Rank', 'Student', 'Trades', 'Bought', 'Sold', 'Realized', 'Unrealized', 'Costs', 'Net P&L', 'Holding Value'],
+          rows: report.students.map((student, index) => [
+            index + 1, student.username, student.trades, student.sharesBought, student.sharesSold,
+            student.realizedPnL, student.unrealizedPnL, student.costs, student.netPnL, student.endingValue
+          ])
+        }
+      }),
+      section('holding_value', 'Price vs Holding Value', 'table', {
+        paragraphs: [
+          'Shares still held at the close, valued at the closing price and compared with what the student paid for them. ' +
+          'A positive difference means the market closed above the student\'s price.'
+        ],
+        table: {
+          columns: ['Student', 'Symbol', 'Shares', 'Paid', 'Close', 'Cost Basis', 'Holding Value', 'Difference'],
+          rows: report.holdings.map(holding => [
+            holding.username, holding.symbol, holding.quantity, holding.avgPrice, holding.closePrice,
+            holding.costBasis, holding.holdingValue, holding.difference
+          ])
+        }
+      })
+    ]
+  };
+}
+
+/**
+ * Lay iterations out side by side: one column per iteration, prices per
+ * security and the class's P&L, then each student's P&L per iteration
+ */
+export function buildComparisonDocument(reports: IterationReportData[]): ReportDocument {
+  const labels = reports.map(iterationLabel);
+  const symbols = Array.from(new Set(reports.flatMap(report => report.prices.map(summary => summary.symbol)))).sort();
+  const row = (measure: string, valueOf: (report: IterationReportData) => number | string) =>
+    [measure, ...reports.map(valueOf)];
+  const priceOf = (report: IterationReportData, symbol: string, field: keyof Omit<PriceSummary, 'symbol'>) =>
+    report.prices.find(summary => summary.symbol === symbol)?.[field] ?? '';
+  const netPnLs = (report: IterationReportData) => report.students.map(student => student.netPnL);
+
+  const measures = [
+    row('Prints', report => report.tape.length),
+    row('Students Trading', report => report.students.filter(student => student.trades > 0).length),
+    ...symbols.flatMap(symbol => [
+      row(`${symbol} Open`, report => priceOf(report, symbol, 'open')),
+      row(`${symbol} High`, report => priceOf(report, symbol, 'high')),
+      row(`${symbol} Low`, report => priceOf(report, symbol, 'low')),
+      row(`${symbol} Close`, report => priceOf(report, symbol, 'close')),
+      row(`${symbol} VWAP`, report => priceOf(report, symbol, 'vwap')),
+      row(`${symbol} Volume`, report => priceOf(report, symbol, 'volume'))
+    ]),
+    row('Average P&L', report => netPnLs(report).length > 0
+      ? roundCents(netPnLs(report).reduce((sum, pnl) => sum + pnl, 0) / netPnLs(report).length)
+      : 0),
+    row('Best P&L', report => netPnLs(report).length > 0 ? Math.max(...netPnLs(report)) : 0),
+    row('Worst P&L', report => netPnLs(report).length > 0 ? Math.min(...netPnLs(report)) : 0),
+    row('Holding Value at Close', report => roundCents(report.holdings.reduce((sum, holding) => sum + holding.holdingValue, 0))),
+    row('Holding Value less Cost', report => roundCents(report.holdings.reduce((sum, holding) => sum + holding.difference, 0)))
+  ];
+
+  const usernames = new Map<string, string>();
+  reports.forEach(report => report.students.forEach(student => usernames.set(student.userId, student.username)));
+  const studentRows = Array.from(usernames.entries())
+    .sort((a, b) => a[1].localeCompare(b[1]))
+    .map(([userId, username]) => [
+      username,
+      ...reports.map(report => report.students.find(student => student.userId === userId)?.netPnL ?? '')
+    ]);
+
+  return {
+    templateId: 'iteration-comparison',
+    title: `${reports[0]?.lessonName || 'Lesson'}: Iteration Comparison`,
+    subtitle: [`Iterations: ${labels.join('; ') || 'none reported yet'}`],
+    generatedAt: new Date(),
+    sections: [
+      section('iteration_comparison', 'Market by Iteration', 'table', {
+        table: { columns: ['Measure', ...labels], rows: measures }
+      }),
+      section('student_comparison', 'Student P&L by Iteration', 'table', {
+        table: { columns: ['Student', ...labels], rows: studentRows }
+      })
+    ]
+  };
+}
\ No newline at end of file
@@ -128,7 +128,7 @@ export class LessonLoader {
           })),
           reportTemplates: sim.reports.map(report => ({
             iteration: report.iteration,
-            pptTemplate: 'default-template.pptx'
+            pptTemplate: report.pptFile
           }))
         };
       });
@@ -6,6 +6,8 @@
  * session control in the modern web platform.
  */
 
+import type { PrivilegeAuctionType } from './privilege-system';
+
 export interface PrivilegeGrant {
   privilegeCode: number;
   description: string;
@@ -20,7 +22,7 @@ export interface MarketConfiguration {
 
 export interface AuctionConfiguration {
   privilegeCode: number;
-  auctionType: 'RIGHTS' | 'DUTCH' | 'ENGLISH';
+  auctionType: PrivilegeAuctionType;
   duration?: number;
   startingPrice?: number;
   minimumBid?: number;
@@ -32,12 +34,18 @@ export interface SimulationCommand {
   timing: 'START' | 'END' | 'DURING';
 }
 
+export interface SimulationReport {
+  iteration?: number; // unnumbered reports cover every other iteration
+  ppt: string;
+}
+
 export interface SimulationScenario {
   id: string;
   duration: number;
   startCommands: SimulationCommand[];
   endCommands: SimulationCommand[];
   reportConfig?: string;
+  reports: SimulationReport[];
 }
 
 export interface ParsedLesson {
@@ -178,16 +186,24 @@ export class LessonXMLParser {
       const endCommands = endSection ? 
         this.parseCommandsInSection(endSection, 'END') : [];
       
-      // Parse report configuration
-      const reportEl = simEl.querySelector('report');
-      const reportConfig = reportEl?.getAttribute('ppt') || undefined;
+      // Parse report configuration, one report per iteration
+      const reports: SimulationReport[] = [];
+      simEl.querySelectorAll('report').forEach(reportEl => {
+        const ppt = reportEl.getAttribute('ppt');
+        const iteration = reportEl.getAttribute('iteration');
+        if (ppt) {
+          reports.push({ iteration: iteration ? parseInt(iteration) : undefined, ppt });
+        }
+      });
+      const reportConfig = reports[0]?.ppt;
       
       scenarios.push({
         id,
         duration,
         startCommands,
         endCommands,
-        reportConfig
+        reportConfig,
+        reports
       });
     });
     
@@ -283,7 +299,7 @@ export class LessonXMLParser {
     commands.forEach(command => {
       if (command.name === 'Create Auction' && command.parameters.length >= 2) {
         const privilegeCode = parseInt(command.parameters[0]);
-        const auctionType = command.parameters[1].toUpperCase() as 'RIGHTS' | 'DUTCH' | 'ENGLISH';
+        const auctionType = command.parameters[1].toUpperCase() as PrivilegeAuctionType;
         
         if (!isNaN(privilegeCode)) {
           const auction: AuctionConfiguration = {
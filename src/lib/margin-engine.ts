@@ -0,0 +1,343 @@
+/**
+ * Margin Engine
+ *
+ * Pre-trade buying-power checks and maintenance-margin monitoring for a
+ * session, driven by the lesson's market mechanics. Cash accounts
+ * (marginTrading off) need the full value of every position in equity;
+ * margin accounts need the initial margin fraction. Selling shares a student
+ * does not own needs shortSelling, and every share borrowed pays the borrow
+ * rate when the short sale fills. Futures contracts need the contract's
+ * initial and maintenance margin per contract instead of a share of their
+ * value, can be sold short freely, and their gains and losses since the
+ * last mark count towards equity.
+ *
+ * When equity falls below the maintenance requirement a margin call is
+ * issued. If it is not cured within the grace period the engine asks the
+ * order matching engine to liquidate the account.
+ */
+
+import { EventEmitter } from 'events';
+import { getSessionDatabase, SessionDatabase } from './session-database';
+import { getMarketConfig, MarketMechanicsConfig } from './market-config';
+import { getPortfolioEngine, PortfolioEngine, PortfolioSummary } from './portfolio-engine';
+import { getSessionClock, ClockTimer } from './session-clock';
+import { getFuturesMarket, FuturesMarket } from './futures-market';
+
+export interface MarginAccount {
+  userId: string;
+  cash: number;
+  longValue: number;
+  shortValue: number; // absolute value of short positions
+  equity: number;
+  initialRequirement: number;
+  maintenanceRequirement: number;
+  excessEquity: number; // equity above the initial requirement
+  buyingPower: number;
+  marginCall?: MarginCall;
+}
+
+export interface MarginCall {
+  userId: string;
+  deficiency: number; // equity needed to get back to maintenance
+  issuedAt: Date;
+  deadline: Date;
+}
+
+export interface MarginCheckOrder {
+  userId: string;
+  securityId: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+}
+
+export interface MarginWorkingOrder extends MarginCheckOrder {
+  remainingQuantity: number;
+  price?: number;
+}
+
+const DEFAULT_MECHANICS = getMarketConfig('').mechanics;
+
+export class MarginEngine extends EventEmitter {
+  private sessionId: string;
+  private db: SessionDatabase;
+  private portfolioEngine: PortfolioEngine;
+  private futuresMarket: FuturesMarket;
+  private mechanics: MarketMechanicsConfig = DEFAULT_MECHANICS;
+  private configuration: Promise<void>;
+  private marginCalls: Map<string, MarginCall> = new Map();
+  private callTimers: Map<string, ClockTimer> = new Map();
+
+  constructor(sessionId: string) {
+    super();
+    this.sessionId = sessionId;
+    this.db = getSessionDatabase(sessionId);
+    this.portfolioEngine = getPortfolioEngine(sessionId);
+    this.futuresMarket = getFuturesMarket(sessionId);
+    this.configuration = this.loadMechanics();
+
+    // Every trade and price move ends in a fresh summary for the user
+    this.portfolioEngine.on('portfolioSummary', ({ userId, data }: { userId: string; data: PortfolioSummary }) => {
+      this.evaluate(userId, data).catch(error => {
+        console.error('Error evaluating margin:', error);
+      });
+    });
+  }
+
+  /**
+   * Load the market mechanics for the session's lesson
+   */
+  private async loadMechanics(): Promise<void> {
+    try {
+      const session = await this.db.simulationSession.findUnique({
+        where: { id: this.sessionId },
+        include: { lesson: { select: { name: true } } }
+      });
+      if (session?.lesson) {
+        this.mechanics = getMarketConfig(session.lesson.name).mechanics;
+      }
+    } catch (error) {
+      console.error('Error loading market mechanics for margin:', error);
+    }
+  }
+
+  /**
+   * Mechanics in force for this session
+   */
+  async getMechanics(): Promise<MarketMechanicsConfig> {
+    await this.configuration;
+    return this.mechanics;
+  }
+
+  private get initialRate(): number {
+    return this.mechanics.marginTrading ? this.mechanics.initialMargin : 1;
+  }
+
+  /**
+   * Current margin position of a user
+   */
+  async getAccount(userId: string, summary?: PortfolioSummary): Promise<MarginAccount> {
+    await this.configuration;
+    const portfolio = summary ?? await this.portfolioEngine.getPortfolioSummary(userId);
+
+    let longValue = 0;
+    let shortValue = 0;
+    let futuresValue = 0;
+    let futuresInitial = 0;
+    let futuresMaintenance = 0;
+    for (const position of portfolio.positions) {
+      const contract = this.futuresMarket.getContract(position.securityId);
+      if (contract) {
+        futuresValue += position.marketValue;
+        futuresInitial += Math.abs(position.quantity) * contract.initialMargin;
+        futuresMaintenance += Math.abs(position.quantity) * contract.maintenanceMargin;
+      } else if (position.quantity > 0) {
+        longValue += position.marketValue;
+      } else {
+        shortValue += Math.abs(position.marketValue);
+      }
+    }
+
+    const cash = portfolio.cashBalance;
+    const equity = cash + longValue - shortValue + futuresValue;
+    const grossValue = longValue + shortValue;
+    const initialRequirement = grossValue * this.initialRate + futuresInitial;
+    const excessEquity = equity - initialRequirement;
+
+    return {
+      userId,
+      cash,
+      longValue,
+      shortValue,
+      equity,
+      initialRequirement,
+      maintenanceRequirement: grossValue * this.mechanics.maintenanceMargin + futuresMaintenance,
+      excessEquity,
+      buyingPower: Math.max(0, excessEquity / this.initialRate),
+      marginCall: this.marginCalls.get(userId)
+    };
+  }
+
+  /**
+   * Pre-trade check: short-sale permission, then whether the exposure the
+   * order adds (plus any borrow cost) fits in the account's excess equity.
+   * The user's working orders are counted as if they fill first, so resting
+   * orders cannot together oversell a position or overspend buying power.
+   * Orders that only reduce a position always pass.
+   */
+  async checkOrder(
+    order: MarginCheckOrder,
+    price: number,
+    workingOrders: MarginWorkingOrder[] = []
+  ): Promise<{ valid: boolean; reason?: string }> {
+    await this.configuration;
+    const account = await this.getAccount(order.userId);
+    const position = await this.getPositionQuantity(order.userId, order.securityId);
+
+    const pending = workingOrders
+      .filter(working => working.securityId === order.securityId && working.side === order.side)
+      .reduce((sum, working) => sum + working.remainingQuantity, 0);
+    const base = position + (order.side === 'BUY' ? pending : -pending);
+    const change = order.side === 'BUY' ? order.quantity : -order.quantity;
+    const shortOpened = Math.max(0, -(base + change)) - Math.max(0, -base);
+    const contract = this.futuresMarket.getContract(order.securityId);
+
+    if (shortOpened > 0 && !contract && !this.mechanics.shortSelling) {
+      return { valid: false, reason: 'Insufficient shares to sell: short selling is not enabled in this lesson' };
+    }
+
+    const addedShares = Math.abs(base + change) - Math.abs(base);
+    if (addedShares <= 0) {
+      return { valid: true };
+    }
+
+    if (account.marginCall) {
+      return { valid: false, reason: 'Account is on margin call: only orders that reduce positions are accepted' };
+    }
+
+    const required = contract
+      ? addedShares * contract.initialMargin
+      : addedShares * price * this.initialRate + this.borrowCost(shortOpened, price);
+    const available = account.excessEquity - await this.reservedMargin(order.userId, workingOrders);
+    if (required > available) {
+      return {
+        valid: false,
+        reason: this.mechanics.marginTrading
+          ? `Insufficient buying power: order needs $${required.toFixed(2)} of margin, $${Math.max(0, available).toFixed(2)} available`
+          : 'Insufficient buying power'
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Margin the user's working orders would take up if they all filled,
+   * priced at their limit (or the market price for market and stop orders)
+   */
+  private async reservedMargin(userId: string, workingOrders: MarginWorkingOrder[]): Promise<number> {
+    let reserved = 0;
+
+    for (const securityId of new Set(workingOrders.map(working => working.securityId))) {
+      const position = await this.getPositionQuantity(userId, securityId);
+      const contract = this.futuresMarket.getContract(securityId);
+
+      for (const side of ['BUY', 'SELL'] as const) {
+        const orders = workingOrders.filter(working => working.securityId === securityId && working.side === side);
+        const quantity = orders.reduce((sum, working) => sum + working.remainingQuantity, 0);
+        const addedShares = Math.abs(position + (side === 'BUY' ? quantity : -quantity)) - Math.abs(position);
+        if (addedShares <= 0) continue;
+
+        const notional = orders.reduce((sum, working) =>
+          sum + working.remainingQuantity * (working.price || this.portfolioEngine.getMarketPrice(securityId)), 0);
+        reserved += contract
+          ? addedShares * contract.initialMargin
+          : addedShares * (notional / quantity) * this.initialRate;
+      }
+    }
+
+    return reserved;
+  }
+
+  /**
+   * Locate/borrow cost for shares sold short
+   */
+  borrowCost(sharesBorrowed: number, price: number): number {
+    return sharesBorrowed > 0 ? sharesBorrowed * price * this.mechanics.borrowRate : 0;
+  }
+
+  /**
+   * Charge the borrow cost for a settled sale that opened or grew a short
+   */
+  async chargeBorrow(userId: string, securityId: string, previousQuantity: number, newQuantity: number, price: number): Promise<void> {
+    if (this.futuresMarket.getContract(securityId)) return; // futures are sold, not borrowed
+    const sharesBorrowed = Math.max(0, -newQuantity) - Math.max(0, -previousQuantity);
+    const cost = this.borrowCost(sharesBorrowed, price);
+    if (cost > 0) {
+      await this.portfolioEngine.chargeCash(userId, cost, `Borrow cost for ${sharesBorrowed} ${securityId} sold short`, 'BORROW_FEE', securityId);
+    }
+  }
+
+  /**
+   * Compare equity to the maintenance requirement: issue a margin call on a
+   * breach, clear it once the account is back above maintenance
+   */
+  private async evaluate(userId: string, summary: PortfolioSummary): Promise<void> {
+    const account = await this.getAccount(userId, summary);
+    const deficiency = account.maintenanceRequirement - account.equity;
+
+    if (deficiency > 0 && !this.marginCalls.has(userId)) {
+      this.issueMarginCall(userId, deficiency);
+    } else if (deficiency <= 0 && this.marginCalls.has(userId)) {
+      this.clearMarginCall(userId);
+      this.emit('marginCallCleared', { userId, timestamp: new Date() });
+    }
+
+    this.emit('accountUpdate', { ...account, marginCall: this.marginCalls.get(userId), timestamp: new Date() });
+  }
+
+  private issueMarginCall(userId: string, deficiency: number): void {
+    const issuedAt = getSessionClock(this.sessionId).date();
+    const call: MarginCall = {
+      userId,
+      deficiency,
+      issuedAt,
+      deadline: new Date(issuedAt.getTime() + this.mechanics.marginCallGraceSeconds * 1000)
+    };
+    this.marginCalls.set(userId, call);
+    this.emit('marginCall', call);
+
+    this.callTimers.set(userId, getSessionClock(this.sessionId).setTimeout(async () => {
+      this.callTimers.delete(userId);
+      try {
+        const account = await this.getAccount(userId);
+        if (account.equity < account.maintenanceRequirement) {
+          this.emit('liquidationRequired', { userId, account, timestamp: new Date() });
+        }
+      } catch (error) {
+        console.error('Error checking margin call deadline:', error);
+      }
+    }, this.mechanics.marginCallGraceSeconds * 1000));
+  }
+
+  /**
+   * Drop a margin call once it is cured or the account has been liquidated
+   */
+  clearMarginCall(userId: string): void {
+    const timer = this.callTimers.get(userId);
+    if (timer) {
+      getSessionClock(this.sessionId).clear(timer);
+      this.callTimers.delete(userId);
+    }
+    this.marginCalls.delete(userId);
+  }
+
+  private async getPositionQuantity(userId: string, securityId: string): Promise<number> {
+    try {
+      const position = await this.db.position.findUnique({
+        where: {
+          sessionId_userId_securityId: {
+            sessionId: this.sessionId,
+            userId,
+            securityId
+          }
+        }
+      });
+      return position?.quantity || 0;
+    } catch (error) {
+      return 0;
+    }
+  }
+}
+
+// Global margin engines by session
+const marginEngines = new Map<string, MarginEngine>();
+
+/**
+ * Get or create margin engine for a session
+ */
+export function getMarginEngine(sessionId: string): MarginEngine {
+  if (!marginEngines.has(sessionId)) {
+    marginEngines.set(sessionId, new MarginEngine(sessionId));
+  }
+  return marginEngines.get(sessionId)!;
+}
\ No newline at end of file
@@ -49,6 +49,99 @@ export interface MarketMechanicsConfig {
   marginTrading: boolean;
   shortSelling: boolean;
   partialFills: boolean;
+  initialMargin: number; // fraction of position value funded by equity when margin trading (1 = cash account)
+  maintenanceMargin: number; // equity floor as a fraction of gross position value
+  borrowRate: number; // locate/borrow fee charged on the value of shares sold short
+  marginCallGraceSeconds: number; // time to cure a margin call before auto-liquidation
+}
+
+/**
+ * Trading costs charged on each fill. Commission is per share plus basis
+ * points of notional, with the per-trade charge and the minimum ticket
+ * applied once per order; the order that rested on the book then earns the
+ * maker rebate and the order that took liquidity pays the taker fee, while
+ * auction prints pay neither. Market orders also pay modelled slippage in
+ * basis points of notional.
+ */
+export interface FeeScheduleConfig {
+  perShare: number;
+  perTrade: number;
+  notionalBps: number;
+  makerRebate: number; // per share
+  takerFee: number; // per share
+  minimumTicket: number;
+  slippageBps: number;
+}
+
+/**
+ * Obligations on students who hold market-making rights. Each tick every
+ * market maker is measured per security: they are present when their own
+ * best bid and ask both show at least the minimum size and sit no wider
+ * apart than the maximum spread. At the end of each period a market maker
+ * whose presence meets the floor earns the rebate for that security and
+ * one who falls short pays the penalty.
+ */
+export interface MarketMakingConfig {
+  minPresence: number; // fraction of ticks quoting two-sided within limits
+  maxSpread: number; // price units between the market maker's bid and ask
+  minSize: number; // shares required on each side
+  perSecurity: Record<string, { maxSpread: number; minSize: number }>; // overrides by symbol
+  tickSeconds: number;
+  periodSeconds: number;
+  complianceRebate: number; // per security per period
+  breachPenalty: number; // per security per period
+}
+
+/**
+ * Option series listed on the lesson's securities. Each underlying gets a
+ * call and a put at every strike for every expiry when the session starts.
+ * Expiries count simulated days of `secondsPerDay` on the session clock, and
+ * one contract covers one share of the underlying. American series may be
+ * exercised by their holders before expiry; every series still open at
+ * expiry is cash settled at intrinsic value.
+ */
+export interface OptionSeriesConfig {
+  underlying: string; // symbol
+  strikes: number[];
+  expiryDays: number[];
+  volatility: number; // annualised, used by the pricing model
+  style: 'AMERICAN' | 'EUROPEAN';
+}
+
+export interface OptionsMarketConfig {
+  enabled: boolean;
+  series: OptionSeriesConfig[];
+  riskFreeRate: number; // annualised, continuously compounded
+  secondsPerDay: number;
+  repriceSeconds: number; // how often theoretical values are refreshed
+}
+
+/**
+ * Futures listed for the lesson. Trading a contract moves no cash: the
+ * student posts initial margin per contract, and at the end of every
+ * simulated day of `secondsPerDay` open positions are marked to the
+ * settlement price with the variation paid between longs and shorts. On
+ * the last day every open position is cash settled against the lesson's
+ * final value.
+ */
+export interface FuturesContractConfig {
+  symbol: string;
+  name: string;
+  sector: string; // grouping on the commodities panel
+  multiplier: number; // units of the commodity per contract
+  tickSize: number;
+  startingPrice: number;
+  initialMargin: number; // per contract
+  maintenanceMargin: number; // per contract
+  expiryDays: number;
+  finalValue: number; // settlement price at expiry
+}
+
+export interface FuturesMarketConfig {
+  enabled: boolean;
+  contracts: FuturesContractConfig[];
+  secondsPerDay: number;
+  quoteSeconds: number; // how often quotes are published
 }
 
 export interface InstructorControlsConfig {
@@ -78,6 +171,18 @@ export interface MarketConfiguration {
   // Market structure
   mechanics: MarketMechanicsConfig;
   
+  // Trading costs
+  fees: FeeScheduleConfig;
+  
+  // Market maker obligations
+  marketMaking: MarketMakingConfig;
+  
+  // Listed options
+  options: OptionsMarketConfig;
+  
+  // Listed futures
+  futures: FuturesMarketConfig;
+  
   // Instructor capabilities
   instructorControls: InstructorControlsConfig;
   
@@ -142,7 +247,47 @@ export const MARKET_CONFIGURATIONS: Record<string, MarketConfiguration> = {
       afterHours: false,
       marginTrading: false,
       shortSelling: false,
-      partialFills: false
+      partialFills: false,
+      initialMargin: 1,
+      maintenanceMargin: 0.25,
+      borrowRate: 0,
+      marginCallGraceSeconds: 30
+    },
+    
+    fees: {
+      perShare: 0,
+      perTrade: 0,
+      notionalBps: 0,
+      makerRebate: 0,
+      takerFee: 0,
+      minimumTicket: 0,
+      slippageBps: 0
+    },
+    
+    marketMaking: {
+      minPresence: 0.5,
+      maxSpread: 0.50,
+      minSize: 100,
+      perSecurity: {},
+      tickSeconds: 1,
+      periodSeconds: 60,
+      complianceRebate: 25,
+      breachPenalty: 25
+    },
+    
+    options: {
+      enabled: false,
+      series: [],
+      riskFreeRate: 0.05,
+      secondsPerDay: 60,
+      repriceSeconds: 1
+    },
+    
+    futures: {
+      enabled: false,
+      contracts: [],
+      secondsPerDay: 60,
+      quoteSeconds: 1
     },
     
     instructorControls: {
@@ -224,7 +369,47 @@ export const MARKET_CONFIGURATIONS: Record<string, MarketConfiguration> = {
       afterHours: false,
       marginTrading: false,
       shortSelling: false,
-      partialFills: true
+      partialFills: true,
+      initialMargin: 1,
+      maintenanceMargin: 0.25,
+      borrowRate: 0,
+      marginCallGraceSeconds: 30
+    },
+    
+    fees: {
+      perShare: 0,
+      perTrade: 0,
+      notionalBps: 0,
+      makerRebate: 0,
+      takerFee: 0,
+      minimumTicket: 0,
+      slippageBps: 0
+    },
+    
+    marketMaking: {
+      minPresence: 0.7,
+      maxSpread: 0.25,
+      minSize: 100,
+      perSecurity: {},
+      tickSeconds: 1,
+      periodSeconds: 60,
+      complianceRebate: 50,
+      breachPenalty: 50
+    },
+    
+    options: {
+      enabled: false,
+      series: [],
+      riskFreeRate: 0.05,
+      secondsPerDay: 60,
+      repriceSeconds: 1
+    },
+    
+    futures: {
+      enabled: false,
+      contracts: [],
+      secondsPerDay: 60,
+      quoteSeconds: 1
     },
     
     instructorControls: {
@@ -252,6 +437,118 @@ export const MARKET_CONFIGURATIONS: Record<string, MarketConfiguration> = {
     prerequisites: ['price_formation']
   },
 
+  // Transaction Costs Lesson
+  TRANSACTION_COSTS: {
+    lessonId: 'transaction_costs',
+    lessonName: 'Transaction Costs',
+    complexity: 'INTERMEDIATE',
+    
+    securities: [
+      {
+        symbol: 'VCR',
+        name: 'Value Corporation',
+        enabled: true,
+        startingPrice: 50.00,
+        volatility: 0.02,
+        derivatives: false,
+        minOrderSize: 10,
+        maxOrderSize: 2000
+      }
+    ],
+    
+    orderTypes: {
+      market: true,
+      limit: true,
+      stop: false,
+      stopLimit: false,
+      iceberg: false,
+      fill_or_kill: false,
+      immediate_or_cancel: true
+    },
+    
+    liquidity: {
+      enabled: true,
+      strategies: ['MARKET_MAKER'],
+      delay: 8,
+      intensity: 0.5,
+      spreads: { tight: 0.01, normal: 0.02, wide: 0.03 }
+    },
+    
+    mechanics: {
+      priceDiscovery: 'CONTINUOUS',
+      tickSize: 0.01,
+      halts: false,
+      afterHours: false,
+      marginTrading: false,
+      shortSelling: false,
+      partialFills: true,
+      initialMargin: 1,
+      maintenanceMargin: 0.25,
+      borrowRate: 0,
+      marginCallGraceSeconds: 30
+    },
+    
+    fees: {
+      perShare: 0.01,
+      perTrade: 1,
+      notionalBps: 5,
+      makerRebate: 0.002,
+      takerFee: 0.003,
+      minimumTicket: 5,
+      slippageBps: 10
+    },
+    
+    marketMaking: {
+      minPresence: 0.75,
+      maxSpread: 0.10,
+      minSize: 200,
+      perSecurity: { VCR: { maxSpread: 0.05, minSize: 300 } },
+      tickSeconds: 1,
+      periodSeconds: 60,
+      complianceRebate: 75,
+      breachPenalty: 100
+    },
+    
+    options: {
+      enabled: false,
+      series: [],
+      riskFreeRate: 0.05,
+      secondsPerDay: 60,
+      repriceSeconds: 1
+    },
+    
+    futures: {
+      enabled: false,
+      contracts: [],
+      secondsPerDay: 60,
+      quoteSeconds: 1
+    },
+    
+    instructorControls: {
+      canPauseMarket: true,
+      canAdjustVolatility: true,
+      canTriggerEvents: true,
+      canModifyOrders: false,
+      canViewAllPositions: true,
+      realTimeMonitoring: true,
+      scenarioControl: true
+    },
+    
+    restrictions: {
+      maxPositionSize: 2000,
+      maxOrderValue: 75000,
+      tradingWindows: [8, 9, 12, 13, 15], // Market Order, Montage, Order Log, Portfolio, Market Watch
+      analytics: 'INTERMEDIATE'
+    },
+    
+    objectives: [
+      'Measure commissions, fees and slippage against trading profits',
+      'Compare the cost of taking and providing liquidity',
+      'Size trades so that ticket charges do not dominate'
+    ],
+    prerequisites: ['price_formation']
+  },
+
   // Advanced Options Pricing Lesson
   OPTIONS_PRICING: {
     lessonId: 'options_pricing',
@@ -286,7 +583,7 @@ export const MARKET_CONFIGURATIONS: Record<string, MarketConfiguration> = {
       limit: true,
       stop: true,
       stopLimit: true,
-      iceberg: false,
+      iceberg: true,
       fill_or_kill: true,
       immediate_or_cancel: true
     },
@@ -306,7 +603,50 @@ export const MARKET_CONFIGURATIONS: Record<string, MarketConfiguration> = {
       afterHours: false,
       marginTrading: true,
       shortSelling: true,
-      partialFills: true
+      partialFills: true,
+      initialMargin: 0.5,
+      maintenanceMargin: 0.25,
+      borrowRate: 0.001,
+      marginCallGraceSeconds: 30
+    },
+    
+    fees: {
+      perShare: 0.005,
+      perTrade: 0,
+      notionalBps: 0,
+      makerRebate: 0.002,
+      takerFee: 0.003,
+      minimumTicket: 1,
+      slippageBps: 0
+    },
+    
+    marketMaking: {
+      minPresence: 0.8,
+      maxSpread: 0.10,
+      minSize: 100,
+      perSecurity: {},
+      tickSeconds: 1,
+      periodSeconds: 60,
+      complianceRebate: 100,
+      breachPenalty: 150
+    },
+    
+    options: {
+      enabled: true,
+      series: [
+        { underlying: 'VCR', strikes: [45, 50, 55], expiryDays: [10, 30], volatility: 0.30, style: 'AMERICAN' },
+        { underlying: 'PNR', strikes: [70, 75, 80], expiryDays: [10, 30], volatility: 0.25, style: 'EUROPEAN' }
+      ],
+      riskFreeRate: 0.05,
+      secondsPerDay: 60,
+      repriceSeconds: 1
+    },
+    
+    futures: {
+      enabled: false,
+      contracts: [],
+      secondsPerDay: 60,
+      quoteSeconds: 1
     },
     
     instructorControls: {
@@ -322,7 +662,7 @@ export const MARKET_CONFIGURATIONS: Record<string, MarketConfiguration> = {
     restrictions: {
       maxPositionSize: 10000,
       maxOrderValue: 500000,
-      tradingWindows: [1, 4, 8, 9, 10, 11, 12, 13, 15, 18, 32], // Most windows unlocked
+      tradingWindows: [1, 4, 8, 9, 10, 11, 12, 13, 15, 17, 18, 32], // Most windows unlocked
       analytics: 'ADVANCED'
     },
     
@@ -332,6 +672,153 @@ export const MARKET_CONFIGURATIONS: Record<string, MarketConfiguration> = {
       'Execute complex multi-leg strategies'
     ],
     prerequisites: ['market_efficiency', 'price_formation']
+  },
+
+  // Futures Hedging Lesson
+  FUTURES_HEDGING: {
+    lessonId: 'futures_hedging',
+    lessonName: 'Futures Hedging',
+    complexity: 'ADVANCED',
+    
+    securities: [
+      {
+        symbol: 'CRD',
+        name: 'Crude Oil Spot',
+        enabled: true,
+        startingPrice: 80.00,
+        volatility: 0.03,
+        derivatives: true,
+        minOrderSize: 100,
+        maxOrderSize: 10000
+      },
+      {
+        symbol: 'WHT',
+        name: 'Wheat Spot',
+        enabled: true,
+        startingPrice: 6.00,
+        volatility: 0.025,
+        derivatives: true,
+        minOrderSize: 500,
+        maxOrderSize: 50000
+      }
+    ],
+    
+    orderTypes: {
+      market: true,
+      limit: true,
+      stop: true,
+      stopLimit: false,
+      iceberg: false,
+      fill_or_kill: false,
+      immediate_or_cancel: true
+    },
+    
+    liquidity: {
+      enabled: true,
+      strategies: ['MARKET_MAKER', 'MEAN_REVERT'],
+      delay: 5,
+      intensity: 0.6,
+      spreads: { tight: 0.01, normal: 0.02, wide: 0.04 }
+    },
+    
+    mechanics: {
+      priceDiscovery: 'CONTINUOUS',
+      tickSize: 0.01,
+      halts: true,
+      afterHours: false,
+      marginTrading: true,
+      shortSelling: true,
+      partialFills: true,
+      initialMargin: 0.5,
+      maintenanceMargin: 0.25,
+      borrowRate: 0.001,
+      marginCallGraceSeconds: 30
+    },
+    
+    fees: {
+      perShare: 0,
+      perTrade: 2,
+      notionalBps: 0,
+      makerRebate: 0,
+      takerFee: 0,
+      minimumTicket: 2,
+      slippageBps: 0
+    },
+    
+    marketMaking: {
+      minPresence: 0.7,
+      maxSpread: 0.10,
+      minSize: 5,
+      perSecurity: { CRD: { maxSpread: 0.05, minSize: 500 }, WHT: { maxSpread: 0.02, minSize: 2500 } },
+      tickSeconds: 1,
+      periodSeconds: 60,
+      complianceRebate: 75,
+      breachPenalty: 100
+    },
+    
+    options: {
+      enabled: false,
+      series: [],
+      riskFreeRate: 0.05,
+      secondsPerDay: 60,
+      repriceSeconds: 1
+    },
+    
+    futures: {
+      enabled: true,
+      contracts: [
+        {
+          symbol: 'CLF',
+          name: 'Crude Oil Futures',
+          sector: 'ENERGY',
+          multiplier: 100,
+          tickSize: 0.01,
+          startingPrice: 80.50,
+          initialMargin: 1200,
+          maintenanceMargin: 900,
+          expiryDays: 5,
+          finalValue: 83.00
+        },
+        {
+          symbol: 'WHF',
+          name: 'Wheat Futures',
+          sector: 'AGRICULTURE',
+          multiplier: 500,
+          tickSize: 0.0025,
+          startingPrice: 6.10,
+          initialMargin: 600,
+          maintenanceMargin: 450,
+          expiryDays: 5,
+          finalValue: 5.85
+        }
+      ],
+      secondsPerDay: 60,
+      quoteSeconds: 1
+    },
+    
+    instructorControls: {
+      canPauseMarket: true,
+      canAdjustVolatility: true,
+      canTriggerEvents: true,
+      canModifyOrders: true,
+      canViewAllPositions: true,
+      realTimeMonitoring: true,
+      scenarioControl: true
+    },
+    
+    restrictions: {
+      maxPositionSize: 50000,
+      maxOrderValue: 500000,
+      tradingWindows: [1, 4, 8, 9, 10, 11, 12, 13, 15, 18, 32],
+      analytics: 'ADVANCED'
+    },
+    
+    objectives: [
+      'Hedge a spot position with futures contracts',
+      'Follow variation margin as positions are marked to market',
+      'Compare hedged and unhedged results at cash settlement'
+    ],
+    prerequisites: ['market_efficiency', 'options_pricing']
   }
 };
 
@@ -350,9 +837,11 @@ export function getMarketConfig(lessonId: string): MarketConfiguration {
     'Market Efficiency II': 'MARKET_EFFICIENCY',
     'Option Pricing': 'OPTIONS_PRICING',
     'Law of One Price': 'MARKET_EFFICIENCY',
+    'Transaction Costs': 'TRANSACTION_COSTS',
     'Merger Arbitrage': 'OPTIONS_PRICING',
     'Event Arbitrage': 'OPTIONS_PRICING',
-    'Convertible Arbitrage': 'OPTIONS_PRICING'
+    'Convertible Arbitrage': 'OPTIONS_PRICING',
+    'Futures Hedging': 'FUTURES_HEDGING'
   };
   
   const mappedConfig = lessonMappings[lessonId];
@@ -373,12 +862,16 @@ export function isFeatureEnabled(config: MarketConfiguration, feature: string):
       return config.orderTypes.limit;
     case 'stop_orders':
       return config.orderTypes.stop;
+    case 'iceberg_orders':
+      return config.orderTypes.iceberg;
     case 'liquidity_bots':
       return config.liquidity.enabled;
     case 'market_halts':
       return config.mechanics.halts;
     case 'short_selling':
       return config.mechanics.shortSelling;
+    case 'margin_trading':
+      return config.mechanics.marginTrading;
     case 'derivatives':
       return config.securities.some(s => s.derivatives);
     case 'real_time_monitoring':
@@ -412,6 +905,7 @@ export function validateOrder(config: MarketConfiguration, order: {
   quantity: number;
   value: number;
   symbol: string;
+  displayQuantity?: number;
 }): { valid: boolean; reason?: string } {
   // Check if security is enabled
   const security = config.securities.find(s => s.symbol === order.symbol);
@@ -428,6 +922,15 @@ export function validateOrder(config: MarketConfiguration, order: {
     return { valid: false, reason: 'Stop orders not enabled in this lesson' };
   }
   
+  if (order.displayQuantity !== undefined) {
+    if (!config.orderTypes.iceberg) {
+      return { valid: false, reason: 'Iceberg orders not enabled in this lesson' };
+    }
+    if (order.type !== 'LIMIT' || order.displayQuantity <= 0 || order.displayQuantity > order.quantity) {
+      return { valid: false, reason: 'Invalid display quantity' };
+    }
+  }
+  
   // Check size limits
   if (order.quantity < security.minOrderSize) {
     return { valid: false, reason: `Minimum order size is ${security.minOrderSize}` };
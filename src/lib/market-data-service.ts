@@ -7,6 +7,8 @@
 
 import { EventEmitter } from 'events';
 import { tradingEngine } from './trading-engine';
+import { getSessionRandom } from './seeded-random';
+import { getSessionClock, ClockTimer } from './session-clock';
 
 export interface MarketFeed {
   symbol: string;
@@ -44,7 +46,8 @@ export interface MarketEvent {
 export class MarketDataService extends EventEmitter {
   private feeds: Map<string, MarketFeed> = new Map();
   private subscriptions: Map<string, Set<string>> = new Map(); // sessionId -> symbols
-  private updateIntervals: Map<string, NodeJS.Timeout> = new Map();
+  private updateIntervals: Map<string, ClockTimer> = new Map();
+  private eventTimers: Map<string, Set<ClockTimer>> = new Map(); // scheduled market events by session
   private newsEvents: NewsEvent[] = [];
   private marketEvents: MarketEvent[] = [];
   private volatilityMultipliers: Map<string, number> = new Map();
@@ -94,8 +97,8 @@ export class MarketDataService extends EventEmitter {
     const symbolSet = new Set(symbols.length > 0 ? symbols : Array.from(this.feeds.keys()));
     this.subscriptions.set(sessionId, symbolSet);
 
-    // Start real-time updates
-    const interval = setInterval(() => {
+    // Start real-time updates on the session clock
+    const interval = getSessionClock(sessionId).setInterval(() => {
       symbolSet.forEach(symbol => {
         this.updateMarketData(sessionId, symbol);
       });
@@ -124,10 +127,14 @@ export class MarketDataService extends EventEmitter {
   public stopDataFeed(sessionId: string): void {
     const interval = this.updateIntervals.get(sessionId);
     if (interval) {
-      clearInterval(interval);
+      getSessionClock(sessionId).clear(interval);
       this.updateIntervals.delete(sessionId);
     }
 
+    const clock = getSessionClock(sessionId);
+    this.eventTimers.get(sessionId)?.forEach(timer => clock.clear(timer));
+    this.eventTimers.delete(sessionId);
+
     this.subscriptions.delete(sessionId);
     this.emit('feed_stopped', { sessionId });
   }
@@ -145,7 +152,7 @@ export class MarketDataService extends EventEmitter {
     // Geometric Brownian Motion with mean reversion
     const dt = 0.0005; // Time step (500ms in years)
     const meanReversion = 0.1; // Mean reversion strength
-    const randomComponent = (Math.random() - 0.5) * 2; // Normal distribution approximation
+    const randomComponent = (getSessionRandom(sessionId, `price-feed:${symbol}`).next() - 0.5) * 2; // Normal distribution approximation
     
     // Calculate price change
     const drift = -meanReversion * Math.log(currentFeed.price / currentFeed.open) * dt;
@@ -229,13 +236,14 @@ export class MarketDataService extends EventEmitter {
       this.volatilityMultipliers.set(event.symbol, currentMultiplier * volatilityIncrease);
 
       // Schedule volatility decay
-      setTimeout(() => {
+      const clock = getSessionClock(sessionId);
+      clock.setTimeout(() => {
         const decayedMultiplier = Math.max(1.0, currentMultiplier * volatilityIncrease * 0.5);
         this.volatilityMultipliers.set(event.symbol!, decayedMultiplier);
       }, event.duration * 1000);
 
       // Full decay back to normal
-      setTimeout(() => {
+      clock.setTimeout(() => {
         this.volatilityMultipliers.set(event.symbol!, 1.0);
       }, event.duration * 2000);
     }
@@ -274,7 +282,7 @@ export class MarketDataService extends EventEmitter {
     this.volatilityMultipliers.set(symbol, currentMultiplier * 2.0);
 
     // Decay volatility over time
-    setTimeout(() => {
+    getSessionClock(sessionId).setTimeout(() => {
       this.volatilityMultipliers.set(symbol, 1.0);
     }, 30000); // 30 seconds
 
@@ -288,16 +296,22 @@ export class MarketDataService extends EventEmitter {
   }
 
   /**
-   * Schedule market events
+   * Schedule a market event at a time on the session clock. Events still
+   * pending when the session's feed stops are dropped.
    */
-  public scheduleMarketEvent(event: MarketEvent): void {
+  public scheduleMarketEvent(sessionId: string, event: MarketEvent): void {
     this.marketEvents.push(event);
     
-    const delay = event.scheduledTime.getTime() - Date.now();
+    const clock = getSessionClock(sessionId);
+    const delay = event.scheduledTime.getTime() - clock.now();
     if (delay > 0) {
-      setTimeout(() => {
+      const timers = this.eventTimers.get(sessionId) || new Set<ClockTimer>();
+      const timer = clock.setTimeout(() => {
+        timers.delete(timer);
         this.executeMarketEvent(event);
       }, delay);
+      timers.add(timer);
+      this.eventTimers.set(sessionId, timers);
     } else {
       this.executeMarketEvent(event);
     }
@@ -4,10 +4,15 @@
  * Implements order book, price formation, and liquidity traders
  * to replicate the authentic upTick trading experience.
  * Now includes configurable market complexity based on lesson progression.
+ * Orders are matched by the session's shared matching core (matching-core.ts).
  */
 
 import { getMarketConfig, MarketConfiguration, validateOrder, isFeatureEnabled } from './market-config';
 import { createMarketEfficiencyPattern, type LiquidityPattern, type PatternTradeConfig } from './market-efficiency-patterns';
+import { getMatchingCore, MatchingCore, ExecutionEvent, MarketOrder as CoreOrder } from './matching-core';
+import { getSessionRandom, SeededRandom } from './seeded-random';
+import { getSessionClock, SessionClock, ClockTimer } from './session-clock';
+import { getSessionJournal, SessionJournal } from './session-journal';
 
 export interface MarketOrder {
   id: string;
@@ -18,7 +23,7 @@ export interface MarketOrder {
   price?: number; // undefined for market orders
   type: 'MARKET' | 'LIMIT';
   timestamp: Date;
-  status: 'PENDING' | 'PARTIAL' | 'FILLED' | 'CANCELLED';
+  status: 'PENDING' | 'PARTIAL' | 'FILLED' | 'CANCELLED' | 'REJECTED';
   filledQuantity: number;
   avgFillPrice?: number;
   isBot?: boolean; // true for liquidity trader orders
@@ -89,25 +94,34 @@ export interface MarketData {
 }
 
 export class MarketEngine {
-  private orderBooks: Map<string, MarketOrder[]> = new Map();
+  private orders: Map<string, MarketOrder> = new Map(); // orders placed through this engine
   private trades: Map<string, MarketTrade[]> = new Map();
   private liquidityTraders: Map<string, LiquidityTrader> = new Map();
   private marketData: Map<string, MarketData> = new Map();
-  private nextOrderId = 1;
-  private nextTradeId = 1;
+  private core: MatchingCore;
+  private random: SeededRandom;
+  private clock: SessionClock;
+  private journal: SessionJournal;
+  private handleExecution = (event: ExecutionEvent) => this.onExecution(event);
   
   // Market configuration and state
   private config: MarketConfiguration;
   private symbols: string[] = [];
   private isPaused = false;
-  private liquidityTradingInterval?: NodeJS.Timeout;
+  private liquidityTradingInterval?: ClockTimer;
+  private volatilityTimers: Set<ClockTimer> = new Set(); // pending volatility spike reversions
 
   // Market Efficiency lesson specific
   private marketEfficiencyPattern?: ReturnType<typeof createMarketEfficiencyPattern>;
   private currentTick = 0;
   
-  constructor(lessonId: string = 'Price Formation') {
+  constructor(lessonId: string = 'Price Formation', sessionId: string = `lesson_${lessonId}`) {
     this.config = getMarketConfig(lessonId);
+    this.core = getMatchingCore(sessionId);
+    this.random = getSessionRandom(sessionId, 'liquidity-traders');
+    this.clock = getSessionClock(sessionId);
+    this.journal = getSessionJournal(sessionId);
+    this.core.on('execution', this.handleExecution);
     this.initializeMarket();
     this.startLiquidityTraders();
   }
@@ -126,7 +140,6 @@ export class MarketEngine {
     console.log(`🎯 Securities: ${this.symbols.join(', ')}`);
     
     this.symbols.forEach(symbol => {
-      this.orderBooks.set(symbol, []);
       this.trades.set(symbol, []);
       
       // Get security configuration
@@ -222,11 +235,9 @@ export class MarketEngine {
    * Start automated liquidity trading
    */
   private startLiquidityTraders() {
-    if (this.liquidityTradingInterval) {
-      clearInterval(this.liquidityTradingInterval);
-    }
+    this.clock.clear(this.liquidityTradingInterval);
     
-    this.liquidityTradingInterval = setInterval(() => {
+    this.liquidityTradingInterval = this.clock.setInterval(() => {
       if (this.isPaused) return; // Respect market pause
       
       this.liquidityTraders.forEach(trader => {
@@ -320,7 +331,7 @@ export class MarketEngine {
     
     if (Math.abs(changePercent) > threshold) {
       const side = changePercent > 0 ? 'BUY' : 'SELL';
-      const quantity = 50 + Math.floor(Math.random() * 100);
+      const quantity = 50 + this.random.nextInt(100);
       
       // Place market order in trend direction
       this.placeOrder({
@@ -344,6 +355,7 @@ export class MarketEngine {
     quantity: number;
     price?: number;
     type: 'MARKET' | 'LIMIT';
+    displayQuantity?: number; // iceberg: size shown on the book
     isBot?: boolean;
   }): MarketOrder {
     
@@ -357,7 +369,8 @@ export class MarketEngine {
         type: params.type,
         quantity: params.quantity,
         value: estimatedValue,
-        symbol: params.symbol
+        symbol: params.symbol,
+        displayQuantity: params.displayQuantity
       });
       
       if (!validation.valid) {
@@ -372,7 +385,7 @@ export class MarketEngine {
       }
     }
     const order: MarketOrder = {
-      id: `order_${this.nextOrderId++}`,
+      id: this.core.nextOrderId(),
       userId: params.userId,
       symbol: params.symbol,
       side: params.side,
@@ -385,13 +398,31 @@ export class MarketEngine {
       isBot: params.isBot || false
     };
     
-    // Add to order book
-    const orderBook = this.orderBooks.get(params.symbol) || [];
-    orderBook.push(order);
-    this.orderBooks.set(params.symbol, orderBook);
+    // Register before submitting so fills during matching update this view
+    this.orders.set(order.id, order);
+    
+    const coreOrder: CoreOrder = {
+      id: order.id,
+      sessionId: this.core.sessionId,
+      userId: order.userId,
+      securityId: order.symbol,
+      type: order.type,
+      side: order.side,
+      quantity: order.quantity,
+      price: order.price,
+      timeInForce: 'DAY',
+      status: 'PENDING',
+      submittedAt: order.timestamp,
+      remainingQuantity: order.quantity,
+      isBot: order.isBot,
+      displayQuantity: order.type === 'LIMIT' ? params.displayQuantity : undefined
+    };
+    this.journal.append('ORDER_SUBMITTED', { order: coreOrder });
+    this.core.submit(coreOrder);
     
-    // Try to match immediately
-    this.matchOrders(params.symbol);
+    if (coreOrder.status === 'REJECTED') {
+      order.status = 'REJECTED';
+    }
     
     console.log(`📋 Order placed: ${order.side} ${order.quantity} ${order.symbol} ${order.type === 'LIMIT' ? `@ $${order.price}` : 'MARKET'} by ${order.isBot ? 'BOT' : 'USER'} ${order.userId}`);
     
@@ -399,137 +430,44 @@ export class MarketEngine {
   }
   
   /**
-   * Match orders and create trades
-   */
-  private matchOrders(symbol: string) {
-    const orders = this.orderBooks.get(symbol) || [];
-    const activeOrders = orders.filter(o => o.status === 'PENDING');
-    
-    // Sort buy orders by price descending (highest first)
-    const buyOrders = activeOrders
-      .filter(o => o.side === 'BUY')
-      .sort((a, b) => {
-        if (a.type === 'MARKET' && b.type !== 'MARKET') return -1;
-        if (b.type === 'MARKET' && a.type !== 'MARKET') return 1;
-        if (a.type === 'MARKET' && b.type === 'MARKET') return a.timestamp.getTime() - b.timestamp.getTime();
-        return (b.price || 0) - (a.price || 0);
-      });
-    
-    // Sort sell orders by price ascending (lowest first)  
-    const sellOrders = activeOrders
-      .filter(o => o.side === 'SELL')
-      .sort((a, b) => {
-        if (a.type === 'MARKET' && b.type !== 'MARKET') return -1;
-        if (b.type === 'MARKET' && a.type !== 'MARKET') return 1;
-        if (a.type === 'MARKET' && b.type === 'MARKET') return a.timestamp.getTime() - b.timestamp.getTime();
-        return (a.price || Infinity) - (b.price || Infinity);
-      });
-    
-    // Match orders
-    for (const buyOrder of buyOrders) {
-      for (const sellOrder of sellOrders) {
-        if (this.canMatch(buyOrder, sellOrder)) {
-          this.executeTrade(buyOrder, sellOrder);
-          break; // Move to next buy order
-        }
-      }
-    }
-  }
-  
-  /**
-   * Check if two orders can be matched
+   * Record an execution from the shared matching core. Every execution
+   * updates the tape and market data; fills of orders placed through this
+   * engine also update the order view and liquidity trader positions.
    */
-  private canMatch(buyOrder: MarketOrder, sellOrder: MarketOrder): boolean {
-    if (buyOrder.status !== 'PENDING' || sellOrder.status !== 'PENDING') return false;
-    if (buyOrder.filledQuantity >= buyOrder.quantity || sellOrder.filledQuantity >= sellOrder.quantity) return false;
-    
-    // Market orders always match
-    if (buyOrder.type === 'MARKET' || sellOrder.type === 'MARKET') return true;
-    
-    // Limit orders match if buy price >= sell price
-    return (buyOrder.price || 0) >= (sellOrder.price || 0);
-  }
-  
-  /**
-   * Execute trade between two orders
-   */
-  private executeTrade(buyOrder: MarketOrder, sellOrder: MarketOrder) {
-    const buyQuantityRemaining = buyOrder.quantity - buyOrder.filledQuantity;
-    const sellQuantityRemaining = sellOrder.quantity - sellOrder.filledQuantity;
-    const tradeQuantity = Math.min(buyQuantityRemaining, sellQuantityRemaining);
-    
-    // Determine trade price (seller's price for limit orders, current market for market orders)
-    let tradePrice: number;
-    if (sellOrder.type === 'LIMIT' && sellOrder.price) {
-      tradePrice = sellOrder.price;
-    } else if (buyOrder.type === 'LIMIT' && buyOrder.price) {
-      tradePrice = buyOrder.price;
-    } else {
-      // Use current market price for market orders
-      const marketData = this.marketData.get(buyOrder.symbol);
-      tradePrice = marketData?.currentPrice || 50.00;
-    }
-    
-    // Create trade record
+  private onExecution({ execution, buyOrder, sellOrder }: ExecutionEvent) {
+    const symbol = execution.securityId;
     const trade: MarketTrade = {
-      id: `trade_${this.nextTradeId++}`,
-      symbol: buyOrder.symbol,
-      price: tradePrice,
-      quantity: tradeQuantity,
-      buyOrderId: buyOrder.id,
-      sellOrderId: sellOrder.id,
-      buyUserId: buyOrder.userId,
-      sellUserId: sellOrder.userId,
-      timestamp: new Date()
+      id: execution.id,
+      symbol,
+      price: execution.price,
+      quantity: execution.quantity,
+      buyOrderId: execution.buyOrderId,
+      sellOrderId: execution.sellOrderId,
+      buyUserId: execution.buyUserId,
+      sellUserId: execution.sellUserId,
+      timestamp: execution.timestamp
     };
     
-    // Update order fill quantities
-    buyOrder.filledQuantity += tradeQuantity;
-    sellOrder.filledQuantity += tradeQuantity;
-    
-    // Update order statuses
-    if (buyOrder.filledQuantity >= buyOrder.quantity) {
-      buyOrder.status = 'FILLED';
-      buyOrder.avgFillPrice = this.calculateAvgFillPrice(buyOrder);
-    } else {
-      buyOrder.status = 'PARTIAL';
-    }
+    const trades = this.trades.get(symbol) || [];
+    trades.push(trade);
+    this.trades.set(symbol, trades);
     
-    if (sellOrder.filledQuantity >= sellOrder.quantity) {
-      sellOrder.status = 'FILLED';
-      sellOrder.avgFillPrice = this.calculateAvgFillPrice(sellOrder);
-    } else {
-      sellOrder.status = 'PARTIAL';
+    for (const coreOrder of [buyOrder, sellOrder]) {
+      const order = this.orders.get(coreOrder.id);
+      if (!order) continue;
+      
+      const previousValue = (order.avgFillPrice || 0) * order.filledQuantity;
+      order.filledQuantity += execution.quantity;
+      order.avgFillPrice = (previousValue + execution.price * execution.quantity) / order.filledQuantity;
+      order.status = order.filledQuantity >= order.quantity ? 'FILLED' : 'PARTIAL';
+      
+      this.updateTraderPosition(order.userId, symbol, execution.quantity, execution.price, order.side);
     }
     
-    // Store trade
-    const trades = this.trades.get(buyOrder.symbol) || [];
-    trades.push(trade);
-    this.trades.set(buyOrder.symbol, trades);
-    
     // Update market data
-    this.updateMarketData(buyOrder.symbol, tradePrice, tradeQuantity);
+    this.updateMarketData(symbol, execution.price, execution.quantity);
     
-    // Update liquidity trader positions
-    this.updateTraderPosition(buyOrder.userId, buyOrder.symbol, tradeQuantity, tradePrice, 'BUY');
-    this.updateTraderPosition(sellOrder.userId, sellOrder.symbol, tradeQuantity, tradePrice, 'SELL');
-    
-    console.log(`💰 TRADE: ${tradeQuantity} ${buyOrder.symbol} @ $${tradePrice} (${buyOrder.isBot ? 'BOT' : 'USER'} ${buyOrder.userId} -> ${sellOrder.isBot ? 'BOT' : 'USER'} ${sellOrder.userId})`);
-  }
-  
-  /**
-   * Calculate average fill price for partially filled orders
-   */
-  private calculateAvgFillPrice(order: MarketOrder): number {
-    const trades = Array.from(this.trades.values()).flat()
-      .filter(t => t.buyOrderId === order.id || t.sellOrderId === order.id);
-    
-    if (trades.length === 0) return order.price || 0;
-    
-    const totalValue = trades.reduce((sum, t) => sum + (t.price * t.quantity), 0);
-    const totalQuantity = trades.reduce((sum, t) => sum + t.quantity, 0);
-    
-    return totalQuantity > 0 ? totalValue / totalQuantity : (order.price || 0);
+    console.log(`💰 TRADE: ${execution.quantity} ${symbol} @ $${execution.price} (${execution.buyUserId} -> ${execution.sellUserId})`);
   }
   
   /**
@@ -578,14 +516,15 @@ export class MarketEngine {
    * Cancel orders by user ID and symbol
    */
   private cancelOrdersByUser(userId: string, symbol?: string) {
-    this.orderBooks.forEach((orders, sym) => {
-      if (symbol && sym !== symbol) return;
+    this.orders.forEach(order => {
+      if (symbol && order.symbol !== symbol) return;
       
-      orders.forEach(order => {
-        if (order.userId === userId && order.status === 'PENDING') {
+      if (order.userId === userId && (order.status === 'PENDING' || order.status === 'PARTIAL')) {
+        if (this.core.cancel(order.id)) {
+          this.journal.append('ORDER_CANCELLED', { orderId: order.id });
           order.status = 'CANCELLED';
         }
-      });
+      }
     });
   }
   
@@ -593,31 +532,15 @@ export class MarketEngine {
    * Generate current order book for a symbol
    */
   public generateOrderBook(symbol: string): OrderBook {
-    const orders = this.orderBooks.get(symbol) || [];
-    const activeOrders = orders.filter(o => o.status === 'PENDING' && o.type === 'LIMIT');
-    
-    // Aggregate bids by price level
-    const bidMap = new Map<number, { quantity: number; orderCount: number }>();
-    const askMap = new Map<number, { quantity: number; orderCount: number }>();
-    
-    activeOrders.forEach(order => {
-      if (!order.price) return;
-      
-      const map = order.side === 'BUY' ? bidMap : askMap;
-      const existing = map.get(order.price) || { quantity: 0, orderCount: 0 };
-      existing.quantity += (order.quantity - order.filledQuantity);
-      existing.orderCount += 1;
-      map.set(order.price, existing);
+    const book = this.core.getBook(symbol);
+    const toLevel = (level: { price: number; quantity: number; orderCount: number }): OrderBookLevel => ({
+      price: level.price,
+      quantity: level.quantity,
+      orderCount: level.orderCount
     });
     
-    // Convert to sorted arrays
-    const bids: OrderBookLevel[] = Array.from(bidMap.entries())
-      .map(([price, data]) => ({ price, quantity: data.quantity, orderCount: data.orderCount }))
-      .sort((a, b) => b.price - a.price); // Descending
-      
-    const asks: OrderBookLevel[] = Array.from(askMap.entries())
-      .map(([price, data]) => ({ price, quantity: data.quantity, orderCount: data.orderCount }))
-      .sort((a, b) => a.price - b.price); // Ascending
+    const bids = book.bids.map(toLevel); // Descending
+    const asks = book.asks.map(toLevel); // Ascending
     
     const recentTrades = this.trades.get(symbol) || [];
     const lastTrade = recentTrades[recentTrades.length - 1];
@@ -660,14 +583,8 @@ export class MarketEngine {
    * Get user's orders
    */
   public getUserOrders(userId: string, symbol?: string): MarketOrder[] {
-    const allOrders: MarketOrder[] = [];
-    
-    this.orderBooks.forEach((orders, sym) => {
-      if (symbol && sym !== symbol) return;
-      
-      const userOrders = orders.filter(o => o.userId === userId);
-      allOrders.push(...userOrders);
-    });
+    const allOrders = Array.from(this.orders.values())
+      .filter(o => o.userId === userId && (!symbol || o.symbol === symbol));
     
     return allOrders.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   }
@@ -740,6 +657,7 @@ export class MarketEngine {
     }
     
     this.isPaused = true;
+    this.journal.append('MARKET_CLOSED', { reason: 'paused' });
     console.log(`⏸️ Market paused by instructor`);
   }
   
@@ -749,6 +667,7 @@ export class MarketEngine {
     }
     
     this.isPaused = false;
+    this.journal.append('MARKET_OPENED', { reason: 'resumed' });
     console.log(`▶️ Market resumed by instructor`);
   }
   
@@ -829,12 +748,12 @@ export class MarketEngine {
         console.log(`💥 Volatility spike for ${sym}: ${(originalVolatility * 100).toFixed(1)}% → ${(security.volatility * 100).toFixed(1)}%`);
         
         // Revert after duration
-        setTimeout(() => {
-          if (security) {
-            security.volatility = originalVolatility;
-            console.log(`📉 ${sym} volatility returned to normal: ${(originalVolatility * 100).toFixed(1)}%`);
-          }
+        const timer = this.clock.setTimeout(() => {
+          this.volatilityTimers.delete(timer);
+          security.volatility = originalVolatility;
+          console.log(`📉 ${sym} volatility returned to normal: ${(originalVolatility * 100).toFixed(1)}%`);
         }, duration * 1000);
+        this.volatilityTimers.add(timer);
       }
     });
   }
@@ -873,6 +792,7 @@ export class MarketEngine {
     }
 
     this.currentTick++;
+    this.journal.setTick(this.currentTick);
     const bondSymbol = this.symbols.find(s => s.includes('BOND')) || this.symbols[0];
     const marketData = this.marketData.get(bondSymbol);
 
@@ -932,6 +852,17 @@ export class MarketEngine {
     }
   }
 
+  /**
+   * Stop liquidity trading and detach from the matching core
+   */
+  public shutdown(): void {
+    this.clock.clear(this.liquidityTradingInterval);
+    this.liquidityTradingInterval = undefined;
+    this.volatilityTimers.forEach(timer => this.clock.clear(timer));
+    this.volatilityTimers.clear();
+    this.core.off('execution', this.handleExecution);
+  }
+
   /**
    * Get market status for instructor monitoring
    */
@@ -942,8 +873,8 @@ export class MarketEngine {
     activeTrades: number;
     liquidityTraders: LiquidityTrader[];
   } {
-    const totalOrders = Array.from(this.orderBooks.values())
-      .reduce((sum, orders) => sum + orders.filter(o => o.status === 'PENDING').length, 0);
+    const totalOrders = Array.from(this.orders.values())
+      .filter(o => o.status === 'PENDING' || o.status === 'PARTIAL').length;
     
     const totalTrades = Array.from(this.trades.values())
       .reduce((sum, trades) => sum + trades.length, 0);
@@ -961,10 +892,28 @@ export class MarketEngine {
 // Global market engine instance
 let globalMarketEngine: MarketEngine | null = null;
 
-export function getMarketEngine(lessonId?: string): MarketEngine {
+// Session-scoped market engines (share the session's matching core)
+const sessionMarketEngines = new Map<string, { lessonId?: string; engine: MarketEngine }>();
+
+export function getMarketEngine(lessonId?: string, sessionId?: string): MarketEngine {
+  if (sessionId) {
+    const existing = sessionMarketEngines.get(sessionId);
+    if (existing && (!lessonId || existing.lessonId === lessonId)) {
+      return existing.engine;
+    }
+    if (existing) {
+      console.log(`🔄 Switching market engine for session ${sessionId} to lesson: ${lessonId}`);
+      existing.engine.shutdown();
+    }
+    const engine = new MarketEngine(lessonId, sessionId);
+    sessionMarketEngines.set(sessionId, { lessonId: lessonId || existing?.lessonId, engine });
+    return engine;
+  }
+
   if (!globalMarketEngine || (lessonId && globalMarketEngine.getConfiguration().lessonId !== lessonId)) {
     if (globalMarketEngine) {
       console.log(`🔄 Switching market engine to lesson: ${lessonId}`);
+      globalMarketEngine.shutdown();
     }
     globalMarketEngine = new MarketEngine(lessonId);
   }
@@ -974,6 +923,7 @@ export function getMarketEngine(lessonId?: string): MarketEngine {
 export function resetMarketEngine(): void {
   if (globalMarketEngine) {
     console.log(`🗑️ Resetting market engine`);
+    globalMarketEngine.shutdown();
     globalMarketEngine = null;
   }
 }
\ No newline at end of file
@@ -0,0 +1,425 @@
+/**
+ * Market Maker Program
+ *
+ * Holds students with market-making rights to the lesson's quoting
+ * obligations. On every tick of the session clock each market maker's own
+ * resting limit orders are measured per security: they count as present
+ * when their best bid and best ask both display the minimum size and sit no
+ * wider apart than the maximum spread. At the end of each period presence is
+ * compared with the floor; compliance earns the rebate and a breach pays the
+ * penalty, both posted to the cash ledger.
+ */
+
+import { EventEmitter } from 'events';
+import { getSessionDatabase, SessionDatabase } from './session-database';
+import { getMarketConfig, MarketMakingConfig } from './market-config';
+import { getMatchingCore, MarketOrder } from './matching-core';
+import { getPortfolioEngine, PortfolioEngine } from './portfolio-engine';
+import { getSessionClock, ClockTimer } from './session-clock';
+
+export type ComplianceStatus = 'COMPLIANT' | 'AT_RISK' | 'BREACH';
+
+export interface QuoteMeasurement {
+  bid?: number;
+  ask?: number;
+  bidSize: number;
+  askSize: number;
+  spread?: number;
+  present: boolean;
+  reason?: string; // why the last tick did not count
+}
+
+export interface SecurityObligation {
+  securityId: string;
+  symbol: string;
+  maxSpread: number;
+  minSize: number;
+}
+
+export interface SecurityCompliance {
+  securityId: string;
+  symbol: string;
+  periodTicks: number;
+  periodPresentTicks: number;
+  presence: number; // fraction of this period's ticks
+  sessionTicks: number;
+  sessionPresentTicks: number;
+  lastQuote?: QuoteMeasurement;
+}
+
+export interface MarketMakerCompliance {
+  userId: string;
+  active: boolean; // still holds market-making rights
+  presence: number; // this period, across all securities
+  sessionPresence: number;
+  status: ComplianceStatus;
+  securities: SecurityCompliance[];
+  rebatesEarned: number;
+  penaltiesPaid: number;
+  periodsCompliant: number;
+  periodsBreached: number;
+}
+
+export interface ObligationSettlement {
+  userId: string;
+  securityId: string;
+  symbol: string;
+  presence: number;
+  compliant: boolean;
+  amount: number; // rebate paid, or penalty charged
+  period: number;
+  timestamp: Date;
+}
+
+interface MarketMakerRecord {
+  userId: string;
+  active: boolean;
+  securities: Map<string, SecurityCompliance>;
+  rebatesEarned: number;
+  penaltiesPaid: number;
+  periodsCompliant: number;
+  periodsBreached: number;
+}
+
+const DEFAULT_OBLIGATIONS = getMarketConfig('').marketMaking;
+
+// Presence within this margin of the floor shows as at risk
+const AT_RISK_MARGIN = 0.1;
+
+/**
+ * Measure one market maker's two-sided quote in a security. Size is what
+ * the book displays, so an iceberg's hidden reserve does not count.
+ */
+export function measureQuote(orders: MarketOrder[], obligation: Pick<SecurityObligation, 'maxSpread' | 'minSize'>): QuoteMeasurement {
+  const bids = new Map<number, number>();
+  const asks = new Map<number, number>();
+  for (const order of orders) {
+    if (order.type !== 'LIMIT' || order.price === undefined) continue;
+    const levels = order.side === 'BUY' ? bids : asks;
+    const displayed = order.visibleQuantity ?? order.remainingQuantity;
+    levels.set(order.price, (levels.get(order.price) || 0) + displayed);
+  }
+
+  const sized = (levels: Map<number, number>) =>
+    Array.from(levels.entries()).filter(([, quantity]) => quantity >= obligation.minSize);
+  const bidLevels = sized(bids).sort((a, b) => b[0] - a[0]);
+  const askLevels = sized(asks).sort((a, b) => a[0] - b[0]);
+
+  const measurement: QuoteMeasurement = {
+    bid: bidLevels[0]?.[0],
+    ask: askLevels[0]?.[0],
+    bidSize: bidLevels[0]?.[1] || 0,
+    askSize: askLevels[0]?.[1] || 0,
+    present: false
+  };
+
+  if (measurement.bid === undefined || measurement.ask === undefined) {
+    measurement.reason = bids.size === 0 && asks.size === 0
+      ? 'No quotes'
+      : measurement.bid === undefined && measurement.ask === undefined
+        ? `Quotes below ${obligation.minSize} shares`
+        : measurement.bid === undefined ? 'No bid at minimum size' : 'No ask at minimum size';
+    return measurement;
+  }
+
+  measurement.spread = Math.round((measurement.ask - measurement.bid) * 10000) / 10000;
+  if (measurement.spread > obligation.maxSpread) {
+    measurement.reason = `Spread ${measurement.spread} wider than ${obligation.maxSpread}`;
+    return measurement;
+  }
+
+  measurement.present = true;
+  return measurement;
+}
+
+export class MarketMakerProgram extends EventEmitter {
+  private sessionId: string;
+  private db: SessionDatabase;
+  private portfolioEngine: PortfolioEngine;
+  private config: MarketMakingConfig = DEFAULT_OBLIGATIONS;
+  private obligations: SecurityObligation[] = [];
+  private configuration: Promise<void>;
+  private records: Map<string, MarketMakerRecord> = new Map();
+  private getMarketMakers: () => string[] = () => [];
+  private tickTimer?: ClockTimer;
+  private ticksInPeriod = 0;
+  private period = 1;
+
+  constructor(sessionId: string) {
+    super();
+    this.sessionId = sessionId;
+    this.db = getSessionDatabase(sessionId);
+    this.portfolioEngine = getPortfolioEngine(sessionId);
+    this.configuration = this.loadObligations();
+  }
+
+  /**
+   * Load the lesson's obligations and the securities it trades. Symbols
+   * without a Security row are books keyed by symbol.
+   */
+  private async loadObligations(): Promise<void> {
+    try {
+      const session = await this.db.simulationSession.findUnique({
+        where: { id: this.sessionId },
+        include: { lesson: { select: { name: true } } }
+      });
+      if (!session?.lesson) return;
+
+      const lessonConfig = getMarketConfig(session.lesson.name);
+      this.config = lessonConfig.marketMaking;
+
+      for (const securityConfig of lessonConfig.securities.filter(s => s.enabled)) {
+        const security = await this.db.security.findUnique({
+          where: { symbol: securityConfig.symbol },
+          select: { id: true }
+        });
+        this.obligations.push(this.obligationFor(security?.id || securityConfig.symbol, securityConfig.symbol));
+      }
+    } catch (error) {
+      console.error('Error loading market maker obligations:', error);
+    }
+  }
+
+  private obligationFor(securityId: string, symbol: string): SecurityObligation {
+    const override = this.config.perSecurity[symbol];
+    return {
+      securityId,
+      symbol,
+      maxSpread: override?.maxSpread ?? this.config.maxSpread,
+      minSize: override?.minSize ?? this.config.minSize
+    };
+  }
+
+  /**
+   * Securities under obligation; without a securities list, every book the
+   * session has opened
+   */
+  private currentObligations(): SecurityObligation[] {
+    if (this.obligations.length > 0) return this.obligations;
+    return getMatchingCore(this.sessionId).getSecurityIds()
+      .map(securityId => this.obligationFor(securityId, securityId));
+  }
+
+  /**
+   * Start measuring on the session clock. The callback names the current
+   * holders of market-making rights, so grants, sales and leases take
+   * effect on the next tick.
+   */
+  async start(getMarketMakers: () => string[]): Promise<void> {
+    await this.configuration;
+    this.getMarketMakers = getMarketMakers;
+    if (this.tickTimer) return;
+
+    this.tickTimer = getSessionClock(this.sessionId).setInterval(() => {
+      this.tick().catch(error => {
+        console.error('Error measuring market maker obligations:', error);
+      });
+    }, this.config.tickSeconds * 1000);
+  }
+
+  /**
+   * Stop measuring and settle the period in progress
+   */
+  async stop(): Promise<void> {
+    if (!this.tickTimer) return;
+    getSessionClock(this.sessionId).clear(this.tickTimer);
+    this.tickTimer = undefined;
+
+    if (this.ticksInPeriod > 0) {
+      await this.settlePeriod();
+    }
+  }
+
+  /**
+   * Obligations in force for this session
+   */
+  async getObligations(): Promise<{ config: MarketMakingConfig; securities: SecurityObligation[] }> {
+    await this.configuration;
+    return { config: this.config, securities: this.currentObligations() };
+  }
+
+  private async tick(): Promise<void> {
+    const marketMakers = new Set(this.getMarketMakers());
+    for (const record of this.records.values()) {
+      record.active = marketMakers.has(record.userId);
+    }
+
+    const core = getMatchingCore(this.sessionId);
+    const obligations = this.currentObligations();
+    const restingOrders = core.getOpenOrders();
+
+    for (const userId of marketMakers) {
+      const record = this.getRecord(userId);
+      const ownOrders = restingOrders.filter(order => order.userId === userId);
+
+      for (const obligation of obligations) {
+        const compliance = this.getSecurityCompliance(record, obligation);
+        const quote = measureQuote(ownOrders.filter(order => order.securityId === obligation.securityId), obligation);
+
+        compliance.periodTicks++;
+        compliance.sessionTicks++;
+        if (quote.present) {
+          compliance.periodPresentTicks++;
+          compliance.sessionPresentTicks++;
+        }
+        compliance.presence = compliance.periodPresentTicks / compliance.periodTicks;
+        compliance.lastQuote = quote;
+      }
+    }
+
+    this.ticksInPeriod++;
+    this.emit('complianceUpdate', {
+      period: this.period,
+      tick: this.ticksInPeriod,
+      compliance: this.getCompliance(),
+      timestamp: getSessionClock(this.sessionId).date()
+    });
+
+    if (this.ticksInPeriod * this.config.tickSeconds >= this.config.periodSeconds) {
+      await this.settlePeriod();
+    }
+  }
+
+  /**
+   * Pay rebates and charge penalties for the period just ended, then start
+   * a new one
+   */
+  private async settlePeriod(): Promise<void> {
+    const period = this.period;
+    const timestamp = getSessionClock(this.sessionId).date();
+    this.period++;
+    this.ticksInPeriod = 0;
+
+    for (const record of this.records.values()) {
+      for (const compliance of record.securities.values()) {
+        if (compliance.periodTicks === 0) continue;
+
+        const presence = compliance.presence;
+        const compliant = presence >= this.config.minPresence;
+        const amount = compliant ? this.config.complianceRebate : this.config.breachPenalty;
+        const description = `Market making ${compliance.symbol} period ${period}: ${(presence * 100).toFixed(1)}% presence`;
+        const reference = `mm_${this.sessionId}_${period}_${compliance.securityId}`;
+
+        compliance.periodTicks = 0;
+        compliance.periodPresentTicks = 0;
+        compliance.presence = 0;
+
+        try {
+          if (compliant) {
+            record.periodsCompliant++;
+            if (amount > 0) {
+              await this.portfolioEngine.creditCash(record.userId, amount, `${description} rebate`, 'MARKET_MAKER_REBATE', reference);
+              record.rebatesEarned += amount;
+            }
+          } else {
+            record.periodsBreached++;
+            if (amount > 0) {
+              await this.portfolioEngine.chargeCash(record.userId, amount, `${description} penalty`, 'MARKET_MAKER_PENALTY', reference);
+              record.penaltiesPaid += amount;
+            }
+          }
+        } catch (error) {
+          console.error(`Error settling market maker obligation for ${record.userId}:`, error);
+          continue;
+        }
+
+        const settlement: ObligationSettlement = {
+          userId: record.userId,
+          securityId: compliance.securityId,
+          symbol: compliance.symbol,
+          presence,
+          compliant,
+          amount,
+          period,
+          timestamp
+        };
+        this.emit('obligationSettled', settlement);
+      }
+    }
+
+    this.emit('complianceUpdate', {
+      period: this.period,
+      tick: 0,
+      compliance: this.getCompliance(),
+      timestamp
+    });
+  }
+
+  private getRecord(userId: string): MarketMakerRecord {
+    if (!this.records.has(userId)) {
+      this.records.set(userId, {
+        userId,
+        active: true,
+        securities: new Map(),
+        rebatesEarned: 0,
+        penaltiesPaid: 0,
+        periodsCompliant: 0,
+        periodsBreached: 0
+      });
+    }
+    return this.records.get(userId)!;
+  }
+
+  private getSecurityCompliance(record: MarketMakerRecord, obligation: SecurityObligation): SecurityCompliance {
+    if (!record.securities.has(obligation.securityId)) {
+      record.securities.set(obligation.securityId, {
+        securityId: obligation.securityId,
+        symbol: obligation.symbol,
+        periodTicks: 0,
+        periodPresentTicks: 0,
+        presence: 0,
+        sessionTicks: 0,
+        sessionPresentTicks: 0
+      });
+    }
+    return record.securities.get(obligation.securityId)!;
+  }
+
+  /**
+   * Live compliance of every market maker measured this session
+   */
+  getCompliance(): MarketMakerCompliance[] {
+    return Array.from(this.records.values()).map(record => {
+      const securities = Array.from(record.securities.values()).map(compliance => ({ ...compliance }));
+      const periodTicks = securities.reduce((sum, s) => sum + s.periodTicks, 0);
+      const periodPresent = securities.reduce((sum, s) => sum + s.periodPresentTicks, 0);
+      const sessionTicks = securities.reduce((sum, s) => sum + s.sessionTicks, 0);
+      const sessionPresent = securities.reduce((sum, s) => sum + s.sessionPresentTicks, 0);
+      const presence = periodTicks > 0 ? periodPresent / periodTicks : 0;
+
+      // The weakest security decides the status; each is settled on its own
+      const weakest = securities
+        .filter(s => s.periodTicks > 0)
+        .reduce((min, s) => Math.min(min, s.presence), 1);
+      const status: ComplianceStatus = periodTicks === 0 || weakest >= this.config.minPresence + AT_RISK_MARGIN
+        ? 'COMPLIANT'
+        : weakest >= this.config.minPresence ? 'AT_RISK' : 'BREACH';
+
+      return {
+        userId: record.userId,
+        active: record.active,
+        presence,
+        sessionPresence: sessionTicks > 0 ? sessionPresent / sessionTicks : 0,
+        status,
+        securities,
+        rebatesEarned: record.rebatesEarned,
+        penaltiesPaid: record.penaltiesPaid,
+        periodsCompliant: record.periodsCompliant,
+        periodsBreached: record.periodsBreached
+      };
+    });
+  }
+}
+
+// Global market maker programs by session
+const marketMakerPrograms = new Map<string, MarketMakerProgram>();
+
+/**
+ * Get or create market maker program for a session
+ */
+export function getMarketMakerProgram(sessionId: string): MarketMakerProgram {
+  if (!marketMakerPrograms.has(sessionId)) {
+    marketMakerPrograms.set(sessionId, new MarketMakerProgram(sessionId));
+  }
+  return marketMakerPrograms.get(sessionId)!;
+}
\ No newline at end of file
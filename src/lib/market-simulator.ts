@@ -8,6 +8,8 @@
 
 import { EventEmitter } from 'events';
 import { getReadyOrderMatchingEngine } from './order-matching-engine';
+import { getSessionRandom, SeededRandom } from './seeded-random';
+import { getSessionClock, ClockTimer } from './session-clock';
 
 export interface MarketTick {
   day: number;
@@ -107,8 +109,10 @@ export class MarketSimulator extends EventEmitter {
   private isRunning: boolean = false;
   private currentDay: number = 0;
   private currentTick: number = 0;
-  private intervalId: NodeJS.Timeout | null = null;
+  private intervalId: ClockTimer | null = null;
   private scheduledNews: NewsEvent[] = [];
+  private newsRandom: SeededRandom;
+  private priceRandom: SeededRandom;
 
   constructor(config: SimulationConfig) {
     super();
@@ -116,6 +120,8 @@ export class MarketSimulator extends EventEmitter {
       ...config,
       markets: config.markets.length > 0 ? config.markets : [DEFAULT_MARKET_CONFIG]
     };
+    this.newsRandom = getSessionRandom(config.sessionId, 'news');
+    this.priceRandom = getSessionRandom(config.sessionId, 'price-walk');
     this.initializeMarkets();
     this.scheduleNewsEvents();
   }
@@ -135,17 +141,17 @@ export class MarketSimulator extends EventEmitter {
   private scheduleNewsEvents(): void {
     for (const market of this.config.markets) {
       for (let day = 1; day <= this.config.totalDays; day++) {
-        if (Math.random() < market.newsFrequency) {
+        if (this.newsRandom.next() < market.newsFrequency) {
           const impact = this.randomChoice(['positive', 'negative', 'neutral']) as 'positive' | 'negative' | 'neutral';
           const headlines = NEWS_HEADLINES[impact];
-          const headline = headlines[Math.floor(Math.random() * headlines.length)].replace('{symbol}', market.symbol);
+          const headline = this.newsRandom.pick(headlines).replace('{symbol}', market.symbol);
 
           this.scheduledNews.push({
             day,
-            tick: Math.floor(Math.random() * market.ticksPerDay),
+            tick: this.newsRandom.nextInt(market.ticksPerDay),
             headline,
             impact,
-            magnitude: impact === 'neutral' ? 0.005 : 0.02 + Math.random() * 0.05,
+            magnitude: impact === 'neutral' ? 0.005 : 0.02 + this.newsRandom.next() * 0.05,
             symbol: market.symbol
           });
         }
@@ -156,7 +162,7 @@ export class MarketSimulator extends EventEmitter {
   }
 
   private randomChoice<T>(arr: T[]): T {
-    return arr[Math.floor(Math.random() * arr.length)];
+    return this.newsRandom.pick(arr);
   }
 
   /**
@@ -165,7 +171,7 @@ export class MarketSimulator extends EventEmitter {
   private generateNextPrice(currentPrice: number, market: MarketConfig, hasNews?: NewsEvent): number {
     // Base price movement (GBM)
     const dt = 1 / market.ticksPerDay; // Fraction of day
-    const randomShock = (Math.random() - 0.5) * 2; // -1 to 1
+    const randomShock = (this.priceRandom.next() - 0.5) * 2; // -1 to 1
     const volatilityMove = market.volatility * Math.sqrt(dt) * randomShock;
     const driftMove = market.drift * dt;
 
@@ -208,7 +214,7 @@ export class MarketSimulator extends EventEmitter {
     const ticksPerDay = this.config.markets[0].ticksPerDay;
     const tickInterval = Math.floor(this.config.msPerDay / ticksPerDay);
 
-    this.intervalId = setInterval(() => {
+    this.intervalId = getSessionClock(this.config.sessionId).setInterval(() => {
       this.processTick();
     }, tickInterval);
   }
@@ -248,7 +254,7 @@ export class MarketSimulator extends EventEmitter {
       state.price = roundedPrice;
       state.high = Math.max(state.high, roundedPrice);
       state.low = Math.min(state.low, roundedPrice);
-      state.volume += Math.floor(1000 + Math.random() * 5000);
+      state.volume += Math.floor(1000 + this.priceRandom.next() * 5000);
 
       // Emit tick
       const tick: MarketTick = {
@@ -332,7 +338,7 @@ export class MarketSimulator extends EventEmitter {
     this.isRunning = false;
 
     if (this.intervalId) {
-      clearInterval(this.intervalId);
+      getSessionClock(this.config.sessionId).clear(this.intervalId);
       this.intervalId = null;
     }
 
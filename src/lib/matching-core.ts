@@ -0,0 +1,731 @@
+/**
+ * Matching Core
+ *
+ * Single price-time priority order book shared by every trading front-end.
+ * OrderMatchingEngine, MarketEngine, TradingEngine and the simple/instructor
+ * session helpers all submit into the core for their session, so a session
+ * has exactly one book per security no matter which route an order takes.
+ *
+ * The core is synchronous and has no persistence or portfolio side effects.
+ * Front-ends listen for 'execution' events and settle the sides they own.
+ *
+ * Iceberg (reserve) orders are LIMIT orders with a displayQuantity. Only the
+ * displayed slice counts toward book depth; when a slice is filled the next
+ * one is shown from the hidden reserve and goes to the back of its price
+ * level, losing time priority.
+ *
+ * Time in force is enforced at submission: IOC remainders expire instead of
+ * resting and FOK orders expire untouched unless the book can fill them in
+ * full. DAY expiry at market close is driven by the front-ends.
+ *
+ * During a call auction orders accumulate without matching (the book may
+ * cross). Uncrossing trades everything executable at a single price that
+ * maximizes volume, then continuous matching resumes.
+ */
+
+import { EventEmitter } from 'events';
+
+export type OrderSide = 'BUY' | 'SELL';
+export type OrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT';
+export type TimeInForce = 'DAY' | 'IOC' | 'FOK' | 'GTC';
+export type OrderStatus = 'PENDING' | 'PENDING_TRIGGER' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'REJECTED' | 'EXPIRED';
+
+/**
+ * Common order model used by every front-end
+ */
+export interface MarketOrder {
+  id: string;
+  sessionId: string;
+  userId: string;
+  securityId: string;
+  type: OrderType;
+  side: OrderSide;
+  quantity: number;
+  price?: number;
+  stopPrice?: number;
+  timeInForce: TimeInForce;
+  status: OrderStatus;
+  submittedAt: Date;
+  executedAt?: Date;
+  cancelledAt?: Date;
+  remainingQuantity: number;
+  notes?: string;
+  isBot?: boolean; // liquidity / automated trader orders
+  displayQuantity?: number; // iceberg peak size; the rest is hidden reserve
+  visibleQuantity?: number; // iceberg slice currently shown on the book
+  rejectCode?: string; // machine-readable reason when REJECTED by a pre-trade check
+}
+
+/**
+ * Common execution model: one record per match, carrying both sides
+ */
+export interface Execution {
+  id: string;
+  sessionId: string;
+  securityId: string;
+  price: number;
+  quantity: number;
+  buyOrderId: string;
+  sellOrderId: string;
+  buyUserId: string;
+  sellUserId: string;
+  aggressorSide?: OrderSide; // absent for auction prints, which have no aggressor
+  timestamp: Date;
+}
+
+export interface ExecutionEvent {
+  execution: Execution;
+  buyOrder: MarketOrder;
+  sellOrder: MarketOrder;
+}
+
+export interface OrderBookLevel {
+  price: number;
+  quantity: number;
+  orderCount: number;
+  orders: MarketOrder[];
+}
+
+/**
+ * Indicative result of a call auction if it uncrossed now
+ */
+export interface AuctionIndication {
+  securityId: string;
+  price?: number; // undefined when nothing would trade
+  volume: number;
+  imbalance: number; // unmatched quantity at the price
+  imbalanceSide?: OrderSide;
+}
+
+export interface OrderBook {
+  securityId: string;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  lastTrade?: {
+    price: number;
+    quantity: number;
+    timestamp: Date;
+  };
+}
+
+const MAX_TAPE_LENGTH = 1000;
+
+export class MatchingCore extends EventEmitter {
+  private books: Map<string, OrderBook> = new Map();
+  private restingOrders: Map<string, MarketOrder> = new Map();
+  private tapes: Map<string, Execution[]> = new Map();
+  private lastPrices: Map<string, number> = new Map();
+  private nextExecutionId = 1;
+  private nextOrderSequence = 1;
+  private inAuction = false;
+  private auctionMarketOrders: Map<string, MarketOrder[]> = new Map(); // market orders waiting for the uncross
+  readonly sessionId: string;
+
+  constructor(sessionId: string) {
+    super();
+    this.sessionId = sessionId;
+  }
+
+  /**
+   * Allocate an order ID that is unique within this session's book
+   */
+  nextOrderId(prefix: string = 'order'): string {
+    return `${prefix}_${this.sessionId}_${this.nextOrderSequence++}`;
+  }
+
+  /**
+   * Get the book for a security, creating an empty one on first use
+   */
+  getBook(securityId: string): OrderBook {
+    let book = this.books.get(securityId);
+    if (!book) {
+      book = { securityId, bids: [], asks: [] };
+      this.books.set(securityId, book);
+    }
+    return book;
+  }
+
+  /**
+   * Submit a MARKET or LIMIT order. Matches against the opposite side at the
+   * resting price; a limit remainder rests on the book with time priority.
+   * Returns the executions produced by this submission.
+   */
+  submit(order: MarketOrder): Execution[] {
+    if (order.type !== 'MARKET' && order.type !== 'LIMIT') {
+      throw new Error(`Matching core cannot accept ${order.type} orders`);
+    }
+
+    if (this.inAuction) {
+      this.collect(order);
+      return [];
+    }
+
+    const book = this.getBook(order.securityId);
+    const opposite = order.side === 'BUY' ? book.asks : book.bids;
+    const executions: Execution[] = [];
+
+    if (order.timeInForce === 'FOK' && this.fillableQuantity(order, opposite) < order.remainingQuantity) {
+      order.status = 'EXPIRED';
+      order.notes = 'Fill-or-kill: insufficient depth';
+      return executions;
+    }
+
+    while (order.remainingQuantity > 0 && opposite.length > 0) {
+      const level = opposite[0];
+      if (order.type === 'LIMIT' && !this.crosses(order, level.price)) break;
+
+      const resting = level.orders[0];
+      const quantity = Math.min(order.remainingQuantity, displayedQuantity(resting));
+      executions.push(this.match(order, resting, quantity, level.price));
+
+      level.quantity -= quantity;
+      if (resting.visibleQuantity !== undefined) {
+        resting.visibleQuantity -= quantity;
+      }
+
+      if (resting.remainingQuantity === 0) {
+        level.orders.shift();
+        this.restingOrders.delete(resting.id);
+      } else if (resting.visibleQuantity === 0) {
+        // Show the next iceberg slice at the back of the queue
+        level.orders.shift();
+        resting.visibleQuantity = Math.min(resting.displayQuantity!, resting.remainingQuantity);
+        level.orders.push(resting);
+        level.quantity += resting.visibleQuantity;
+        this.emit('icebergRefreshed', { order: resting });
+      }
+      level.orderCount = level.orders.length;
+      if (level.orders.length === 0) {
+        opposite.shift();
+      }
+    }
+
+    if (order.remainingQuantity > 0) {
+      if (order.type === 'MARKET' && executions.length === 0) {
+        order.status = 'REJECTED';
+        order.notes = 'No liquidity available';
+      } else if (order.timeInForce === 'IOC') {
+        order.status = 'EXPIRED';
+        order.notes = 'Immediate-or-cancel: unfilled remainder cancelled';
+      } else if (order.type === 'LIMIT') {
+        this.rest(order);
+      }
+    }
+
+    this.emit('bookUpdated', { securityId: order.securityId, orderBook: book });
+    return executions;
+  }
+
+  /**
+   * Remove a resting order from the book
+   */
+  cancel(orderId: string): MarketOrder | undefined {
+    const order = this.remove(orderId);
+    if (!order) return undefined;
+
+    order.status = 'CANCELLED';
+    order.cancelledAt = new Date();
+    return order;
+  }
+
+  /**
+   * Remove a resting order whose time in force has run out
+   */
+  expire(orderId: string, reason: string): MarketOrder | undefined {
+    const order = this.remove(orderId);
+    if (!order) return undefined;
+
+    order.status = 'EXPIRED';
+    order.notes = reason;
+    order.cancelledAt = new Date();
+    return order;
+  }
+
+  private remove(orderId: string): MarketOrder | undefined {
+    const order = this.restingOrders.get(orderId);
+    if (!order) return undefined;
+
+    if (order.type === 'MARKET') {
+      const waiting = this.auctionMarketOrders.get(order.securityId) || [];
+      this.auctionMarketOrders.set(order.securityId, waiting.filter(o => o.id !== orderId));
+    }
+
+    const book = this.getBook(order.securityId);
+    const side = order.side === 'BUY' ? book.bids : book.asks;
+    const levelIndex = side.findIndex(level => level.price === order.price);
+    if (levelIndex !== -1) {
+      const level = side[levelIndex];
+      level.orders = level.orders.filter(o => o.id !== orderId);
+      level.quantity -= displayedQuantity(order);
+      level.orderCount = level.orders.length;
+      if (level.orders.length === 0) {
+        side.splice(levelIndex, 1);
+      }
+    }
+
+    this.restingOrders.delete(orderId);
+
+    this.emit('bookUpdated', { securityId: order.securityId, orderBook: book });
+    return order;
+  }
+
+  /**
+   * Amend a resting order in one step, so it is never off the book between
+   * the old and new terms. Reducing the size at the same price keeps time
+   * priority; a new price or a larger size re-enters the order at the back
+   * of its level, matching first if the new price crosses the book.
+   * Quantity is the new total order size, filled shares included.
+   */
+  amend(orderId: string, changes: { quantity?: number; price?: number }): { order: MarketOrder; executions: Execution[]; priorityKept: boolean } {
+    const order = this.restingOrders.get(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} is not on the book`);
+    }
+
+    if (order.type === 'MARKET') {
+      return this.amendAuctionMarketOrder(order, changes);
+    }
+
+    const filledQuantity = order.quantity - order.remainingQuantity;
+    const quantity = changes.quantity ?? order.quantity;
+    const price = changes.price ?? order.price!;
+    if (quantity <= filledQuantity) {
+      throw new Error(`New quantity must exceed the ${filledQuantity} shares already filled`);
+    }
+    if (price <= 0) {
+      throw new Error('Invalid limit price');
+    }
+
+    const book = this.getBook(order.securityId);
+
+    if (price === order.price && quantity <= order.quantity) {
+      const side = order.side === 'BUY' ? book.bids : book.asks;
+      const level = side.find(l => l.price === order.price)!;
+      const shownBefore = displayedQuantity(order);
+
+      order.quantity = quantity;
+      order.remainingQuantity = quantity - filledQuantity;
+      if (order.visibleQuantity !== undefined) {
+        order.visibleQuantity = Math.min(order.visibleQuantity, order.remainingQuantity);
+      }
+      level.quantity += displayedQuantity(order) - shownBefore;
+
+      this.emit('bookUpdated', { securityId: order.securityId, orderBook: book });
+      return { order, executions: [], priorityKept: true };
+    }
+
+    this.remove(orderId);
+    order.quantity = quantity;
+    order.remainingQuantity = quantity - filledQuantity;
+    order.price = price;
+    order.visibleQuantity = undefined;
+
+    return { order, executions: this.submit(order), priorityKept: false };
+  }
+
+  /**
+   * Market orders only rest while waiting for an auction uncross. Only their
+   * size can change; a smaller size keeps their place in the queue, a larger
+   * one moves them to the back.
+   */
+  private amendAuctionMarketOrder(order: MarketOrder, changes: { quantity?: number; price?: number }): { order: MarketOrder; executions: Execution[]; priorityKept: boolean } {
+    if (changes.price !== undefined) {
+      throw new Error('Market orders have no limit price to amend');
+    }
+
+    const quantity = changes.quantity ?? order.quantity;
+    if (quantity <= 0) {
+      throw new Error('Invalid quantity');
+    }
+
+    const priorityKept = quantity <= order.quantity;
+    order.quantity = quantity;
+    order.remainingQuantity = quantity;
+
+    if (!priorityKept) {
+      const waiting = (this.auctionMarketOrders.get(order.securityId) || []).filter(o => o.id !== order.id);
+      waiting.push(order);
+      this.auctionMarketOrders.set(order.securityId, waiting);
+    }
+
+    this.emit('bookUpdated', { securityId: order.securityId, orderBook: this.getBook(order.securityId) });
+    return { order, executions: [], priorityKept };
+  }
+
+  /**
+   * Start a call auction: orders are collected without matching until uncross()
+   */
+  startAuction(): void {
+    this.inAuction = true;
+  }
+
+  /**
+   * Whether the core is collecting orders for a call auction
+   */
+  isInAuction(): boolean {
+    return this.inAuction;
+  }
+
+  /**
+   * Price, volume and imbalance the auction would uncross at right now.
+   * The price maximizes executed volume; ties go to the smallest surplus,
+   * then to market pressure (highest price when every candidate has excess
+   * demand, lowest when every candidate has excess supply), then to the
+   * price closest to the last trade.
+   */
+  getIndicativeAuction(securityId: string): AuctionIndication {
+    const book = this.getBook(securityId);
+    const waiting = this.auctionMarketOrders.get(securityId) || [];
+    const marketBuy = waiting.filter(o => o.side === 'BUY').reduce((sum, o) => sum + o.remainingQuantity, 0);
+    const marketSell = waiting.filter(o => o.side === 'SELL').reduce((sum, o) => sum + o.remainingQuantity, 0);
+    const levelSize = (level: OrderBookLevel) => level.orders.reduce((sum, o) => sum + o.remainingQuantity, 0);
+
+    const candidates = Array.from(new Set([...book.bids, ...book.asks].map(level => level.price)))
+      .map(price => {
+        const demand = marketBuy + book.bids.filter(l => l.price >= price).reduce((sum, l) => sum + levelSize(l), 0);
+        const supply = marketSell + book.asks.filter(l => l.price <= price).reduce((sum, l) => sum + levelSize(l), 0);
+        return { price, volume: Math.min(demand, supply), surplus: demand - supply };
+      });
+
+    // Only market orders on both sides: trade at the reference price
+    const reference = this.lastPrices.get(securityId);
+    if (candidates.length === 0 && reference !== undefined) {
+      candidates.push({ price: reference, volume: Math.min(marketBuy, marketSell), surplus: marketBuy - marketSell });
+    }
+
+    const maxVolume = Math.max(0, ...candidates.map(c => c.volume));
+    if (maxVolume === 0) {
+      return { securityId, volume: 0, imbalance: 0 };
+    }
+
+    let tied = candidates.filter(c => c.volume === maxVolume);
+    const minSurplus = Math.min(...tied.map(c => Math.abs(c.surplus)));
+    tied = tied.filter(c => Math.abs(c.surplus) === minSurplus);
+
+    let best = tied[0];
+    if (tied.length > 1) {
+      if (tied.every(c => c.surplus > 0)) {
+        best = tied.reduce((a, b) => b.price > a.price ? b : a);
+      } else if (tied.every(c => c.surplus < 0)) {
+        best = tied.reduce((a, b) => b.price < a.price ? b : a);
+      } else if (reference !== undefined) {
+        best = tied.reduce((a, b) => Math.abs(b.price - reference) < Math.abs(a.price - reference) ? b : a);
+      }
+    }
+
+    return {
+      securityId,
+      price: best.price,
+      volume: best.volume,
+      imbalance: Math.abs(best.surplus),
+      imbalanceSide: best.surplus > 0 ? 'BUY' : best.surplus < 0 ? 'SELL' : undefined
+    };
+  }
+
+  /**
+   * End the call auction: trade every security at its uncrossing price,
+   * expire market orders left unfilled and resume continuous matching
+   */
+  uncross(): { executions: Execution[]; expired: MarketOrder[]; results: AuctionIndication[] } {
+    const executions: Execution[] = [];
+    const expired: MarketOrder[] = [];
+    const results: AuctionIndication[] = [];
+
+    const securityIds = new Set([...this.books.keys(), ...this.auctionMarketOrders.keys()]);
+    for (const securityId of securityIds) {
+      const result = this.getIndicativeAuction(securityId);
+      const book = this.getBook(securityId);
+      const waiting = this.auctionMarketOrders.get(securityId) || [];
+
+      if (result.price !== undefined) {
+        const price = result.price;
+        const buys = [
+          ...waiting.filter(o => o.side === 'BUY'),
+          ...book.bids.filter(l => l.price >= price).flatMap(l => l.orders)
+        ];
+        const sells = [
+          ...waiting.filter(o => o.side === 'SELL'),
+          ...book.asks.filter(l => l.price <= price).flatMap(l => l.orders)
+        ];
+
+        let remaining = result.volume;
+        let b = 0;
+        let s = 0;
+        while (remaining > 0 && b < buys.length && s < sells.length) {
+          const quantity = Math.min(buys[b].remainingQuantity, sells[s].remainingQuantity, remaining);
+          executions.push(this.match(buys[b], sells[s], quantity, price, true));
+          remaining -= quantity;
+          if (buys[b].remainingQuantity === 0) b++;
+          if (sells[s].remainingQuantity === 0) s++;
+        }
+        results.push(result);
+      }
+
+      for (const order of waiting) {
+        this.restingOrders.delete(order.id);
+        if (order.remainingQuantity > 0) {
+          order.status = 'EXPIRED';
+          order.notes = 'Market order unfilled at auction uncross';
+          order.cancelledAt = new Date();
+          expired.push(order);
+        }
+      }
+      this.auctionMarketOrders.delete(securityId);
+
+      this.compactSide(book.bids);
+      this.compactSide(book.asks);
+      this.emit('bookUpdated', { securityId, orderBook: book });
+    }
+
+    this.inAuction = false;
+    return { executions, expired, results };
+  }
+
+  /**
+   * Put a persisted order back on the book without matching it
+   * (crash recovery). Orders must be restored in submission order to keep
+   * their time priority.
+   */
+  restore(order: MarketOrder): void {
+    if (order.type !== 'LIMIT' || order.remainingQuantity <= 0) return;
+    this.rest(order);
+  }
+
+  /**
+   * Restore the last traded price for a security (crash recovery)
+   */
+  restoreLastTrade(securityId: string, price: number, quantity: number, timestamp: Date): void {
+    this.lastPrices.set(securityId, price);
+    this.getBook(securityId).lastTrade = { price, quantity, timestamp };
+  }
+
+  /**
+   * Continue execution IDs after the highest sequence already persisted,
+   * so IDs issued after a restart do not collide with stored executions
+   */
+  resumeExecutionSequence(lastSequence: number): void {
+    this.nextExecutionId = Math.max(this.nextExecutionId, lastSequence + 1);
+  }
+
+  /**
+   * Get a copy of the book as other participants see it: iceberg orders
+   * show only their displayed slice and hidden reserves are left out
+   */
+  getDisplayBook(securityId: string): OrderBook {
+    const book = this.getBook(securityId);
+    const toDisplayLevel = (level: OrderBookLevel): OrderBookLevel => ({
+      price: level.price,
+      quantity: level.quantity,
+      orderCount: level.orderCount,
+      orders: level.orders.map(order => {
+        const displayed = displayedQuantity(order);
+        return {
+          ...order,
+          quantity: displayed,
+          remainingQuantity: displayed,
+          displayQuantity: undefined,
+          visibleQuantity: undefined
+        };
+      })
+    });
+
+    return {
+      securityId,
+      bids: book.bids.map(toDisplayLevel),
+      asks: book.asks.map(toDisplayLevel),
+      lastTrade: book.lastTrade
+    };
+  }
+
+  /**
+   * Get a resting order by ID
+   */
+  getOrder(orderId: string): MarketOrder | undefined {
+    return this.restingOrders.get(orderId);
+  }
+
+  /**
+   * Get all resting orders, optionally for one security
+   */
+  getOpenOrders(securityId?: string): MarketOrder[] {
+    return Array.from(this.restingOrders.values())
+      .filter(order => !securityId || order.securityId === securityId);
+  }
+
+  /**
+   * Get recent executions for a security (oldest first)
+   */
+  getTrades(securityId: string, limit: number = 100): Execution[] {
+    const tape = this.tapes.get(securityId) || [];
+    return tape.slice(-limit);
+  }
+
+  /**
+   * Get last traded price, if the security has traded in this session
+   */
+  getLastPrice(securityId: string): number | undefined {
+    return this.lastPrices.get(securityId);
+  }
+
+  /**
+   * Get every security that has a book in this session
+   */
+  getSecurityIds(): string[] {
+    return Array.from(this.books.keys());
+  }
+
+  /**
+   * Accept an order during a call auction without matching it
+   */
+  private collect(order: MarketOrder): void {
+    if (order.timeInForce === 'IOC' || order.timeInForce === 'FOK') {
+      order.status = 'EXPIRED';
+      order.notes = 'Immediate orders are not accepted during a call auction';
+      return;
+    }
+
+    if (order.type === 'MARKET') {
+      const waiting = this.auctionMarketOrders.get(order.securityId) || [];
+      waiting.push(order);
+      this.auctionMarketOrders.set(order.securityId, waiting);
+      this.restingOrders.set(order.id, order);
+    } else {
+      this.rest(order);
+    }
+
+    this.emit('bookUpdated', { securityId: order.securityId, orderBook: this.getBook(order.securityId) });
+  }
+
+  /**
+   * Drop filled orders and empty levels after an uncross and recompute
+   * displayed sizes
+   */
+  private compactSide(side: OrderBookLevel[]): void {
+    for (const level of side) {
+      for (const order of level.orders) {
+        if (order.remainingQuantity === 0) {
+          this.restingOrders.delete(order.id);
+        } else if (order.displayQuantity && order.displayQuantity > 0) {
+          order.visibleQuantity = Math.min(order.displayQuantity, order.remainingQuantity);
+        }
+      }
+      level.orders = level.orders.filter(order => order.remainingQuantity > 0);
+      level.quantity = level.orders.reduce((sum, order) => sum + displayedQuantity(order), 0);
+      level.orderCount = level.orders.length;
+    }
+
+    const emptyLevels = side.filter(level => level.orders.length === 0);
+    for (const level of emptyLevels) {
+      side.splice(side.indexOf(level), 1);
+    }
+  }
+
+  /**
+   * Quantity available to an incoming order at prices it accepts,
+   * hidden iceberg reserves included
+   */
+  private fillableQuantity(order: MarketOrder, opposite: OrderBookLevel[]): number {
+    let available = 0;
+    for (const level of opposite) {
+      if (order.type === 'LIMIT' && !this.crosses(order, level.price)) break;
+      available += level.orders.reduce((sum, resting) => sum + resting.remainingQuantity, 0);
+    }
+    return available;
+  }
+
+  private crosses(order: MarketOrder, restingPrice: number): boolean {
+    return order.side === 'BUY'
+      ? restingPrice <= order.price!
+      : restingPrice >= order.price!;
+  }
+
+  private rest(order: MarketOrder): void {
+    const book = this.getBook(order.securityId);
+    const side = order.side === 'BUY' ? book.bids : book.asks;
+    const price = order.price!;
+
+    let level = side.find(l => l.price === price);
+    if (!level) {
+      level = { price, quantity: 0, orderCount: 0, orders: [] };
+      side.push(level);
+      // Bids descending, asks ascending
+      side.sort((a, b) => order.side === 'BUY' ? b.price - a.price : a.price - b.price);
+    }
+
+    if (order.displayQuantity && order.displayQuantity > 0) {
+      order.visibleQuantity = Math.min(order.displayQuantity, order.remainingQuantity);
+    }
+
+    level.orders.push(order);
+    level.quantity += displayedQuantity(order);
+    level.orderCount = level.orders.length;
+    this.restingOrders.set(order.id, order);
+
+    if (order.remainingQuantity === order.quantity) {
+      order.status = 'PENDING';
+    }
+  }
+
+  private match(aggressor: MarketOrder, resting: MarketOrder, quantity: number, price: number, auctionPrint = false): Execution {
+    const timestamp = new Date();
+    const buyOrder = aggressor.side === 'BUY' ? aggressor : resting;
+    const sellOrder = aggressor.side === 'SELL' ? aggressor : resting;
+
+    for (const order of [aggressor, resting]) {
+      order.remainingQuantity -= quantity;
+      if (order.remainingQuantity === 0) {
+        order.status = 'FILLED';
+        order.executedAt = timestamp;
+      } else {
+        order.status = 'PARTIALLY_FILLED';
+      }
+    }
+
+    const execution: Execution = {
+      id: `exec_${this.sessionId}_${this.nextExecutionId++}`,
+      sessionId: this.sessionId,
+      securityId: aggressor.securityId,
+      price,
+      quantity,
+      buyOrderId: buyOrder.id,
+      sellOrderId: sellOrder.id,
+      buyUserId: buyOrder.userId,
+      sellUserId: sellOrder.userId,
+      aggressorSide: auctionPrint ? undefined : aggressor.side,
+      timestamp
+    };
+
+    const tape = this.tapes.get(execution.securityId) || [];
+    tape.push(execution);
+    if (tape.length > MAX_TAPE_LENGTH) {
+      tape.shift();
+    }
+    this.tapes.set(execution.securityId, tape);
+    this.lastPrices.set(execution.securityId, price);
+    this.getBook(execution.securityId).lastTrade = { price, quantity, timestamp };
+
+    this.emit('execution', { execution, buyOrder, sellOrder } as ExecutionEvent);
+    return execution;
+  }
+}
+
+/**
+ * Quantity an order shows on the book: the current slice for an iceberg,
+ * otherwise everything that remains
+ */
+function displayedQuantity(order: MarketOrder): number {
+  return order.visibleQuantity ?? order.remainingQuantity;
+}
+
+// One core per session
+const matchingCores = new Map<string, MatchingCore>();
+
+/**
+ * Get or create the matching core for a session
+ */
+export function getMatchingCore(sessionId: string): MatchingCore {
+  if (!matchingCores.has(sessionId)) {
+    matchingCores.set(sessionId, new MatchingCore(sessionId));
+  }
+  return matchingCores.get(sessionId)!;
+}
\ No newline at end of file
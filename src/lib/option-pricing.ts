@@ -0,0 +1,119 @@
+/**
+ * Option Pricing
+ *
+ * Black-Scholes values and greeks for the options market. Time is in years
+ * and volatility and the risk-free rate are annualised. Theta is quoted per
+ * day, vega per volatility point and rho per percentage point of rates.
+ */
+
+export type OptionType = 'CALL' | 'PUT';
+
+export interface OptionGreeks {
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  rho: number;
+}
+
+export interface OptionValuation {
+  value: number;
+  intrinsic: number;
+  greeks: OptionGreeks;
+}
+
+export interface PricingInputs {
+  type: OptionType;
+  spot: number;
+  strike: number;
+  years: number; // time to expiry
+  volatility: number;
+  rate: number;
+}
+
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Standard normal density
+ */
+export function normalPdf(x: number): number {
+  return Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal distribution, from the Abramowitz and Stegun
+ * approximation to erf (error below 1.5e-7)
+ */
+export function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-z * z);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * What the option is worth exercised now
+ */
+export function intrinsicValue(type: OptionType, spot: number, strike: number): number {
+  return Math.max(0, type === 'CALL' ? spot - strike : strike - spot);
+}
+
+/**
+ * Black-Scholes value and greeks. At or past expiry, or with no volatility,
+ * the option is worth its intrinsic value.
+ */
+export function blackScholes({ type, spot, strike, years, volatility, rate }: PricingInputs): OptionValuation {
+  const intrinsic = intrinsicValue(type, spot, strike);
+
+  if (years <= 0 || volatility <= 0 || spot <= 0 || strike <= 0) {
+    const inTheMoney = intrinsic > 0;
+    return {
+      value: intrinsic,
+      intrinsic,
+      greeks: {
+        delta: inTheMoney ? (type === 'CALL' ? 1 : -1) : 0,
+        gamma: 0,
+        theta: 0,
+        vega: 0,
+        rho: 0
+      }
+    };
+  }
+
+  const sqrtYears = Math.sqrt(years);
+  const d1 = (Math.log(spot / strike) + (rate + volatility * volatility / 2) * years) / (volatility * sqrtYears);
+  const d2 = d1 - volatility * sqrtYears;
+  const discount = Math.exp(-rate * years);
+  const density = normalPdf(d1);
+
+  const gamma = density / (spot * volatility * sqrtYears);
+  const vega = spot * density * sqrtYears / 100;
+  const decay = -spot * density * volatility / (2 * sqrtYears);
+
+  if (type === 'CALL') {
+    return {
+      value: spot * normalCdf(d1) - strike * discount * normalCdf(d2),
+      intrinsic,
+      greeks: {
+        delta: normalCdf(d1),
+        gamma,
+        theta: (decay - rate * strike * discount * normalCdf(d2)) / DAYS_PER_YEAR,
+        vega,
+        rho: strike * years * discount * normalCdf(d2) / 100
+      }
+    };
+  }
+
+  return {
+    value: strike * discount * normalCdf(-d2) - spot * normalCdf(-d1),
+    intrinsic,
+    greeks: {
+      delta: normalCdf(d1) - 1,
+      gamma,
+      theta: (decay + rate * strike * discount * normalCdf(-d2)) / DAYS_PER_YEAR,
+      vega,
+      rho: -strike * years * discount * normalCdf(-d2) / 100
+    }
+  };
+}
\ No newline at end of file
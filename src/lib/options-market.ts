@@ -0,0 +1,525 @@
+/**
+ * Options Market
+ *
+ * Lists the lesson's option series on its securities and keeps their
+ * theoretical values and greeks current from the underlying's last trade.
+ * Series are securities of type OPTION, so students trade them through the
+ * matching engine like any other book. Holders of American series can
+ * exercise early: the exercise closes the option at intrinsic value and
+ * delivers the underlying at the market, and writers are assigned the
+ * other side, largest short first. At expiry every open position is cash
+ * settled at intrinsic value. Open positions are marked at theoretical
+ * value between trades.
+ */
+
+import { EventEmitter } from 'events';
+import { getSessionDatabase, SessionDatabase } from './session-database';
+import { getMarketConfig, OptionsMarketConfig } from './market-config';
+import { getMatchingCore } from './matching-core';
+import { getPortfolioEngine, PortfolioEngine, Position } from './portfolio-engine';
+import { getSessionClock, ClockTimer } from './session-clock';
+import { getSessionJournal, SessionJournal } from './session-journal';
+import { blackScholes, intrinsicValue, OptionGreeks, OptionType } from './option-pricing';
+
+export type SeriesStatus = 'OPEN' | 'EXPIRED';
+
+export interface OptionSeries {
+  securityId: string;
+  symbol: string;
+  underlying: string;
+  underlyingId: string; // book key of the underlying
+  type: OptionType;
+  strike: number;
+  expiryDays: number;
+  style: 'AMERICAN' | 'EUROPEAN';
+  volatility: number;
+  startingPrice: number; // underlying price before it trades
+  status: SeriesStatus;
+}
+
+export interface OptionQuote {
+  securityId: string;
+  symbol: string;
+  underlying: string;
+  type: OptionType;
+  strike: number;
+  style: 'AMERICAN' | 'EUROPEAN';
+  expiryDays: number;
+  daysToExpiry: number;
+  expiresAt?: Date; // session clock time, once the series is listed
+  underlyingPrice: number;
+  theoreticalValue: number;
+  intrinsicValue: number;
+  impliedVol: number;
+  greeks: OptionGreeks;
+  bid?: number;
+  ask?: number;
+  last?: number;
+  volume: number;
+  openInterest: number;
+  status: SeriesStatus;
+}
+
+export interface OptionAssignment {
+  userId: string;
+  quantity: number;
+}
+
+export interface OptionExercise {
+  securityId: string;
+  symbol: string;
+  userId: string;
+  quantity: number;
+  strike: number;
+  underlyingPrice: number;
+  intrinsicValue: number;
+  assignments: OptionAssignment[];
+  timestamp: Date;
+}
+
+export interface ExpirySettlement {
+  securityId: string;
+  symbol: string;
+  underlyingPrice: number;
+  settlementPrice: number;
+  positions: OptionAssignment[]; // quantity held at expiry, negative for writers
+  timestamp: Date;
+}
+
+const DEFAULT_OPTIONS = getMarketConfig('').options;
+
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Symbol for a series, e.g. VCR-30D-C50
+ */
+export function optionSymbol(underlying: string, expiryDays: number, type: OptionType, strike: number): string {
+  return `${underlying}-${expiryDays}D-${type === 'CALL' ? 'C' : 'P'}${strike}`;
+}
+
+const round = (value: number, places = 4) => Math.round(value * 10 ** places) / 10 ** places;
+
+export class OptionsMarket extends EventEmitter {
+  private sessionId: string;
+  private db: SessionDatabase;
+  private journal: SessionJournal;
+  private portfolioEngine: PortfolioEngine;
+  private config: OptionsMarketConfig = DEFAULT_OPTIONS;
+  private series: Map<string, OptionSeries> = new Map(); // by securityId
+  private holdings: Map<string, Map<string, number>> = new Map(); // securityId -> userId -> quantity
+  private marks: Map<string, number> = new Map(); // last theoretical mark posted
+  private configuration: Promise<void>;
+  private listedAt?: number; // session clock time the series were listed
+  private repriceTimer?: ClockTimer;
+  private settlement: Promise<void> = Promise.resolve();
+
+  constructor(sessionId: string) {
+    super();
+    this.sessionId = sessionId;
+    this.db = getSessionDatabase(sessionId);
+    this.journal = getSessionJournal(sessionId);
+    this.portfolioEngine = getPortfolioEngine(sessionId);
+    this.configuration = this.loadSeries();
+
+    this.portfolioEngine.on('positionUpdate', ({ data }: { data: Position }) => {
+      const holders = this.holdings.get(data.securityId);
+      if (holders) {
+        holders.set(data.userId, data.quantity);
+      }
+    });
+  }
+
+  /**
+   * Create the lesson's series as OPTION securities and load positions
+   * already held in them
+   */
+  private async loadSeries(): Promise<void> {
+    try {
+      const session = await this.db.simulationSession.findUnique({
+        where: { id: this.sessionId },
+        include: { lesson: { select: { name: true } } }
+      });
+      if (!session?.lesson) return;
+
+      const lessonConfig = getMarketConfig(session.lesson.name);
+      this.config = lessonConfig.options;
+      if (!this.config.enabled) return;
+
+      for (const seriesConfig of this.config.series) {
+        const security = lessonConfig.securities.find(s => s.symbol === seriesConfig.underlying);
+        const underlying = await this.db.security.findUnique({
+          where: { symbol: seriesConfig.underlying },
+          select: { id: true }
+        });
+
+        for (const expiryDays of seriesConfig.expiryDays) {
+          for (const strike of seriesConfig.strikes) {
+            for (const type of ['CALL', 'PUT'] as OptionType[]) {
+              const symbol = optionSymbol(seriesConfig.underlying, expiryDays, type, strike);
+              const name = `${seriesConfig.underlying} ${expiryDays} day ${strike} ${type === 'CALL' ? 'Call' : 'Put'}`;
+              const option = await this.db.security.upsert({
+                where: { symbol },
+                update: { isActive: true },
+                create: { symbol, name, type: 'OPTION' }
+              });
+
+              this.series.set(option.id, {
+                securityId: option.id,
+                symbol,
+                underlying: seriesConfig.underlying,
+                underlyingId: underlying?.id || seriesConfig.underlying,
+                type,
+                strike,
+                expiryDays,
+                style: seriesConfig.style,
+                volatility: seriesConfig.volatility,
+                startingPrice: security?.startingPrice || strike,
+                status: 'OPEN'
+              });
+              this.holdings.set(option.id, new Map());
+            }
+          }
+        }
+      }
+
+      const positions = await this.db.position.findMany({
+        where: { sessionId: this.sessionId, securityId: { in: Array.from(this.series.keys()) } },
+        select: { userId: true, securityId: true, quantity: true }
+      });
+      positions.forEach((position: any) => {
+        this.holdings.get(position.securityId)?.set(position.userId, position.quantity);
+      });
+
+      console.log(`Options market listed ${this.series.size} series for session ${this.sessionId}`);
+    } catch (error) {
+      console.error('Error listing option series:', error);
+    }
+  }
+
+  /**
+   * Restore the listing time and expired series from the journal after a
+   * restart, so each series keeps its original expiry rather than being
+   * listed afresh
+   */
+  async rehydrate(): Promise<void> {
+    await this.configuration;
+    if (this.series.size === 0) return;
+
+    try {
+      const entries = await this.journal.getEntries({ types: ['OPTIONS_LISTED', 'OPTION_EXPIRED'] });
+      for (const { type, payload } of entries) {
+        if (type === 'OPTIONS_LISTED') {
+          this.listedAt = payload.listedAt;
+          continue;
+        }
+
+        const series = this.series.get(payload.securityId);
+        if (series) {
+          series.status = 'EXPIRED';
+        }
+      }
+    } catch (error) {
+      console.error('Error restoring option series:', error);
+    }
+  }
+
+  /**
+   * Start the expiry clock and reprice on the session clock
+   */
+  async start(): Promise<void> {
+    await this.configuration;
+    if (this.series.size === 0 || this.repriceTimer) return;
+
+    const clock = getSessionClock(this.sessionId);
+    if (this.listedAt === undefined) {
+      this.listedAt = clock.now();
+      this.journal.append('OPTIONS_LISTED', { listedAt: this.listedAt });
+    }
+
+    this.repriceTimer = clock.setInterval(() => {
+      this.reprice().catch(error => {
+        console.error('Error repricing options:', error);
+      });
+    }, this.config.repriceSeconds * 1000);
+
+    await this.reprice();
+  }
+
+  /**
+   * Stop repricing; positions stay open until the series expire
+   */
+  stop(): void {
+    getSessionClock(this.sessionId).clear(this.repriceTimer);
+    this.repriceTimer = undefined;
+  }
+
+  /**
+   * Settle series that have reached expiry, mark open positions at
+   * theoretical value and publish the chain
+   */
+  private async reprice(): Promise<void> {
+    const now = getSessionClock(this.sessionId).now();
+
+    for (const series of this.series.values()) {
+      if (series.status === 'OPEN' && this.expiresAt(series) !== undefined && now >= this.expiresAt(series)!) {
+        await this.serialize(() => this.settleExpiry(series));
+      }
+    }
+
+    const chain = this.buildChain();
+    for (const quote of chain) {
+      if (quote.status !== 'OPEN' || quote.openInterest === 0) continue;
+
+      const mark = round(quote.theoreticalValue, 2);
+      if (this.marks.get(quote.securityId) !== mark) {
+        this.marks.set(quote.securityId, mark);
+        await this.portfolioEngine.updateMarketPrice(quote.securityId, mark);
+      }
+    }
+
+    this.emit('chainUpdated', { chain, timestamp: getSessionClock(this.sessionId).date() });
+  }
+
+  private expiresAt(series: OptionSeries): number | undefined {
+    if (this.listedAt === undefined) return undefined;
+    return this.listedAt + series.expiryDays * this.config.secondsPerDay * 1000;
+  }
+
+  private daysToExpiry(series: OptionSeries): number {
+    const expiresAt = this.expiresAt(series);
+    if (expiresAt === undefined) return series.expiryDays;
+    const remaining = expiresAt - getSessionClock(this.sessionId).now();
+    return Math.max(0, remaining / (this.config.secondsPerDay * 1000));
+  }
+
+  /**
+   * Last trade in the underlying, or the lesson's starting price before it trades
+   */
+  private underlyingPrice(series: OptionSeries): number {
+    const core = getMatchingCore(this.sessionId);
+    return core.getLastPrice(series.underlyingId)
+      ?? core.getLastPrice(series.underlying)
+      ?? series.startingPrice;
+  }
+
+  private openInterest(securityId: string): number {
+    let total = 0;
+    this.holdings.get(securityId)?.forEach(quantity => {
+      if (quantity > 0) total += quantity;
+    });
+    return total;
+  }
+
+  private quote(series: OptionSeries): OptionQuote {
+    const core = getMatchingCore(this.sessionId);
+    const book = core.getDisplayBook(series.securityId);
+    const spot = this.underlyingPrice(series);
+    const daysToExpiry = series.status === 'EXPIRED' ? 0 : this.daysToExpiry(series);
+    const valuation = blackScholes({
+      type: series.type,
+      spot,
+      strike: series.strike,
+      years: daysToExpiry / DAYS_PER_YEAR,
+      volatility: series.volatility,
+      rate: this.config.riskFreeRate
+    });
+    const expiresAt = this.expiresAt(series);
+
+    return {
+      securityId: series.securityId,
+      symbol: series.symbol,
+      underlying: series.underlying,
+      type: series.type,
+      strike: series.strike,
+      style: series.style,
+      expiryDays: series.expiryDays,
+      daysToExpiry: round(daysToExpiry, 2),
+      expiresAt: expiresAt !== undefined ? new Date(expiresAt) : undefined,
+      underlyingPrice: spot,
+      theoreticalValue: round(valuation.value),
+      intrinsicValue: round(valuation.intrinsic),
+      impliedVol: series.volatility,
+      greeks: {
+        delta: round(valuation.greeks.delta),
+        gamma: round(valuation.greeks.gamma),
+        theta: round(valuation.greeks.theta),
+        vega: round(valuation.greeks.vega),
+        rho: round(valuation.greeks.rho)
+      },
+      bid: book.bids[0]?.price,
+      ask: book.asks[0]?.price,
+      last: core.getLastPrice(series.securityId),
+      volume: core.getTrades(series.securityId, Number.MAX_SAFE_INTEGER).reduce((sum, trade) => sum + trade.quantity, 0),
+      openInterest: this.openInterest(series.securityId),
+      status: series.status
+    };
+  }
+
+  private buildChain(): OptionQuote[] {
+    return Array.from(this.series.values())
+      .map(series => this.quote(series))
+      .sort((a, b) =>
+        a.underlying.localeCompare(b.underlying) ||
+        a.expiryDays - b.expiryDays ||
+        a.strike - b.strike ||
+        a.type.localeCompare(b.type)
+      );
+  }
+
+  /**
+   * Every listed series with its theoretical value, greeks and market
+   */
+  async getChain(): Promise<OptionQuote[]> {
+    await this.configuration;
+    return this.buildChain();
+  }
+
+  /**
+   * Whether a security is an option series that can no longer trade
+   */
+  isExpired(securityId: string): boolean {
+    return this.series.get(securityId)?.status === 'EXPIRED';
+  }
+
+  /**
+   * Exercise long contracts before expiry. Only American series in the
+   * money can be exercised.
+   */
+  async exercise(userId: string, securityId: string, quantity: number): Promise<{ success: boolean; reason?: string; exercise?: OptionExercise }> {
+    await this.configuration;
+    const series = this.series.get(securityId);
+
+    if (!series) {
+      return { success: false, reason: 'Not a listed option series' };
+    }
+    if (series.status === 'EXPIRED') {
+      return { success: false, reason: `${series.symbol} has expired` };
+    }
+    if (series.style !== 'AMERICAN') {
+      return { success: false, reason: `${series.symbol} is European and can only be settled at expiry` };
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return { success: false, reason: 'Invalid quantity' };
+    }
+
+    return this.serialize(async () => {
+      const position = await this.db.position.findUnique({
+        where: { sessionId_userId_securityId: { sessionId: this.sessionId, userId, securityId } }
+      });
+      if (!position || position.quantity < quantity) {
+        return { success: false, reason: `You hold ${Math.max(0, position?.quantity || 0)} ${series.symbol} contracts` };
+      }
+
+      const spot = this.underlyingPrice(series);
+      const intrinsic = intrinsicValue(series.type, spot, series.strike);
+      if (intrinsic <= 0) {
+        return { success: false, reason: `${series.symbol} is out of the money` };
+      }
+
+      const clock = getSessionClock(this.sessionId);
+      const reference = `exercise_${securityId}_${clock.now()}`;
+      const delivered = series.type === 'CALL' ? 1 : -1; // underlying the holder receives per contract
+
+      await this.portfolioEngine.updatePosition(userId, securityId, -quantity, intrinsic, -quantity * intrinsic, reference, 'OPTION_EXERCISE');
+      await this.portfolioEngine.updatePosition(userId, series.underlyingId, delivered * quantity, spot, delivered * quantity * spot, reference, 'OPTION_EXERCISE');
+
+      // Writers are assigned largest short first; any remainder is taken by the clearing house
+      const writers = await this.db.position.findMany({
+        where: { sessionId: this.sessionId, securityId, quantity: { lt: 0 } },
+        orderBy: { quantity: 'asc' }
+      });
+      const assignments: OptionAssignment[] = [];
+      let remaining = quantity;
+      for (const writer of writers) {
+        if (remaining === 0) break;
+        const assigned = Math.min(remaining, -writer.quantity);
+        await this.portfolioEngine.updatePosition(writer.userId, securityId, assigned, intrinsic, assigned * intrinsic, reference, 'OPTION_ASSIGNMENT');
+        await this.portfolioEngine.updatePosition(writer.userId, series.underlyingId, -delivered * assigned, spot, -delivered * assigned * spot, reference, 'OPTION_ASSIGNMENT');
+        assignments.push({ userId: writer.userId, quantity: assigned });
+        remaining -= assigned;
+      }
+
+      const exercise: OptionExercise = {
+        securityId,
+        symbol: series.symbol,
+        userId,
+        quantity,
+        strike: series.strike,
+        underlyingPrice: spot,
+        intrinsicValue: intrinsic,
+        assignments,
+        timestamp: clock.date()
+      };
+      this.emit('optionExercised', exercise);
+
+      return { success: true, exercise };
+    });
+  }
+
+  /**
+   * Close every position in an expiring series at intrinsic value
+   */
+  private async settleExpiry(series: OptionSeries): Promise<void> {
+    series.status = 'EXPIRED';
+    this.journal.append('OPTION_EXPIRED', { securityId: series.securityId });
+    this.emit('seriesExpired', { securityId: series.securityId, symbol: series.symbol });
+
+    try {
+      const spot = this.underlyingPrice(series);
+      const settlementPrice = intrinsicValue(series.type, spot, series.strike);
+      const reference = `expiry_${series.securityId}`;
+
+      const positions: OptionAssignment[] = (await this.db.position.findMany({
+        where: { sessionId: this.sessionId, securityId: series.securityId, quantity: { not: 0 } },
+        select: { userId: true, quantity: true }
+      })).map((position: any) => ({ userId: position.userId, quantity: position.quantity }));
+
+      for (const position of positions) {
+        await this.portfolioEngine.updatePosition(
+          position.userId,
+          series.securityId,
+          -position.quantity,
+          settlementPrice,
+          -position.quantity * settlementPrice,
+          reference,
+          'OPTION_EXPIRY'
+        );
+      }
+      await this.portfolioEngine.updateMarketPrice(series.securityId, settlementPrice);
+
+      this.emit('seriesSettled', {
+        securityId: series.securityId,
+        symbol: series.symbol,
+        underlyingPrice: spot,
+        settlementPrice,
+        positions,
+        timestamp: getSessionClock(this.sessionId).date()
+      } as ExpirySettlement);
+    } catch (error) {
+      console.error(`Error settling expiry of ${series.symbol}:`, error);
+    }
+  }
+
+  /**
+   * Run exercises and expiries one at a time so positions are read and
+   * written without interleaving
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.settlement.then(task);
+    this.settlement = result.then(() => undefined, () => undefined);
+    return result;
+  }
+}
+
+// Global options markets by session
+const optionsMarkets = new Map<string, OptionsMarket>();
+
+/**
+ * Get or create options market for a session
+ */
+export function getOptionsMarket(sessionId: string): OptionsMarket {
+  if (!optionsMarkets.has(sessionId)) {
+    optionsMarkets.set(sessionId, new OptionsMarket(sessionId));
+  }
+  return optionsMarkets.get(sessionId)!;
+}
\ No newline at end of file
@@ -2,31 +2,32 @@
  * Order Matching Engine
  * 
  * Real-time order matching and execution system for financial trading simulations.
- * Implements price-time priority matching algorithm with market maker functionality.
+ * Price-time priority matching is delegated to the session's shared matching core
+ * (matching-core.ts); this engine adds validation, persistence and settlement.
  */
 
 import { EventEmitter } from 'events';
 import { prisma } from './prisma';
+import { getSessionDatabase, SessionDatabase } from './session-database';
 import { getPortfolioEngine } from './portfolio-engine';
-
-export interface MarketOrder {
-  id: string;
-  sessionId: string;
-  userId: string;
-  securityId: string;
-  type: 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT';
-  side: 'BUY' | 'SELL';
-  quantity: number;
-  price?: number;
-  stopPrice?: number;
-  timeInForce: 'DAY' | 'IOC' | 'FOK' | 'GTC';
-  status: 'PENDING' | 'PENDING_TRIGGER' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'REJECTED';
-  submittedAt: Date;
-  executedAt?: Date;
-  cancelledAt?: Date;
-  remainingQuantity: number;
-  notes?: string;
-}
+import { getMarginEngine, MarginEngine } from './margin-engine';
+import { getFeeEngine, FeeEngine, Liquidity } from './fee-engine';
+import { performanceTracker } from './performance-tracker';
+import { getRiskLimitEngine, RiskLimitEngine } from './risk-limits';
+import { getSessionJournal, SessionJournal } from './session-journal';
+import { getSessionClock, ClockTimer } from './session-clock';
+import { getOptionsMarket, OptionsMarket } from './options-market';
+import { getFuturesMarket, FuturesMarket } from './futures-market';
+import {
+  getMatchingCore,
+  MatchingCore,
+  ExecutionEvent,
+  MarketOrder,
+  OrderBook,
+  OrderBookLevel
+} from './matching-core';
+
+export type { MarketOrder, OrderBook, OrderBookLevel } from './matching-core';
 
 export interface OrderExecution {
   id: string;
@@ -35,26 +36,20 @@ export interface OrderExecution {
   price: number;
   timestamp: Date;
   counterpartyOrderId?: string;
+  liquidity?: Liquidity;
+  commission?: number;
+  slippage?: number;
 }
 
-export interface OrderBook {
-  securityId: string;
-  bids: OrderBookLevel[];
-  asks: OrderBookLevel[];
-  lastTrade?: {
-    price: number;
-    quantity: number;
-    timestamp: Date;
-  };
-}
+export type AuctionPhase = 'OPENING' | 'CLOSING';
 
-export interface OrderBookLevel {
-  price: number;
-  quantity: number;
-  orderCount: number;
-  orders: MarketOrder[];
+export interface MarketPhaseOptions {
+  auction?: boolean; // run a call auction before opening / closing
+  callPeriodSeconds?: number; // how long orders are collected before the uncross
 }
 
+const DEFAULT_CALL_PERIOD_SECONDS = 30;
+
 export interface MarketMakerConfig {
   securityId: string;
   enabled: boolean;
@@ -68,28 +63,75 @@ export interface MarketMakerConfig {
 
 /**
  * Main order matching engine class
+ *
+ * Session-level front-end over the shared matching core: validates orders,
+ * persists them, manages stop triggers and settles executions into the
+ * portfolio engine for the orders it owns.
  */
 export class OrderMatchingEngine extends EventEmitter {
-  private orderBooks: Map<string, OrderBook> = new Map();
   private pendingOrders: Map<string, MarketOrder> = new Map();
   private marketMakers: Map<string, MarketMakerConfig> = new Map();
-  private marketPrices: Map<string, number> = new Map();
-  private recentTrades: Map<string, Array<{
-    id: string;
-    price: number;
-    quantity: number;
-    buyOrderId: string;
-    sellOrderId: string;
-    timestamp: Date;
-  }>> = new Map();
   private isMarketOpen: boolean = false;
+  private isRehydrated: boolean = false;
   private sessionId: string;
+  private db: SessionDatabase;
   private portfolioEngine: any;
+  private marginEngine: MarginEngine;
+  private feeEngine: FeeEngine;
+  private riskLimits: RiskLimitEngine;
+  private optionsMarket: OptionsMarket;
+  private futuresMarket: FuturesMarket;
+  private liquidatingUsers: Set<string> = new Set(); // margin liquidations bypass risk limits
+  private core: MatchingCore;
+  private journal: SessionJournal;
+  private settlement: Promise<void> = Promise.resolve();
+  private auctionPhase?: AuctionPhase;
+  private auctionTimer?: ClockTimer;
 
   constructor(sessionId: string) {
     super();
     this.sessionId = sessionId;
+    this.db = getSessionDatabase(sessionId);
     this.portfolioEngine = getPortfolioEngine(this.sessionId);
+    this.marginEngine = getMarginEngine(this.sessionId);
+    this.feeEngine = getFeeEngine(this.sessionId);
+    this.riskLimits = getRiskLimitEngine(this.sessionId);
+    this.optionsMarket = getOptionsMarket(this.sessionId);
+    this.futuresMarket = getFuturesMarket(this.sessionId);
+    this.core = getMatchingCore(this.sessionId);
+    this.journal = getSessionJournal(this.sessionId);
+    this.core.on('execution', (event: ExecutionEvent) => {
+      this.settlement = this.settlement.then(() => this.settleExecution(event));
+    });
+    this.core.on('bookUpdated', ({ securityId }: { securityId: string }) => {
+      if (this.auctionPhase && this.core.isInAuction()) {
+        this.emit('indicativeAuction', {
+          phase: this.auctionPhase,
+          ...this.core.getIndicativeAuction(securityId),
+          timestamp: new Date()
+        });
+      }
+    });
+    this.marginEngine.on('liquidationRequired', ({ userId }: { userId: string }) => {
+      this.liquidateAccount(userId).catch(error => {
+        console.error('Error liquidating account:', error);
+      });
+    });
+    this.riskLimits.on('tradingLocked', ({ userId }: { userId: string }) => {
+      this.cancelUserOrders(userId).catch(error => {
+        console.error('Error cancelling orders for locked user:', error);
+      });
+    });
+    this.optionsMarket.on('seriesExpired', ({ securityId }: { securityId: string }) => {
+      this.expireContractOrders(securityId, 'OPTION_EXPIRY').catch(error => {
+        console.error('Error expiring orders in option series:', error);
+      });
+    });
+    this.futuresMarket.on('contractExpired', ({ securityId }: { securityId: string }) => {
+      this.expireContractOrders(securityId, 'FUTURES_EXPIRY').catch(error => {
+        console.error('Error expiring orders in futures contract:', error);
+      });
+    });
     this.initializeMarketMakers();
   }
 
@@ -111,26 +153,23 @@ export class OrderMatchingEngine extends EventEmitter {
         volatility: 0.02
       });
 
-      this.orderBooks.set(securityId, {
-        securityId,
-        bids: [],
-        asks: []
-      });
-
-      this.marketPrices.set(securityId, 100.00);
+      this.core.getBook(securityId);
     });
   }
 
   /**
-   * Submit a new order for processing
+   * Submit a new order for processing. Callers that track fills themselves
+   * may assign the id up front, so executions during matching can be found.
    */
-  async submitOrder(order: Omit<MarketOrder, 'id' | 'submittedAt' | 'remainingQuantity' | 'status'>): Promise<MarketOrder> {
+  async submitOrder(
+    order: Omit<MarketOrder, 'id' | 'submittedAt' | 'remainingQuantity' | 'status'> & { id?: string }
+  ): Promise<MarketOrder> {
     const newOrder: MarketOrder = {
-      id: `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       submittedAt: new Date(),
       remainingQuantity: order.quantity,
       status: 'PENDING',
-      ...order
+      ...order,
+      id: order.id || `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     };
 
     // Validate order
@@ -138,6 +177,8 @@ export class OrderMatchingEngine extends EventEmitter {
     if (!validation.valid) {
       newOrder.status = 'REJECTED';
       newOrder.notes = validation.reason;
+      newOrder.rejectCode = validation.code;
+      this.journal.append('ORDER_REJECTED', { order: newOrder, reason: validation.reason });
       await this.saveOrderToDatabase(newOrder);
       this.emit('orderRejected', newOrder);
       return newOrder;
@@ -145,15 +186,14 @@ export class OrderMatchingEngine extends EventEmitter {
 
     // Store order
     this.pendingOrders.set(newOrder.id, newOrder);
+    this.journal.append('ORDER_SUBMITTED', { order: newOrder });
     await this.saveOrderToDatabase(newOrder);
 
     // Process order based on type
-    if (newOrder.type === 'MARKET') {
-      await this.processMarketOrder(newOrder);
-    } else if (newOrder.type === 'LIMIT') {
-      await this.processLimitOrder(newOrder);
-    } else if (newOrder.type === 'STOP' || newOrder.type === 'STOP_LIMIT') {
+    if (newOrder.type === 'STOP' || newOrder.type === 'STOP_LIMIT') {
       await this.processStopOrder(newOrder);
+    } else {
+      await this.routeToCore(newOrder);
     }
 
     this.emit('orderSubmitted', newOrder);
@@ -163,12 +203,21 @@ export class OrderMatchingEngine extends EventEmitter {
   /**
    * Validate order before processing
    */
-  private async validateOrder(order: MarketOrder): Promise<{valid: boolean, reason?: string}> {
+  private async validateOrder(order: MarketOrder): Promise<{valid: boolean, reason?: string, code?: string}> {
     // Check market hours
     if (!this.isMarketOpen && order.timeInForce !== 'GTC') {
       return { valid: false, reason: 'Market is closed' };
     }
 
+    if (this.optionsMarket.isExpired(order.securityId)) {
+      return { valid: false, reason: 'Option series has expired' };
+    }
+
+    const futuresCheck = this.futuresMarket.checkOrder(order);
+    if (!futuresCheck.valid) {
+      return futuresCheck;
+    }
+
     // Check quantity
     if (order.quantity <= 0) {
       return { valid: false, reason: 'Invalid quantity' };
@@ -179,104 +228,68 @@ export class OrderMatchingEngine extends EventEmitter {
       return { valid: false, reason: 'Invalid limit price' };
     }
 
-    // Check user position limits and buying power
-    const userPositions = await this.getUserPositions(order.userId, order.securityId);
-    const availableFunds = await this.getUserAvailableFunds(order.userId);
-    
-    if (order.side === 'BUY') {
-      const estimatedCost = (order.price || this.getMarketPrice(order.securityId)) * order.quantity;
-      if (estimatedCost > availableFunds) {
-        return { valid: false, reason: 'Insufficient buying power' };
+    // Iceberg orders show part of a limit order on the book
+    if (order.displayQuantity !== undefined) {
+      if (order.type !== 'LIMIT') {
+        return { valid: false, reason: 'Display quantity is only allowed on limit orders' };
+      }
+      if (!Number.isInteger(order.displayQuantity) || order.displayQuantity <= 0 || order.displayQuantity > order.quantity) {
+        return { valid: false, reason: 'Invalid display quantity' };
       }
-    } else {
-      // For testing purposes, allow short selling (TODO: implement proper position validation)
-      // if (userPositions < order.quantity) {
-      //   return { valid: false, reason: 'Insufficient shares to sell' };
-      // }
     }
 
-    return { valid: true };
+    // Check the instructor's risk limits, then cash, short-sale permission
+    // and margin for the lesson. Liquidity traders supply the market and,
+    // as with trading costs, are not held to a student's account rules.
+    const estimatedPrice = order.price || this.getMarketPrice(order.securityId);
+    const workingOrders = Array.from(this.pendingOrders.values()).filter(working =>
+      working.userId === order.userId && working.id !== order.id &&
+      (working.status === 'PENDING' || working.status === 'PARTIALLY_FILLED' || working.status === 'PENDING_TRIGGER')
+    );
+    if (!this.liquidatingUsers.has(order.userId)) {
+      const riskCheck = await this.riskLimits.checkOrder(order, estimatedPrice, workingOrders);
+      if (!riskCheck.valid) {
+        return riskCheck;
+      }
+    }
+
+    if (order.isBot) {
+      return { valid: true };
+    }
+
+    return this.marginEngine.checkOrder(order, estimatedPrice, workingOrders);
   }
 
   /**
-   * Process market order (immediate execution at best available price)
+   * Send a MARKET or LIMIT order to the matching core and wait for its
+   * executions to settle
    */
-  private async processMarketOrder(order: MarketOrder): Promise<void> {
-    let orderBook = this.orderBooks.get(order.securityId);
-    if (!orderBook) {
-      // Auto-create order book for new security
-      this.orderBooks.set(order.securityId, {
-        securityId: order.securityId,
-        bids: [],
-        asks: []
-      });
-      this.marketPrices.set(order.securityId, 100.00); // Default starting price
-      orderBook = this.orderBooks.get(order.securityId)!;
-    }
+  private async routeToCore(order: MarketOrder): Promise<void> {
+    const executions = this.core.submit(order);
+    await this.drainSettlement();
 
-    const opposingSide = order.side === 'BUY' ? orderBook.asks : orderBook.bids;
-    
-    if (opposingSide.length === 0) {
-      // No liquidity available, reject order
-      order.status = 'REJECTED';
-      order.notes = 'No liquidity available';
+    if (order.status === 'REJECTED') {
+      this.journal.append('ORDER_REJECTED', { order, reason: order.notes });
       await this.updateOrderInDatabase(order);
       this.emit('orderRejected', order);
-      return;
-    }
-
-    // Execute against best prices until filled
-    let remainingQuantity = order.remainingQuantity;
-    
-    while (remainingQuantity > 0 && opposingSide.length > 0) {
-      const bestLevel = opposingSide[0];
-      const executeQuantity = Math.min(remainingQuantity, bestLevel.quantity);
-      
-      await this.executeOrders(order, bestLevel.orders[0], executeQuantity, bestLevel.price);
-      remainingQuantity -= executeQuantity;
-    }
-
-    if (remainingQuantity === 0) {
-      order.status = 'FILLED';
-      order.executedAt = new Date();
-    } else {
-      order.status = 'PARTIALLY_FILLED';
+    } else if (order.status === 'EXPIRED') {
+      await this.recordExpiry(order, order.timeInForce);
+    } else if (executions.length === 0) {
+      await this.updateOrderInDatabase(order);
+      this.emit('orderBookUpdated', { securityId: order.securityId, orderBook: this.core.getDisplayBook(order.securityId) });
     }
-
-    order.remainingQuantity = remainingQuantity;
-    await this.updateOrderInDatabase(order);
-    this.emit('orderExecuted', order);
   }
 
   /**
-   * Process limit order (add to book or execute if price matches)
+   * Wait until every queued settlement (including ones queued while
+   * waiting, e.g. by triggered stops) has completed
    */
-  private async processLimitOrder(order: MarketOrder): Promise<void> {
-    let orderBook = this.orderBooks.get(order.securityId);
-    if (!orderBook) {
-      // Auto-create order book for new security
-      this.orderBooks.set(order.securityId, {
-        securityId: order.securityId,
-        bids: [],
-        asks: []
-      });
-      this.marketPrices.set(order.securityId, 100.00); // Default starting price
-      orderBook = this.orderBooks.get(order.securityId)!;
-    }
-
-    // Check if order can be immediately executed
-    const opposingSide = order.side === 'BUY' ? orderBook.asks : orderBook.bids;
-    const canExecute = order.side === 'BUY' 
-      ? (opposingSide.length > 0 && opposingSide[0].price <= order.price!)
-      : (opposingSide.length > 0 && opposingSide[0].price >= order.price!);
-
-    if (canExecute) {
-      // Execute immediately
-      await this.processMarketOrder(order);
-    } else {
-      // Add to order book
-      await this.addOrderToBook(order);
-    }
+  private async drainSettlement(): Promise<void> {
+    let current: Promise<void>;
+    do {
+      current = this.settlement;
+      await current;
+    } while (current !== this.settlement);
   }
 
   /**
@@ -291,181 +304,401 @@ export class OrderMatchingEngine extends EventEmitter {
   }
 
   /**
-   * Add order to the order book
+   * Trigger stop orders whose stop price has been reached by the last trade
    */
-  private async addOrderToBook(order: MarketOrder): Promise<void> {
-    const orderBook = this.orderBooks.get(order.securityId);
-    if (!orderBook) return;
+  private async triggerStopOrders(securityId: string, lastPrice: number): Promise<void> {
+    const triggered = Array.from(this.pendingOrders.values()).filter(order =>
+      order.securityId === securityId &&
+      order.status === 'PENDING_TRIGGER' &&
+      order.stopPrice !== undefined &&
+      (order.side === 'BUY' ? lastPrice >= order.stopPrice : lastPrice <= order.stopPrice)
+    );
 
-    const side = order.side === 'BUY' ? orderBook.bids : orderBook.asks;
-    const price = order.price!;
-    
-    // Find or create price level
-    let priceLevel = side.find(level => level.price === price);
-    if (!priceLevel) {
-      priceLevel = {
-        price,
-        quantity: 0,
-        orderCount: 0,
-        orders: []
-      };
-      side.push(priceLevel);
-      
-      // Sort levels (bids descending, asks ascending)
-      if (order.side === 'BUY') {
-        side.sort((a, b) => b.price - a.price);
+    for (const order of triggered) {
+      order.type = order.type === 'STOP_LIMIT' ? 'LIMIT' : 'MARKET';
+      order.status = 'PENDING';
+      order.notes = `Triggered at ${lastPrice}`;
+      this.journal.append('ORDER_TRIGGERED', { orderId: order.id, type: order.type, triggerPrice: lastPrice });
+      this.emit('stopOrderTriggered', { order, triggerPrice: lastPrice, timestamp: new Date() });
+
+      // Executions from the triggered order are queued behind this settlement
+      const executions = this.core.submit(order);
+      await this.updateOrderInDatabase(order);
+      // A triggered stop with nothing to trade against is rejected by the core
+      if (order.type === 'MARKET' && executions.length === 0) {
+        this.journal.append('ORDER_REJECTED', { order, reason: order.notes });
+        this.emit('orderRejected', order);
       } else {
-        side.sort((a, b) => a.price - b.price);
+        await this.recordIfExpired(order);
       }
     }
-
-    // Add order to level
-    priceLevel.orders.push(order);
-    priceLevel.quantity += order.remainingQuantity;
-    priceLevel.orderCount++;
-
-    order.status = 'PENDING';
-    await this.updateOrderInDatabase(order);
-    
-    this.emit('orderBookUpdated', { securityId: order.securityId, orderBook });
   }
 
   /**
-   * Execute orders between two parties
+   * Settle one execution from the core: update positions, charge trading
+   * costs and persist fills for the sides this engine owns, then publish
+   * the trade
    */
-  private async executeOrders(
-    order1: MarketOrder, 
-    order2: MarketOrder, 
-    quantity: number, 
-    price: number
-  ): Promise<void> {
-    // Create executions
+  private async settleExecution({ execution, buyOrder, sellOrder }: ExecutionEvent): Promise<void> {
+    const { price, quantity, securityId } = execution;
     const execution1: OrderExecution = {
-      id: `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      orderId: order1.id,
+      id: `${execution.id}_B`,
+      orderId: buyOrder.id,
       quantity,
       price,
-      timestamp: new Date(),
-      counterpartyOrderId: order2.id
+      timestamp: execution.timestamp,
+      counterpartyOrderId: sellOrder.id
     };
-
     const execution2: OrderExecution = {
-      id: `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      orderId: order2.id,
+      id: `${execution.id}_S`,
+      orderId: sellOrder.id,
       quantity,
       price,
-      timestamp: new Date(),
-      counterpartyOrderId: order1.id
+      timestamp: execution.timestamp,
+      counterpartyOrderId: buyOrder.id
     };
 
-    // Update order quantities
-    order1.remainingQuantity -= quantity;
-    order2.remainingQuantity -= quantity;
+    try {
+      for (const [order, fill] of [[buyOrder, execution1], [sellOrder, execution2]] as const) {
+        if (!this.pendingOrders.has(order.id)) continue;
+
+        await this.updateOrderInDatabase(order);
 
-    // Update order statuses
-    if (order1.remainingQuantity === 0) {
-      order1.status = 'FILLED';
-      order1.executedAt = new Date();
-    } else {
-      order1.status = 'PARTIALLY_FILLED';
+        const tradeValue = quantity * price;
+        const quantityChange = order.side === 'BUY' ? quantity : -quantity;
+        const position = await this.portfolioEngine.updatePosition(
+          order.userId,
+          securityId,
+          quantityChange,
+          price,
+          order.side === 'BUY' ? tradeValue : -tradeValue,
+          order.id,
+          this.liquidatingUsers.has(order.userId) ? 'LIQUIDATION' : 'TRADE'
+        );
+
+        if (order.side === 'SELL') {
+          await this.marginEngine.chargeBorrow(order.userId, securityId, position.quantity - quantityChange, position.quantity, price);
+        }
+
+        fill.liquidity = !execution.aggressorSide ? 'AUCTION' : execution.aggressorSide === order.side ? 'TAKER' : 'MAKER';
+        if (!order.isBot) {
+          const costs = await this.feeEngine.chargeFill({
+            userId: order.userId,
+            orderId: order.id,
+            securityId,
+            orderType: order.type,
+            quantity,
+            price,
+            liquidity: fill.liquidity
+          });
+          fill.commission = costs.commission;
+          fill.slippage = costs.slippage;
+
+          if (performanceTracker.isTracking(order.userId, this.sessionId)) {
+            performanceTracker.recordTrade({
+              id: fill.id,
+              userId: order.userId,
+              sessionId: this.sessionId,
+              symbol: securityId,
+              side: order.side,
+              quantity,
+              price,
+              timestamp: fill.timestamp,
+              orderType: order.type === 'STOP_LIMIT' ? 'STOP' : order.type,
+              executionPrice: price + (order.side === 'BUY' ? 1 : -1) * costs.slippage / quantity,
+              commission: costs.commission,
+              slippage: costs.slippage
+            });
+          }
+        }
+
+        await this.saveExecutionToDatabase(fill);
+      }
+
+      await this.portfolioEngine.updateMarketPrice(securityId, price);
+    } catch (error) {
+      console.error('Error settling execution:', error);
     }
 
-    if (order2.remainingQuantity === 0) {
-      order2.status = 'FILLED';
-      order2.executedAt = new Date();
-    } else {
-      order2.status = 'PARTIALLY_FILLED';
+    this.emit('orderExecuted', { order1: buyOrder, order2: sellOrder, execution1, execution2 });
+    this.emit('tradeExecuted', { executionId: execution.id, securityId, price, quantity, timestamp: execution.timestamp });
+    this.emit('orderBookUpdated', { securityId, orderBook: this.core.getDisplayBook(securityId) });
+
+    await this.triggerStopOrders(securityId, price);
+  }
+
+  /**
+   * Open the market for trading. With an opening auction, orders are
+   * collected for the call period and continuous trading starts after the
+   * uncross.
+   */
+  async openMarket(options: MarketPhaseOptions = {}): Promise<void> {
+    this.isMarketOpen = true;
+    this.journal.append('MARKET_OPENED', {});
+    this.emit('marketOpened', { sessionId: this.sessionId, timestamp: new Date(), auction: !!options.auction });
+
+    if (options.auction) {
+      this.startCallAuction('OPENING', options.callPeriodSeconds);
     }
+  }
 
-    // Save to database
-    await this.saveExecutionToDatabase(execution1);
-    await this.saveExecutionToDatabase(execution2);
-    await this.updateOrderInDatabase(order1);
-    await this.updateOrderInDatabase(order2);
+  /**
+   * Close the market. With a closing auction, the market stays open for
+   * the call period and closes after the uncross.
+   */
+  async closeMarket(options: MarketPhaseOptions = {}): Promise<void> {
+    if (options.auction) {
+      this.startCallAuction('CLOSING', options.callPeriodSeconds, () => this.finishClose());
+      return;
+    }
 
-    // Record trade for history
-    const buyOrder = order1.side === 'BUY' ? order1 : order2;
-    const sellOrder = order1.side === 'SELL' ? order1 : order2;
-    this.recordTrade(order1.securityId, {
-      id: `trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      price,
-      quantity,
-      buyOrderId: buyOrder.id,
-      sellOrderId: sellOrder.id,
+    // Closing without an auction ends any call still running first
+    await this.uncrossAuction();
+    await this.finishClose();
+  }
+
+  private async finishClose(): Promise<void> {
+    this.isMarketOpen = false;
+    this.journal.append('MARKET_CLOSED', {});
+    await this.expireDayOrders('MARKET_CLOSE');
+    this.emit('marketClosed', { sessionId: this.sessionId, timestamp: new Date() });
+  }
+
+  /**
+   * Current call auction phase, if one is collecting orders
+   */
+  getAuctionPhase(): AuctionPhase | undefined {
+    return this.auctionPhase;
+  }
+
+  /**
+   * Start collecting orders for a call auction and schedule the uncross
+   */
+  private startCallAuction(phase: AuctionPhase, callPeriodSeconds = DEFAULT_CALL_PERIOD_SECONDS, after?: () => Promise<void>): void {
+    if (this.auctionPhase) {
+      console.warn(`Call auction already running for session ${this.sessionId}`);
+      return;
+    }
+
+    const clock = getSessionClock(this.sessionId);
+    const endsAt = new Date(clock.now() + callPeriodSeconds * 1000);
+    this.auctionPhase = phase;
+    this.core.startAuction();
+    this.journal.append('AUCTION_CALL_STARTED', { phase, endsAt });
+    this.emit('auctionCallStarted', { sessionId: this.sessionId, phase, endsAt, timestamp: new Date() });
+
+    this.auctionTimer = clock.setTimeout(async () => {
+      try {
+        await this.uncrossAuction();
+        await after?.();
+      } catch (error) {
+        console.error('Error uncrossing call auction:', error);
+      }
+    }, callPeriodSeconds * 1000);
+  }
+
+  /**
+   * End the running call auction now: trade at the uncrossing price, settle
+   * the fills and expire market orders that found no match
+   */
+  async uncrossAuction(): Promise<void> {
+    const phase = this.auctionPhase;
+    if (!phase) return;
+
+    if (this.auctionTimer) {
+      getSessionClock(this.sessionId).clear(this.auctionTimer);
+      this.auctionTimer = undefined;
+    }
+    this.auctionPhase = undefined;
+
+    const { executions, expired, results } = this.core.uncross();
+    this.journal.append('AUCTION_UNCROSSED', { phase, results });
+    await this.drainSettlement();
+
+    for (const order of expired.filter(order => this.pendingOrders.has(order.id))) {
+      await this.recordExpiry(order, 'AUCTION');
+    }
+
+    this.emit('auctionUncrossed', {
+      sessionId: this.sessionId,
+      phase,
+      results,
+      executionCount: executions.length,
       timestamp: new Date()
     });
+    for (const securityId of this.core.getSecurityIds()) {
+      this.emit('orderBookUpdated', { securityId, orderBook: this.core.getDisplayBook(securityId) });
+    }
+  }
 
-    // Update positions using portfolio engine
-    const tradeValue = quantity * price;
-    await this.portfolioEngine.updatePosition(
-      order1.userId, 
-      order1.securityId, 
-      order1.side === 'BUY' ? quantity : -quantity, 
-      price,
-      order1.side === 'BUY' ? tradeValue : -tradeValue
+  /**
+   * Expire every working DAY order (resting or waiting for a stop trigger).
+   * Called on market close and when the session ends; GTC orders survive.
+   */
+  async expireDayOrders(reason: 'MARKET_CLOSE' | 'SESSION_END'): Promise<MarketOrder[]> {
+    const expiring = Array.from(this.pendingOrders.values()).filter(order =>
+      order.timeInForce === 'DAY' &&
+      (order.status === 'PENDING' || order.status === 'PARTIALLY_FILLED' || order.status === 'PENDING_TRIGGER')
     );
-    await this.portfolioEngine.updatePosition(
-      order2.userId, 
-      order2.securityId, 
-      order2.side === 'BUY' ? quantity : -quantity, 
-      price,
-      order2.side === 'BUY' ? tradeValue : -tradeValue
+
+    for (const order of expiring) {
+      const note = reason === 'MARKET_CLOSE' ? 'Day order expired at market close' : 'Day order expired at session end';
+      if (!this.core.expire(order.id, note)) {
+        order.status = 'EXPIRED';
+        order.notes = note;
+        order.cancelledAt = new Date();
+      }
+      await this.recordExpiry(order, reason);
+    }
+
+    return expiring;
+  }
+
+  /**
+   * Expire every working order in an option series or futures contract that
+   * has reached expiry, whatever its time in force
+   */
+  async expireContractOrders(securityId: string, reason: 'OPTION_EXPIRY' | 'FUTURES_EXPIRY'): Promise<MarketOrder[]> {
+    const expiring = Array.from(this.pendingOrders.values()).filter(order =>
+      order.securityId === securityId &&
+      (order.status === 'PENDING' || order.status === 'PARTIALLY_FILLED' || order.status === 'PENDING_TRIGGER')
     );
 
-    // Update market price in both engines
-    this.marketPrices.set(order1.securityId, price);
-    await this.portfolioEngine.updateMarketPrice(order1.securityId, price);
-    
-    // Update order book
-    const orderBook = this.orderBooks.get(order1.securityId);
-    if (orderBook) {
-      orderBook.lastTrade = { price, quantity, timestamp: new Date() };
-      this.removeFilledOrdersFromBook(order1.securityId);
+    for (const order of expiring) {
+      const note = reason === 'OPTION_EXPIRY' ? 'Option series expired' : 'Futures contract expired';
+      if (!this.core.expire(order.id, note)) {
+        order.status = 'EXPIRED';
+        order.notes = note;
+        order.cancelledAt = new Date();
+      }
+      await this.recordExpiry(order, reason);
     }
 
-    this.emit('orderExecuted', { order1, order2, execution1, execution2 });
-    this.emit('tradeExecuted', { securityId: order1.securityId, price, quantity, timestamp: new Date() });
+    return expiring;
   }
 
   /**
-   * Remove filled orders from order book
+   * Carry GTC orders still working at the end of the previous scenario of a
+   * multi-simulation lesson into this session. The old order is closed out
+   * and its unfilled remainder is resubmitted here.
    */
-  private removeFilledOrdersFromBook(securityId: string): void {
-    const orderBook = this.orderBooks.get(securityId);
-    if (!orderBook) return;
-
-    [orderBook.bids, orderBook.asks].forEach(side => {
-      side.forEach(level => {
-        level.orders = level.orders.filter(order => order.remainingQuantity > 0);
-        level.quantity = level.orders.reduce((sum, order) => sum + order.remainingQuantity, 0);
-        level.orderCount = level.orders.length;
+  async carryOverGtcOrders(previousSessionId: string): Promise<MarketOrder[]> {
+    const carried: MarketOrder[] = [];
+
+    try {
+      const rows = await this.db.order.findMany({
+        where: {
+          sessionId: previousSessionId,
+          timeInForce: 'GTC',
+          status: { in: ['PENDING', 'PARTIALLY_FILLED', 'PENDING_TRIGGER'] }
+        },
+        include: { executions: true },
+        orderBy: { submittedAt: 'asc' }
       });
-      
-      // Remove empty levels
-      for (let i = side.length - 1; i >= 0; i--) {
-        if (side[i].orders.length === 0) {
-          side.splice(i, 1);
+
+      for (const row of rows) {
+        const filledQuantity = row.executions.reduce((sum: number, e: any) => sum + e.quantity, 0);
+        const remainingQuantity = row.quantity - filledQuantity;
+
+        const previousEngine = activeEngines.get(previousSessionId);
+        if (previousEngine) {
+          previousEngine.withdrawOrder(row.id, `Carried over to session ${this.sessionId}`);
+        } else {
+          getMatchingCore(previousSessionId).cancel(row.id);
         }
+        await this.db.order.update({
+          where: { id: row.id },
+          data: {
+            status: 'CANCELLED',
+            cancelledAt: new Date(),
+            notes: `Carried over to session ${this.sessionId}`
+          }
+        });
+
+        if (remainingQuantity <= 0) continue;
+
+        carried.push(await this.submitOrder({
+          sessionId: this.sessionId,
+          userId: row.userId,
+          securityId: row.securityId,
+          type: row.type,
+          side: row.side,
+          quantity: remainingQuantity,
+          price: row.price !== null ? Number(row.price) : undefined,
+          stopPrice: row.stopPrice !== null ? Number(row.stopPrice) : undefined,
+          timeInForce: 'GTC',
+          displayQuantity: row.displayQuantity ?? undefined,
+          notes: `Carried over from session ${previousSessionId}`
+        }));
       }
-    });
+    } catch (error) {
+      console.error('Error carrying over GTC orders:', error);
+    }
 
-    this.emit('orderBookUpdated', { securityId, orderBook });
+    return carried;
   }
 
   /**
-   * Open the market for trading
+   * Record an IOC/FOK order the core expired during matching
    */
-  async openMarket(): Promise<void> {
-    this.isMarketOpen = true;
-    this.emit('marketOpened', { sessionId: this.sessionId, timestamp: new Date() });
+  private async recordIfExpired(order: MarketOrder): Promise<void> {
+    if (order.status === 'EXPIRED') {
+      await this.recordExpiry(order, order.timeInForce);
+    }
   }
 
   /**
-   * Close the market
+   * Persist and publish an order whose time in force ran out
    */
-  async closeMarket(): Promise<void> {
-    this.isMarketOpen = false;
-    this.emit('marketClosed', { sessionId: this.sessionId, timestamp: new Date() });
+  private async recordExpiry(order: MarketOrder, reason: string): Promise<void> {
+    this.journal.append('ORDER_EXPIRED', { orderId: order.id, reason });
+    await this.updateOrderInDatabase(order);
+    this.emit('orderExpired', { order, reason, timestamp: new Date() });
+  }
+
+  /**
+   * Cancel every working order a user has
+   */
+  private async cancelUserOrders(userId: string): Promise<void> {
+    for (const order of Array.from(this.pendingOrders.values())) {
+      if (order.userId === userId) {
+        await this.cancelOrder(order.id, userId);
+      }
+    }
+  }
+
+  /**
+   * Auto-liquidate an account whose margin call ran out: cancel its working
+   * orders, then close every position with a market order
+   */
+  private async liquidateAccount(userId: string): Promise<void> {
+    await this.cancelUserOrders(userId);
+
+    const positions = await this.db.position.findMany({
+      where: { sessionId: this.sessionId, userId, quantity: { not: 0 } }
+    });
+
+    this.emit('accountLiquidated', { userId, positions: positions.length, timestamp: new Date() });
+
+    this.liquidatingUsers.add(userId);
+    try {
+      for (const position of positions) {
+        await this.submitOrder({
+          sessionId: this.sessionId,
+          userId,
+          securityId: position.securityId,
+          type: 'MARKET',
+          side: position.quantity > 0 ? 'SELL' : 'BUY',
+          quantity: Math.abs(position.quantity),
+          timeInForce: 'DAY',
+          notes: 'Margin call liquidation'
+        });
+      }
+    } finally {
+      this.liquidatingUsers.delete(userId);
+    }
+
+    this.marginEngine.clearMarginCall(userId);
   }
 
   /**
@@ -476,43 +709,104 @@ export class OrderMatchingEngine extends EventEmitter {
   }
 
   /**
-   * Get current order book for a security
+   * Rebuild live state for an in-progress session after a restart.
+   * Working orders go back on the book in submission order, stop orders
+   * wait for their trigger again, last prices come from the persisted tape
+   * and the portfolio engine recomputes cash from executions.
    */
-  getOrderBook(securityId: string): OrderBook | undefined {
-    let orderBook = this.orderBooks.get(securityId);
-    if (!orderBook) {
-      // Auto-create order book for new security
-      this.orderBooks.set(securityId, {
-        securityId: securityId,
-        bids: [],
-        asks: []
+  async rehydrate(): Promise<void> {
+    if (this.isRehydrated) return;
+    this.isRehydrated = true;
+
+    try {
+      const openOrders = await this.db.order.findMany({
+        where: {
+          sessionId: this.sessionId,
+          status: { in: ['PENDING', 'PARTIALLY_FILLED', 'PENDING_TRIGGER'] }
+        },
+        include: { executions: true },
+        orderBy: { submittedAt: 'asc' }
+      });
+
+      for (const row of openOrders) {
+        if (this.pendingOrders.has(row.id)) continue;
+
+        const filledQuantity = row.executions.reduce((sum: number, e: any) => sum + e.quantity, 0);
+        const order: MarketOrder = {
+          id: row.id,
+          sessionId: row.sessionId,
+          userId: row.userId,
+          securityId: row.securityId,
+          type: row.type,
+          side: row.side,
+          quantity: row.quantity,
+          price: row.price !== null ? Number(row.price) : undefined,
+          stopPrice: row.stopPrice !== null ? Number(row.stopPrice) : undefined,
+          timeInForce: row.timeInForce as MarketOrder['timeInForce'],
+          status: row.status,
+          submittedAt: row.submittedAt,
+          remainingQuantity: row.quantity - filledQuantity,
+          notes: row.notes || undefined,
+          displayQuantity: row.displayQuantity ?? undefined
+        };
+
+        this.pendingOrders.set(order.id, order);
+        this.core.restore(order);
+      }
+
+      const executions = await this.db.orderExecution.findMany({
+        where: { order: { sessionId: this.sessionId } },
+        include: { order: { select: { securityId: true } } },
+        orderBy: { timestamp: 'asc' }
       });
-      this.marketPrices.set(securityId, 100.00); // Default starting price
-      orderBook = this.orderBooks.get(securityId)!;
+
+      let lastSequence = 0;
+      for (const execution of executions) {
+        this.core.restoreLastTrade(execution.order.securityId, Number(execution.price), execution.quantity, execution.timestamp);
+
+        const sequence = execution.id.match(/_(\d+)_[BS]$/);
+        if (sequence) {
+          lastSequence = Math.max(lastSequence, parseInt(sequence[1], 10));
+        }
+      }
+      this.core.resumeExecutionSequence(lastSequence);
+
+      await this.portfolioEngine.rehydrate();
+      await this.futuresMarket.rehydrate();
+      await this.optionsMarket.rehydrate();
+
+      console.log(`Rehydrated session ${this.sessionId}: ${openOrders.length} working orders, ${executions.length} executions`);
+    } catch (error) {
+      console.error(`Error rehydrating session ${this.sessionId}:`, error);
     }
-    return orderBook;
+  }
+
+  /**
+   * Get current order book for a security
+   */
+  getOrderBook(securityId: string): OrderBook | undefined {
+    return this.core.getDisplayBook(securityId);
   }
 
   /**
    * Get current market price for a security
    */
   getMarketPrice(securityId: string): number {
-    return this.marketPrices.get(securityId) || 100.00;
+    return this.core.getLastPrice(securityId) || 100.00;
+  }
+
+  /**
+   * Securities with a book in this session
+   */
+  getSecurityIds(): string[] {
+    return this.core.getSecurityIds();
   }
 
   /**
    * Get all open orders for a security
    */
   getOpenOrders(securityId: string): MarketOrder[] {
-    const orders: MarketOrder[] = [];
-    for (const order of this.pendingOrders.values()) {
-      if (order.securityId === securityId &&
-          (order.status === 'PENDING' || order.status === 'PARTIALLY_FILLED') &&
-          order.remainingQuantity > 0) {
-        orders.push(order);
-      }
-    }
-    return orders;
+    return this.core.getOpenOrders(securityId);
   }
 
   /**
@@ -526,30 +820,21 @@ export class OrderMatchingEngine extends EventEmitter {
     sellOrderId: string;
     timestamp: Date;
   }> {
-    const trades = this.recentTrades.get(securityId) || [];
-    return trades.slice(-limit);
+    return this.core.getTrades(securityId, limit);
   }
 
   /**
-   * Record a trade (called after matching)
+   * Drop a working order that has moved to another session, so this engine
+   * no longer books, triggers or expires it. The caller records the cancel.
    */
-  private recordTrade(securityId: string, trade: {
-    id: string;
-    price: number;
-    quantity: number;
-    buyOrderId: string;
-    sellOrderId: string;
-    timestamp: Date;
-  }): void {
-    if (!this.recentTrades.has(securityId)) {
-      this.recentTrades.set(securityId, []);
-    }
-    const trades = this.recentTrades.get(securityId)!;
-    trades.push(trade);
-    // Keep only last 1000 trades per security
-    if (trades.length > 1000) {
-      trades.shift();
+  withdrawOrder(orderId: string, note: string): void {
+    const order = this.pendingOrders.get(orderId);
+    if (!this.core.cancel(orderId) && order) {
+      order.status = 'CANCELLED';
+      order.cancelledAt = new Date();
     }
+    if (order) order.notes = note;
+    this.pendingOrders.delete(orderId);
   }
 
   /**
@@ -561,46 +846,95 @@ export class OrderMatchingEngine extends EventEmitter {
       return false;
     }
 
-    if (order.status === 'FILLED' || order.status === 'CANCELLED') {
+    if (order.status === 'FILLED' || order.status === 'CANCELLED' || order.status === 'REJECTED' || order.status === 'EXPIRED') {
       return false;
     }
 
-    order.status = 'CANCELLED';
-    order.cancelledAt = new Date();
-    await this.updateOrderInDatabase(order);
-
     // Remove from order book if present
-    this.removeOrderFromBook(order);
+    if (!this.core.cancel(orderId)) {
+      order.status = 'CANCELLED';
+      order.cancelledAt = new Date();
+    }
+    this.journal.append('ORDER_CANCELLED', { orderId });
+    await this.updateOrderInDatabase(order);
     
     this.emit('orderCancelled', order);
     return true;
   }
 
   /**
-   * Remove order from order book
+   * Amend a working order (cancel-replace). Resting orders are amended
+   * atomically in the matching core; stop orders waiting for their trigger
+   * are simply updated. Quantity is the new total order size.
    */
-  private removeOrderFromBook(order: MarketOrder): void {
-    const orderBook = this.orderBooks.get(order.securityId);
-    if (!orderBook) return;
+  async amendOrder(
+    orderId: string,
+    userId: string,
+    changes: { quantity?: number; price?: number; stopPrice?: number }
+  ): Promise<{ success: boolean; order?: MarketOrder; priorityKept?: boolean; reason?: string }> {
+    const order = this.pendingOrders.get(orderId);
+    if (!order || order.userId !== userId) {
+      return { success: false, reason: 'Order not found' };
+    }
 
-    const side = order.side === 'BUY' ? orderBook.bids : orderBook.asks;
-    
-    side.forEach(level => {
-      const orderIndex = level.orders.findIndex(o => o.id === order.id);
-      if (orderIndex !== -1) {
-        level.orders.splice(orderIndex, 1);
-        level.quantity -= order.remainingQuantity;
-        level.orderCount--;
-      }
+    if (order.status !== 'PENDING' && order.status !== 'PARTIALLY_FILLED' && order.status !== 'PENDING_TRIGGER') {
+      return { success: false, reason: `Order is ${order.status.toLowerCase()}` };
+    }
+
+    if (changes.quantity === undefined && changes.price === undefined && changes.stopPrice === undefined) {
+      return { success: false, reason: 'Nothing to amend' };
+    }
+
+    if (changes.price !== undefined && order.type === 'MARKET') {
+      return { success: false, reason: 'Market orders have no price to amend' };
+    }
+
+    if (changes.stopPrice !== undefined && order.status !== 'PENDING_TRIGGER') {
+      return { success: false, reason: 'Only untriggered stop orders have a stop price' };
+    }
+
+    // The unfilled part of the amended order must pass the same checks as a new order
+    const filledQuantity = order.quantity - order.remainingQuantity;
+    const remainingQuantity = (changes.quantity ?? order.quantity) - filledQuantity;
+    const validation = await this.validateOrder({
+      ...order,
+      quantity: remainingQuantity,
+      remainingQuantity,
+      price: changes.price ?? order.price,
+      displayQuantity: order.displayQuantity && Math.min(order.displayQuantity, remainingQuantity)
     });
+    if (!validation.valid) {
+      return { success: false, reason: validation.reason };
+    }
 
-    this.removeFilledOrdersFromBook(order.securityId);
+    let priorityKept = true;
+
+    if (order.status === 'PENDING_TRIGGER') {
+      order.quantity = changes.quantity ?? order.quantity;
+      order.remainingQuantity = remainingQuantity;
+      order.price = changes.price ?? order.price;
+      order.stopPrice = changes.stopPrice ?? order.stopPrice;
+    } else {
+      try {
+        priorityKept = this.core.amend(orderId, { quantity: changes.quantity, price: changes.price }).priorityKept;
+      } catch (error) {
+        return { success: false, reason: error instanceof Error ? error.message : 'Amend failed' };
+      }
+    }
+
+    this.journal.append('ORDER_AMENDED', { orderId, ...changes });
+    await this.drainSettlement();
+    await this.updateOrderInDatabase(order);
+
+    this.emit('orderAmended', { order, priorityKept, timestamp: new Date() });
+    this.emit('orderBookUpdated', { securityId: order.securityId, orderBook: this.core.getDisplayBook(order.securityId) });
+    return { success: true, order, priorityKept };
   }
 
   // Database operations
   private async saveOrderToDatabase(order: MarketOrder): Promise<void> {
     try {
-      await prisma.order.create({
+      await this.db.order.create({
         data: {
           id: order.id,
           sessionId: order.sessionId,
@@ -613,6 +947,7 @@ export class OrderMatchingEngine extends EventEmitter {
           stopPrice: order.stopPrice,
           status: order.status,
           timeInForce: order.timeInForce,
+          displayQuantity: order.displayQuantity,
           notes: order.notes,
           submittedAt: order.submittedAt,
           executedAt: order.executedAt,
@@ -626,9 +961,13 @@ export class OrderMatchingEngine extends EventEmitter {
 
   private async updateOrderInDatabase(order: MarketOrder): Promise<void> {
     try {
-      await prisma.order.update({
+      await this.db.order.update({
         where: { id: order.id },
         data: {
+          type: order.type,
+          quantity: order.quantity,
+          price: order.price,
+          stopPrice: order.stopPrice,
           status: order.status,
           notes: order.notes,
           executedAt: order.executedAt,
@@ -642,12 +981,15 @@ export class OrderMatchingEngine extends EventEmitter {
 
   private async saveExecutionToDatabase(execution: OrderExecution): Promise<void> {
     try {
-      await prisma.orderExecution.create({
+      await this.db.orderExecution.create({
         data: {
           id: execution.id,
           orderId: execution.orderId,
           quantity: execution.quantity,
           price: execution.price,
+          commission: execution.commission ?? 0,
+          slippage: execution.slippage ?? 0,
+          liquidity: execution.liquidity,
           timestamp: execution.timestamp
         }
       });
@@ -656,30 +998,9 @@ export class OrderMatchingEngine extends EventEmitter {
     }
   }
 
-  private async getUserPositions(userId: string, securityId: string): Promise<number> {
-    try {
-      const position = await prisma.position.findUnique({
-        where: {
-          sessionId_userId_securityId: {
-            sessionId: this.sessionId,
-            userId,
-            securityId
-          }
-        }
-      });
-      return position?.quantity || 0;
-    } catch (error) {
-      return 0;
-    }
-  }
-
-  private async getUserAvailableFunds(userId: string): Promise<number> {
-    return this.portfolioEngine.getCashBalance(userId);
-  }
-
   private async updateUserPosition(userId: string, securityId: string, quantityChange: number, price: number): Promise<void> {
     try {
-      await prisma.position.upsert({
+      await this.db.position.upsert({
         where: {
           sessionId_userId_securityId: {
             sessionId: this.sessionId,
@@ -726,13 +1047,14 @@ export function getOrderMatchingEngine(sessionId: string): OrderMatchingEngine {
 export async function getReadyOrderMatchingEngine(sessionId: string): Promise<OrderMatchingEngine> {
   const engine = getOrderMatchingEngine(sessionId);
 
-  // Auto-open market if session is active
+  // Auto-open market if session is active, restoring state lost in a restart
   if (!engine.isMarketCurrentlyOpen()) {
     try {
-      const session = await prisma.simulationSession.findUnique({
+      const session = await getSessionDatabase(sessionId).simulationSession.findUnique({
         where: { id: sessionId }
       });
       if (session && session.status === 'IN_PROGRESS') {
+        await engine.rehydrate();
         await engine.openMarket();
         console.log(`Auto-opened market for session ${sessionId}`);
       }
@@ -742,4 +1064,24 @@ export async function getReadyOrderMatchingEngine(sessionId: string): Promise<Or
   }
 
   return engine;
+}
+
+/**
+ * Resolve a symbol or security ID to the security ID used as the book key.
+ * CUIDs start with 'c' and are 25 chars, symbols are typically short uppercase.
+ * Symbols without a Security row are used as-is.
+ */
+export async function resolveSecurityId(symbolOrId: string): Promise<string> {
+  if (symbolOrId.startsWith('c') && symbolOrId.length >= 20) {
+    return symbolOrId;
+  }
+
+  try {
+    const security = await prisma.security.findFirst({
+      where: { symbol: symbolOrId.toUpperCase() }
+    });
+    return security?.id || symbolOrId;
+  } catch (error) {
+    return symbolOrId;
+  }
 }
\ No newline at end of file
@@ -173,6 +173,13 @@ export class PerformanceTracker extends EventEmitter {
     this.emit('student_initialized', { userId, sessionId, metrics: initialMetrics });
   }
 
+  /**
+   * Whether a student's performance is being tracked in a session
+   */
+  isTracking(userId: string, sessionId: string): boolean {
+    return this.studentMetrics.has(`${sessionId}:${userId}`);
+  }
+
   /**
    * Record a trade execution
    */
@@ -1,13 +1,15 @@
 /**
  * Portfolio Engine
  * 
- * Handles real-time position tracking, P&L calculations, and portfolio analytics
+ * Handles real-time position tracking, P&L calculations, and portfolio analytics.
+ * Cash is kept as a double-entry ledger: every movement is an entry whose legs
+ * sum to zero, and a student's cash is the balance of their CASH account.
  */
 
 import { EventEmitter } from 'events';
-import { prisma } from './prisma';
+import { getSessionDatabase, SessionDatabase } from './session-database';
 
-interface Position {
+export interface Position {
   userId: string;
   sessionId: string;
   securityId: string;
@@ -19,18 +21,123 @@ interface Position {
   lastUpdated: Date;
 }
 
-interface PortfolioSummary {
+export interface PortfolioSummary {
   userId: string;
   sessionId: string;
   totalValue: number;
   totalUnrealizedPnL: number;
   totalRealizedPnL: number;
-  totalPnL: number;
+  totalPnL: number; // trading P&L less privilege and transaction costs
   cashBalance: number;
+  escrowedCash: number; // held against open auction bids
+  privilegeCosts: number;
+  transactionCosts: number; // commissions net of rebates, plus slippage
   positions: Position[];
   lastUpdated: Date;
 }
 
+export type LedgerEntryType =
+  | 'OPENING_BALANCE'
+  | 'TRADE'
+  | 'LIQUIDATION'
+  | 'OPTION_EXERCISE'
+  | 'OPTION_ASSIGNMENT'
+  | 'OPTION_EXPIRY'
+  | 'VARIATION_MARGIN'
+  | 'FUTURES_SETTLEMENT'
+  | 'COMMISSION'
+  | 'SLIPPAGE'
+  | 'BORROW_FEE'
+  | 'MARKET_MAKER_REBATE'
+  | 'MARKET_MAKER_PENALTY'
+  | 'AUCTION_ESCROW'
+  | 'AUCTION_REFUND'
+  | 'AUCTION_PAYMENT'
+  | 'PRIVILEGE_TRANSFER'
+  | 'DIVIDEND'
+  | 'COUPON'
+  | 'ADJUSTMENT'
+  | 'FEE';
+
+// Entries that move a position as well as cash
+export type TradeEntryType = 'TRADE' | 'LIQUIDATION' | 'OPTION_EXERCISE' | 'OPTION_ASSIGNMENT' | 'OPTION_EXPIRY' | 'FUTURES_SETTLEMENT';
+
+/**
+ * How a contract's price turns into money. Marked-to-market contracts cost
+ * nothing to trade; their gains and losses are paid in cash at each mark
+ * and when the position is closed.
+ */
+export interface ContractTerms {
+  multiplier: number; // money per point of price per contract
+  markedToMarket: boolean;
+}
+
+export interface VariationPayment {
+  userId: string;
+  quantity: number;
+  amount: number; // signed; positive is paid to the student
+}
+
+/**
+ * CASH and ESCROW belong to a student; the others are house accounts that
+ * stand on the other side of a student's cash
+ */
+export type LedgerAccount = 'CASH' | 'ESCROW' | 'CAPITAL' | 'CLEARING' | 'BROKER' | 'AUCTIONEER' | 'ISSUER' | 'INSTRUCTOR';
+
+export interface LedgerLeg {
+  account: LedgerAccount;
+  userId?: string; // owner of a student account
+  amount: number; // signed; positive debits the account
+}
+
+export interface LedgerEntry {
+  id: string;
+  sequence: number;
+  type: LedgerEntryType;
+  description: string;
+  reference?: string; // order, auction or listing the entry belongs to
+  legs: LedgerLeg[];
+  timestamp: Date;
+}
+
+export interface StatementLine {
+  entryId: string;
+  type: LedgerEntryType;
+  description: string;
+  reference?: string;
+  counterparty: string; // the other student, or the account on the other side
+  amount: number; // signed change to cash
+  balance: number; // cash after the entry
+  timestamp: Date;
+}
+
+export const STARTING_CASH = 100000;
+
+// Account on the other side of a student's cash for each kind of entry
+const COUNTERPARTY_ACCOUNTS: Record<LedgerEntryType, LedgerAccount> = {
+  OPENING_BALANCE: 'CAPITAL',
+  TRADE: 'CLEARING',
+  LIQUIDATION: 'CLEARING',
+  OPTION_EXERCISE: 'CLEARING',
+  OPTION_ASSIGNMENT: 'CLEARING',
+  OPTION_EXPIRY: 'CLEARING',
+  VARIATION_MARGIN: 'CLEARING',
+  FUTURES_SETTLEMENT: 'CLEARING',
+  COMMISSION: 'BROKER',
+  SLIPPAGE: 'CLEARING',
+  BORROW_FEE: 'BROKER',
+  MARKET_MAKER_REBATE: 'BROKER',
+  MARKET_MAKER_PENALTY: 'BROKER',
+  AUCTION_ESCROW: 'ESCROW',
+  AUCTION_REFUND: 'ESCROW',
+  AUCTION_PAYMENT: 'AUCTIONEER',
+  PRIVILEGE_TRANSFER: 'CASH',
+  DIVIDEND: 'ISSUER',
+  COUPON: 'ISSUER',
+  ADJUSTMENT: 'INSTRUCTOR',
+  FEE: 'BROKER'
+};
+
 interface PortfolioEvent {
   type: 'positionUpdate' | 'pnlUpdate' | 'portfolioSummary';
   userId: string;
@@ -41,13 +148,21 @@ interface PortfolioEvent {
 
 export class PortfolioEngine extends EventEmitter {
   private sessionId: string;
+  private db: SessionDatabase;
   private marketPrices: Map<string, number> = new Map();
-  private userCashBalances: Map<string, number> = new Map();
+  private ledger: LedgerEntry[] = [];
+  private accountBalances: Map<string, number> = new Map(); // by account and owner
+  private openedAccounts: Set<string> = new Set();
+  private nextSequence = 1;
+  private privilegeCosts: Map<string, number> = new Map();
+  private contractTerms: Map<string, ContractTerms> = new Map(); // by securityId
+  private initialization: Promise<void>;
 
   constructor(sessionId: string) {
     super();
     this.sessionId = sessionId;
-    this.initializePortfolios();
+    this.db = getSessionDatabase(sessionId);
+    this.initialization = this.initializePortfolios();
   }
 
   /**
@@ -56,14 +171,14 @@ export class PortfolioEngine extends EventEmitter {
   private async initializePortfolios(): Promise<void> {
     try {
       // Get all users in this session
-      const sessionUsers = await prisma.sessionUser.findMany({
+      const sessionUsers = await this.db.sessionUser.findMany({
         where: { sessionId: this.sessionId },
         include: { user: true }
       });
 
-      // Initialize cash balances
+      // Open cash accounts with starting cash
       for (const sessionUser of sessionUsers) {
-        this.userCashBalances.set(sessionUser.userId, 100000); // $100k starting cash
+        this.openAccount(sessionUser.userId);
       }
 
       console.log(`Portfolio engine initialized for ${sessionUsers.length} users`);
@@ -72,6 +187,98 @@ export class PortfolioEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Restore the cash ledger and market prices after a restart by replaying
+   * the persisted ledger entries in order. Sessions recorded before the
+   * ledger existed get their trades and privilege costs posted from the
+   * executions and session users instead. Positions are already in the
+   * database.
+   */
+  async rehydrate(): Promise<void> {
+    await this.initialization;
+
+    try {
+      const [executions, sessionUsers, entries] = await Promise.all([
+        this.db.orderExecution.findMany({
+          where: { order: { sessionId: this.sessionId } },
+          include: { order: { select: { id: true, userId: true, side: true, securityId: true } } },
+          orderBy: { timestamp: 'asc' }
+        }),
+        this.db.sessionUser.findMany({
+          where: { sessionId: this.sessionId },
+          select: { userId: true, privilegeCosts: true }
+        }),
+        this.db.ledgerEntry.findMany({
+          where: { sessionId: this.sessionId },
+          include: { legs: true },
+          orderBy: { sequence: 'asc' }
+        })
+      ]);
+
+      this.ledger = [];
+      this.accountBalances.clear();
+      this.openedAccounts.clear();
+      this.nextSequence = 1;
+
+      for (const execution of executions) {
+        this.marketPrices.set(execution.order.securityId, Number(execution.price));
+      }
+
+      for (const { userId, privilegeCosts } of sessionUsers) {
+        const costs = Number(privilegeCosts);
+        if (costs !== 0) {
+          this.privilegeCosts.set(userId, costs);
+        }
+      }
+
+      if (entries.length > 0) {
+        for (const entry of entries) {
+          this.applyEntry({
+            id: entry.id,
+            sequence: entry.sequence,
+            type: entry.type as LedgerEntryType,
+            description: entry.description,
+            reference: entry.reference ?? undefined,
+            legs: entry.legs.map((leg: any) => ({
+              account: leg.account as LedgerAccount,
+              userId: leg.userId ?? undefined,
+              amount: Number(leg.amount)
+            })),
+            timestamp: entry.timestamp
+          });
+        }
+      } else {
+        for (const execution of executions) {
+          const { id, userId, side, securityId } = execution.order;
+          const tradeValue = execution.quantity * Number(execution.price);
+          this.postCash(
+            userId,
+            side === 'BUY' ? -tradeValue : tradeValue,
+            'TRADE',
+            `${side === 'BUY' ? 'Bought' : 'Sold'} ${execution.quantity} ${securityId} @ ${Number(execution.price)}`,
+            id
+          );
+        }
+
+        for (const [userId, costs] of this.privilegeCosts) {
+          this.postCash(userId, -costs, 'AUCTION_PAYMENT', 'Privilege costs carried forward');
+        }
+      }
+
+      // Open bids are escrowed again when the privilege system restores its auctions
+      for (const userId of this.openedAccounts) {
+        const escrowed = this.getEscrowedCash(userId);
+        if (escrowed > 0) {
+          this.postCash(userId, escrowed, 'AUCTION_REFUND', 'Bids returned on restart');
+        }
+      }
+
+      console.log(`Portfolio engine rehydrated from ${entries.length} ledger entries and ${executions.length} executions`);
+    } catch (error) {
+      console.error('Error rehydrating portfolios:', error);
+    }
+  }
+
   /**
    * Update market price for a security and recalculate all P&L
    */
@@ -93,18 +300,45 @@ export class PortfolioEngine extends EventEmitter {
   }
 
   /**
-   * Update user position after a trade
+   * Set the multiplier and settlement of a contract; securities without
+   * terms are worth their price per unit and paid for when traded
+   */
+  setContractTerms(securityId: string, terms: ContractTerms): void {
+    this.contractTerms.set(securityId, terms);
+  }
+
+  private getMultiplier(securityId: string): number {
+    return this.contractTerms.get(securityId)?.multiplier ?? 1;
+  }
+
+  /**
+   * Value of a position at a price: its notional, or for marked-to-market
+   * contracts the gain or loss not yet settled
+   */
+  private positionValue(securityId: string, quantity: number, price: number, avgPrice: number): number {
+    const multiplier = this.getMultiplier(securityId);
+    return this.contractTerms.get(securityId)?.markedToMarket
+      ? quantity * (price - avgPrice) * multiplier
+      : quantity * price * multiplier;
+  }
+
+  /**
+   * Update user position after a trade and post the trade's cash to the ledger.
+   * Marked-to-market contracts ignore the trade value: only the gain or loss
+   * realized since the last mark is settled.
    */
   async updatePosition(
     userId: string, 
     securityId: string, 
     quantityChange: number, 
     tradePrice: number,
-    tradeValue: number
+    tradeValue: number,
+    reference?: string, // order the fill belongs to
+    entryType: TradeEntryType = 'TRADE'
   ): Promise<Position> {
     try {
       // Get current position
-      const currentPosition = await prisma.position.findUnique({
+      const currentPosition = await this.db.position.findUnique({
         where: {
           sessionId_userId_securityId: {
             sessionId: this.sessionId,
@@ -135,18 +369,18 @@ export class PortfolioEngine extends EventEmitter {
         } else {
           // Reducing position - realize P&L
           const closingQuantity = Math.min(Math.abs(quantityChange), Math.abs(oldQuantity));
-          realizedPnL = closingQuantity * (tradePrice - Number(currentPosition.avgPrice)) * (oldQuantity > 0 ? 1 : -1);
+          realizedPnL = closingQuantity * (tradePrice - Number(currentPosition.avgPrice)) * (oldQuantity > 0 ? 1 : -1) * this.getMultiplier(securityId);
           newAvgPrice = Number(currentPosition.avgPrice); // Keep same avg price for remaining position
         }
       }
 
       // Calculate current market value and unrealized P&L
       const currentMarketPrice = this.getMarketPrice(securityId);
-      const marketValue = newQuantity * currentMarketPrice;
-      const unrealizedPnL = newQuantity * (currentMarketPrice - newAvgPrice);
+      const marketValue = this.positionValue(securityId, newQuantity, currentMarketPrice, newAvgPrice);
+      const unrealizedPnL = newQuantity * (currentMarketPrice - newAvgPrice) * this.getMultiplier(securityId);
 
       // Update position in database
-      const updatedPosition = await prisma.position.upsert({
+      const updatedPosition = await this.db.position.upsert({
         where: {
           sessionId_userId_securityId: {
             sessionId: this.sessionId,
@@ -171,8 +405,17 @@ export class PortfolioEngine extends EventEmitter {
         }
       });
 
-      // Update user's cash balance
-      await this.updateCashBalance(userId, -tradeValue);
+      // Settle the trade's cash
+      const markedToMarket = this.contractTerms.get(securityId)?.markedToMarket;
+      if (!markedToMarket || realizedPnL !== 0) {
+        this.postCash(
+          userId,
+          markedToMarket ? realizedPnL : -tradeValue,
+          entryType,
+          `${quantityChange > 0 ? 'Bought' : 'Sold'} ${Math.abs(quantityChange)} ${securityId} @ ${tradePrice}`,
+          reference
+        );
+      }
 
       const position: Position = {
         userId,
@@ -207,19 +450,352 @@ export class PortfolioEngine extends EventEmitter {
   }
 
   /**
-   * Update user's cash balance
+   * Mark every open position in a marked-to-market contract to a settlement
+   * price. The change since each position's last mark is paid to or taken
+   * from the holder's cash and counted as realized, and the settlement
+   * price becomes the position's new basis.
+   */
+  async markToMarket(
+    securityId: string,
+    settlementPrice: number,
+    entryType: 'VARIATION_MARGIN' | 'FUTURES_SETTLEMENT' = 'VARIATION_MARGIN',
+    reference?: string
+  ): Promise<VariationPayment[]> {
+    const multiplier = this.getMultiplier(securityId);
+    const payments: VariationPayment[] = [];
+
+    try {
+      const positions = await this.db.position.findMany({
+        where: {
+          sessionId: this.sessionId,
+          securityId,
+          quantity: { not: 0 }
+        }
+      });
+
+      for (const position of positions) {
+        const amount = position.quantity * (settlementPrice - Number(position.avgPrice)) * multiplier;
+        if (amount !== 0) {
+          this.postCash(
+            position.userId,
+            amount,
+            entryType,
+            `${entryType === 'VARIATION_MARGIN' ? 'Variation margin' : 'Final settlement'} on ${position.quantity} ${securityId} @ ${settlementPrice}`,
+            reference
+          );
+        }
+
+        const updated = await this.db.position.update({
+          where: { id: position.id },
+          data: {
+            avgPrice: settlementPrice,
+            unrealizedPnL: 0,
+            realizedPnL: Number(position.realizedPnL) + amount
+          }
+        });
+        payments.push({ userId: position.userId, quantity: position.quantity, amount });
+
+        this.emit('positionUpdate', {
+          type: 'positionUpdate',
+          userId: position.userId,
+          sessionId: this.sessionId,
+          data: {
+            userId: position.userId,
+            sessionId: this.sessionId,
+            securityId,
+            quantity: position.quantity,
+            avgPrice: settlementPrice,
+            marketValue: 0,
+            unrealizedPnL: 0,
+            realizedPnL: Number(updated.realizedPnL),
+            lastUpdated: new Date()
+          },
+          timestamp: new Date()
+        } as PortfolioEvent);
+
+        await this.emitPortfolioSummary(position.userId);
+      }
+
+      this.marketPrices.set(securityId, settlementPrice);
+    } catch (error) {
+      console.error('Error marking positions to market:', error);
+      throw error;
+    }
+
+    return payments;
+  }
+
+  /**
+   * Charge a fee that is not part of a trade's value (borrow costs,
+   * commissions, auction payments and the like) against a user's cash
+   */
+  async chargeCash(
+    userId: string,
+    amount: number,
+    reason: string,
+    entryType: LedgerEntryType = 'FEE',
+    reference?: string
+  ): Promise<void> {
+    this.postCash(userId, -amount, entryType, reason, reference);
+    console.log(`Charged ${userId} $${amount.toFixed(2)}: ${reason}`);
+
+    if (entryType === 'AUCTION_PAYMENT') {
+      await this.addPrivilegeCosts(userId, amount);
+    }
+
+    await this.emitPortfolioSummary(userId);
+  }
+
+  /**
+   * Pay cash to a user outside trading (dividends, coupons and the like)
+   */
+  async creditCash(
+    userId: string,
+    amount: number,
+    reason: string,
+    entryType: LedgerEntryType = 'DIVIDEND',
+    reference?: string
+  ): Promise<void> {
+    this.postCash(userId, amount, entryType, reason, reference);
+    console.log(`Credited ${userId} $${amount.toFixed(2)}: ${reason}`);
+    await this.emitPortfolioSummary(userId);
+  }
+
+  /**
+   * Instructor correction to a user's cash; negative amounts take cash away
+   */
+  async adjustCash(userId: string, amount: number, reason: string, instructorId?: string): Promise<LedgerEntry> {
+    const entry = this.postCash(userId, amount, 'ADJUSTMENT', reason, instructorId);
+    console.log(`Adjusted ${userId} by $${amount.toFixed(2)}: ${reason}`);
+    await this.emitPortfolioSummary(userId);
+    return entry;
+  }
+
+  /**
+   * Pay for a privilege bought or leased from another student. The price
+   * counts towards the buyer's privilege costs and against the seller's.
+   */
+  async settlePrivilegeTransfer(
+    buyerId: string,
+    sellerId: string,
+    amount: number,
+    reason: string,
+    reference?: string
+  ): Promise<void> {
+    this.postCash(buyerId, -amount, 'PRIVILEGE_TRANSFER', reason, reference, sellerId);
+    console.log(`Transferred $${amount.toFixed(2)} from ${buyerId} to ${sellerId}: ${reason}`);
+
+    await this.addPrivilegeCosts(buyerId, amount);
+    await this.addPrivilegeCosts(sellerId, -amount);
+    await this.emitPortfolioSummary(buyerId);
+    await this.emitPortfolioSummary(sellerId);
+  }
+
+  private async addPrivilegeCosts(userId: string, amount: number): Promise<void> {
+    this.privilegeCosts.set(userId, this.getPrivilegeCosts(userId) + amount);
+    try {
+      await this.db.sessionUser.updateMany({
+        where: { sessionId: this.sessionId, userId },
+        data: { privilegeCosts: { increment: amount } }
+      });
+    } catch (error) {
+      console.error('Error recording privilege costs:', error);
+    }
+  }
+
+  /**
+   * Hold cash against an auction bid. Throws if the user cannot cover it.
+   */
+  escrowCash(userId: string, amount: number, reason: string, reference?: string): void {
+    if (amount > this.getCashBalance(userId)) {
+      throw new Error(`Insufficient cash: $${amount.toFixed(2)} needed, $${this.getCashBalance(userId).toFixed(2)} available`);
+    }
+
+    this.postCash(userId, -amount, 'AUCTION_ESCROW', reason, reference);
+    this.emitPortfolioSummary(userId);
+  }
+
+  /**
+   * Return escrowed cash to the user
+   */
+  releaseEscrow(userId: string, amount: number, reason: string, reference?: string): void {
+    this.postCash(userId, Math.min(amount, this.getEscrowedCash(userId)), 'AUCTION_REFUND', reason, reference);
+    this.emitPortfolioSummary(userId);
+  }
+
+  /**
+   * Post a change to a user's cash against the account the entry type
+   * settles with: the user's own escrow, another student's cash for
+   * privilege transfers, or a house account
+   */
+  private postCash(
+    userId: string,
+    amount: number,
+    entryType: LedgerEntryType,
+    description: string,
+    reference?: string,
+    counterpartyId?: string
+  ): LedgerEntry {
+    const account = COUNTERPARTY_ACCOUNTS[entryType];
+    const owner = account === 'ESCROW' ? userId : account === 'CASH' ? counterpartyId : undefined;
+    if (account === 'CASH' && !owner) {
+      throw new Error(`${entryType} entries need a counterparty`);
+    }
+
+    return this.post(entryType, description, [
+      { account: 'CASH', userId, amount },
+      { account, userId: owner, amount: -amount }
+    ], reference);
+  }
+
+  /**
+   * Append a balanced entry to the ledger and persist it
+   */
+  private post(entryType: LedgerEntryType, description: string, legs: LedgerLeg[], reference?: string): LedgerEntry {
+    const total = legs.reduce((sum, leg) => sum + leg.amount, 0);
+    if (Math.abs(total) > 1e-6) {
+      throw new Error(`Ledger entry does not balance: ${description} is off by ${total}`);
+    }
+
+    const sequence = this.nextSequence;
+    const entry: LedgerEntry = {
+      id: `ledger_${this.sessionId}_${sequence}`,
+      sequence,
+      type: entryType,
+      description,
+      reference,
+      legs,
+      timestamp: new Date()
+    };
+    this.applyEntry(entry);
+
+    this.db.ledgerEntry.create({
+      data: {
+        id: entry.id,
+        sessionId: this.sessionId,
+        sequence,
+        type: entryType,
+        description,
+        reference,
+        timestamp: entry.timestamp,
+        legs: { create: legs.map(leg => ({ account: leg.account, userId: leg.userId, amount: leg.amount })) }
+      }
+    }).catch((error: any) => console.error('Error recording ledger entry:', error));
+
+    return entry;
+  }
+
+  private applyEntry(entry: LedgerEntry): void {
+    for (const leg of entry.legs) {
+      if (leg.account === 'CASH' && leg.userId) {
+        this.openAccount(leg.userId, entry.timestamp);
+      }
+    }
+
+    for (const leg of entry.legs) {
+      const key = `${leg.account}:${leg.userId ?? ''}`;
+      this.accountBalances.set(key, (this.accountBalances.get(key) || 0) + leg.amount);
+    }
+
+    this.ledger.push(entry);
+    this.nextSequence = Math.max(this.nextSequence, entry.sequence + 1);
+  }
+
+  /**
+   * Open a user's cash account with starting cash the first time it is
+   * used. Opening balances follow from the session's starting cash, so
+   * they are not persisted.
+   */
+  private openAccount(userId: string, timestamp: Date = new Date()): void {
+    if (this.openedAccounts.has(userId)) return;
+    this.openedAccounts.add(userId);
+
+    this.applyEntry({
+      id: `opening_${this.sessionId}_${userId}`,
+      sequence: 0,
+      type: 'OPENING_BALANCE',
+      description: 'Starting cash',
+      legs: [
+        { account: 'CASH', userId, amount: STARTING_CASH },
+        { account: 'CAPITAL', amount: -STARTING_CASH }
+      ],
+      timestamp
+    });
+  }
+
+  private getAccountBalance(account: LedgerAccount, userId?: string): number {
+    return this.accountBalances.get(`${account}:${userId ?? ''}`) || 0;
+  }
+
+  /**
+   * Ledger entries touching a user's accounts (or all entries), oldest first
+   */
+  getLedger(userId?: string): LedgerEntry[] {
+    return userId ? this.ledger.filter(entry => entry.legs.some(leg => leg.userId === userId)) : [...this.ledger];
+  }
+
+  /**
+   * A user's cash statement: every entry that moved their cash with the
+   * account or student on the other side and the running balance
+   */
+  getStatement(userId: string): StatementLine[] {
+    this.openAccount(userId);
+
+    let balance = 0;
+    const lines: StatementLine[] = [];
+    for (const entry of this.ledger) {
+      const amount = entry.legs
+        .filter(leg => leg.account === 'CASH' && leg.userId === userId)
+        .reduce((sum, leg) => sum + leg.amount, 0);
+      if (amount === 0) continue;
+
+      const other = entry.legs.find(leg => !(leg.account === 'CASH' && leg.userId === userId))!;
+      balance += amount;
+      lines.push({
+        entryId: entry.id,
+        type: entry.type,
+        description: entry.description,
+        reference: entry.reference,
+        counterparty: other.account === 'CASH' && other.userId ? other.userId : other.account,
+        amount,
+        balance,
+        timestamp: entry.timestamp
+      });
+    }
+
+    return lines;
+  }
+
+  getEscrowedCash(userId: string): number {
+    return this.getAccountBalance('ESCROW', userId);
+  }
+
+  getPrivilegeCosts(userId: string): number {
+    return this.privilegeCosts.get(userId) || 0;
+  }
+
+  /**
+   * Commissions net of rebates, plus slippage, from the ledger
    */
-  private async updateCashBalance(userId: string, change: number): Promise<void> {
-    const currentBalance = this.userCashBalances.get(userId) || 100000;
-    const newBalance = currentBalance + change;
-    this.userCashBalances.set(userId, newBalance);
+  getTransactionCosts(userId: string): number {
+    let costs = 0;
+    for (const entry of this.ledger) {
+      if (entry.type !== 'COMMISSION' && entry.type !== 'SLIPPAGE') continue;
+      for (const leg of entry.legs) {
+        if (leg.account === 'CASH' && leg.userId === userId) {
+          costs -= leg.amount;
+        }
+      }
+    }
+    return costs;
   }
 
   /**
-   * Get user's current cash balance
+   * Get user's current cash balance from the ledger
    */
   getCashBalance(userId: string): number {
-    return this.userCashBalances.get(userId) || 100000;
+    this.openAccount(userId);
+    return this.getAccountBalance('CASH', userId);
   }
 
   /**
@@ -227,7 +803,7 @@ export class PortfolioEngine extends EventEmitter {
    */
   private async recalculatePositionPnL(securityId: string, newMarketPrice: number): Promise<void> {
     try {
-      const positions = await prisma.position.findMany({
+      const positions = await this.db.position.findMany({
         where: {
           sessionId: this.sessionId,
           securityId,
@@ -236,9 +812,9 @@ export class PortfolioEngine extends EventEmitter {
       });
 
       for (const position of positions) {
-        const unrealizedPnL = position.quantity * (newMarketPrice - Number(position.avgPrice));
+        const unrealizedPnL = position.quantity * (newMarketPrice - Number(position.avgPrice)) * this.getMultiplier(securityId);
         
-        await prisma.position.update({
+        await this.db.position.update({
           where: { id: position.id },
           data: { unrealizedPnL }
         });
@@ -270,7 +846,7 @@ export class PortfolioEngine extends EventEmitter {
    */
   async getPortfolioSummary(userId: string): Promise<PortfolioSummary> {
     try {
-      const positions = await prisma.position.findMany({
+      const positions = await this.db.position.findMany({
         where: {
           sessionId: this.sessionId,
           userId,
@@ -287,7 +863,7 @@ export class PortfolioEngine extends EventEmitter {
 
       const portfolioPositions: Position[] = positions.map(pos => {
         const marketPrice = this.getMarketPrice(pos.securityId);
-        const marketValue = pos.quantity * marketPrice;
+        const marketValue = this.positionValue(pos.securityId, pos.quantity, marketPrice, Number(pos.avgPrice));
         const unrealizedPnL = Number(pos.unrealizedPnL);
         const realizedPnL = Number(pos.realizedPnL);
 
@@ -309,7 +885,10 @@ export class PortfolioEngine extends EventEmitter {
       });
 
       const cashBalance = this.getCashBalance(userId);
-      totalValue += cashBalance;
+      const escrowedCash = this.getEscrowedCash(userId);
+      const privilegeCosts = this.getPrivilegeCosts(userId);
+      const transactionCosts = this.getTransactionCosts(userId);
+      totalValue += cashBalance + escrowedCash;
 
       return {
         userId,
@@ -317,8 +896,11 @@ export class PortfolioEngine extends EventEmitter {
         totalValue,
         totalUnrealizedPnL,
         totalRealizedPnL,
-        totalPnL: totalUnrealizedPnL + totalRealizedPnL,
+        totalPnL: totalUnrealizedPnL + totalRealizedPnL - privilegeCosts - transactionCosts,
         cashBalance,
+        escrowedCash,
+        privilegeCosts,
+        transactionCosts,
         positions: portfolioPositions,
         lastUpdated: new Date()
       };
@@ -353,7 +935,7 @@ export class PortfolioEngine extends EventEmitter {
    */
   async getAllPortfolioSummaries(): Promise<PortfolioSummary[]> {
     try {
-      const sessionUsers = await prisma.sessionUser.findMany({
+      const sessionUsers = await this.db.sessionUser.findMany({
         where: { sessionId: this.sessionId }
       });
 
@@ -374,15 +956,23 @@ export class PortfolioEngine extends EventEmitter {
   async resetUserPortfolio(userId: string): Promise<void> {
     try {
       // Delete all positions
-      await prisma.position.deleteMany({
+      await this.db.position.deleteMany({
         where: {
           sessionId: this.sessionId,
           userId
         }
       });
 
-      // Reset cash balance
-      this.userCashBalances.set(userId, 100000);
+      // Return any escrow and bring cash back to the starting amount
+      const escrowed = this.getEscrowedCash(userId);
+      if (escrowed > 0) {
+        this.postCash(userId, escrowed, 'AUCTION_REFUND', 'Bids returned on portfolio reset');
+      }
+      const correction = STARTING_CASH - this.getCashBalance(userId);
+      if (correction !== 0) {
+        this.postCash(userId, correction, 'ADJUSTMENT', 'Portfolio reset');
+      }
+      this.privilegeCosts.delete(userId);
 
       console.log(`Portfolio reset for user ${userId}`);
     } catch (error) {
@@ -25,6 +25,25 @@ export interface UserPrivilege {
   expiresAt?: Date;
   auctionWon?: boolean;
   bidAmount?: number;
+  leasedFrom?: string; // owner the privilege returns to when the lease ends
+  leaseEndsAt?: Date;
+}
+
+/**
+ * A held privilege offered to classmates, either outright or as a lease that
+ * hands it back to the seller after leaseSeconds of session time
+ */
+export interface PrivilegeListing {
+  id: string;
+  privilegeId: number;
+  sellerId: string;
+  kind: 'SALE' | 'LEASE';
+  price: number;
+  leaseSeconds?: number;
+  status: 'OPEN' | 'FILLED' | 'CANCELLED';
+  buyerId?: string;
+  createdAt: Date;
+  filledAt?: Date;
 }
 
 export interface PrivilegeGrant {
@@ -36,30 +55,151 @@ export interface PrivilegeGrant {
   auctionDuration?: number;
 }
 
+/**
+ * ENGLISH: open ascending bids with a minimum raise; late bids extend the close
+ * DUTCH: descending price clock; each acceptance takes a right at the clock price
+ * SEALED_FIRST / SEALED_SECOND: hidden bids; the winner pays their own bid or the runner-up's
+ * RIGHTS: ascending price clock for several rights; everyone still in pays one uniform price
+ */
+export type PrivilegeAuctionType = 'ENGLISH' | 'DUTCH' | 'SEALED_FIRST' | 'SEALED_SECOND' | 'RIGHTS';
+
+export const PRIVILEGE_AUCTION_TYPES: PrivilegeAuctionType[] = ['ENGLISH', 'DUTCH', 'SEALED_FIRST', 'SEALED_SECOND', 'RIGHTS'];
+
 export interface PrivilegeAuction {
   id: string;
   privilegeId: number;
   sessionId: string;
+  type: PrivilegeAuctionType;
   startTime: Date;
   endTime: Date;
-  minBid: number;
+  minBid: number; // reserve: English opening bid, Dutch floor, RIGHTS starting price
+  units: number; // rights on offer, capped by the privilege's free holder slots
+  increment: number;
+  intervalSeconds: number; // clock round length (DUTCH, RIGHTS)
+  softCloseSeconds: number; // ENGLISH extension window
+  currentPrice: number; // ENGLISH high bid, or the DUTCH/RIGHTS clock price
+  round: number;
+  roundStartTime: Date;
   bids: PrivilegeBid[];
   status: 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
   winnerId?: string;
   winningBid?: number;
+  winners?: AuctionAward[];
+  eligibleUsers?: string[];
+  dbAuctionId?: string;
 }
 
 export interface PrivilegeBid {
   userId: string;
   amount: number;
   timestamp: Date;
+  round?: number;
+}
+
+export interface AuctionAward {
+  userId: string;
+  price: number;
+}
+
+export interface PrivilegeAuctionOptions {
+  type?: PrivilegeAuctionType;
+  available?: number;
+  startPrice?: number; // DUTCH only, defaults to DEFAULT_CLOCK_STEPS increments above the floor
+  increment?: number;
+  intervalSeconds?: number;
+  softCloseSeconds?: number;
+  eligibleUsers?: string[];
+  dbAuctionId?: string; // existing Auction row to record rounds and bids against
+}
+
+export interface LessonAuction {
+  privilegeId: number;
+  minBid: number;
+  durationSeconds: number;
+  options: PrivilegeAuctionOptions;
 }
 
 import { PRIVILEGE_DEFINITIONS as LEGACY_PRIVILEGE_DEFINITIONS, getPrivilegeByCode } from './privilege-definitions';
+import { getSessionJournal } from './session-journal';
+import { getSessionClock, ClockTimer } from './session-clock';
+import { prisma } from './prisma';
+import { getPortfolioEngine } from './portfolio-engine';
+import { authzService } from './auth';
+
+// Clock auctions that never settle are closed after this many rounds
+export const MAX_AUCTION_ROUNDS = 20;
+const DEFAULT_SOFT_CLOSE_SECONDS = 10;
+const DEFAULT_CLOCK_STEPS = 10; // Dutch start price and round length when not given
+
+export function isSealedAuction(auction: Pick<PrivilegeAuction, 'type'>): boolean {
+  return auction.type === 'SEALED_FIRST' || auction.type === 'SEALED_SECOND';
+}
+
+function roundPrice(price: number): number {
+  return Math.round(price * 100) / 100;
+}
+
+/**
+ * Normalize an auction type name from a lesson or request
+ */
+export function parseAuctionType(value: unknown): PrivilegeAuctionType | undefined {
+  const name = String(value ?? '').trim().toUpperCase().replace(/[\s-]+/g, '_');
+  switch (name) {
+    case 'SEALED':
+    case 'FIRST_PRICE':
+      return 'SEALED_FIRST';
+    case 'VICKREY':
+    case 'SECOND_PRICE':
+      return 'SEALED_SECOND';
+    default:
+      return PRIVILEGE_AUCTION_TYPES.find(type => type === name);
+  }
+}
+
+/**
+ * Map a legacy "Create Auction" command (privilege, available, initial price,
+ * increment, interval seconds[, type]) onto an auction. Without a type the
+ * command describes a rights auction, which is what upTick ran.
+ */
+export function parseLessonAuction(parameters: any[]): LessonAuction {
+  const privilegeId = Number(parameters[0]);
+  const available = Number(parameters[1]) || 1;
+  const initialPrice = Number(parameters[2]) || 0;
+  const increment = Number(parameters[3]) || 1;
+  const intervalSeconds = Number(parameters[4]) || 30;
+  const type = parseAuctionType(parameters[5]) || 'RIGHTS';
+
+  switch (type) {
+    case 'DUTCH':
+      return {
+        privilegeId,
+        minBid: increment,
+        durationSeconds: intervalSeconds * MAX_AUCTION_ROUNDS,
+        options: { type, available, startPrice: initialPrice, increment, intervalSeconds }
+      };
+    case 'RIGHTS':
+      return {
+        privilegeId,
+        minBid: initialPrice,
+        durationSeconds: intervalSeconds * MAX_AUCTION_ROUNDS,
+        options: { type, available, increment, intervalSeconds }
+      };
+    default:
+      return {
+        privilegeId,
+        minBid: initialPrice,
+        durationSeconds: intervalSeconds,
+        options: { type, increment }
+      };
+  }
+}
 
 // Enhanced privilege definitions mapped from legacy upTick system
 export const PRIVILEGE_DEFINITIONS: Record<number, PrivilegeDefinition> = {};
 
+// Holders are the session's $MarketMakers and carry quoting obligations
+export const MARKET_MAKING_PRIVILEGE = 22;
+
 // Initialize privilege definitions from the comprehensive definitions file
 LEGACY_PRIVILEGE_DEFINITIONS.forEach(legacyPriv => {
   const category = mapLegacyCategory(legacyPriv.category);
@@ -142,6 +282,10 @@ function getMutuallyExclusive(privilegeId: number): number[] | undefined {
 export class PrivilegeSystem {
   private userPrivileges: Map<string, Map<number, UserPrivilege>> = new Map();
   private activeAuctions: Map<string, PrivilegeAuction> = new Map();
+  private auctionTimers: Map<string, ClockTimer> = new Map();
+  private auctionRecords: Map<string, Promise<string | undefined>> = new Map();
+  private listings: Map<string, PrivilegeListing> = new Map();
+  private leaseTimers: Map<string, ClockTimer> = new Map();
   private sessionId: string;
   private eventEmitter: any;
 
@@ -198,6 +342,7 @@ export class PrivilegeSystem {
       };
 
       userPrivileges.set(privilegeId, grant);
+      getSessionJournal(this.sessionId).append('PRIVILEGE_GRANTED', { userId, privilegeCodes: [privilegeId], grantedBy });
 
       // Emit privilege granted event
       this.eventEmitter?.emit('privilege_granted', {
@@ -227,6 +372,18 @@ export class PrivilegeSystem {
       if (userPrivileges.has(privilegeId)) {
         userPrivileges.delete(privilegeId);
 
+        const leaseKey = `${userId}:${privilegeId}`;
+        getSessionClock(this.sessionId).clear(this.leaseTimers.get(leaseKey));
+        this.leaseTimers.delete(leaseKey);
+
+        for (const listing of this.listings.values()) {
+          if (listing.status === 'OPEN' && listing.sellerId === userId && listing.privilegeId === privilegeId) {
+            listing.status = 'CANCELLED';
+            this.eventEmitter?.emit('privilege_listing_cancelled', { listingId: listing.id, privilegeId, sellerId: userId });
+          }
+        }
+        getSessionJournal(this.sessionId).append('PRIVILEGE_REVOKED', { userId, privilegeCodes: [privilegeId], revokedBy });
+
         // Emit privilege revoked event
         this.eventEmitter?.emit('privilege_revoked', {
           userId,
@@ -298,13 +455,14 @@ export class PrivilegeSystem {
   }
 
   /**
-   * Start privilege auction
+   * Start privilege auction. The number of rights on offer is capped by the
+   * privilege's remaining holder slots.
    */
   startPrivilegeAuction(
     privilegeId: number,
     minBid: number,
     durationSeconds: number,
-    eligibleUsers?: string[]
+    options: PrivilegeAuctionOptions = {}
   ): string {
     const privilege = PRIVILEGE_DEFINITIONS[privilegeId];
     if (!privilege) {
@@ -315,40 +473,69 @@ export class PrivilegeSystem {
       throw new Error(`Privilege ${privilegeId} is not auctionable`);
     }
 
+    const type = options.type || 'ENGLISH';
+    const increment = options.increment && options.increment > 0 ? options.increment : 1;
+    const multiUnit = type === 'DUTCH' || type === 'RIGHTS';
+    const intervalSeconds = options.intervalSeconds && options.intervalSeconds > 0
+      ? options.intervalSeconds
+      : multiUnit ? Math.max(1, durationSeconds / DEFAULT_CLOCK_STEPS) : durationSeconds;
+
+    let units = multiUnit ? Math.max(1, Math.floor(options.available || 1)) : 1;
+    if (privilege.maxHolders) {
+      units = Math.min(units, privilege.maxHolders - this.getPrivilegeHolders(privilegeId).length);
+    }
+    if (units < 1) {
+      throw new Error(`Maximum holders (${privilege.maxHolders}) reached for privilege ${privilegeId}`);
+    }
+
+    const clock = getSessionClock(this.sessionId);
     const auctionId = `auction_${this.sessionId}_${privilegeId}_${Date.now()}`;
     const auction: PrivilegeAuction = {
       id: auctionId,
       privilegeId,
       sessionId: this.sessionId,
-      startTime: new Date(),
-      endTime: new Date(Date.now() + durationSeconds * 1000),
+      type,
+      startTime: clock.date(),
+      endTime: new Date(clock.now() + durationSeconds * 1000),
       minBid,
+      units,
+      increment,
+      intervalSeconds,
+      softCloseSeconds: options.softCloseSeconds ?? DEFAULT_SOFT_CLOSE_SECONDS,
+      currentPrice: type === 'DUTCH' ? roundPrice(options.startPrice ?? minBid + increment * DEFAULT_CLOCK_STEPS) : minBid,
+      round: 1,
+      roundStartTime: clock.date(),
       bids: [],
-      status: 'ACTIVE'
+      status: 'ACTIVE',
+      eligibleUsers: options.eligibleUsers,
+      dbAuctionId: options.dbAuctionId
     };
 
     this.activeAuctions.set(auctionId, auction);
+    this.recordAuctionStart(auction);
 
     // Emit auction started event
     this.eventEmitter?.emit('auction_started', {
       auctionId,
       privilegeId,
       privilegeName: privilege.name,
+      type,
+      units,
       minBid,
+      startPrice: auction.currentPrice,
+      increment,
       duration: durationSeconds,
-      eligibleUsers
+      eligibleUsers: options.eligibleUsers
     });
 
-    // Schedule auction end
-    setTimeout(() => {
-      this.endAuction(auctionId);
-    }, durationSeconds * 1000);
+    this.scheduleAuctionTimer(auction);
 
     return auctionId;
   }
 
   /**
-   * Place bid in privilege auction
+   * Place bid in privilege auction. In a Dutch or rights auction a bid accepts
+   * the current clock price, whatever amount is offered above it.
    */
   placeBid(auctionId: string, userId: string, amount: number): boolean {
     const auction = this.activeAuctions.get(auctionId);
@@ -360,99 +547,503 @@ export class PrivilegeSystem {
       throw new Error(`Auction ${auctionId} is not active`);
     }
 
-    if (new Date() > auction.endTime) {
+    const clock = getSessionClock(this.sessionId);
+    if (clock.now() > auction.endTime.getTime()) {
       throw new Error(`Auction ${auctionId} has ended`);
     }
 
-    if (amount < auction.minBid) {
-      throw new Error(`Bid amount ${amount} is below minimum ${auction.minBid}`);
+    this.checkBidder(auction, userId);
+
+    // The bid is held from the bidder's cash until the auction settles
+    const escrowBefore = this.standingEscrow(auction);
+    const hold = auction.type === 'DUTCH' || auction.type === 'RIGHTS' ? auction.currentPrice : amount;
+    const available = getPortfolioEngine(this.sessionId).getCashBalance(userId) + (escrowBefore.get(userId) || 0);
+    if (hold > available) {
+      throw new Error(`Insufficient cash for bid of ${hold}`);
     }
 
-    // Check if user already has a bid
-    const existingBidIndex = auction.bids.findIndex(bid => bid.userId === userId);
-    if (existingBidIndex > -1) {
-      // Update existing bid
-      if (amount <= auction.bids[existingBidIndex].amount) {
-        throw new Error(`New bid must be higher than current bid`);
+    const timestamp = clock.date();
+    let bid: PrivilegeBid;
+
+    switch (auction.type) {
+      case 'ENGLISH': {
+        const required = auction.bids.length > 0 ? roundPrice(auction.currentPrice + auction.increment) : auction.minBid;
+        if (amount < required) {
+          throw new Error(`Bid must be at least ${required}`);
+        }
+        bid = { userId, amount, timestamp, round: auction.round };
+        auction.bids = [bid, ...auction.bids.filter(existing => existing.userId !== userId)];
+        auction.currentPrice = amount;
+
+        // Soft close: a bid in the final window pushes the close back
+        if (auction.endTime.getTime() - clock.now() < auction.softCloseSeconds * 1000) {
+          auction.endTime = new Date(clock.now() + auction.softCloseSeconds * 1000);
+          this.scheduleAuctionTimer(auction);
+          this.eventEmitter?.emit('auction_extended', { auctionId, endTime: auction.endTime });
+        }
+        break;
       }
-      auction.bids[existingBidIndex] = { userId, amount, timestamp: new Date() };
+
+      case 'SEALED_FIRST':
+      case 'SEALED_SECOND':
+        if (amount < auction.minBid) {
+          throw new Error(`Bid amount ${amount} is below minimum ${auction.minBid}`);
+        }
+        // A sealed bid can be revised either way until the close
+        bid = { userId, amount, timestamp, round: auction.round };
+        auction.bids = [...auction.bids.filter(existing => existing.userId !== userId), bid];
+        break;
+
+      case 'DUTCH':
+        if (amount < auction.currentPrice) {
+          throw new Error(`Bid must accept the current price of ${auction.currentPrice}`);
+        }
+        if (auction.bids.some(existing => existing.userId === userId)) {
+          throw new Error(`User ${userId} has already won a right in this auction`);
+        }
+        bid = { userId, amount: auction.currentPrice, timestamp, round: auction.round };
+        auction.bids.push(bid);
+        break;
+
+      case 'RIGHTS':
+        if (amount < auction.currentPrice) {
+          throw new Error(`Bid must accept the current price of ${auction.currentPrice}`);
+        }
+        if (auction.round > 1 && !this.roundBids(auction, auction.round - 1).some(existing => existing.userId === userId)) {
+          throw new Error(`User ${userId} dropped out of this auction in an earlier round`);
+        }
+        if (this.roundBids(auction, auction.round).some(existing => existing.userId === userId)) {
+          throw new Error(`User ${userId} is already bidding in round ${auction.round}`);
+        }
+        bid = { userId, amount: auction.currentPrice, timestamp, round: auction.round };
+        auction.bids.push(bid);
+        break;
+    }
+
+    this.adjustEscrow(auction, escrowBefore);
+    getSessionJournal(this.sessionId).append('AUCTION_BID', { auctionId, userId, amount: bid.amount });
+    this.recordAuction(auction, dbAuctionId => prisma.auctionBid.create({
+      data: { auctionId: dbAuctionId, userId, amount: bid.amount, timestamp }
+    }));
+
+    // Emit bid placed event; sealed auctions only reveal that a bid came in
+    if (isSealedAuction(auction)) {
+      this.eventEmitter?.emit('bid_placed', {
+        auctionId,
+        userId,
+        type: auction.type,
+        totalBids: auction.bids.length
+      });
     } else {
-      // Add new bid
-      auction.bids.push({ userId, amount, timestamp: new Date() });
+      this.eventEmitter?.emit('bid_placed', {
+        auctionId,
+        userId,
+        amount: bid.amount,
+        type: auction.type,
+        round: auction.round,
+        currentPrice: auction.currentPrice,
+        currentHighBid: auction.type === 'ENGLISH' ? auction.bids[0]?.amount : undefined,
+        currentLeader: auction.type === 'ENGLISH' ? auction.bids[0]?.userId : undefined
+      });
     }
 
-    // Sort bids by amount (highest first)
-    auction.bids.sort((a, b) => b.amount - a.amount);
+    // A Dutch auction is over once every right has been taken
+    if (auction.type === 'DUTCH' && auction.bids.length >= auction.units) {
+      this.endAuction(auctionId).catch(error => {
+        console.error('Error ending privilege auction:', error);
+      });
+    }
 
-    // Emit bid placed event
-    this.eventEmitter?.emit('bid_placed', {
-      auctionId,
-      userId,
-      amount,
-      currentHighBid: auction.bids[0]?.amount,
-      currentLeader: auction.bids[0]?.userId
+    return true;
+  }
+
+  /**
+   * Reject bidders who could not be granted the privilege if they won
+   */
+  private checkBidder(auction: PrivilegeAuction, userId: string): void {
+    if (auction.eligibleUsers && !auction.eligibleUsers.includes(userId)) {
+      throw new Error(`User ${userId} is not eligible for auction ${auction.id}`);
+    }
+
+    this.checkAcquirer(userId, auction.privilegeId);
+  }
+
+  /**
+   * Reject users who could not be granted the privilege
+   */
+  private checkAcquirer(userId: string, privilegeId: number): void {
+    if (this.hasPrivilege(userId, privilegeId)) {
+      throw new Error(`User ${userId} already holds privilege ${privilegeId}`);
+    }
+
+    if (!this.checkPrerequisites(userId, privilegeId)) {
+      throw new Error(`User ${userId} does not meet prerequisites for privilege ${privilegeId}`);
+    }
+
+    for (const exclusiveId of PRIVILEGE_DEFINITIONS[privilegeId].mutuallyExclusive || []) {
+      if (this.hasPrivilege(userId, exclusiveId)) {
+        throw new Error(`User ${userId} has mutually exclusive privilege ${exclusiveId}`);
+      }
+    }
+  }
+
+  /**
+   * Cash each bidder has held against the auction: the leading bid in an
+   * English auction, every standing sealed bid, every Dutch acceptance and
+   * each rights bidder's latest round
+   */
+  private standingEscrow(auction: PrivilegeAuction): Map<string, number> {
+    const escrow = new Map<string, number>();
+
+    if (auction.type === 'ENGLISH') {
+      if (auction.bids[0]) escrow.set(auction.bids[0].userId, auction.bids[0].amount);
+      return escrow;
+    }
+
+    // Later bids replace earlier ones
+    [...auction.bids]
+      .sort((a, b) => (a.round ?? 1) - (b.round ?? 1) || a.timestamp.getTime() - b.timestamp.getTime())
+      .forEach(bid => escrow.set(bid.userId, bid.amount));
+    return escrow;
+  }
+
+  /**
+   * Move cash in or out of escrow to match the auction's standing bids
+   */
+  private adjustEscrow(auction: PrivilegeAuction, before: Map<string, number>, after = this.standingEscrow(auction)): void {
+    const portfolioEngine = getPortfolioEngine(this.sessionId);
+    const privilegeName = PRIVILEGE_DEFINITIONS[auction.privilegeId].name;
+    const userIds = new Set([...before.keys(), ...after.keys()]);
+
+    userIds.forEach(userId => {
+      const change = (after.get(userId) || 0) - (before.get(userId) || 0);
+      if (change > 0) {
+        portfolioEngine.escrowCash(userId, change, `Bid held for ${privilegeName} auction`, auction.id);
+      } else if (change < 0) {
+        portfolioEngine.releaseEscrow(userId, -change, `Bid returned from ${privilegeName} auction`, auction.id);
+      }
     });
+  }
 
-    return true;
+  private roundBids(auction: PrivilegeAuction, round: number): PrivilegeBid[] {
+    return auction.bids.filter(bid => (bid.round ?? 1) === round);
   }
 
   /**
-   * End privilege auction and grant to winner
+   * Arm the timer for the auction's next event: the end of the current clock
+   * round, or the close
    */
-  private endAuction(auctionId: string): void {
+  private scheduleAuctionTimer(auction: PrivilegeAuction): void {
+    const clock = getSessionClock(this.sessionId);
+    clock.clear(this.auctionTimers.get(auction.id));
+
+    const clockAuction = auction.type === 'DUTCH' || auction.type === 'RIGHTS';
+    const dueAt = clockAuction
+      ? Math.min(auction.roundStartTime.getTime() + auction.intervalSeconds * 1000, auction.endTime.getTime())
+      : auction.endTime.getTime();
+
+    this.auctionTimers.set(auction.id, clock.setTimeout(() => {
+      this.auctionTimers.delete(auction.id);
+      if (clockAuction) {
+        this.endRound(auction.id);
+      } else {
+        this.endAuction(auction.id).catch(error => {
+          console.error('Error ending privilege auction:', error);
+        });
+      }
+    }, Math.max(0, dueAt - clock.now())));
+  }
+
+  /**
+   * Close a clock round: a Dutch clock steps down towards its floor, a rights
+   * clock steps up while more students are bidding than there are rights
+   */
+  private endRound(auctionId: string): void {
     const auction = this.activeAuctions.get(auctionId);
     if (!auction || auction.status !== 'ACTIVE') {
       return;
     }
 
-    auction.status = 'COMPLETED';
+    const clock = getSessionClock(this.sessionId);
+    const timedOut = clock.now() >= auction.endTime.getTime();
+    this.recordRound(auction);
 
-    if (auction.bids.length > 0) {
-      const winningBid = auction.bids[0];
-      auction.winnerId = winningBid.userId;
-      auction.winningBid = winningBid.amount;
+    if (auction.type === 'DUTCH') {
+      if (timedOut || auction.currentPrice <= auction.minBid) {
+        this.endAuction(auctionId, true).catch(error => {
+          console.error('Error ending privilege auction:', error);
+        });
+        return;
+      }
+      auction.currentPrice = roundPrice(Math.max(auction.minBid, auction.currentPrice - auction.increment));
+    } else {
+      if (timedOut || this.roundBids(auction, auction.round).length <= auction.units) {
+        this.endAuction(auctionId, true).catch(error => {
+          console.error('Error ending privilege auction:', error);
+        });
+        return;
+      }
+      auction.currentPrice = roundPrice(auction.currentPrice + auction.increment);
+    }
 
-      // Grant privilege to winner
-      try {
-        this.grantPrivilege(auction.privilegeId, [winningBid.userId], 'AUCTION_SYSTEM');
+    auction.round++;
+    auction.roundStartTime = clock.date();
 
-        // Mark as auction won
-        const userPrivileges = this.getUserPrivileges(winningBid.userId);
-        const privilege = userPrivileges.get(auction.privilegeId);
-        if (privilege) {
-          privilege.auctionWon = true;
-          privilege.bidAmount = winningBid.amount;
+    this.eventEmitter?.emit('auction_round', {
+      auctionId,
+      privilegeId: auction.privilegeId,
+      type: auction.type,
+      round: auction.round,
+      price: auction.currentPrice,
+      endTime: new Date(Math.min(clock.now() + auction.intervalSeconds * 1000, auction.endTime.getTime()))
+    });
+
+    this.scheduleAuctionTimer(auction);
+  }
+
+  /**
+   * Work out who won and what each pays
+   */
+  private determineAwards(auction: PrivilegeAuction): AuctionAward[] {
+    const byAmount = [...auction.bids].sort((a, b) =>
+      b.amount - a.amount || a.timestamp.getTime() - b.timestamp.getTime()
+    );
+
+    switch (auction.type) {
+      case 'ENGLISH':
+      case 'SEALED_FIRST':
+        return byAmount.slice(0, 1).map(bid => ({ userId: bid.userId, price: bid.amount }));
+
+      case 'SEALED_SECOND':
+        return byAmount.slice(0, 1).map(bid => ({
+          userId: bid.userId,
+          price: Math.max(auction.minBid, byAmount[1]?.amount ?? auction.minBid)
+        }));
+
+      case 'DUTCH':
+        return auction.bids.map(bid => ({ userId: bid.userId, price: bid.amount }));
+
+      case 'RIGHTS': {
+        // Everyone still in wins at the final price. If demand fell below the
+        // rights on offer, the rest go to the last round's drop-outs in bid
+        // order and the uniform price falls back to the price they accepted.
+        const byTime = (a: PrivilegeBid, b: PrivilegeBid) => a.timestamp.getTime() - b.timestamp.getTime();
+        const winners = this.roundBids(auction, auction.round).sort(byTime).slice(0, auction.units);
+        let price = auction.currentPrice;
+
+        if (winners.length < auction.units && auction.round > 1) {
+          const dropOuts = this.roundBids(auction, auction.round - 1)
+            .filter(bid => !winners.some(winner => winner.userId === bid.userId))
+            .sort(byTime)
+            .slice(0, auction.units - winners.length);
+          if (dropOuts.length > 0) {
+            winners.push(...dropOuts);
+            price = dropOuts[0].amount;
+          }
         }
 
-        // Emit auction completed event
-        this.eventEmitter?.emit('auction_completed', {
-          auctionId,
-          privilegeId: auction.privilegeId,
-          privilegeName: PRIVILEGE_DEFINITIONS[auction.privilegeId].name,
-          winnerId: winningBid.userId,
-          winningBid: winningBid.amount,
-          totalBids: auction.bids.length
-        });
-      } catch (error) {
-        console.error('Failed to grant privilege to auction winner:', error);
-        auction.status = 'CANCELLED';
+        return winners.map(bid => ({ userId: bid.userId, price }));
       }
-    } else {
+    }
+  }
+
+  /**
+   * End privilege auction and grant to the winners. A winner keeps the
+   * privilege only once their payment has been posted.
+   */
+  private async endAuction(auctionId: string, roundRecorded = false): Promise<void> {
+    const auction = this.activeAuctions.get(auctionId);
+    if (!auction || auction.status !== 'ACTIVE') {
+      return;
+    }
+
+    const clock = getSessionClock(this.sessionId);
+    clock.clear(this.auctionTimers.get(auctionId));
+    this.auctionTimers.delete(auctionId);
+
+    if (!roundRecorded) {
+      this.recordRound(auction);
+    }
+
+    auction.status = 'COMPLETED';
+    const privilegeName = PRIVILEGE_DEFINITIONS[auction.privilegeId].name;
+    const awards = this.determineAwards(auction);
+
+    // Return every held bid; winners are then charged what they owe
+    this.adjustEscrow(auction, this.standingEscrow(auction), new Map());
+
+    if (awards.length === 0) {
       // No bids - auction failed
+      this.recordAuctionEnd(auction);
       this.eventEmitter?.emit('auction_failed', {
         auctionId,
         privilegeId: auction.privilegeId,
-        privilegeName: PRIVILEGE_DEFINITIONS[auction.privilegeId].name,
+        privilegeName,
         reason: 'No bids received'
       });
+      return;
+    }
+
+    // Grant privilege to each winner
+    const winners: AuctionAward[] = [];
+    for (const award of awards) {
+      try {
+        this.grantPrivilege(auction.privilegeId, [award.userId], 'AUCTION_SYSTEM');
+      } catch (error) {
+        console.error('Failed to grant privilege to auction winner:', error);
+        continue;
+      }
+
+      try {
+        await getPortfolioEngine(this.sessionId).chargeCash(
+          award.userId,
+          award.price,
+          `${privilegeName} won at auction`,
+          'AUCTION_PAYMENT',
+          auctionId
+        );
+      } catch (error) {
+        // An unpaid win does not stand
+        console.error('Failed to charge auction winner:', error);
+        this.revokePrivilege(auction.privilegeId, [award.userId], 'AUCTION_PAYMENT_FAILED');
+        continue;
+      }
+
+      // Session recovery rebuilds privileges from UserPrivilege, so a paid
+      // win is written there as well
+      try {
+        await authzService.grantPrivileges(this.sessionId, award.userId, [auction.privilegeId]);
+      } catch (error) {
+        console.error('Failed to record privilege for auction winner:', error);
+      }
+
+      // Mark as auction won
+      const privilege = this.getUserPrivileges(award.userId).get(auction.privilegeId);
+      if (privilege) {
+        privilege.auctionWon = true;
+        privilege.bidAmount = award.price;
+      }
+      winners.push(award);
+    }
+
+    if (winners.length === 0) {
+      auction.status = 'CANCELLED';
+      this.recordAuctionEnd(auction);
+      return;
     }
+
+    auction.winners = winners;
+    auction.winnerId = winners[0].userId;
+    auction.winningBid = winners[0].price;
+    this.recordAuctionEnd(auction);
+
+    // Emit auction completed event
+    this.eventEmitter?.emit('auction_completed', {
+      auctionId,
+      privilegeId: auction.privilegeId,
+      privilegeName,
+      type: auction.type,
+      winnerId: auction.winnerId,
+      winningBid: auction.winningBid,
+      winners,
+      totalBids: auction.bids.length
+    });
   }
 
   /**
-   * Get active auctions
+   * Chain a database write behind the auction's earlier ones. Auctions that
+   * could not be recorded (no database session) skip their writes.
+   */
+  private recordAuction(auction: PrivilegeAuction, write: (dbAuctionId: string) => Promise<unknown>): void {
+    const pending = this.auctionRecords.get(auction.id);
+    if (!pending) return;
+
+    this.auctionRecords.set(auction.id, pending.then(async dbAuctionId => {
+      if (!dbAuctionId) return dbAuctionId;
+      try {
+        await write(dbAuctionId);
+      } catch (error) {
+        console.error(`Failed to record auction ${auction.id}:`, error);
+      }
+      return dbAuctionId;
+    }));
+  }
+
+  private recordAuctionStart(auction: PrivilegeAuction): void {
+    const data = {
+      status: 'ACTIVE' as const,
+      type: auction.type,
+      startTime: auction.startTime,
+      endTime: auction.endTime
+    };
+
+    const record = auction.dbAuctionId
+      ? prisma.auction.update({ where: { id: auction.dbAuctionId }, data }).then(() => auction.dbAuctionId)
+      : prisma.auction.create({
+          data: {
+            ...data,
+            sessionId: this.sessionId,
+            privilegeType: auction.privilegeId,
+            available: auction.units,
+            initialPrice: auction.currentPrice,
+            reservePrice: auction.minBid,
+            increment: auction.increment,
+            intervalSeconds: auction.intervalSeconds
+          }
+        }).then((created: { id: string }) => {
+          auction.dbAuctionId = created.id;
+          return created.id;
+        });
+
+    this.auctionRecords.set(auction.id, record.catch((error: unknown) => {
+      console.error(`Failed to record auction ${auction.id}:`, error);
+      return undefined;
+    }));
+  }
+
+  private recordRound(auction: PrivilegeAuction): void {
+    const endTime = getSessionClock(this.sessionId).date();
+    const round = {
+      round: auction.round,
+      price: auction.currentPrice,
+      bidders: this.roundBids(auction, auction.round).length,
+      duration: Math.round((endTime.getTime() - auction.roundStartTime.getTime()) / 1000),
+      startTime: auction.roundStartTime,
+      endTime
+    };
+
+    this.recordAuction(auction, dbAuctionId => prisma.auctionRound.create({
+      data: { auctionId: dbAuctionId, ...round }
+    }));
+  }
+
+  private recordAuctionEnd(auction: PrivilegeAuction): void {
+    const winners = auction.winners || [];
+    const endTime = getSessionClock(this.sessionId).date();
+
+    this.recordAuction(auction, async dbAuctionId => {
+      for (const winner of winners) {
+        const winningBid = [...auction.bids].reverse().find(bid => bid.userId === winner.userId);
+        await prisma.auctionBid.updateMany({
+          where: { auctionId: dbAuctionId, userId: winner.userId, amount: winningBid?.amount },
+          data: { isWinner: true }
+        });
+      }
+      await prisma.auction.update({
+        where: { id: dbAuctionId },
+        data: { status: auction.status, endTime }
+      });
+    });
+  }
+
+  /**
+   * Get active auctions. Sealed auctions come back without their bids so the
+   * result can go straight to students.
    */
   getActiveAuctions(): PrivilegeAuction[] {
-    return Array.from(this.activeAuctions.values()).filter(a => a.status === 'ACTIVE');
+    return Array.from(this.activeAuctions.values())
+      .filter(a => a.status === 'ACTIVE')
+      .map(a => isSealedAuction(a) ? { ...a, bids: [] } : a);
   }
 
   /**
@@ -462,6 +1053,248 @@ export class PrivilegeSystem {
     return this.activeAuctions.get(auctionId);
   }
 
+  /**
+   * List a held privilege for sale or lease to classmates
+   */
+  listPrivilege(
+    sellerId: string,
+    privilegeId: number,
+    kind: PrivilegeListing['kind'],
+    price: number,
+    leaseSeconds?: number
+  ): PrivilegeListing {
+    const privilege = PRIVILEGE_DEFINITIONS[privilegeId];
+    if (!privilege) {
+      throw new Error(`Unknown privilege ID: ${privilegeId}`);
+    }
+
+    if (privilege.category === 'ADMIN') {
+      throw new Error(`Privilege ${privilegeId} cannot be traded`);
+    }
+
+    if (!this.hasPrivilege(sellerId, privilegeId)) {
+      throw new Error(`User ${sellerId} does not hold privilege ${privilegeId}`);
+    }
+
+    if (this.getUserPrivileges(sellerId).get(privilegeId)?.leasedFrom) {
+      throw new Error(`A leased privilege cannot be listed`);
+    }
+
+    if (!(price >= 0)) {
+      throw new Error('Price must be zero or more');
+    }
+
+    if (kind === 'LEASE' && !(leaseSeconds && leaseSeconds > 0)) {
+      throw new Error('A lease needs a length in seconds');
+    }
+
+    // Giving it up must not strand another privilege that depends on it
+    const dependents = Array.from(this.getUserPrivileges(sellerId).keys())
+      .filter(heldId => this.hasPrivilege(sellerId, heldId) && PRIVILEGE_DEFINITIONS[heldId]?.prerequisites?.includes(privilegeId));
+    if (dependents.length > 0) {
+      throw new Error(`Privilege ${privilegeId} is a prerequisite of held privilege ${dependents[0]}`);
+    }
+
+    const existing = Array.from(this.listings.values())
+      .find(listing => listing.status === 'OPEN' && listing.sellerId === sellerId && listing.privilegeId === privilegeId);
+    if (existing) {
+      throw new Error(`Privilege ${privilegeId} is already listed`);
+    }
+
+    const listing: PrivilegeListing = {
+      id: `listing_${this.sessionId}_${privilegeId}_${sellerId}_${Date.now()}`,
+      privilegeId,
+      sellerId,
+      kind,
+      price,
+      leaseSeconds: kind === 'LEASE' ? leaseSeconds : undefined,
+      status: 'OPEN',
+      createdAt: getSessionClock(this.sessionId).date()
+    };
+    this.listings.set(listing.id, listing);
+
+    this.eventEmitter?.emit('privilege_listed', { ...listing, privilegeName: privilege.name });
+    return listing;
+  }
+
+  /**
+   * Withdraw an open listing
+   */
+  cancelListing(userId: string, listingId: string): void {
+    const listing = this.listings.get(listingId);
+    if (!listing || listing.status !== 'OPEN') {
+      throw new Error(`Listing ${listingId} is not open`);
+    }
+
+    if (listing.sellerId !== userId) {
+      throw new Error(`Listing ${listingId} belongs to another user`);
+    }
+
+    listing.status = 'CANCELLED';
+    this.eventEmitter?.emit('privilege_listing_cancelled', { listingId, privilegeId: listing.privilegeId, sellerId: userId });
+  }
+
+  /**
+   * Buy or lease a listed privilege. The transfer goes through the usual
+   * revoke/grant path, so the buyer must meet prerequisites and mutual
+   * exclusions and the privilege stays within its holder limit. The buyer
+   * keeps the privilege only once the payment has been posted.
+   */
+  async acceptListing(buyerId: string, listingId: string): Promise<PrivilegeListing> {
+    const listing = this.listings.get(listingId);
+    if (!listing || listing.status !== 'OPEN') {
+      throw new Error(`Listing ${listingId} is not open`);
+    }
+
+    if (listing.sellerId === buyerId) {
+      throw new Error('You cannot accept your own listing');
+    }
+
+    if (!this.hasPrivilege(listing.sellerId, listing.privilegeId)) {
+      listing.status = 'CANCELLED';
+      throw new Error(`Seller no longer holds privilege ${listing.privilegeId}`);
+    }
+
+    this.checkAcquirer(buyerId, listing.privilegeId);
+
+    const portfolioEngine = getPortfolioEngine(this.sessionId);
+    if (listing.price > portfolioEngine.getCashBalance(buyerId)) {
+      throw new Error(`Insufficient cash for ${listing.kind.toLowerCase()} at ${listing.price}`);
+    }
+
+    const clock = getSessionClock(this.sessionId);
+    const privilegeName = PRIVILEGE_DEFINITIONS[listing.privilegeId].name;
+    listing.status = 'FILLED';
+    listing.buyerId = buyerId;
+    listing.filledAt = clock.date();
+
+    this.revokePrivilege(listing.privilegeId, [listing.sellerId], `${listing.kind}:${buyerId}`);
+    try {
+      this.grantPrivilege(listing.privilegeId, [buyerId], `${listing.kind}:${listing.sellerId}`);
+    } catch (error) {
+      // Put the seller back as they were and leave the listing open
+      this.grantPrivilege(listing.privilegeId, [listing.sellerId], 'TRANSFER_FAILED');
+      listing.status = 'OPEN';
+      listing.buyerId = undefined;
+      listing.filledAt = undefined;
+      throw error;
+    }
+
+    const description = listing.kind === 'LEASE'
+      ? `${privilegeName} leased for ${listing.leaseSeconds}s`
+      : `${privilegeName} sold`;
+    try {
+      await portfolioEngine.settlePrivilegeTransfer(buyerId, listing.sellerId, listing.price, description, listingId);
+    } catch (error) {
+      // Unpaid, so the privilege goes back to the seller and the listing reopens
+      this.revokePrivilege(listing.privilegeId, [buyerId], 'TRANSFER_FAILED');
+      this.grantPrivilege(listing.privilegeId, [listing.sellerId], 'TRANSFER_FAILED');
+      listing.status = 'OPEN';
+      listing.buyerId = undefined;
+      listing.filledAt = undefined;
+      throw error;
+    }
+
+    let leaseEndsAt: Date | undefined;
+    if (listing.kind === 'LEASE') {
+      leaseEndsAt = new Date(clock.now() + listing.leaseSeconds! * 1000);
+      const held = this.getUserPrivileges(buyerId).get(listing.privilegeId)!;
+      held.leasedFrom = listing.sellerId;
+      held.leaseEndsAt = leaseEndsAt;
+      this.scheduleLeaseEnd(buyerId, listing.privilegeId);
+    }
+    await this.recordTransfer(
+      listing.privilegeId,
+      listing.sellerId,
+      buyerId,
+      leaseEndsAt ? { leasedFrom: listing.sellerId, leaseEndsAt } : undefined
+    );
+
+    this.eventEmitter?.emit('privilege_transferred', {
+      listingId,
+      privilegeId: listing.privilegeId,
+      privilegeName,
+      kind: listing.kind,
+      sellerId: listing.sellerId,
+      buyerId,
+      price: listing.price,
+      leaseEndsAt
+    });
+
+    return listing;
+  }
+
+  /**
+   * Get open listings, newest first
+   */
+  getOpenListings(): PrivilegeListing[] {
+    return Array.from(this.listings.values())
+      .filter(listing => listing.status === 'OPEN')
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  private scheduleLeaseEnd(lesseeId: string, privilegeId: number): void {
+    const held = this.getUserPrivileges(lesseeId).get(privilegeId);
+    if (!held?.leaseEndsAt) return;
+
+    const clock = getSessionClock(this.sessionId);
+    const key = `${lesseeId}:${privilegeId}`;
+    clock.clear(this.leaseTimers.get(key));
+    this.leaseTimers.set(key, clock.setTimeout(() => {
+      this.leaseTimers.delete(key);
+      this.endLease(lesseeId, privilegeId).catch(error => {
+        console.error('Error ending privilege lease:', error);
+      });
+    }, Math.max(0, held.leaseEndsAt.getTime() - clock.now())));
+  }
+
+  /**
+   * Write a change of holder to UserPrivilege, which session recovery
+   * rebuilds privileges and leases from. The change already stands in
+   * memory, so a failed write is logged rather than undone.
+   */
+  private async recordTransfer(
+    privilegeId: number,
+    fromUserId: string,
+    toUserId: string,
+    lease?: { leasedFrom: string; leaseEndsAt: Date }
+  ): Promise<void> {
+    try {
+      await authzService.revokePrivileges(this.sessionId, fromUserId, [privilegeId]);
+      await authzService.grantPrivileges(this.sessionId, toUserId, [privilegeId], lease);
+    } catch (error) {
+      console.error(`Failed to record transfer of privilege ${privilegeId}:`, error);
+    }
+  }
+
+  /**
+   * Hand a leased privilege back to its owner
+   */
+  private async endLease(lesseeId: string, privilegeId: number): Promise<void> {
+    const held = this.getUserPrivileges(lesseeId).get(privilegeId);
+    if (!held?.leasedFrom) return;
+
+    const ownerId = held.leasedFrom;
+    this.revokePrivilege(privilegeId, [lesseeId], 'LEASE_EXPIRED');
+
+    try {
+      this.grantPrivilege(privilegeId, [ownerId], 'LEASE_RETURNED');
+      await this.recordTransfer(privilegeId, lesseeId, ownerId);
+    } catch (error) {
+      console.error(`Failed to return leased privilege ${privilegeId} to ${ownerId}:`, error);
+      await authzService.revokePrivileges(this.sessionId, lesseeId, [privilegeId]).catch(error => {
+        console.error(`Failed to record end of lease for privilege ${privilegeId}:`, error);
+      });
+    }
+
+    this.eventEmitter?.emit('privilege_lease_ended', {
+      privilegeId,
+      privilegeName: PRIVILEGE_DEFINITIONS[privilegeId].name,
+      lesseeId,
+      ownerId
+    });
+  }
+
   /**
    * Check if user meets prerequisites for privilege
    */
@@ -541,8 +1374,15 @@ export class PrivilegeSystem {
    * Reset all privileges (for new session)
    */
   reset(): void {
+    const clock = getSessionClock(this.sessionId);
+    this.auctionTimers.forEach(timer => clock.clear(timer));
+    this.auctionTimers.clear();
+    this.auctionRecords.clear();
+    this.leaseTimers.forEach(timer => clock.clear(timer));
+    this.leaseTimers.clear();
     this.userPrivileges.clear();
     this.activeAuctions.clear();
+    this.listings.clear();
   }
 
   /**
@@ -554,26 +1394,75 @@ export class PrivilegeSystem {
         userId,
         Array.from(privileges.entries())
       ]),
-      activeAuctions: Array.from(this.activeAuctions.entries())
+      activeAuctions: Array.from(this.activeAuctions.entries()),
+      listings: Array.from(this.listings.entries())
     };
   }
 
   /**
-   * Import privilege state from persistence
+   * Import privilege state from persistence. Active auctions get their round
+   * and end timers re-armed for whatever time they had left and their bids
+   * escrowed again; auctions that ran out while the server was down end
+   * immediately. Leases are re-armed the same way.
    */
   importState(state: any): void {
-    this.userPrivileges.clear();
-    this.activeAuctions.clear();
+    this.reset();
 
     if (state.userPrivileges) {
       for (const [userId, privileges] of state.userPrivileges) {
-        this.userPrivileges.set(userId, new Map(privileges));
+        const revived = (privileges as [number, UserPrivilege][]).map(([privilegeId, privilege]) => [
+          privilegeId,
+          {
+            ...privilege,
+            grantedAt: new Date(privilege.grantedAt),
+            expiresAt: privilege.expiresAt ? new Date(privilege.expiresAt) : undefined,
+            leaseEndsAt: privilege.leaseEndsAt ? new Date(privilege.leaseEndsAt) : undefined
+          }
+        ] as [number, UserPrivilege]);
+        this.userPrivileges.set(userId, new Map(revived));
+
+        for (const [privilegeId, privilege] of revived) {
+          if (privilege.leasedFrom) {
+            this.scheduleLeaseEnd(userId, privilegeId);
+          }
+        }
+      }
+    }
+
+    if (state.listings) {
+      for (const [listingId, listing] of state.listings) {
+        this.listings.set(listingId, {
+          ...listing,
+          createdAt: new Date(listing.createdAt),
+          filledAt: listing.filledAt ? new Date(listing.filledAt) : undefined
+        });
       }
     }
 
     if (state.activeAuctions) {
       for (const [auctionId, auction] of state.activeAuctions) {
-        this.activeAuctions.set(auctionId, auction);
+        const revived: PrivilegeAuction = {
+          type: 'ENGLISH',
+          units: 1,
+          increment: 1,
+          intervalSeconds: 0,
+          softCloseSeconds: DEFAULT_SOFT_CLOSE_SECONDS,
+          currentPrice: auction.minBid,
+          round: 1,
+          ...auction,
+          startTime: new Date(auction.startTime),
+          endTime: new Date(auction.endTime),
+          roundStartTime: new Date(auction.roundStartTime || auction.startTime),
+          bids: (auction.bids || []).map((bid: PrivilegeBid) => ({ ...bid, timestamp: new Date(bid.timestamp) }))
+        };
+        this.activeAuctions.set(auctionId, revived);
+
+        if (revived.status === 'ACTIVE') {
+          // Cash is rebuilt without escrow, so hold the standing bids again
+          this.adjustEscrow(revived, new Map());
+          this.auctionRecords.set(auctionId, Promise.resolve(revived.dbAuctionId));
+          this.scheduleAuctionTimer(revived);
+        }
       }
     }
   }
@@ -0,0 +1,741 @@
+/**
+ * Report Builder
+ *
+ * Assembles instructor reports from what a session persisted: orders and
+ * their executions, positions, privileges held and privilege auction bids.
+ * Nothing is read from the live engines, so a report can be pulled long
+ * after the class has ended. The result is a format-neutral document of
+ * sections that the renderers turn into PDF, XLSX or CSV.
+ */
+
+import { prisma } from './prisma';
+import { getMarketConfig } from './market-config';
+import { STARTING_CASH } from './portfolio-engine';
+
+export type ReportFormat = 'pdf' | 'excel' | 'csv';
+
+export interface ReportSection {
+  id: string;
+  title: string;
+  type: 'summary' | 'table' | 'chart' | 'metrics' | 'text';
+  enabled: boolean;
+}
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  description: string;
+  sections: ReportSection[];
+  exportFormats: ReportFormat[];
+}
+
+export interface StudentReport {
+  userId: string;
+  username: string;
+  totalPnL: number; // trading P&L less privilege and transaction costs
+  totalTrades: number; // fills
+  ordersSubmitted: number;
+  winRate: number; // percent of closing fills that made money
+  sharpeRatio: number;
+  maxDrawdown: number; // percent, negative
+  riskLevel: 'Low' | 'Medium' | 'High';
+  privilegesEarned: number[];
+  auctionParticipation: number; // auctions bid in
+  lessonCompletion: number; // percent of the session from first order to close
+  engagementScore: number; // percent of session minutes with an order
+  transactionCosts: number;
+  privilegeCosts: number;
+  grossExposure: number;
+}
+
+export interface SessionReport {
+  sessionId: string;
+  lessonName: string;
+  status: string;
+  startTime?: Date;
+  endTime?: Date;
+  participantCount: number;
+  totalVolume: number; // notional of all trades with a student on either side
+  averagePerformance: number;
+  marketEfficiency: number; // 100 less the volume-weighted deviation of fills from VWAP, in percent
+  lessonObjectives: string[];
+  keyMetrics: Record<string, number>;
+}
+
+export interface ReportFill {
+  executionId: string; // shared by the buy and sell fills of one trade
+  timestamp: Date;
+  userId: string;
+  username: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  commission: number;
+  slippage: number;
+  liquidity?: string;
+}
+
+export interface ReportPosition {
+  userId: string;
+  username: string;
+  symbol: string;
+  quantity: number;
+  avgPrice: number;
+  unrealizedPnL: number;
+  realizedPnL: number;
+}
+
+export interface ReportViolation {
+  timestamp: Date;
+  userId: string;
+  username: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  kind: 'Rejected' | 'Liquidation';
+  detail: string;
+}
+
+export interface ReportData {
+  session: SessionReport;
+  students: StudentReport[];
+  fills: ReportFill[];
+  positions: ReportPosition[];
+  violations: ReportViolation[];
+  privilegeHolders: Record<string, number>; // privilege name -> holders
+}
+
+export type ReportCell = string | number;
+
+export interface ReportDocumentSection {
+  id: string;
+  title: string;
+  type: ReportSection['type'];
+  paragraphs: string[];
+  metrics: Array<{ label: string; value: ReportCell }>;
+  table?: { columns: string[]; rows: ReportCell[][] };
+}
+
+export interface ReportDocument {
+  templateId: string;
+  title: string;
+  subtitle: string[];
+  generatedAt: Date;
+  sections: ReportDocumentSection[];
+}
+
+export const REPORT_TEMPLATES: ReportTemplate[] = [
+  {
+    id: 'comprehensive',
+    name: 'Comprehensive Performance Report',
+    description: 'Complete analysis of student performance, trading activity, and learning outcomes',
+    sections: [
+      { id: 'executive_summary', title: 'Executive Summary', type: 'summary', enabled: true },
+      { id: 'student_rankings', title: 'Student Performance Rankings', type: 'table', enabled: true },
+      { id: 'trading_metrics', title: 'Trading Metrics Analysis', type: 'metrics', enabled: true },
+      { id: 'risk_analysis', title: 'Risk Assessment', type: 'chart', enabled: true },
+      { id: 'lesson_effectiveness', title: 'Lesson Effectiveness', type: 'metrics', enabled: true },
+      { id: 'privilege_usage', title: 'Privilege System Analysis', type: 'chart', enabled: true },
+      { id: 'recommendations', title: 'Recommendations', type: 'text', enabled: true }
+    ],
+    exportFormats: ['pdf', 'excel']
+  },
+  {
+    id: 'student_performance',
+    name: 'Student Performance Summary',
+    description: 'Individual student performance analysis for grading and assessment',
+    sections: [
+      { id: 'individual_summary', title: 'Individual Performance Summary', type: 'summary', enabled: true },
+      { id: 'trading_history', title: 'Trading History', type: 'table', enabled: true },
+      { id: 'portfolio_analysis', title: 'Portfolio Analysis', type: 'metrics', enabled: true },
+      { id: 'skill_assessment', title: 'Skill Assessment', type: 'chart', enabled: true }
+    ],
+    exportFormats: ['pdf', 'csv']
+  },
+  {
+    id: 'lesson_analysis',
+    name: 'Lesson Effectiveness Report',
+    description: 'Analysis of lesson objectives achievement and student engagement',
+    sections: [
+      { id: 'lesson_overview', title: 'Lesson Overview', type: 'summary', enabled: true },
+      { id: 'objective_achievement', title: 'Learning Objective Achievement', type: 'metrics', enabled: true },
+      { id: 'engagement_metrics', title: 'Student Engagement Metrics', type: 'chart', enabled: true },
+      { id: 'market_simulation', title: 'Market Simulation Results', type: 'metrics', enabled: true }
+    ],
+    exportFormats: ['pdf', 'excel']
+  },
+  {
+    id: 'risk_compliance',
+    name: 'Risk and Compliance Report',
+    description: 'Risk management analysis and compliance monitoring',
+    sections: [
+      { id: 'risk_overview', title: 'Risk Management Overview', type: 'summary', enabled: true },
+      { id: 'portfolio_risk', title: 'Portfolio Risk Metrics', type: 'table', enabled: true },
+      { id: 'compliance_check', title: 'Compliance Monitoring', type: 'metrics', enabled: true },
+      { id: 'risk_violations', title: 'Risk Violations', type: 'table', enabled: true }
+    ],
+    exportFormats: ['pdf', 'csv']
+  }
+];
+
+const LIQUIDATION_NOTE = 'Margin call liquidation';
+
+/**
+ * Get a report template by ID
+ */
+export function getReportTemplate(templateId: string): ReportTemplate | undefined {
+  return REPORT_TEMPLATES.find(template => template.id === templateId);
+}
+
+export interface ReplayResult {
+  closingPnL: number[]; // realized P&L of each fill that reduced a position
+  maxDrawdown: number;
+  books: Map<string, { quantity: number; avgPrice: number }>; // open position by symbol
+}
+
+/**
+ * Replay a student's fills at average cost to recover the P&L of each
+ * closing fill and the drawdown of realized equity
+ */
+export function replayFills(fills: ReportFill[], startingEquity: number): ReplayResult {
+  const books = new Map<string, { quantity: number; avgPrice: number }>();
+  const closingPnL: number[] = [];
+  let equity = startingEquity;
+  let peak = startingEquity;
+  let maxDrawdown = 0;
+
+  for (const fill of fills) {
+    const book = books.get(fill.symbol) || { quantity: 0, avgPrice: 0 };
+    const signed = fill.side === 'BUY' ? fill.quantity : -fill.quantity;
+
+    if (book.quantity === 0 || Math.sign(book.quantity) === Math.sign(signed)) {
+      const quantity = book.quantity + signed;
+      book.avgPrice = (book.avgPrice * Math.abs(book.quantity) + fill.price * fill.quantity) / Math.abs(quantity);
+      book.quantity = quantity;
+    } else {
+      const closed = Math.min(Math.abs(signed), Math.abs(book.quantity));
+      const pnl = (fill.price - book.avgPrice) * closed * Math.sign(book.quantity);
+      closingPnL.push(pnl);
+      equity += pnl;
+
+      const remaining = Math.abs(signed) - closed;
+      book.quantity += Math.sign(signed) * closed;
+      if (remaining > 0) {
+        book.quantity = Math.sign(signed) * remaining;
+        book.avgPrice = fill.price;
+      } else if (book.quantity === 0) {
+        book.avgPrice = 0;
+      }
+    }
+
+    equity -= fill.commission + fill.slippage;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.min(maxDrawdown, peak > 0 ? (equity - peak) / peak * 100 : 0);
+    books.set(fill.symbol, book);
+  }
+
+  return { closingPnL, maxDrawdown, books };
+}
+
+/**
+ * Sharpe ratio of per-trade returns on starting equity, as the performance
+ * tracker computes it live
+ */
+function calculateSharpeRatio(pnl: number[], startingEquity: number): number {
+  if (pnl.length < 2 || startingEquity <= 0) return 0;
+
+  const returns = pnl.map(value => value / startingEquity);
+  const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length;
+  const stdDev = Math.sqrt(variance);
+
+  return stdDev > 0 ? avgReturn / stdDev : 0;
+}
+
+function riskLevelFor(maxDrawdown: number): StudentReport['riskLevel'] {
+  const drawdown = Math.abs(maxDrawdown);
+  if (drawdown < 5) return 'Low';
+  if (drawdown < 15) return 'Medium';
+  return 'High';
+}
+
+/**
+ * Assemble report data for a session from persisted records. Orders and
+ * fills can be limited to a date range; positions and privileges are as
+ * the session left them. Returns null when the session was never saved.
+ */
+export async function assembleReportData(
+  sessionId: string,
+  range: { from?: Date; to?: Date } = {}
+): Promise<ReportData | null> {
+  const session = await prisma.simulationSession.findUnique({
+    where: { id: sessionId },
+    include: {
+      lesson: { select: { name: true } },
+      users: { include: { user: { select: { id: true, username: true } } } }
+    }
+  });
+  if (!session) return null;
+
+  const submittedAt = range.from || range.to ? { gte: range.from, lte: range.to } : undefined;
+  const [orders, positions, auctions, privileges] = await Promise.all([
+    prisma.order.findMany({
+      where: { sessionId, submittedAt },
+      include: { security: { select: { symbol: true } }, executions: true },
+      orderBy: { submittedAt: 'asc' }
+    }),
+    prisma.position.findMany({
+      where: { sessionId },
+      include: { security: { select: { symbol: true } } }
+    }),
+    prisma.auction.findMany({
+      where: { sessionId },
+      include: { bids: true }
+    }),
+    prisma.userPrivilege.findMany({
+      where: { sessionId, isActive: true },
+      include: { privilege: { select: { code: true, name: true } } }
+    })
+  ]);
+
+  const usernames = new Map<string, string>(
+    session.users.map((sessionUser: any) => [sessionUser.userId, sessionUser.user?.username || sessionUser.userId])
+  );
+  const nameOf = (userId: string) => usernames.get(userId) || userId;
+
+  const fills: ReportFill[] = [];
+  const violations: ReportViolation[] = [];
+  for (const order of orders as any[]) {
+    for (const execution of order.executions) {
+      fills.push({
+        executionId: execution.id.replace(/_[BS]$/, ''),
+        timestamp: execution.timestamp,
+        userId: order.userId,
+        username: nameOf(order.userId),
+        symbol: order.security?.symbol || order.securityId,
+        side: order.side,
+        quantity: execution.quantity,
+        price: Number(execution.price),
+        commission: Number(execution.commission || 0),
+        slippage: Number(execution.slippage || 0),
+        liquidity: execution.liquidity || undefined
+      });
+    }
+
+    if (order.status === 'REJECTED' || order.notes === LIQUIDATION_NOTE) {
+      violations.push({
+        timestamp: order.submittedAt,
+        userId: order.userId,
+        username: nameOf(order.userId),
+        symbol: order.security?.symbol || order.securityId,
+        side: order.side,
+        quantity: order.quantity,
+        kind: order.status === 'REJECTED' ? 'Rejected' : 'Liquidation',
+        detail: order.notes || ''
+      });
+    }
+  }
+  fills.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const reportPositions: ReportPosition[] = (positions as any[]).map(position => ({
+    userId: position.userId,
+    username: nameOf(position.userId),
+    symbol: position.security?.symbol || position.securityId,
+    quantity: position.quantity,
+    avgPrice: Number(position.avgPrice),
+    unrealizedPnL: Number(position.unrealizedPnL),
+    realizedPnL: Number(position.realizedPnL)
+  }));
+
+  // Session window for engagement: start to end, or to the last order
+  const orderTimes = (orders as any[]).map(order => new Date(order.submittedAt).getTime());
+  const windowStart = session.startTime?.getTime() ?? (orderTimes.length > 0 ? Math.min(...orderTimes) : Date.now());
+  const windowEnd = session.endTime?.getTime() ?? (orderTimes.length > 0 ? Math.max(...orderTimes, windowStart) : windowStart);
+  const windowMinutes = Math.max(1, Math.ceil((windowEnd - windowStart) / 60000));
+
+  const students: StudentReport[] = session.users.map((sessionUser: any) => {
+    const userId = sessionUser.userId;
+    const startingEquity = Number(sessionUser.startingEquity) || STARTING_CASH;
+    const userOrders = (orders as any[]).filter(order => order.userId === userId);
+    const userFills = fills.filter(fill => fill.userId === userId);
+    const userPositions = reportPositions.filter(position => position.userId === userId);
+    const replay = replayFills(userFills, startingEquity);
+
+    const transactionCosts = Number(sessionUser.transactionCosts || 0);
+    const privilegeCosts = Number(sessionUser.privilegeCosts || 0);
+    const tradingPnL = userPositions.length > 0
+      ? userPositions.reduce((sum, position) => sum + position.realizedPnL + position.unrealizedPnL, 0)
+      : replay.closingPnL.reduce((sum, pnl) => sum + pnl, 0);
+
+    const activeMinutes = new Set(userOrders.map(order =>
+      Math.floor((new Date(order.submittedAt).getTime() - windowStart) / 60000)
+    )).size;
+    const firstOrderAt = userOrders.length > 0 ? new Date(userOrders[0].submittedAt).getTime() : undefined;
+    const wins = replay.closingPnL.filter(pnl => pnl > 0).length;
+
+    return {
+      userId,
+      username: nameOf(userId),
+      totalPnL: tradingPnL - transactionCosts - privilegeCosts,
+      totalTrades: userFills.length,
+      ordersSubmitted: userOrders.length,
+      winRate: replay.closingPnL.length > 0 ? wins / replay.closingPnL.length * 100 : 0,
+      sharpeRatio: calculateSharpeRatio(replay.closingPnL, startingEquity),
+      maxDrawdown: replay.maxDrawdown,
+      riskLevel: riskLevelFor(replay.maxDrawdown),
+      privilegesEarned: (privileges as any[])
+        .filter(held => held.userId === userId)
+        .map(held => held.privilege.code),
+      auctionParticipation: (auctions as any[]).filter(auction => auction.bids.some((bid: any) => bid.userId === userId)).length,
+      lessonCompletion: firstOrderAt === undefined || windowEnd <= windowStart
+        ? 0
+        : Math.min(100, Math.max(0, (windowEnd - firstOrderAt) / (windowEnd - windowStart) * 100)),
+      engagementScore: Math.min(100, activeMinutes / windowMinutes * 100),
+      transactionCosts,
+      privilegeCosts,
+      grossExposure: userPositions.reduce((sum, position) => sum + Math.abs(position.quantity * position.avgPrice), 0)
+    };
+  });
+
+  // Market efficiency: how far fills strayed from each security's VWAP
+  const bySymbol = new Map<string, ReportFill[]>();
+  fills.forEach(fill => bySymbol.set(fill.symbol, [...(bySymbol.get(fill.symbol) || []), fill]));
+  let deviation = 0;
+  let totalShares = 0;
+  for (const symbolFills of bySymbol.values()) {
+    const shares = symbolFills.reduce((sum, fill) => sum + fill.quantity, 0);
+    const vwap = symbolFills.reduce((sum, fill) => sum + fill.price * fill.quantity, 0) / shares;
+    deviation += symbolFills.reduce((sum, fill) => sum + Math.abs(fill.price - vwap) / vwap * fill.quantity, 0);
+    totalShares += shares;
+  }
+
+  const privilegeHolders: Record<string, number> = {};
+  (privileges as any[]).forEach(held => {
+    privilegeHolders[held.privilege.name] = (privilegeHolders[held.privilege.name] || 0) + 1;
+  });
+
+  const filledOrders = (orders as any[]).filter(order => order.executions.length > 0).length;
+  const winningBids = (auctions as any[]).flatMap(auction => auction.bids.filter((bid: any) => bid.isWinner));
+  const lessonName = session.lesson?.name || 'Unknown Lesson';
+
+  // Both sides of a trade between students are saved as fills
+  // (`<execution>_B` and `<execution>_S`); session totals count it once
+  const trades = Array.from(new Map(fills.map(fill => [fill.executionId, fill])).values());
+
+  const sessionReport: SessionReport = {
+    sessionId,
+    lessonName,
+    status: session.status,
+    startTime: session.startTime || undefined,
+    endTime: session.endTime || undefined,
+    participantCount: students.length,
+    totalVolume: trades.reduce((sum, trade) => sum + trade.price * trade.quantity, 0),
+    averagePerformance: students.length > 0 ? students.reduce((sum, s) => sum + s.totalPnL, 0) / students.length : 0,
+    marketEfficiency: totalShares > 0 ? Math.max(0, 100 - deviation / totalShares * 100) : 100,
+    lessonObjectives: getMarketConfig(lessonName).objectives,
+    keyMetrics: {
+      totalTrades: trades.length,
+      ordersSubmitted: orders.length,
+      fillRate: orders.length > 0 ? filledOrders / orders.length * 100 : 0,
+      averageTradeSize: trades.length > 0 ? trades.reduce((sum, trade) => sum + trade.quantity, 0) / trades.length : 0,
+      totalCommissions: fills.reduce((sum, fill) => sum + fill.commission, 0),
+      totalSlippage: fills.reduce((sum, fill) => sum + fill.slippage, 0),
+      auctionsHeld: auctions.length,
+      auctionRevenue: winningBids.reduce((sum: number, bid: any) => sum + Number(bid.amount), 0),
+      rejectedOrders: violations.filter(v => v.kind === 'Rejected').length,
+      liquidations: violations.filter(v => v.kind === 'Liquidation').length
+    }
+  };
+
+  return {
+    session: sessionReport,
+    students,
+    fills,
+    positions: reportPositions,
+    violations,
+    privilegeHolders
+  };
+}
+
+const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+const percent = (value: number) => `${value.toFixed(1)}%`;
+const average = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+const round = (value: number, places = 2) => Math.round(value * Math.pow(10, places)) / Math.pow(10, places);
+
+/**
+ * Lay out a template's enabled sections over the report data. Pass section
+ * IDs to override which sections the template has switched on.
+ */
+export function buildReportDocument(
+  template: ReportTemplate,
+  data: ReportData,
+  sectionIds?: string[]
+): ReportDocument {
+  const { session, students } = data;
+  const enabled = template.sections.filter(section =>
+    sectionIds ? sectionIds.includes(section.id) : section.enabled
+  );
+
+  const subtitle = [
+    `Session: ${session.lessonName} (${session.sessionId})`,
+    `Participants: ${session.participantCount}`,
+    session.startTime
+      ? `Held: ${session.startTime.toISOString()}${session.endTime ? ` to ${session.endTime.toISOString()}` : ''}`
+      : `Status: ${session.status}`
+  ];
+
+  return {
+    templateId: template.id,
+    title: template.name,
+    subtitle,
+    generatedAt: new Date(),
+    sections: enabled.map(section => ({
+      id: section.id,
+      title: section.title,
+      type: section.type,
+      paragraphs: [],
+      metrics: [],
+      ...buildSection(section.id, data, students)
+    }))
+  };
+}
+
+function buildSection(
+  sectionId: string,
+  data: ReportData,
+  students: StudentReport[]
+): Partial<ReportDocumentSection> {
+  const { session } = data;
+  const ranked = [...students].sort((a, b) => b.totalPnL - a.totalPnL);
+  const count = (level: StudentReport['riskLevel']) => students.filter(s => s.riskLevel === level).length;
+  const share = (n: number) => students.length > 0 ? n / students.length * 100 : 0;
+
+  switch (sectionId) {
+    case 'executive_summary':
+    case 'risk_overview':
+    case 'lesson_overview': {
+      const paragraphs = [
+        `This report covers ${students.length} students in the "${session.lessonName}" simulation. ` +
+        `Students averaged ${money(session.averagePerformance)} P&L after costs across ${session.keyMetrics.totalTrades} trades, ` +
+        `with a market efficiency score of ${percent(session.marketEfficiency)}.`
+      ];
+      if (ranked.length > 0) {
+        paragraphs.push(`Top performer: ${ranked[0].username} with ${money(ranked[0].totalPnL)} P&L.`);
+      }
+      if (sectionId === 'risk_overview') {
+        paragraphs.push(`${count('High')} students had a drawdown of 15% or more; ${session.keyMetrics.liquidations} orders were margin liquidations.`);
+      }
+      return {
+        paragraphs,
+        metrics: [
+          { label: 'Status', value: session.status },
+          { label: 'Participants', value: session.participantCount },
+          { label: 'Total Volume', value: round(session.totalVolume) },
+          { label: 'Average P&L', value: round(session.averagePerformance) },
+          { label: 'Average Engagement (%)', value: round(average(students.map(s => s.engagementScore)), 1) }
+        ]
+      };
+    }
+
+    case 'student_rankings':
+      return {
+        table: {
+          columns: ['Rank', 'Student', 'P&L', 'Trades', 'Win Rate (%)', 'Sharpe', 'Risk Level'],
+          rows: ranked.map((s, index) => [index + 1, s.username, round(s.totalPnL), s.totalTrades, round(s.winRate, 1), round(s.sharpeRatio), s.riskLevel])
+        }
+      };
+
+    case 'trading_metrics':
+      return {
+        metrics: [
+          { label: 'Fills', value: session.keyMetrics.totalTrades },
+          { label: 'Orders Submitted', value: session.keyMetrics.ordersSubmitted },
+          { label: 'Fill Rate (%)', value: round(session.keyMetrics.fillRate, 1) },
+          { label: 'Average Fill Size', value: round(session.keyMetrics.averageTradeSize, 1) },
+          { label: 'Total Volume', value: round(session.totalVolume) },
+          { label: 'Average Sharpe Ratio', value: round(average(students.map(s => s.sharpeRatio))) },
+          { label: 'Average Win Rate (%)', value: round(average(students.map(s => s.winRate)), 1) },
+          { label: 'Commissions', value: round(session.keyMetrics.totalCommissions) },
+          { label: 'Slippage', value: round(session.keyMetrics.totalSlippage) }
+        ]
+      };
+
+    case 'risk_analysis':
+      return {
+        paragraphs: [`Risk levels follow each student's largest drawdown of realized equity: under 5% is low, under 15% medium.`],
+        metrics: [
+          { label: 'High Risk', value: `${count('High')} (${percent(share(count('High')))})` },
+          { label: 'Medium Risk', value: `${count('Medium')} (${percent(share(count('Medium')))})` },
+          { label: 'Low Risk', value: `${count('Low')} (${percent(share(count('Low')))})` },
+          { label: 'Average Maximum Drawdown (%)', value: round(average(students.map(s => Math.abs(s.maxDrawdown)))) }
+        ]
+      };
+
+    case 'lesson_effectiveness':
+    case 'objective_achievement': {
+      const traded = students.filter(s => s.totalTrades > 0).length;
+      const profitable = students.filter(s => s.totalPnL > 0).length;
+      return {
+        paragraphs: session.lessonObjectives.map(objective => `- ${objective}`),
+        metrics: [
+          { label: 'Learning Objectives', value: session.lessonObjectives.length },
+          { label: 'Students Who Traded', value: `${traded} (${percent(share(traded))})` },
+          { label: 'Students With Positive P&L', value: `${profitable} (${percent(share(profitable))})` },
+          { label: 'Average Lesson Completion (%)', value: round(average(students.map(s => s.lessonCompletion)), 1) },
+          { label: 'Average Engagement (%)', value: round(average(students.map(s => s.engagementScore)), 1) }
+        ]
+      };
+    }
+
+    case 'privilege_usage': {
+      const popular = Object.entries(data.privilegeHolders).sort((a, b) => b[1] - a[1]);
+      return {
+        metrics: [
+          { label: 'Average Privileges Held', value: round(average(students.map(s => s.privilegesEarned.length)), 1) },
+          { label: 'Auctions Held', value: session.keyMetrics.auctionsHeld },
+          { label: 'Students Bidding', value: students.filter(s => s.auctionParticipation > 0).length },
+          { label: 'Auction Revenue', value: round(session.keyMetrics.auctionRevenue) },
+          { label: 'Privilege Costs', value: round(students.reduce((sum, s) => sum + s.privilegeCosts, 0)) }
+        ],
+        table: {
+          columns: ['Privilege', 'Holders'],
+          rows: popular.map(([name, holders]) => [name, holders])
+        }
+      };
+    }
+
+    case 'recommendations': {
+      const recommendations: string[] = [];
+      if (average(students.map(s => s.engagementScore)) < 75) {
+        recommendations.push('Increase Engagement: students were idle for much of the session. Consider more interactive elements or competitive features.');
+      }
+      if (count('High') > students.length * 0.3) {
+        recommendations.push('Risk Management Focus: a significant portion of students had deep drawdowns. Consider additional risk management education.');
+      }
+      if (session.averagePerformance < 0) {
+        recommendations.push('Performance Review: overall negative performance suggests the need for additional guidance or simplified scenarios.');
+      }
+      if (session.keyMetrics.rejectedOrders > students.length) {
+        recommendations.push('Order Entry: many orders were rejected. Review the lesson\'s order rules and limits with the class.');
+      }
+      recommendations.push('Continue Simulation: repeat the session with adjustments based on the findings above.');
+      return { paragraphs: recommendations.map((text, index) => `${index + 1}. ${text}`) };
+    }
+
+    case 'individual_summary':
+      return {
+        table: {
+          columns: ['Student', 'P&L', 'Fills', 'Orders', 'Win Rate (%)', 'Sharpe', 'Transaction Costs', 'Privilege Costs', 'Privileges', 'Auctions'],
+          rows: ranked.map(s => [
+            s.username, round(s.totalPnL), s.totalTrades, s.ordersSubmitted, round(s.winRate, 1), round(s.sharpeRatio),
+            round(s.transactionCosts), round(s.privilegeCosts), s.privilegesEarned.length, s.auctionParticipation
+          ])
+        }
+      };
+
+    case 'trading_history':
+      return {
+        table: {
+          columns: ['Time', 'Student', 'Symbol', 'Side', 'Quantity', 'Price', 'Commission', 'Slippage', 'Liquidity'],
+          rows: data.fills.map(fill => [
+            new Date(fill.timestamp).toISOString(), fill.username, fill.symbol, fill.side, fill.quantity,
+            fill.price, round(fill.commission), round(fill.slippage), fill.liquidity || ''
+          ])
+        }
+      };
+
+    case 'portfolio_analysis':
+      return {
+        metrics: [
+          { label: 'Open Positions', value: data.positions.filter(p => p.quantity !== 0).length },
+          { label: 'Unrealized P&L', value: round(data.positions.reduce((sum, p) => sum + p.unrealizedPnL, 0)) },
+          { label: 'Realized P&L', value: round(data.positions.reduce((sum, p) => sum + p.realizedPnL, 0)) }
+        ],
+        table: {
+          columns: ['Student', 'Symbol', 'Quantity', 'Average Price', 'Unrealized P&L', 'Realized P&L'],
+          rows: data.positions.map(p => [p.username, p.symbol, p.quantity, round(p.avgPrice), round(p.unrealizedPnL), round(p.realizedPnL)])
+        }
+      };
+
+    case 'skill_assessment':
+      return {
+        table: {
+          columns: ['Student', 'Win Rate (%)', 'Sharpe', 'Max Drawdown (%)', 'Risk Level', 'Engagement (%)', 'Completion (%)'],
+          rows: ranked.map(s => [
+            s.username, round(s.winRate, 1), round(s.sharpeRatio), round(s.maxDrawdown), s.riskLevel,
+            round(s.engagementScore, 1), round(s.lessonCompletion, 1)
+          ])
+        }
+      };
+
+    case 'engagement_metrics':
+      return {
+        metrics: [
+          { label: 'Average Engagement (%)', value: round(average(students.map(s => s.engagementScore)), 1) },
+          { label: 'Students Without Orders', value: students.filter(s => s.ordersSubmitted === 0).length }
+        ],
+        table: {
+          columns: ['Student', 'Orders', 'Fills', 'Auctions', 'Engagement (%)', 'Completion (%)'],
+          rows: students.map(s => [s.username, s.ordersSubmitted, s.totalTrades, s.auctionParticipation, round(s.engagementScore, 1), round(s.lessonCompletion, 1)])
+        }
+      };
+
+    case 'market_simulation': {
+      const symbols = Array.from(new Set(data.fills.map(fill => fill.symbol)));
+      return {
+        metrics: [
+          { label: 'Total Volume', value: round(session.totalVolume) },
+          { label: 'Fills', value: session.keyMetrics.totalTrades },
+          { label: 'Fill Rate (%)', value: round(session.keyMetrics.fillRate, 1) },
+          { label: 'Market Efficiency (%)', value: round(session.marketEfficiency, 2) }
+        ],
+        table: {
+          columns: ['Symbol', 'Fills', 'Shares', 'VWAP', 'High', 'Low'],
+          rows: symbols.map(symbol => {
+            const symbolFills = data.fills.filter(fill => fill.symbol === symbol);
+            const shares = symbolFills.reduce((sum, fill) => sum + fill.quantity, 0);
+            const prices = symbolFills.map(fill => fill.price);
+            return [
+              symbol, symbolFills.length, shares,
+              round(symbolFills.reduce((sum, fill) => sum + fill.price * fill.quantity, 0) / shares, 4),
+              Math.max(...prices), Math.min(...prices)
+            ];
+          })
+        }
+      };
+    }
+
+    case 'portfolio_risk':
+      return {
+        table: {
+          columns: ['Student', 'Gross Exposure', 'Max Drawdown (%)', 'Risk Level', 'P&L'],
+          rows: [...students]
+            .sort((a, b) => b.grossExposure - a.grossExposure)
+            .map(s => [s.username, round(s.grossExposure), round(s.maxDrawdown), s.riskLevel, round(s.totalPnL)])
+        }
+      };
+
+    case 'compliance_check':
+      return {
+        metrics: [
+          { label: 'Rejected Orders', value: session.keyMetrics.rejectedOrders },
+          { label: 'Margin Liquidations', value: session.keyMetrics.liquidations },
+          { label: 'Students With Violations', value: new Set(data.violations.map(v => v.userId)).size },
+          { label: 'Students With Short Positions', value: new Set(data.positions.filter(p => p.quantity < 0).map(p => p.userId)).size }
+        ]
+      };
+
+    case 'risk_violations':
+      return {
+        paragraphs: data.violations.length === 0 ? ['No orders were rejected or liquidated.'] : [],
+        table: {
+          columns: ['Time', 'Student', 'Symbol', 'Side', 'Quantity', 'Type', 'Detail'],
+          rows: data.violations.map(v => [new Date(v.timestamp).toISOString(), v.username, v.symbol, v.side, v.quantity, v.kind, v.detail])
+        }
+      };
+
+    default:
+      return { paragraphs: ['No data for this section.'] };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,496 @@
+/**
+ * Report Renderers
+ *
+ * Turn a report document into a downloadable file. PDF is written as plain
+ * PDF 1.4 with the standard Helvetica fonts, XLSX as a minimal Office Open
+ * XML workbook zipped with zlib, and CSV as RFC 4180 text. None of them
+ * need anything beyond Node.
+ */
+
+import { deflateRawSync } from 'zlib';
+import { ReportDocument, ReportDocumentSection, ReportFormat, ReportCell } from './report-builder';
+
+export interface RenderedReport {
+  body: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+/**
+ * Render a report document in the requested format
+ */
+export function renderReport(document: ReportDocument, format: ReportFormat): RenderedReport {
+  switch (format) {
+    case 'pdf':
+      return { body: renderPDF(document), contentType: 'application/pdf', extension: 'pdf' };
+    case 'excel':
+      return {
+        body: renderXLSX(document),
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        extension: 'xlsx'
+      };
+    case 'csv':
+      return { body: Buffer.from('\uFEFF' + renderCSV(document), 'utf8'), contentType: 'text/csv; charset=utf-8', extension: 'csv' };
+    default:
+      throw new Error(`Unsupported report format: ${format}`);
+  }
+}
+
+const formatCell = (value: ReportCell): string =>
+  typeof value === 'number'
+    ? (Number.isInteger(value) ? value.toLocaleString('en-US') : value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 4 }))
+    : value;
+
+// CSV ----------------------------------------------------------------------
+
+function csvField(value: ReportCell): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One block per section: its title, paragraphs, label/value metrics and
+ * then its table with a header row, separated by blank lines
+ */
+export function renderCSV(document: ReportDocument): string {
+  const lines: string[] = [csvField(document.title), ...document.subtitle.map(csvField), `Generated,${document.generatedAt.toISOString()}`, ''];
+
+  for (const section of document.sections) {
+    lines.push(csvField(section.title));
+    section.paragraphs.forEach(paragraph => lines.push(csvField(paragraph)));
+    section.metrics.forEach(metric => lines.push(`${csvField(metric.label)},${csvField(metric.value)}`));
+    if (section.table) {
+      if (section.paragraphs.length > 0 || section.metrics.length > 0) lines.push('');
+      lines.push(section.table.columns.map(csvField).join(','));
+      section.table.rows.forEach(row => lines.push(row.map(csvField).join(',')));
+    }
+    lines.push('');
+  }
+
+  return lines.join('\r\n');
+}
+
+// PDF ----------------------------------------------------------------------
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+// Average Helvetica glyph width as a fraction of the font size
+const CHAR_WIDTH = 0.5;
+const BOLD_CHAR_WIDTH = 0.55;
+
+function pdfText(text: string): string {
+  // Standard fonts only cover Latin-1 here; anything else prints as '?'
+  return text
+    .replace(/[\u2018\u2019]/g, '\'')
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[^\x20-\xFF]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+}
+
+function fitText(text: string, width: number, size: number, bold = false): string {
+  const maxChars = Math.floor(width / (size * (bold ? BOLD_CHAR_WIDTH : CHAR_WIDTH)));
+  return text.length <= maxChars ? text : `${text.slice(0, Math.max(0, maxChars - 3))}...`;
+}
+
+function wrapText(text: string, width: number, size: number): string[] {
+  const maxChars = Math.max(1, Math.floor(width / (size * CHAR_WIDTH)));
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    if (!word) continue;
+    const candidate = line ? `${line} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      line = candidate;
+    } else {
+      if (line) lines.push(line);
+      line = word.length > maxChars ? fitText(word, width, size) : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+class PDFLayout {
+  pages: string[][] = [];
+  private y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  newPage(): void {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  /**
+   * Make room for a block of the given height, breaking the page if needed
+   */
+  reserve(height: number): void {
+    if (this.y - height < MARGIN) this.newPage();
+  }
+
+  text(text: string, x: number, size: number, bold = false): void {
+    this.ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${this.y.toFixed(2)} Td (${pdfText(text)}) Tj ET`);
+  }
+
+  rule(): void {
+    this.ops.push(`0.6 G 0.5 w ${MARGIN} ${(this.y - 3).toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${(this.y - 3).toFixed(2)} l S 0 G`);
+  }
+
+  line(text: string, size: number, bold = false, indent = 0): void {
+    this.reserve(size * 1.4);
+    this.y -= size * 1.4;
+    this.text(text, MARGIN + indent, size, bold);
+  }
+
+  space(height: number): void {
+    this.y -= height;
+  }
+
+  paragraph(text: string, size: number): void {
+    wrapText(text, CONTENT_WIDTH, size).forEach(line => this.line(line, size));
+  }
+
+  metrics(metrics: ReportDocumentSection['metrics'], size: number): void {
+    const labelWidth = CONTENT_WIDTH * 0.55;
+    for (const metric of metrics) {
+      this.reserve(size * 1.4);
+      this.y -= size * 1.4;
+      this.text(fitText(metric.label, labelWidth - 10, size), MARGIN, size);
+      this.text(fitText(formatCell(metric.value), CONTENT_WIDTH - labelWidth, size, true), MARGIN + labelWidth, size, true);
+    }
+  }
+
+  table(columns: string[], rows: ReportCell[][], size: number): void {
+    const columnWidth = CONTENT_WIDTH / columns.length;
+    const rowHeight = size * 1.5;
+    const header = () => {
+      this.reserve(rowHeight * 2);
+      this.y -= rowHeight;
+      columns.forEach((column, index) =>
+        this.text(fitText(column, columnWidth - 4, size, true), MARGIN + index * columnWidth, size, true)
+      );
+      this.rule();
+    };
+
+    header();
+    for (const row of rows) {
+      if (this.y - rowHeight < MARGIN) {
+        this.newPage();
+        header();
+      }
+      this.y -= rowHeight;
+      row.forEach((cell, index) =>
+        this.text(fitText(formatCell(cell), columnWidth - 4, size), MARGIN + index * columnWidth, size)
+      );
+    }
+  }
+}
+
+/**
+ * Lay the document out on US Letter pages and write the PDF objects
+ */
+export function renderPDF(document: ReportDocument): Buffer {
+  const layout = new PDFLayout();
+  layout.line(document.title, 18, true);
+  layout.space(4);
+  document.subtitle.forEach(line => layout.line(line, 10));
+  layout.line(`Generated: ${document.generatedAt.toISOString()}`, 10);
+
+  for (const section of document.sections) {
+    layout.space(10);
+    layout.reserve(60);
+    layout.line(section.title, 13, true);
+    layout.rule();
+    layout.space(4);
+    section.paragraphs.forEach(paragraph => layout.paragraph(paragraph, 10));
+    if (section.metrics.length > 0) layout.metrics(section.metrics, 10);
+    if (section.table) {
+      if (section.table.rows.length === 0) {
+        layout.line('No records.', 10);
+      } else {
+        layout.space(4);
+        layout.table(section.table.columns, section.table.rows, 8);
+      }
+    }
+  }
+
+  // Page footers once the page count is known
+  const pageCount = layout.pages.length;
+  layout.pages.forEach((ops, index) => {
+    ops.push(`BT /F1 8 Tf ${MARGIN} ${MARGIN / 2} Td (${pdfText(`${document.title} - Page ${index + 1} of ${pageCount}`)}) Tj ET`);
+  });
+
+  const objects: string[] = [];
+  const pageRefs: number[] = [];
+  // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its contents per page
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Title (${pdfText(document.title)}) /Producer (HyperTick Reports) /CreationDate (D:${pdfDate(document.generatedAt)}) >>`;
+  layout.pages.forEach((ops, index) => {
+    const pageId = 6 + index * 2;
+    const content = ops.join('\n');
+    pageRefs.push(pageId);
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+  });
+  objects[2] = `<< /Type /Pages /Kids [${pageRefs.map(id => `${id} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`;
+
+  let pdf = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+function pdfDate(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z';
+}
+
+// XLSX ---------------------------------------------------------------------
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + (n - 1) % 26) + name;
+  }
+  return name;
+}
+
+// Cell styles in styles.xml: 0 normal, 1 bold, 2 title
+type CellStyle = 0 | 1 | 2;
+
+function sheetXML(rows: Array<{ cells: ReportCell[]; style?: CellStyle }>, widths: number[]): string {
+  const body = rows.map((row, rowIndex) => {
+    const cells = row.cells.map((value, columnIndex) => {
+      const ref = `${columnName(columnIndex)}${rowIndex + 1}`;
+      const style = row.style ? ` s="${row.style}"` : '';
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        return `<c r="${ref}"${style}><v>${value}</v></c>`;
+      }
+      return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${xmlEscape(String(value))}</t></is></c>`;
+    }).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  const cols = widths.length > 0
+    ? `<cols>${widths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `${cols}<sheetData>${body}</sheetData></worksheet>`;
+}
+
+function sheetName(title: string, used: Set<string>): string {
+  const base = title.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let name = base;
+  for (let n = 2; used.has(name.toLowerCase()); n++) {
+    name = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * A Summary sheet with every section's text and metrics, plus one sheet
+ * per section table
+ */
+export function renderXLSX(document: ReportDocument): Buffer {
+  const used = new Set<string>(['summary']);
+  const summary: Array<{ cells: ReportCell[]; style?: CellStyle }> = [
+    { cells: [document.title], style: 2 },
+    ...document.subtitle.map(line => ({ cells: [line] })),
+    { cells: ['Generated', document.generatedAt.toISOString()] }
+  ];
+  const sheets: Array<{ name: string; xml: string }> = [];
+
+  for (const section of document.sections) {
+    summary.push({ cells: [] }, { cells: [section.title], style: 1 });
+    section.paragraphs.forEach(paragraph => summary.push({ cells: [paragraph] }));
+    section.metrics.forEach(metric => summary.push({ cells: [metric.label, metric.value] }));
+
+    if (section.table) {
+      const name = sheetName(section.title, used);
+      summary.push({ cells: [`See sheet "${name}" (${section.table.rows.length} rows)`] });
+      const widths = section.table.columns.map((column, index) =>
+        Math.min(60, Math.max(10, column.length + 2, ...section.table!.rows.map(row => String(row[index] ?? '').length + 2)))
+      );
+      sheets.push({
+        name,
+        xml: sheetXML([{ cells: section.table.columns, style: 1 }, ...section.table.rows.map(cells => ({ cells }))], widths)
+      });
+    }
+  }
+  sheets.unshift({ name: 'Summary', xml: sheetXML(summary, [40, 30]) });
+
+  const files: Array<{ name: string; data: string }> = [
+    {
+      name: '[Content_Types].xml',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets.map((_, index) =>
+          `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        ).join('') +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        sheets.map((sheet, index) => `<sheet name="${xmlEscape(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+        '</sheets></workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets.map((_, index) =>
+          `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+        ).join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/styles.xml',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="3"><font><sz val="11"/><name val="Calibri"/></font>' +
+        '<font><b/><sz val="11"/><name val="Calibri"/></font>' +
+        '<font><b/><sz val="14"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+        '<xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '</styleSheet>'
+    },
+    ...sheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, data: sheet.xml }))
+  ];
+
+  return zip(files.map(file => ({ name: file.name, data: Buffer.from(file.data, 'utf8') })), document.generatedAt);
+}
+
+// ZIP ----------------------------------------------------------------------
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Deflate the files into a zip archive (no zip64; reports stay far below
+ * the 4 GB limit)
+ */
+function zip(files: Array<{ name: string; data: Buffer }>, modified: Date): Buffer {
+  const time = (modified.getHours() << 11) | (modified.getMinutes() << 5) | Math.floor(modified.getSeconds() / 2);
+  const date = ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate();
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const compressed = deflateRawSync(file.data);
+    const crc = crc32(file.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034B50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(file.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    locals.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014B50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(file.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054B50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...centrals, end]);
+}
\ No newline at end of file
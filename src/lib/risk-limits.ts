@@ -0,0 +1,266 @@
+/**
+ * Risk Limits
+ *
+ * Server-side pre-trade limits for a session, set by the instructor for
+ * the whole session and optionally overridden per student. Every order is
+ * checked before it reaches the book; a breach rejects the order with a
+ * reason code. A student whose P&L falls through the loss limit is locked
+ * out of trading until the instructor unlocks them.
+ *
+ * Limits and locks are stored on the simulation session so they survive a
+ * restart.
+ */
+
+import { EventEmitter } from 'events';
+import { getSessionDatabase, SessionDatabase } from './session-database';
+import { getPortfolioEngine, PortfolioEngine, PortfolioSummary } from './portfolio-engine';
+import { getSessionClock } from './session-clock';
+import type { MarketOrder } from './matching-core';
+
+export interface RiskLimits {
+  maxPositionPerSecurity?: number; // shares, long or short, including working orders
+  maxGrossNotional?: number; // dollars across positions and working orders
+  maxOrderSize?: number; // shares per order
+  maxOrdersPerMinute?: number;
+  lossLimit?: number; // dollars of total P&L loss that locks trading
+}
+
+export type RiskRejectCode =
+  | 'MAX_ORDER_SIZE'
+  | 'MAX_POSITION'
+  | 'MAX_GROSS_NOTIONAL'
+  | 'ORDER_RATE'
+  | 'LOSS_LIMIT';
+
+export interface RiskCheckResult {
+  valid: boolean;
+  reason?: string;
+  code?: RiskRejectCode;
+}
+
+export interface RiskLimitState {
+  session: RiskLimits;
+  users: Record<string, RiskLimits>;
+  locked: string[];
+}
+
+const LIMIT_FIELDS: Array<keyof RiskLimits> = [
+  'maxPositionPerSecurity',
+  'maxGrossNotional',
+  'maxOrderSize',
+  'maxOrdersPerMinute',
+  'lossLimit'
+];
+
+const ORDER_RATE_WINDOW_MS = 60 * 1000;
+
+/**
+ * Keep only positive numeric limits; null or 0 clears a limit
+ */
+export function sanitizeLimits(input: any): RiskLimits {
+  const limits: RiskLimits = {};
+  for (const field of LIMIT_FIELDS) {
+    const value = Number(input?.[field]);
+    if (input?.[field] !== null && input?.[field] !== undefined && Number.isFinite(value) && value > 0) {
+      limits[field] = value;
+    }
+  }
+  return limits;
+}
+
+export class RiskLimitEngine extends EventEmitter {
+  private sessionId: string;
+  private db: SessionDatabase;
+  private portfolioEngine: PortfolioEngine;
+  private sessionLimits: RiskLimits = {};
+  private userLimits: Map<string, RiskLimits> = new Map();
+  private lockedUsers: Set<string> = new Set();
+  private orderTimes: Map<string, number[]> = new Map();
+  private loading: Promise<void>;
+
+  constructor(sessionId: string) {
+    super();
+    this.sessionId = sessionId;
+    this.db = getSessionDatabase(sessionId);
+    this.portfolioEngine = getPortfolioEngine(sessionId);
+    this.loading = this.loadLimits();
+
+    this.portfolioEngine.on('portfolioSummary', ({ userId, data }: { userId: string; data: PortfolioSummary }) => {
+      this.checkLossLimit(userId, data.totalPnL).catch(error => {
+        console.error('Error checking loss limit:', error);
+      });
+    });
+  }
+
+  private async loadLimits(): Promise<void> {
+    try {
+      const session = await this.db.simulationSession.findUnique({
+        where: { id: this.sessionId },
+        select: { riskLimits: true }
+      });
+      const state = session?.riskLimits as RiskLimitState | null;
+      if (state) {
+        this.sessionLimits = sanitizeLimits(state.session);
+        this.userLimits = new Map(Object.entries(state.users || {}).map(([userId, limits]) => [userId, sanitizeLimits(limits)]));
+        this.lockedUsers = new Set(state.locked || []);
+      }
+    } catch (error) {
+      console.error('Error loading risk limits:', error);
+    }
+  }
+
+  private async saveLimits(): Promise<void> {
+    try {
+      await this.db.simulationSession.update({
+        where: { id: this.sessionId },
+        data: { riskLimits: this.getState() as any }
+      });
+    } catch (error) {
+      console.error('Error saving risk limits:', error);
+    }
+  }
+
+  /**
+   * Session limits, per-student overrides and locked students
+   */
+  getState(): RiskLimitState {
+    return {
+      session: { ...this.sessionLimits },
+      users: Object.fromEntries(this.userLimits),
+      locked: Array.from(this.lockedUsers)
+    };
+  }
+
+  async getLimitState(): Promise<RiskLimitState> {
+    await this.loading;
+    return this.getState();
+  }
+
+  /**
+   * Limits in force for a student: their overrides on top of the session's
+   */
+  async getLimits(userId: string): Promise<RiskLimits> {
+    await this.loading;
+    return { ...this.sessionLimits, ...this.userLimits.get(userId) };
+  }
+
+  async setSessionLimits(limits: RiskLimits): Promise<void> {
+    await this.loading;
+    this.sessionLimits = sanitizeLimits(limits);
+    await this.saveLimits();
+    this.emit('limitsUpdated', { userId: undefined, limits: this.sessionLimits, timestamp: new Date() });
+  }
+
+  /**
+   * Override limits for one student; an empty object removes the override
+   */
+  async setUserLimits(userId: string, limits: RiskLimits): Promise<void> {
+    await this.loading;
+    const sanitized = sanitizeLimits(limits);
+    if (Object.keys(sanitized).length === 0) {
+      this.userLimits.delete(userId);
+    } else {
+      this.userLimits.set(userId, sanitized);
+    }
+    await this.saveLimits();
+    this.emit('limitsUpdated', { userId, limits: await this.getLimits(userId), timestamp: new Date() });
+  }
+
+  isLocked(userId: string): boolean {
+    return this.lockedUsers.has(userId);
+  }
+
+  async unlock(userId: string): Promise<void> {
+    await this.loading;
+    if (!this.lockedUsers.delete(userId)) return;
+    await this.saveLimits();
+    this.emit('tradingUnlocked', { userId, timestamp: new Date() });
+  }
+
+  /**
+   * Pre-trade check. Position and notional limits count the student's
+   * working orders as if they filled, so resting orders cannot be used to
+   * build past a limit.
+   */
+  async checkOrder(order: MarketOrder, price: number, workingOrders: MarketOrder[]): Promise<RiskCheckResult> {
+    await this.loading;
+    const limits = await this.getLimits(order.userId);
+
+    if (this.lockedUsers.has(order.userId)) {
+      return { valid: false, code: 'LOSS_LIMIT', reason: 'Trading locked: loss limit reached' };
+    }
+
+    if (limits.maxOrderSize !== undefined && order.quantity > limits.maxOrderSize) {
+      return { valid: false, code: 'MAX_ORDER_SIZE', reason: `Order size exceeds limit of ${limits.maxOrderSize}` };
+    }
+
+    if (limits.maxOrdersPerMinute !== undefined) {
+      const now = getSessionClock(this.sessionId).now();
+      const recent = (this.orderTimes.get(order.userId) || []).filter(time => now - time < ORDER_RATE_WINDOW_MS);
+      this.orderTimes.set(order.userId, recent);
+      if (recent.length >= limits.maxOrdersPerMinute) {
+        return { valid: false, code: 'ORDER_RATE', reason: `Order rate exceeds limit of ${limits.maxOrdersPerMinute} per minute` };
+      }
+    }
+
+    if (limits.maxPositionPerSecurity !== undefined || limits.maxGrossNotional !== undefined) {
+      const positions = await this.db.position.findMany({
+        where: { sessionId: this.sessionId, userId: order.userId }
+      });
+      const quantities = new Map<string, number>(positions.map((position: any) => [position.securityId, position.quantity]));
+
+      if (limits.maxPositionPerSecurity !== undefined) {
+        const signed = (o: MarketOrder) => o.side === 'BUY' ? o.remainingQuantity : -o.remainingQuantity;
+        const sameSide = workingOrders
+          .filter(o => o.securityId === order.securityId && o.side === order.side)
+          .reduce((sum, o) => sum + signed(o), 0);
+        const position = quantities.get(order.securityId) || 0;
+        const worstCase = Math.abs(position + sameSide + signed(order));
+        if (worstCase > limits.maxPositionPerSecurity && worstCase > Math.abs(position + sameSide)) {
+          return { valid: false, code: 'MAX_POSITION', reason: `Position in ${order.securityId} would exceed limit of ${limits.maxPositionPerSecurity}` };
+        }
+      }
+
+      if (limits.maxGrossNotional !== undefined) {
+        let gross = order.remainingQuantity * price;
+        for (const [securityId, quantity] of quantities) {
+          gross += Math.abs(quantity) * this.portfolioEngine.getMarketPrice(securityId);
+        }
+        for (const working of workingOrders) {
+          gross += working.remainingQuantity * (working.price || this.portfolioEngine.getMarketPrice(working.securityId));
+        }
+        if (gross > limits.maxGrossNotional) {
+          return { valid: false, code: 'MAX_GROSS_NOTIONAL', reason: `Gross notional would exceed limit of $${limits.maxGrossNotional.toLocaleString()}` };
+        }
+      }
+    }
+
+    const times = this.orderTimes.get(order.userId) || [];
+    times.push(getSessionClock(this.sessionId).now());
+    this.orderTimes.set(order.userId, times);
+
+    return { valid: true };
+  }
+
+  private async checkLossLimit(userId: string, totalPnL: number): Promise<void> {
+    const { lossLimit } = await this.getLimits(userId);
+    if (lossLimit === undefined || this.lockedUsers.has(userId) || totalPnL > -lossLimit) return;
+
+    this.lockedUsers.add(userId);
+    await this.saveLimits();
+    this.emit('tradingLocked', { userId, totalPnL, lossLimit, timestamp: new Date() });
+  }
+}
+
+// Global risk limit engines by session
+const riskLimitEngines = new Map<string, RiskLimitEngine>();
+
+/**
+ * Get or create risk limit engine for a session
+ */
+export function getRiskLimitEngine(sessionId: string): RiskLimitEngine {
+  if (!riskLimitEngines.has(sessionId)) {
+    riskLimitEngines.set(sessionId, new RiskLimitEngine(sessionId));
+  }
+  return riskLimitEngines.get(sessionId)!;
+}
\ No newline at end of file
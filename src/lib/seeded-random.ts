@@ -0,0 +1,119 @@
+/**
+ * Seeded Random - Deterministic randomness for replayable sessions
+ *
+ * Every random source in a market simulation (liquidity traders, bot
+ * strategies, news timing, price walks) draws from a named stream derived
+ * from the session seed. Streams are independent, so the numbers one source
+ * sees do not depend on how timers for other sources interleave. Re-running
+ * a session with the same seed and the same student orders reproduces the
+ * same trade tape.
+ */
+
+export const MAX_SEED = 0x7fffffff; // fits the INTEGER seed column
+
+/**
+ * Mulberry32 generator: small, fast and good enough for simulation noise
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1), drop-in replacement for Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Next integer in [0, maxExclusive)
+   */
+  nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  /**
+   * Pick a random element from a non-empty array
+   */
+  pick<T>(items: T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+}
+
+/**
+ * Generate a fresh seed for a session that was not given one
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+/**
+ * Derive a stream seed from the session seed and the stream name (FNV-1a)
+ */
+function deriveStreamSeed(seed: number, stream: string): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < stream.length; i++) {
+    hash ^= stream.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+// sessionId -> seed, sessionId -> stream name -> generator
+const sessionSeeds = new Map<string, number>();
+const sessionStreams = new Map<string, Map<string, SeededRandom>>();
+
+/**
+ * Set the seed for a session. Resets every stream so a replay starts from
+ * the beginning of each sequence.
+ */
+export function setSessionSeed(sessionId: string, seed: number): void {
+  sessionSeeds.set(sessionId, seed);
+  sessionStreams.delete(sessionId);
+}
+
+/**
+ * Get the seed for a session, generating one on first use
+ */
+export function getSessionSeed(sessionId: string): number {
+  if (!sessionSeeds.has(sessionId)) {
+    sessionSeeds.set(sessionId, generateSeed());
+  }
+  return sessionSeeds.get(sessionId)!;
+}
+
+/**
+ * Get the named random stream for a session
+ */
+export function getSessionRandom(sessionId: string, stream: string): SeededRandom {
+  let streams = sessionStreams.get(sessionId);
+  if (!streams) {
+    streams = new Map();
+    sessionStreams.set(sessionId, streams);
+  }
+
+  let random = streams.get(stream);
+  if (!random) {
+    random = new SeededRandom(deriveStreamSeed(getSessionSeed(sessionId), stream));
+    streams.set(stream, random);
+  }
+  return random;
+}
+
+/**
+ * Parse a seed supplied by an API caller; undefined when absent or invalid
+ */
+export function parseSeed(value: unknown): number | undefined {
+  const seed = typeof value === 'string' ? Number(value) : value;
+  if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) {
+    return undefined;
+  }
+  return seed;
+}
\ No newline at end of file
@@ -0,0 +1,263 @@
+/**
+ * Session Clock
+ *
+ * Virtual time for one session. Subsystems schedule against their session's
+ * clock instead of calling setTimeout/setInterval directly, so the instructor
+ * can run a session in real time, accelerate it, freeze it or advance it a
+ * step at a time and every timer follows consistently.
+ *
+ * While running, virtual time advances at `speed` times wall-clock time and a
+ * single real timer wakes the clock for its next due callback. While paused,
+ * virtual time stands still and nothing fires; step() advances it by a fixed
+ * amount, firing every callback that falls due in order with now() set to
+ * that callback's due time.
+ *
+ * Hard safety limits that must hold in wall-clock time (such as the algo
+ * sandbox's CPU watchdog) should keep using real timers.
+ */
+
+import { EventEmitter } from 'events';
+
+export type ClockTimer = number;
+
+export interface ClockState {
+  sessionId: string;
+  speed: number;
+  paused: boolean;
+  now: Date; // virtual time
+  elapsedMs: number; // virtual time since the clock was created
+  pendingTimers: number;
+}
+
+interface ScheduledCallback {
+  id: ClockTimer;
+  dueAt: number;
+  intervalMs?: number;
+  callback: () => void;
+}
+
+export const MIN_CLOCK_SPEED = 0.1;
+export const MAX_CLOCK_SPEED = 100;
+export const DEFAULT_STEP_MS = 1000;
+
+const MAX_REAL_DELAY_MS = 0x7fffffff; // setTimeout's limit
+
+export class SessionClock extends EventEmitter {
+  readonly sessionId: string;
+  private speed = 1;
+  private paused = false;
+  private readonly createdAt: number;
+  private anchorVirtual: number; // virtual time at anchorReal
+  private anchorReal: number;
+  private timers: Map<ClockTimer, ScheduledCallback> = new Map();
+  private nextTimerId = 1;
+  private wakeup?: NodeJS.Timeout;
+  private firing = false;
+
+  constructor(sessionId: string) {
+    super();
+    this.sessionId = sessionId;
+    this.createdAt = this.anchorVirtual = this.anchorReal = Date.now();
+  }
+
+  /**
+   * Current virtual time in milliseconds since the epoch
+   */
+  now(): number {
+    if (this.paused) return this.anchorVirtual;
+    return this.anchorVirtual + (Date.now() - this.anchorReal) * this.speed;
+  }
+
+  /**
+   * Current virtual time as a Date
+   */
+  date(): Date {
+    return new Date(this.now());
+  }
+
+  /**
+   * Run a callback once after a delay in virtual milliseconds
+   */
+  setTimeout(callback: () => void, delayMs: number): ClockTimer {
+    return this.add(callback, Math.max(0, delayMs));
+  }
+
+  /**
+   * Run a callback every intervalMs virtual milliseconds until cleared
+   */
+  setInterval(callback: () => void, intervalMs: number): ClockTimer {
+    const interval = Math.max(1, intervalMs);
+    return this.add(callback, interval, interval);
+  }
+
+  /**
+   * Cancel a timeout or interval; unknown handles are ignored
+   */
+  clear(timer: ClockTimer | undefined): void {
+    if (timer === undefined || !this.timers.delete(timer)) return;
+    this.reschedule();
+  }
+
+  /**
+   * Change how fast virtual time runs relative to wall-clock time
+   */
+  setSpeed(speed: number): void {
+    if (!Number.isFinite(speed) || speed < MIN_CLOCK_SPEED || speed > MAX_CLOCK_SPEED) {
+      throw new Error(`Clock speed must be between ${MIN_CLOCK_SPEED} and ${MAX_CLOCK_SPEED}`);
+    }
+
+    this.rebase();
+    this.speed = speed;
+    this.reschedule();
+    this.emitState();
+  }
+
+  /**
+   * Freeze virtual time and every pending timer
+   */
+  pause(): void {
+    if (this.paused) return;
+    this.rebase();
+    this.paused = true;
+    this.reschedule();
+    this.emitState();
+  }
+
+  /**
+   * Let virtual time run again from where it stopped
+   */
+  resume(): void {
+    if (!this.paused) return;
+    this.anchorReal = Date.now();
+    this.paused = false;
+    this.reschedule();
+    this.emitState();
+  }
+
+  /**
+   * Advance virtual time by a fixed amount, firing everything that falls due.
+   * A running clock is paused first so the step is exact.
+   */
+  step(ms: number = DEFAULT_STEP_MS): void {
+    if (!(ms > 0)) {
+      throw new Error('Step must be a positive number of milliseconds');
+    }
+
+    this.pause();
+    const target = this.anchorVirtual + ms;
+    this.fireDue(target, true);
+    this.anchorVirtual = target;
+    this.emitState();
+  }
+
+  getState(): ClockState {
+    const now = this.now();
+    return {
+      sessionId: this.sessionId,
+      speed: this.speed,
+      paused: this.paused,
+      now: new Date(now),
+      elapsedMs: now - this.createdAt,
+      pendingTimers: this.timers.size
+    };
+  }
+
+  private add(callback: () => void, delayMs: number, intervalMs?: number): ClockTimer {
+    const id = this.nextTimerId++;
+    this.timers.set(id, { id, dueAt: this.now() + delayMs, intervalMs, callback });
+    this.reschedule();
+    return id;
+  }
+
+  /**
+   * Fix the anchor at the current instant so speed or pause changes apply
+   * from here on
+   */
+  private rebase(): void {
+    this.anchorVirtual = this.now();
+    this.anchorReal = Date.now();
+  }
+
+  /**
+   * Fire due callbacks in due-time order, including ones scheduled by the
+   * callbacks themselves
+   */
+  private fireDue(upTo: number, stepping = false): void {
+    this.firing = true;
+    try {
+      for (let next = this.nextDue(); next && next.dueAt <= upTo; next = this.nextDue()) {
+        // A callback may pause the clock; the rest then waits for resume or a step
+        if (this.paused && !stepping) break;
+
+        const dueAt = next.dueAt;
+        if (next.intervalMs) {
+          next.dueAt += next.intervalMs;
+        } else {
+          this.timers.delete(next.id);
+        }
+
+        // While stepping the clock reads as the callback's own due time
+        if (stepping) {
+          this.anchorVirtual = Math.max(this.anchorVirtual, dueAt);
+        }
+
+        try {
+          next.callback();
+        } catch (error) {
+          console.error(`Error in session clock callback for ${this.sessionId}:`, error);
+        }
+      }
+    } finally {
+      this.firing = false;
+    }
+    this.reschedule();
+  }
+
+  private nextDue(): ScheduledCallback | undefined {
+    let next: ScheduledCallback | undefined;
+    this.timers.forEach(timer => {
+      if (!next || timer.dueAt < next.dueAt || (timer.dueAt === next.dueAt && timer.id < next.id)) {
+        next = timer;
+      }
+    });
+    return next;
+  }
+
+  /**
+   * Arm one real timer for the next due callback
+   */
+  private reschedule(): void {
+    if (this.firing) return;
+
+    if (this.wakeup) {
+      clearTimeout(this.wakeup);
+      this.wakeup = undefined;
+    }
+
+    const next = this.nextDue();
+    if (this.paused || !next) return;
+
+    const delay = Math.min(MAX_REAL_DELAY_MS, Math.max(0, (next.dueAt - this.now()) / this.speed));
+    this.wakeup = setTimeout(() => {
+      this.wakeup = undefined;
+      this.fireDue(this.now());
+    }, delay);
+  }
+
+  private emitState(): void {
+    this.emit('clockChanged', this.getState());
+  }
+}
+
+// Global session clocks by session
+const sessionClocks = new Map<string, SessionClock>();
+
+/**
+ * Get or create the clock for a session
+ */
+export function getSessionClock(sessionId: string): SessionClock {
+  if (!sessionClocks.has(sessionId)) {
+    sessionClocks.set(sessionId, new SessionClock(sessionId));
+  }
+  return sessionClocks.get(sessionId)!;
+}
\ No newline at end of file
@@ -0,0 +1,318 @@
+/**
+ * Session Database
+ *
+ * The persistence layer the trading engines of one session write to. Live
+ * sessions use the Prisma client. A headless run (the backtest harness)
+ * registers an in-memory database for its session before creating any
+ * engine, so the same order matching, portfolio, margin, fee and risk code
+ * runs without a database and nothing it writes outlives the run.
+ *
+ * The in-memory database implements the part of the Prisma client API the
+ * engines use: find/create/update/upsert/delete on a model, where filters
+ * (equality, in, notIn, not, lt, lte, gt, gte, compound unique keys and
+ * to-one relation filters), select, include, orderBy, numeric increments
+ * and nested creates.
+ */
+
+import { prisma } from './prisma';
+
+export type SessionDatabase = typeof prisma;
+
+type Row = Record<string, any>;
+
+interface Relation {
+  model: string;
+  from: string; // field on this row
+  to: string; // field on the related rows
+  many?: boolean;
+}
+
+// Relations the engines include or filter on
+const RELATIONS: Record<string, Record<string, Relation>> = {
+  simulationSession: {
+    lesson: { model: 'lesson', from: 'lessonId', to: 'id' }
+  },
+  sessionUser: {
+    user: { model: 'user', from: 'userId', to: 'id' }
+  },
+  position: {
+    security: { model: 'security', from: 'securityId', to: 'id' }
+  },
+  order: {
+    security: { model: 'security', from: 'securityId', to: 'id' },
+    executions: { model: 'orderExecution', from: 'id', to: 'orderId', many: true }
+  },
+  orderExecution: {
+    order: { model: 'order', from: 'orderId', to: 'id' }
+  }
+};
+
+const FILTER_OPERATORS = ['equals', 'in', 'notIn', 'not', 'lt', 'lte', 'gt', 'gte'];
+const NUMBER_OPERATIONS = ['set', 'increment', 'decrement', 'multiply', 'divide'];
+
+function isPlainObject(value: any): value is Row {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function comparable(value: any): any {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function matchesValue(value: any, condition: any): boolean {
+  if (!isPlainObject(condition) || !Object.keys(condition).every(key => FILTER_OPERATORS.includes(key))) {
+    return comparable(value) === comparable(condition);
+  }
+
+  const current = comparable(value);
+  return Object.entries(condition).every(([operator, operand]) => {
+    if (operand === undefined) return true;
+    switch (operator) {
+      case 'equals': return current === comparable(operand);
+      case 'in': return (operand as any[]).some(item => comparable(item) === current);
+      case 'notIn': return !(operand as any[]).some(item => comparable(item) === current);
+      case 'not': return !matchesValue(value, operand);
+      case 'lt': return current !== null && current !== undefined && current < comparable(operand);
+      case 'lte': return current !== null && current !== undefined && current <= comparable(operand);
+      case 'gt': return current !== null && current !== undefined && current > comparable(operand);
+      case 'gte': return current !== null && current !== undefined && current >= comparable(operand);
+      default: return false;
+    }
+  });
+}
+
+function applyNumberOperation(current: any, operation: Row): any {
+  const base = Number(current) || 0;
+  if ('set' in operation) return operation.set;
+  if ('increment' in operation) return base + Number(operation.increment);
+  if ('decrement' in operation) return base - Number(operation.decrement);
+  if ('multiply' in operation) return base * Number(operation.multiply);
+  return base / Number(operation.divide);
+}
+
+/**
+ * One model's rows, with the Prisma delegate methods the engines call
+ */
+class MemoryModel {
+  rows: Row[] = [];
+  private nextId = 1;
+
+  constructor(private readonly database: MemoryDatabase, private readonly name: string) {}
+
+  async findMany(args: Row = {}): Promise<Row[]> {
+    let rows = this.filter(args.where);
+    if (args.orderBy) {
+      rows = this.sort(rows, args.orderBy);
+    }
+    if (args.skip) rows = rows.slice(args.skip);
+    if (args.take !== undefined) rows = rows.slice(0, args.take);
+    return rows.map(row => this.project(row, args));
+  }
+
+  async findFirst(args: Row = {}): Promise<Row | null> {
+    return (await this.findMany({ ...args, take: 1 }))[0] ?? null;
+  }
+
+  async findUnique(args: Row): Promise<Row | null> {
+    const row = this.filter(args.where)[0];
+    return row ? this.project(row, args) : null;
+  }
+
+  async count(args: Row = {}): Promise<number> {
+    return this.filter(args.where).length;
+  }
+
+  async create(args: Row): Promise<Row> {
+    return this.project(this.insert(args.data), args);
+  }
+
+  async update(args: Row): Promise<Row> {
+    const row = this.filter(args.where)[0];
+    if (!row) {
+      throw new Error(`No ${this.name} record found to update`);
+    }
+    this.write(row, args.data);
+    return this.project(row, args);
+  }
+
+  async updateMany(args: Row): Promise<{ count: number }> {
+    const rows = this.filter(args.where);
+    rows.forEach(row => this.write(row, args.data));
+    return { count: rows.length };
+  }
+
+  async upsert(args: Row): Promise<Row> {
+    const row = this.filter(args.where)[0];
+    if (row) {
+      this.write(row, args.update);
+      return this.project(row, args);
+    }
+    return this.project(this.insert(args.create), args);
+  }
+
+  async delete(args: Row): Promise<Row> {
+    const row = this.filter(args.where)[0];
+    if (!row) {
+      throw new Error(`No ${this.name} record found to delete`);
+    }
+    this.rows = this.rows.filter(existing => existing !== row);
+    return { ...row };
+  }
+
+  async deleteMany(args: Row = {}): Promise<{ count: number }> {
+    const rows = this.filter(args.where);
+    this.rows = this.rows.filter(row => !rows.includes(row));
+    return { count: rows.length };
+  }
+
+  /**
+   * Add a row as is, for seeding a run
+   */
+  seed(data: Row): Row {
+    return this.insert(data);
+  }
+
+  matches(row: Row, where: Row = {}): boolean {
+    return Object.entries(where).every(([key, condition]) => {
+      if (condition === undefined) return true;
+
+      const relation = RELATIONS[this.name]?.[key];
+      if (relation && !relation.many) {
+        const related = this.database.related(row, relation)[0];
+        return !!related && this.database.model(relation.model).matches(related, condition);
+      }
+
+      // Compound unique keys such as sessionId_userId_securityId
+      if (key.includes('_') && isPlainObject(condition) && !(key in row)) {
+        return this.matches(row, condition);
+      }
+
+      return matchesValue(row[key], condition);
+    });
+  }
+
+  private filter(where?: Row): Row[] {
+    return this.rows.filter(row => this.matches(row, where));
+  }
+
+  private sort(rows: Row[], orderBy: Row | Row[]): Row[] {
+    const orders = (Array.isArray(orderBy) ? orderBy : [orderBy]).flatMap(order => Object.entries(order));
+    return [...rows].sort((a, b) => {
+      for (const [field, direction] of orders) {
+        const left = comparable(a[field]);
+        const right = comparable(b[field]);
+        if (left === right) continue;
+        const result = left < right ? -1 : 1;
+        return direction === 'desc' ? -result : result;
+      }
+      return 0;
+    });
+  }
+
+  private insert(data: Row): Row {
+    const row: Row = { id: data.id ?? `${this.name}_${this.nextId++}` };
+    this.write(row, data);
+    this.rows.push(row);
+    return row;
+  }
+
+  private write(row: Row, data: Row = {}): void {
+    for (const [field, value] of Object.entries(data)) {
+      if (value === undefined) continue;
+
+      if (isPlainObject(value) && Object.keys(value).length === 1 && NUMBER_OPERATIONS.includes(Object.keys(value)[0])) {
+        row[field] = applyNumberOperation(row[field], value);
+      } else if (isPlainObject(value) && 'create' in value && Object.keys(value).length === 1) {
+        // Nested creates are kept on the row
+        const created = Array.isArray(value.create) ? value.create : [value.create];
+        const existing: Row[] = row[field] || [];
+        row[field] = [...existing, ...created.map((child: Row, index: number) => ({ id: `${row.id}_${field}_${existing.length + index}`, ...child }))];
+      } else {
+        row[field] = value;
+      }
+    }
+  }
+
+  /**
+   * Copy a row with the selected fields and included relations
+   */
+  private project(row: Row, args: Row = {}): Row {
+    const fields = args.select || args.include;
+    const result: Row = args.select ? {} : { ...row };
+    if (!fields) return result;
+
+    for (const [field, option] of Object.entries(fields)) {
+      if (!option) continue;
+
+      const relation = RELATIONS[this.name]?.[field];
+      if (!relation) {
+        result[field] = row[field];
+        continue;
+      }
+
+      const nested = isPlainObject(option) ? option : {};
+      const relatedModel = this.database.model(relation.model);
+      const related = this.database.related(row, relation).map(child => relatedModel.project(child, nested));
+      result[field] = relation.many ? related : related[0] ?? null;
+    }
+    return result;
+  }
+}
+
+/**
+ * In-memory stand-in for the Prisma client, scoped to one headless run
+ */
+export class MemoryDatabase {
+  private models: Map<string, MemoryModel> = new Map();
+
+  constructor() {
+    // Models are created on first use, so `database.order` works like prisma.order
+    return new Proxy(this, {
+      get: (target, property, receiver) => {
+        if (typeof property !== 'string' || property in target) {
+          return Reflect.get(target, property, receiver);
+        }
+        return target.model(property);
+      }
+    });
+  }
+
+  model(name: string): MemoryModel {
+    let model = this.models.get(name);
+    if (!model) {
+      model = new MemoryModel(this, name);
+      this.models.set(name, model);
+    }
+    return model;
+  }
+
+  related(row: Row, relation: Relation): Row[] {
+    return this.model(relation.model).rows.filter(related => related[relation.to] === row[relation.from]);
+  }
+}
+
+// Databases of headless sessions; every other session uses Prisma
+const sessionDatabases = new Map<string, SessionDatabase>();
+
+/**
+ * Get the database a session's engines read and write
+ */
+export function getSessionDatabase(sessionId: string): SessionDatabase {
+  return sessionDatabases.get(sessionId) || prisma;
+}
+
+/**
+ * Give a session an in-memory database. Must be called before any engine
+ * of the session is created.
+ */
+export function createMemoryDatabase(sessionId: string): MemoryDatabase {
+  const database = new MemoryDatabase();
+  sessionDatabases.set(sessionId, database as unknown as SessionDatabase);
+  return database;
+}
+
+/**
+ * Drop a headless session's database
+ */
+export function releaseSessionDatabase(sessionId: string): void {
+  sessionDatabases.delete(sessionId);
+}
\ No newline at end of file
@@ -9,7 +9,13 @@ import { EventEmitter } from 'events';
 import { prisma } from './prisma';
 import { XMLLessonParser, LessonConfig, Command } from './xml-parser';
 import { authzService } from './auth';
-import { getOrderMatchingEngine } from './order-matching-engine';
+import { getOrderMatchingEngine, MarketPhaseOptions } from './order-matching-engine';
+import { getPortfolioEngine } from './portfolio-engine';
+import { generateSeed, setSessionSeed } from './seeded-random';
+import { botManager } from './trading-bots';
+import { getAlgoSandbox } from './algo-sandbox';
+import { getSessionClock, ClockTimer } from './session-clock';
+import { PrivilegeAuctionType, parseLessonAuction } from './privilege-system';
 
 export interface SessionState {
   id: string;
@@ -22,6 +28,7 @@ export interface SessionState {
   endTime?: Date;
   duration: number;
   iteration: number;
+  seed: number; // RNG seed; reuse it to replay the same market
   marketState: {
     isOpen: boolean;
     liquidityActive: boolean;
@@ -42,6 +49,7 @@ export interface SessionParticipant {
   seatCosts: number;
   infoCosts: number;
   transactionCosts: number;
+  privilegeCosts: number;
   positions: Position[];
   privileges: number[];
   isActive: boolean;
@@ -68,6 +76,7 @@ export interface SessionEvent {
 export interface AuctionState {
   id: string;
   privilegeType: number;
+  type: PrivilegeAuctionType;
   available: number;
   currentPrice: number;
   increment: number;
@@ -91,7 +100,7 @@ export class SessionEngine extends EventEmitter {
   private sessions: Map<string, SessionState> = new Map();
   private auctions: Map<string, AuctionState> = new Map();
   private xmlParser: XMLLessonParser;
-  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private timers: Map<string, ClockTimer> = new Map();
 
   constructor() {
     super();
@@ -105,7 +114,8 @@ export class SessionEngine extends EventEmitter {
     lessonId: string,
     classId: string,
     scenario: string,
-    instructorId: string
+    instructorId: string,
+    seed: number = generateSeed()
   ): Promise<SessionState> {
     console.log('🔧 SessionEngine.createSession() starting...', { lessonId, classId, scenario, instructorId });
 
@@ -145,9 +155,11 @@ export class SessionEngine extends EventEmitter {
         classId,
         scenario,
         duration: simulation.duration,
-        status: 'PENDING'
+        status: 'PENDING',
+        seed
       }
       });
+      setSessionSeed(dbSession.id, seed);
 
       console.log('✅ Database session created:', { id: dbSession.id, status: dbSession.status });
 
@@ -171,6 +183,7 @@ export class SessionEngine extends EventEmitter {
       currentTick: 0,
       duration: simulation.duration,
       iteration: 1,
+      seed,
       marketState: {
         isOpen: false,
         liquidityActive: true,
@@ -185,6 +198,7 @@ export class SessionEngine extends EventEmitter {
         seatCosts: 0,
         infoCosts: 0,
         transactionCosts: 0,
+        privilegeCosts: 0,
         positions: [],
         privileges: [],
         isActive: true
@@ -269,6 +283,20 @@ export class SessionEngine extends EventEmitter {
       await this.executeCommand(sessionId, command);
     }
 
+    // GTC orders from the previous scenario of this lesson stay working
+    const previousSession = await prisma.simulationSession.findFirst({
+      where: {
+        lessonId: session.lessonId,
+        classId: session.classId,
+        status: 'COMPLETED',
+        id: { not: sessionId }
+      },
+      orderBy: { endTime: 'desc' }
+    });
+    if (previousSession) {
+      await getOrderMatchingEngine(sessionId).carryOverGtcOrders(previousSession.id);
+    }
+
     // Update session state
     session.status = 'IN_PROGRESS';
     session.startTime = new Date();
@@ -323,7 +351,7 @@ export class SessionEngine extends EventEmitter {
         await this.handleOpenMarket(sessionId, command.parameters);
         break;
       case 'Close Market':
-        await this.handleCloseMarket(sessionId);
+        await this.handleCloseMarket(sessionId, command.parameters);
         break;
       case 'Create Auction':
         await this.handleCreateAuction(sessionId, command.parameters);
@@ -407,18 +435,41 @@ export class SessionEngine extends EventEmitter {
   }
 
   /**
-   * Handle Set Liquidity Trader command
+   * Handle Set Liquidity Trader command. Parameters: trader, setting, value.
+   * 'Strategy' picks a registered bot strategy by name, followed by
+   * optional name/value parameter pairs; any other setting except Delay
+   * sets that strategy parameter on the trader's bot.
    */
   private async handleSetLiquidityTrader(sessionId: string, parameters: any[]): Promise<void> {
     const session = this.sessions.get(sessionId)!;
     const traderId = parameters[0] as number;
     const setting = parameters[1] as string;
     const value = parameters[2];
+    const botId = `liquidity_trader_${traderId}`;
+    const bot = botManager.getBot(botId);
 
-    if (setting === 'Active') {
-      session.marketState.liquidityActive = value as boolean;
-    } else if (setting === 'Delay') {
-      session.marketState.liquidityDelay = value as number;
+    try {
+      if (setting === 'Active') {
+        session.marketState.liquidityActive = value as boolean;
+        if (bot) botManager.configureBot(botId, { active: value as boolean });
+      } else if (setting === 'Delay') {
+        session.marketState.liquidityDelay = value as number;
+      } else if (setting === 'Strategy') {
+        const strategyParameters: Record<string, any> = {};
+        for (let i = 3; i + 1 < parameters.length; i += 2) {
+          strategyParameters[String(parameters[i])] = parameters[i + 1];
+        }
+        botManager.configureBot(botId, {
+          name: `Liquidity Trader ${traderId}`,
+          type: String(value),
+          parameters: strategyParameters,
+          active: session.marketState.liquidityActive
+        });
+      } else if (bot) {
+        botManager.configureBot(botId, { parameters: { ...bot.config.parameters, [setting]: value } });
+      }
+    } catch (error) {
+      console.error('Error configuring liquidity trader:', error);
     }
 
     this.sessions.set(sessionId, session);
@@ -426,37 +477,66 @@ export class SessionEngine extends EventEmitter {
   }
 
   /**
-   * Handle Open Market command
+   * Read an optional call auction request from command parameters:
+   * 'AUCTION' followed by an optional call period in seconds
+   */
+  private parseAuctionOptions(parameters: any[], index: number): MarketPhaseOptions {
+    if (String(parameters[index] ?? '').toUpperCase() !== 'AUCTION') {
+      return {};
+    }
+    const callPeriodSeconds = Number(parameters[index + 1]);
+    return {
+      auction: true,
+      callPeriodSeconds: callPeriodSeconds > 0 ? callPeriodSeconds : undefined
+    };
+  }
+
+  /**
+   * Handle Open Market command. Parameters: delay, then optionally
+   * 'AUCTION' and a call period for an opening auction.
    */
   private async handleOpenMarket(sessionId: string, parameters: any[]): Promise<void> {
     const session = this.sessions.get(sessionId)!;
     const delay = (parameters[0] as number) || 0;
+    const auctionOptions = this.parseAuctionOptions(parameters, 1);
 
-    setTimeout(async () => {
+    getSessionClock(sessionId).setTimeout(async () => {
       session.marketState.isOpen = true;
       this.sessions.set(sessionId, session);
       
       // Open the order matching engine market
       const orderEngine = getOrderMatchingEngine(sessionId);
-      await orderEngine.openMarket();
+      await orderEngine.openMarket(auctionOptions);
       
-      this.emit('marketOpened', { sessionId });
+      this.emit('marketOpened', { sessionId, auction: !!auctionOptions.auction });
     }, delay * 1000);
   }
 
   /**
-   * Handle Close Market command
+   * Handle Close Market command. Parameters: optionally 'AUCTION' and a
+   * call period; with a closing auction the market closes after the uncross.
    */
-  private async handleCloseMarket(sessionId: string): Promise<void> {
+  private async handleCloseMarket(sessionId: string, parameters: any[] = []): Promise<void> {
     const session = this.sessions.get(sessionId)!;
-    session.marketState.isOpen = false;
-    this.sessions.set(sessionId, session);
-    
-    // Close the order matching engine market
+    const auctionOptions = this.parseAuctionOptions(parameters, 0);
     const orderEngine = getOrderMatchingEngine(sessionId);
-    await orderEngine.closeMarket();
-    
-    this.emit('marketClosed', { sessionId });
+
+    const markClosed = () => {
+      session.marketState.isOpen = false;
+      this.sessions.set(sessionId, session);
+      this.emit('marketClosed', { sessionId });
+    };
+
+    if (auctionOptions.auction) {
+      orderEngine.once('marketClosed', markClosed);
+    }
+
+    // Close the order matching engine market
+    await orderEngine.closeMarket(auctionOptions);
+
+    if (!auctionOptions.auction) {
+      markClosed();
+    }
   }
 
   /**
@@ -468,10 +548,12 @@ export class SessionEngine extends EventEmitter {
     const initialPrice = parameters[2] as number;
     const increment = parameters[3] as number;
     const intervalSeconds = parameters[4] as number;
+    const { minBid, options } = parseLessonAuction(parameters);
 
     const auctionState: AuctionState = {
       id: `${sessionId}-auction-${Date.now()}`,
       privilegeType,
+      type: options.type!,
       available,
       currentPrice: initialPrice,
       increment,
@@ -488,8 +570,10 @@ export class SessionEngine extends EventEmitter {
       data: {
         sessionId,
         privilegeType,
+        type: options.type,
         available,
         initialPrice,
+        reservePrice: minBid,
         increment,
         intervalSeconds,
         status: 'PENDING'
@@ -567,7 +651,7 @@ export class SessionEngine extends EventEmitter {
    * Start session timer
    */
   private startSessionTimer(sessionId: string, durationSeconds: number): void {
-    const timer = setTimeout(async () => {
+    const timer = getSessionClock(sessionId).setTimeout(async () => {
       await this.endSession(sessionId);
     }, durationSeconds * 1000);
 
@@ -582,11 +666,8 @@ export class SessionEngine extends EventEmitter {
     if (!session) throw new Error('Session not found');
 
     // Clear timer
-    const timer = this.timers.get(sessionId);
-    if (timer) {
-      clearTimeout(timer);
-      this.timers.delete(sessionId);
-    }
+    getSessionClock(sessionId).clear(this.timers.get(sessionId));
+    this.timers.delete(sessionId);
 
     // Execute end commands
     const lesson = await prisma.lesson.findUnique({
@@ -602,6 +683,10 @@ export class SessionEngine extends EventEmitter {
       }
     }
 
+    await getAlgoSandbox(sessionId).stopAll('Session ended');
+    await getOrderMatchingEngine(sessionId).expireDayOrders('SESSION_END');
+    await this.recordFinalResults(session);
+
     // Update session state
     session.status = 'COMPLETED';
     session.endTime = new Date();
@@ -619,6 +704,30 @@ export class SessionEngine extends EventEmitter {
     this.emit('sessionEnded', session);
   }
 
+  /**
+   * Fill in each participant's closing equity, privilege costs and
+   * transaction costs for the end-of-session report
+   */
+  private async recordFinalResults(session: SessionState): Promise<void> {
+    const portfolioEngine = getPortfolioEngine(session.id);
+
+    for (const participant of session.participants) {
+      try {
+        const summary = await portfolioEngine.getPortfolioSummary(participant.userId);
+        participant.equity = summary.totalValue;
+        participant.privilegeCosts = summary.privilegeCosts;
+        participant.transactionCosts = summary.transactionCosts;
+
+        await prisma.sessionUser.updateMany({
+          where: { sessionId: session.id, userId: participant.userId },
+          data: { currentEquity: summary.totalValue }
+        });
+      } catch (error) {
+        console.error(`Error recording final results for ${participant.userId}:`, error);
+      }
+    }
+  }
+
   /**
    * Get session state
    */
@@ -626,6 +735,105 @@ export class SessionEngine extends EventEmitter {
     return this.sessions.get(sessionId);
   }
 
+  /**
+   * Rebuild in-memory state for a session that was running when the server
+   * stopped: participants with their positions and privileges, open
+   * privilege auctions, and the session timer for the remaining duration.
+   */
+  async recoverSession(sessionId: string): Promise<SessionState | undefined> {
+    if (this.sessions.has(sessionId)) {
+      return this.sessions.get(sessionId);
+    }
+
+    const dbSession = await prisma.simulationSession.findUnique({
+      where: { id: sessionId },
+      include: {
+        users: { include: { user: true } },
+        positions: { include: { security: true } },
+        privileges: { where: { isActive: true }, include: { privilege: true } },
+        auctions: { where: { status: { in: ['PENDING', 'ACTIVE'] } } }
+      }
+    });
+
+    if (!dbSession || dbSession.status !== 'IN_PROGRESS') {
+      return undefined;
+    }
+
+    const seed = dbSession.seed ?? generateSeed();
+    setSessionSeed(sessionId, seed);
+
+    const sessionState: SessionState = {
+      id: dbSession.id,
+      lessonId: dbSession.lessonId,
+      classId: dbSession.classId,
+      scenario: dbSession.scenario,
+      status: 'IN_PROGRESS',
+      currentTick: dbSession.currentTick,
+      startTime: dbSession.startTime ?? undefined,
+      duration: dbSession.duration,
+      iteration: dbSession.iteration,
+      seed,
+      marketState: {
+        isOpen: getOrderMatchingEngine(sessionId).isMarketCurrentlyOpen(),
+        liquidityActive: true,
+        liquidityDelay: 8,
+        volume: 0
+      },
+      participants: dbSession.users.map((sessionUser: any) => ({
+        userId: sessionUser.userId,
+        username: sessionUser.user.username,
+        role: sessionUser.role || undefined,
+        equity: Number(sessionUser.currentEquity),
+        startingEquity: Number(sessionUser.startingEquity),
+        seatCosts: Number(sessionUser.seatCosts),
+        infoCosts: Number(sessionUser.infoCosts),
+        transactionCosts: Number(sessionUser.transactionCosts),
+        privilegeCosts: Number(sessionUser.privilegeCosts),
+        positions: dbSession.positions
+          .filter((position: any) => position.userId === sessionUser.userId)
+          .map((position: any) => ({
+            securityId: position.securityId,
+            symbol: position.security.symbol,
+            quantity: position.quantity,
+            avgPrice: Number(position.avgPrice),
+            unrealizedPnL: Number(position.unrealizedPnL),
+            realizedPnL: Number(position.realizedPnL)
+          })),
+        privileges: dbSession.privileges
+          .filter((userPrivilege: any) => userPrivilege.userId === sessionUser.userId)
+          .map((userPrivilege: any) => userPrivilege.privilege.code),
+        isActive: sessionUser.isActive
+      })),
+      events: []
+    };
+
+    this.sessions.set(sessionId, sessionState);
+
+    for (const auction of dbSession.auctions) {
+      const auctionState: AuctionState = {
+        id: `${sessionId}-auction-${auction.id}`,
+        privilegeType: auction.privilegeType,
+        type: auction.type,
+        available: auction.available,
+        currentPrice: Number(auction.initialPrice),
+        increment: Number(auction.increment),
+        round: 1,
+        timeRemaining: auction.intervalSeconds,
+        bidders: [],
+        status: auction.status
+      };
+      this.auctions.set(auctionState.id, auctionState);
+    }
+
+    // Resume the clock where it stopped; an overdue session ends right away
+    const elapsed = sessionState.startTime ?
+      Math.floor((Date.now() - sessionState.startTime.getTime()) / 1000) : 0;
+    this.startSessionTimer(sessionId, Math.max(0, sessionState.duration - elapsed));
+
+    this.emit('sessionRecovered', sessionState);
+    return sessionState;
+  }
+
   /**
    * Pause session
    */
@@ -636,12 +844,8 @@ export class SessionEngine extends EventEmitter {
     session.status = 'PAUSED';
     this.sessions.set(sessionId, session);
 
-    // Clear timer
-    const timer = this.timers.get(sessionId);
-    if (timer) {
-      clearTimeout(timer);
-      this.timers.delete(sessionId);
-    }
+    // Freezes the session timer along with every other timer in the session
+    getSessionClock(sessionId).pause();
 
     await prisma.simulationSession.update({
       where: { id: sessionId },
@@ -665,15 +869,7 @@ export class SessionEngine extends EventEmitter {
     session.status = 'IN_PROGRESS';
     this.sessions.set(sessionId, session);
 
-    // Calculate remaining time
-    const elapsed = session.startTime ? 
-      Math.floor((Date.now() - session.startTime.getTime()) / 1000) : 0;
-    const remaining = Math.max(0, session.duration - elapsed);
-
-    // Restart timer with remaining time
-    if (remaining > 0) {
-      this.startSessionTimer(sessionId, remaining);
-    }
+    getSessionClock(sessionId).resume();
 
     await prisma.simulationSession.update({
       where: { id: sessionId },
@@ -0,0 +1,402 @@
+/**
+ * Session Journal
+ *
+ * Append-only, event-sourced record of everything that changes session
+ * state: orders, cancels, executions, privilege grants/revokes, auction bids,
+ * market open/close and call auction phases. Entries are keyed by session,
+ * sequence and tick and are persisted in the order they were appended.
+ *
+ * Replaying the journal up to a tick rebuilds the order book and portfolio
+ * state at that point, for instructor debriefs and crash recovery.
+ */
+
+import { EventEmitter } from 'events';
+import { getSessionDatabase, SessionDatabase } from './session-database';
+import { getMatchingCore, MatchingCore, Execution, ExecutionEvent, MarketOrder, OrderBook } from './matching-core';
+
+export type JournalEntryType =
+  | 'MARKET_OPENED'
+  | 'MARKET_CLOSED'
+  | 'AUCTION_CALL_STARTED'
+  | 'AUCTION_UNCROSSED'
+  | 'ORDER_SUBMITTED'
+  | 'ORDER_TRIGGERED'
+  | 'ORDER_REJECTED'
+  | 'ORDER_CANCELLED'
+  | 'ORDER_EXPIRED'
+  | 'ORDER_AMENDED'
+  | 'EXECUTION'
+  | 'PRIVILEGE_GRANTED'
+  | 'PRIVILEGE_REVOKED'
+  | 'AUCTION_BID'
+  | 'FUTURES_SETTLED'
+  | 'OPTIONS_LISTED'
+  | 'OPTION_EXPIRED';
+
+export interface JournalEntry {
+  sessionId: string;
+  sequence: number;
+  tick: number;
+  type: JournalEntryType;
+  payload: any;
+  timestamp: Date;
+}
+
+export interface ReplayPosition {
+  quantity: number;
+  avgPrice: number;
+  realizedPnL: number;
+}
+
+export interface SessionSnapshot {
+  sessionId: string;
+  tick: number;
+  sequence: number; // last entry applied
+  isMarketOpen: boolean;
+  orderBooks: Record<string, OrderBook>; // securityId -> book
+  orders: Record<string, MarketOrder>; // every order seen, with its status at the tick
+  positions: Record<string, Record<string, ReplayPosition>>; // userId -> securityId -> position
+  cashDelta: Record<string, number>; // userId -> net cash from trades
+  lastPrices: Record<string, number>;
+  privileges: Record<string, number[]>; // userId -> privilege codes held
+  auctionBids: Array<{ auctionId: string; userId: string; amount: number; tick: number }>;
+  trades: Execution[];
+}
+
+/**
+ * Journal for one session. Sequence numbers continue from what is already
+ * persisted, so a restarted server appends after the last stored entry.
+ */
+export class SessionJournal extends EventEmitter {
+  readonly sessionId: string;
+  private db: SessionDatabase;
+  private sequence = 0;
+  private origin?: number; // time of the first entry; ticks are seconds since then
+  private tick?: number; // explicit tick set by a tick-driven engine
+  private writes: Promise<void>;
+
+  constructor(sessionId: string) {
+    super();
+    this.sessionId = sessionId;
+    this.db = getSessionDatabase(sessionId);
+    this.writes = this.loadPosition();
+
+    // Executions come from the shared core, whichever front-end placed the orders
+    getMatchingCore(sessionId).on('execution', ({ execution }: ExecutionEvent) => {
+      this.append('EXECUTION', { execution });
+    });
+  }
+
+  /**
+   * Use an engine-driven tick instead of elapsed seconds
+   */
+  setTick(tick: number): void {
+    this.tick = tick;
+  }
+
+  /**
+   * Append an entry. The payload is copied immediately so later mutation
+   * of live objects does not change what was journaled.
+   */
+  append(type: JournalEntryType, payload: any): void {
+    const timestamp = new Date();
+    const snapshot = JSON.parse(JSON.stringify(payload ?? {}));
+    const explicitTick = this.tick;
+
+    this.writes = this.writes.then(async () => {
+      if (this.origin === undefined) {
+        this.origin = timestamp.getTime();
+      }
+
+      const entry: JournalEntry = {
+        sessionId: this.sessionId,
+        sequence: ++this.sequence,
+        tick: explicitTick ?? Math.floor((timestamp.getTime() - this.origin) / 1000),
+        type,
+        payload: snapshot,
+        timestamp
+      };
+
+      try {
+        await this.db.sessionJournalEntry.create({ data: entry });
+      } catch (error) {
+        console.error('Error writing session journal entry:', error);
+      }
+
+      this.emit('entry', entry);
+    });
+  }
+
+  /**
+   * Wait until every appended entry has been written
+   */
+  async flush(): Promise<void> {
+    let pending: Promise<void>;
+    do {
+      pending = this.writes;
+      await pending;
+    } while (pending !== this.writes);
+  }
+
+  /**
+   * Read journal entries, optionally limited to a tick range (inclusive)
+   */
+  async getEntries(options: { fromTick?: number; toTick?: number; types?: JournalEntryType[] } = {}): Promise<JournalEntry[]> {
+    await this.flush();
+    return loadJournalEntries(this.sessionId, options);
+  }
+
+  private async loadPosition(): Promise<void> {
+    try {
+      const [first, last] = await Promise.all([
+        this.db.sessionJournalEntry.findFirst({
+          where: { sessionId: this.sessionId },
+          orderBy: { sequence: 'asc' }
+        }),
+        this.db.sessionJournalEntry.findFirst({
+          where: { sessionId: this.sessionId },
+          orderBy: { sequence: 'desc' }
+        })
+      ]);
+
+      if (first && last) {
+        this.origin = first.timestamp.getTime();
+        this.sequence = last.sequence;
+      }
+    } catch (error) {
+      console.error('Error loading session journal position:', error);
+    }
+  }
+}
+
+async function loadJournalEntries(
+  sessionId: string,
+  options: { fromTick?: number; toTick?: number; types?: JournalEntryType[] }
+): Promise<JournalEntry[]> {
+  const rows = await getSessionDatabase(sessionId).sessionJournalEntry.findMany({
+    where: {
+      sessionId,
+      tick: { gte: options.fromTick, lte: options.toTick },
+      ...(options.types ? { type: { in: options.types } } : {})
+    },
+    orderBy: { sequence: 'asc' }
+  });
+
+  return rows.map((row: any) => ({
+    sessionId: row.sessionId,
+    sequence: row.sequence,
+    tick: row.tick,
+    type: row.type as JournalEntryType,
+    payload: row.payload,
+    timestamp: row.timestamp
+  }));
+}
+
+/**
+ * Revive dates on an order read back from the journal
+ */
+function reviveOrder(order: any): MarketOrder {
+  return {
+    ...order,
+    submittedAt: new Date(order.submittedAt),
+    executedAt: order.executedAt ? new Date(order.executedAt) : undefined,
+    cancelledAt: order.cancelledAt ? new Date(order.cancelledAt) : undefined
+  };
+}
+
+/**
+ * Apply a fill to a replayed position using the portfolio engine's rules:
+ * adding moves the average price, reducing realizes P&L at the old average.
+ */
+function applyFill(position: ReplayPosition, quantityChange: number, price: number): void {
+  const oldQuantity = position.quantity;
+  const newQuantity = oldQuantity + quantityChange;
+
+  if (oldQuantity === 0) {
+    position.avgPrice = price;
+  } else if ((oldQuantity > 0) === (quantityChange > 0)) {
+    position.avgPrice = (oldQuantity * position.avgPrice + quantityChange * price) / newQuantity;
+  } else {
+    const closingQuantity = Math.min(Math.abs(quantityChange), Math.abs(oldQuantity));
+    position.realizedPnL += closingQuantity * (price - position.avgPrice) * (oldQuantity > 0 ? 1 : -1);
+  }
+
+  position.quantity = newQuantity;
+}
+
+/**
+ * Rebuild session state by replaying the journal up to and including a tick
+ * (the whole journal when no tick is given). Orders are replayed through a
+ * detached matching core, so the book has the same price-time priority the
+ * live book had.
+ */
+export async function rebuildSessionState(sessionId: string, tick?: number): Promise<SessionSnapshot> {
+  if (journals.has(sessionId)) {
+    await journals.get(sessionId)!.flush();
+  }
+  const entries = await loadJournalEntries(sessionId, { toTick: tick });
+
+  const core = new MatchingCore(sessionId);
+  const snapshot: SessionSnapshot = {
+    sessionId,
+    tick: tick ?? (entries.length > 0 ? entries[entries.length - 1].tick : 0),
+    sequence: 0,
+    isMarketOpen: false,
+    orderBooks: {},
+    orders: {},
+    positions: {},
+    cashDelta: {},
+    lastPrices: {},
+    privileges: {},
+    auctionBids: [],
+    trades: []
+  };
+
+  const settle = (userId: string, securityId: string, quantityChange: number, price: number) => {
+    const positions = snapshot.positions[userId] || (snapshot.positions[userId] = {});
+    const position = positions[securityId] || (positions[securityId] = { quantity: 0, avgPrice: 0, realizedPnL: 0 });
+    applyFill(position, quantityChange, price);
+    snapshot.cashDelta[userId] = (snapshot.cashDelta[userId] || 0) - quantityChange * price;
+  };
+
+  core.on('execution', ({ execution }: ExecutionEvent) => {
+    snapshot.trades.push(execution);
+    snapshot.lastPrices[execution.securityId] = execution.price;
+    settle(execution.buyUserId, execution.securityId, execution.quantity, execution.price);
+    settle(execution.sellUserId, execution.securityId, -execution.quantity, execution.price);
+  });
+
+  for (const entry of entries) {
+    const { payload } = entry;
+
+    switch (entry.type) {
+      case 'MARKET_OPENED':
+        snapshot.isMarketOpen = true;
+        break;
+
+      case 'MARKET_CLOSED':
+        snapshot.isMarketOpen = false;
+        break;
+
+      case 'AUCTION_CALL_STARTED':
+        core.startAuction();
+        break;
+
+      case 'AUCTION_UNCROSSED':
+        core.uncross();
+        break;
+
+      case 'ORDER_SUBMITTED': {
+        const order = reviveOrder(payload.order);
+        snapshot.orders[order.id] = order;
+        if (order.type === 'MARKET' || order.type === 'LIMIT') {
+          core.submit(order);
+        } else {
+          order.status = 'PENDING_TRIGGER';
+        }
+        break;
+      }
+
+      case 'ORDER_TRIGGERED': {
+        const order = snapshot.orders[payload.orderId];
+        if (order) {
+          order.type = payload.type;
+          order.status = 'PENDING';
+          order.notes = `Triggered at ${payload.triggerPrice}`;
+          core.submit(order);
+        }
+        break;
+      }
+
+      case 'ORDER_REJECTED': {
+        const order = snapshot.orders[payload.order.id] || reviveOrder(payload.order);
+        order.status = 'REJECTED';
+        order.notes = payload.reason;
+        snapshot.orders[order.id] = order;
+        break;
+      }
+
+      case 'ORDER_CANCELLED': {
+        const order = snapshot.orders[payload.orderId];
+        if (order && !core.cancel(order.id) && order.status !== 'FILLED') {
+          order.status = 'CANCELLED';
+          order.cancelledAt = entry.timestamp;
+        }
+        break;
+      }
+
+      case 'ORDER_AMENDED': {
+        const order = snapshot.orders[payload.orderId];
+        if (!order) break;
+        if (core.getOrder(order.id)) {
+          core.amend(order.id, { quantity: payload.quantity, price: payload.price });
+        } else if (order.status === 'PENDING_TRIGGER') {
+          const filledQuantity = order.quantity - order.remainingQuantity;
+          order.quantity = payload.quantity ?? order.quantity;
+          order.remainingQuantity = order.quantity - filledQuantity;
+          order.price = payload.price ?? order.price;
+          order.stopPrice = payload.stopPrice ?? order.stopPrice;
+        }
+        break;
+      }
+
+      case 'ORDER_EXPIRED': {
+        // IOC/FOK expiry already happened inside the core; DAY expiry did not
+        const order = snapshot.orders[payload.orderId];
+        if (order && !core.expire(order.id, payload.reason) && order.status !== 'FILLED') {
+          order.status = 'EXPIRED';
+          order.notes = payload.reason;
+        }
+        break;
+      }
+
+      case 'PRIVILEGE_GRANTED':
+      case 'PRIVILEGE_REVOKED': {
+        const held = new Set(snapshot.privileges[payload.userId] || []);
+        for (const code of payload.privilegeCodes as number[]) {
+          if (entry.type === 'PRIVILEGE_GRANTED') {
+            held.add(code);
+          } else {
+            held.delete(code);
+          }
+        }
+        snapshot.privileges[payload.userId] = Array.from(held);
+        break;
+      }
+
+      case 'AUCTION_BID':
+        snapshot.auctionBids.push({
+          auctionId: payload.auctionId,
+          userId: payload.userId,
+          amount: payload.amount,
+          tick: entry.tick
+        });
+        break;
+
+      case 'EXECUTION':
+        // Executions are reproduced by replaying orders through the core
+        break;
+    }
+
+    snapshot.sequence = entry.sequence;
+  }
+
+  for (const securityId of core.getSecurityIds()) {
+    snapshot.orderBooks[securityId] = core.getBook(securityId);
+  }
+
+  return snapshot;
+}
+
+// One journal per session
+const journals = new Map<string, SessionJournal>();
+
+/**
+ * Get or create the journal for a session
+ */
+export function getSessionJournal(sessionId: string): SessionJournal {
+  if (!journals.has(sessionId)) {
+    journals.set(sessionId, new SessionJournal(sessionId));
+  }
+  return journals.get(sessionId)!;
+}
\ No newline at end of file
@@ -6,7 +6,8 @@
  */
 
 import { LessonDefinition, LessonSimulation, LessonCommand, WizardItem, lessonLoader } from './lesson-loader';
-import { PrivilegeSystem, PRIVILEGE_DEFINITIONS, PrivilegeAuction } from './privilege-system';
+import { getSessionClock, ClockTimer } from './session-clock';
+import { PrivilegeSystem, PRIVILEGE_DEFINITIONS, PrivilegeAuction, PrivilegeListing, parseLessonAuction, MARKET_MAKING_PRIVILEGE } from './privilege-system';
 
 export interface TradingSession {
   id: string;
@@ -238,6 +239,7 @@ export class SessionManager {
   private sessionAnalytics: Map<string, SessionAnalytics> = new Map();
   private privilegeSystems: Map<string, PrivilegeSystem> = new Map();
   private eventHandlers: Map<string, Function[]> = new Map();
+  private sessionTimers: Map<string, Set<ClockTimer>> = new Map(); // pending market openings and simulation ends
 
   /**
    * Create a new trading session from a lesson
@@ -453,11 +455,7 @@ export class SessionManager {
    * Handle create auction command
    */
   private async handleCreateAuction(session: TradingSession, command: LessonCommand): Promise<void> {
-    const privilegeId = command.parameters[0] as number;
-    const availableRights = command.parameters[1] as number;
-    const initialPrice = command.parameters[2] as number;
-    const priceIncrement = command.parameters[3] as number;
-    const timeInterval = command.parameters[4] as number;
+    const { privilegeId, minBid, durationSeconds, options } = parseLessonAuction(command.parameters);
 
     const privilegeSystem = this.privilegeSystems.get(session.id);
     if (!privilegeSystem) {
@@ -476,9 +474,11 @@ export class SessionManager {
     // Start auction using privilege system
     const auctionId = privilegeSystem.startPrivilegeAuction(
       privilegeId,
-      initialPrice,
-      timeInterval
+      minBid,
+      durationSeconds,
+      options
     );
+    const auction = privilegeSystem.getAuction(auctionId)!;
 
     // Update session state
     session.status = 'AUCTION';
@@ -487,9 +487,11 @@ export class SessionManager {
       auctionId,
       privilegeId,
       privilegeName: privilegeDefinition.name,
-      availableRights,
-      initialPrice,
-      timeInterval
+      type: auction.type,
+      availableRights: auction.units,
+      initialPrice: auction.currentPrice,
+      priceIncrement: auction.increment,
+      timeInterval: auction.intervalSeconds
     });
   }
 
@@ -524,7 +526,7 @@ export class SessionManager {
     const marketDelay = command.parameters[0] as number || session.marketSettings.marketDelay;
     
     // Wait for market delay
-    setTimeout(() => {
+    this.scheduleOnClock(session.id, () => {
       session.marketSettings.isOpen = true;
       session.status = 'TRADING';
       
@@ -612,11 +614,28 @@ export class SessionManager {
     });
 
     // Schedule simulation end
-    setTimeout(async () => {
-      await this.endSimulation(session.id);
+    this.scheduleOnClock(session.id, () => {
+      this.endSimulation(session.id).catch(error => {
+        console.error('Error ending simulation:', error);
+      });
     }, simulation.duration * 1000);
   }
 
+  /**
+   * Run a callback after a delay on the session clock, so pausing or
+   * stepping the session moves it too. Pending callbacks are cleared when
+   * the session ends.
+   */
+  private scheduleOnClock(sessionId: string, callback: () => void, delayMs: number): void {
+    const timers = this.sessionTimers.get(sessionId) || new Set<ClockTimer>();
+    const timer = getSessionClock(sessionId).setTimeout(() => {
+      timers.delete(timer);
+      callback();
+    }, delayMs);
+    timers.add(timer);
+    this.sessionTimers.set(sessionId, timers);
+  }
+
   /**
    * End simulation
    */
@@ -651,10 +670,10 @@ export class SessionManager {
         return session.participants.filter(p => p.role === 'STUDENT');
       case '$Speculators':
         // Participants without market making privileges
-        return session.participants.filter(p => !p.privileges.includes(22));
+        return session.participants.filter(p => !p.privileges.includes(MARKET_MAKING_PRIVILEGE));
       case '$MarketMakers':
         // Participants with market making privileges
-        return session.participants.filter(p => p.privileges.includes(22));
+        return session.participants.filter(p => p.privileges.includes(MARKET_MAKING_PRIVILEGE));
       default:
         return session.participants;
     }
@@ -835,6 +854,18 @@ export class SessionManager {
     return this.privilegeSystems.get(sessionId);
   }
 
+  /**
+   * Recreate a session's privilege system from exported state (crash recovery)
+   */
+  restorePrivilegeSystem(sessionId: string, state: any): PrivilegeSystem {
+    const privilegeSystem = new PrivilegeSystem(sessionId, {
+      emit: (event: string, data: any) => this.emitEvent(sessionId, event, data)
+    });
+    privilegeSystem.importState(state);
+    this.privilegeSystems.set(sessionId, privilegeSystem);
+    return privilegeSystem;
+  }
+
   /**
    * Place bid in privilege auction
    */
@@ -859,6 +890,18 @@ export class SessionManager {
     return privilegeSystem.getActiveAuctions();
   }
 
+  /**
+   * Get open privilege listings for a session
+   */
+  getPrivilegeListings(sessionId: string): PrivilegeListing[] {
+    const privilegeSystem = this.privilegeSystems.get(sessionId);
+    if (!privilegeSystem) {
+      return [];
+    }
+
+    return privilegeSystem.getOpenListings();
+  }
+
   /**
    * Check if user has privilege in session
    */
@@ -925,6 +968,11 @@ export class SessionManager {
       this.privilegeSystems.delete(sessionId);
     }
 
+    // Cancel market openings and simulation ends still pending
+    const clock = getSessionClock(sessionId);
+    this.sessionTimers.get(sessionId)?.forEach(timer => clock.clear(timer));
+    this.sessionTimers.delete(sessionId);
+
     this.emitEvent(sessionId, 'SESSION_ENDED', { sessionId });
   }
 }
@@ -0,0 +1,175 @@
+/**
+ * Session Recovery
+ *
+ * Rehydrates live sessions after a server restart. Every IN_PROGRESS
+ * simulation session gets its order book, cash, last prices, privileges,
+ * leases and auction timers rebuilt from the persisted Order,
+ * OrderExecution, Position, UserPrivilege and Auction rows, and futures
+ * settlements and option listings and expiries from the session journal.
+ * Option expiry, futures settlement and market-maker measurement restart
+ * on the session clock, so students can keep trading where they left off.
+ */
+
+import { prisma } from './prisma';
+import { getOrderMatchingEngine } from './order-matching-engine';
+import { sessionEngine } from './session-engine';
+import { sessionManager } from './session-manager';
+import { getOptionsMarket } from './options-market';
+import { getFuturesMarket } from './futures-market';
+import { getMarketMakerProgram } from './market-maker-program';
+import { MARKET_MAKING_PRIVILEGE } from './privilege-system';
+import { setSessionSeed } from './seeded-random';
+
+// Sessions already recovered in this process
+const recoveredSessions = new Set<string>();
+
+/**
+ * Build PrivilegeSystem export state from the database
+ */
+async function loadPrivilegeState(sessionId: string): Promise<any> {
+  const [userPrivileges, auctions] = await Promise.all([
+    prisma.userPrivilege.findMany({
+      where: { sessionId, isActive: true, revokedAt: null },
+      include: { privilege: true }
+    }),
+    prisma.auction.findMany({
+      where: { sessionId, status: 'ACTIVE' },
+      include: {
+        bids: { orderBy: { amount: 'desc' } },
+        rounds: { orderBy: { round: 'asc' } }
+      }
+    })
+  ]);
+
+  const byUser = new Map<string, Array<[number, any]>>();
+  for (const userPrivilege of userPrivileges) {
+    const code = userPrivilege.privilege.code;
+    const held = byUser.get(userPrivilege.userId) || [];
+    held.push([code, {
+      userId: userPrivilege.userId,
+      privilegeId: code,
+      grantedAt: userPrivilege.grantedAt,
+      grantedBy: 'SESSION_RECOVERY',
+      leasedFrom: userPrivilege.leasedFrom ?? undefined,
+      leaseEndsAt: userPrivilege.leaseEndsAt ?? undefined
+    }]);
+    byUser.set(userPrivilege.userId, held);
+  }
+
+  const activeAuctions = auctions.map((auction: any) => {
+    const startTime = auction.startTime || auction.createdAt;
+    const initialPrice = Number(auction.initialPrice);
+    const increment = Number(auction.increment);
+    const minBid = auction.reservePrice !== null ? Number(auction.reservePrice) : initialPrice;
+    const clockAuction = auction.type === 'DUTCH' || auction.type === 'RIGHTS';
+
+    // Clock auctions record each round as it closes; a bid belongs to the
+    // first round that had not closed when it was placed
+    const closedRounds = clockAuction ? auction.rounds : [];
+    const lastRound = closedRounds[closedRounds.length - 1];
+    let bids = auction.bids.map((bid: any) => ({
+      userId: bid.userId,
+      amount: Number(bid.amount),
+      timestamp: bid.timestamp,
+      round: 1 + closedRounds.filter((round: any) => round.endTime && round.endTime <= bid.timestamp).length
+    }));
+    if (!clockAuction) {
+      // Only each bidder's latest open or sealed bid stands
+      bids = bids.filter((bid: any) => !bids.some((other: any) => other.userId === bid.userId && other.timestamp > bid.timestamp));
+    }
+
+    let currentPrice = bids[0]?.amount ?? minBid;
+    if (auction.type === 'DUTCH') {
+      currentPrice = Math.max(minBid, initialPrice - increment * closedRounds.length);
+    } else if (auction.type === 'RIGHTS') {
+      currentPrice = initialPrice + increment * closedRounds.length;
+    }
+
+    return [auction.id, {
+      id: auction.id,
+      privilegeId: auction.privilegeType,
+      sessionId,
+      type: auction.type,
+      startTime,
+      endTime: auction.endTime || new Date(startTime.getTime() + auction.intervalSeconds * 1000),
+      minBid,
+      units: auction.available,
+      increment,
+      intervalSeconds: auction.intervalSeconds,
+      currentPrice,
+      round: closedRounds.length + 1,
+      roundStartTime: lastRound?.endTime || startTime,
+      bids,
+      status: 'ACTIVE',
+      dbAuctionId: auction.id
+    }];
+  });
+
+  return {
+    userPrivileges: Array.from(byUser.entries()),
+    activeAuctions
+  };
+}
+
+/**
+ * Recover one in-progress session. Safe to call more than once.
+ */
+export async function recoverSession(sessionId: string): Promise<boolean> {
+  if (recoveredSessions.has(sessionId)) return true;
+
+  const dbSession = await prisma.simulationSession.findUnique({
+    where: { id: sessionId }
+  });
+  if (!dbSession || dbSession.status !== 'IN_PROGRESS') {
+    return false;
+  }
+  recoveredSessions.add(sessionId);
+
+  // Seed first, so any engine created below draws from the session's streams
+  if (dbSession.seed !== null) {
+    setSessionSeed(sessionId, dbSession.seed);
+  }
+
+  const engine = getOrderMatchingEngine(sessionId);
+  await engine.rehydrate();
+  if (!engine.isMarketCurrentlyOpen()) {
+    await engine.openMarket();
+  }
+
+  sessionManager.restorePrivilegeSystem(sessionId, await loadPrivilegeState(sessionId));
+
+  // A live session starts these when it begins; a recovered one needs them
+  // restarted on its clock
+  await getOptionsMarket(sessionId).start();
+  await getFuturesMarket(sessionId).start();
+  await getMarketMakerProgram(sessionId).start(() =>
+    sessionManager.getPrivilegeSystem(sessionId)?.getPrivilegeHolders(MARKET_MAKING_PRIVILEGE) || []
+  );
+  await sessionEngine.recoverSession(sessionId);
+
+  console.log(`Recovered session ${sessionId}`);
+  return true;
+}
+
+/**
+ * Recover every session that was in progress when the server stopped
+ */
+export async function recoverLiveSessions(): Promise<string[]> {
+  const sessions = await prisma.simulationSession.findMany({
+    where: { status: 'IN_PROGRESS' },
+    select: { id: true }
+  });
+
+  const recovered: string[] = [];
+  for (const { id } of sessions) {
+    try {
+      if (await recoverSession(id)) {
+        recovered.push(id);
+      }
+    } catch (error) {
+      console.error(`Error recovering session ${id}:`, error);
+    }
+  }
+
+  return recovered;
+}
\ No newline at end of file
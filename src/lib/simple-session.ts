@@ -6,6 +6,9 @@
  */
 
 import { prisma } from './prisma';
+import { getReadyOrderMatchingEngine, resolveSecurityId } from './order-matching-engine';
+import { getMatchingCore, ExecutionEvent } from './matching-core';
+import { generateSeed, setSessionSeed } from './seeded-random';
 
 export interface SimpleSession {
   id: string;
@@ -17,6 +20,7 @@ export interface SimpleSession {
   endTime?: Date;
   currentBalance: Record<string, number>; // userId -> balance
   portfolios: Record<string, any>; // userId -> portfolio
+  seed?: number; // RNG seed for deterministic replay
 }
 
 export interface SimpleOrder {
@@ -28,7 +32,7 @@ export interface SimpleOrder {
   quantity: number;
   price?: number; // undefined for market orders
   type: 'MARKET' | 'LIMIT';
-  status: 'PENDING' | 'FILLED' | 'CANCELLED';
+  status: 'PENDING' | 'FILLED' | 'CANCELLED' | 'REJECTED';
   fillPrice?: number;
   fillTime?: Date;
 }
@@ -36,6 +40,7 @@ export interface SimpleOrder {
 // In-memory session storage (simple, reliable) with database persistence
 const activeSessions = new Map<string, SimpleSession>();
 const sessionOrders = new Map<string, SimpleOrder[]>();
+const sessionPrices = new Map<string, Record<string, number>>(); // sessionId -> symbol -> last fill price
 
 /**
  * Load sessions from database into memory on startup
@@ -97,11 +102,20 @@ async function loadSessionsFromDatabase() {
         startTime: dbSession.startTime || undefined,
         endTime: dbSession.endTime || undefined,
         currentBalance,
-        portfolios
+        portfolios,
+        seed: dbSession.seed ?? undefined
       };
 
+      if (dbSession.seed !== null) {
+        setSessionSeed(dbSession.id, dbSession.seed);
+      }
+
       activeSessions.set(dbSession.id, session);
       sessionOrders.set(dbSession.id, []);
+
+      if (session.status === 'IN_PROGRESS') {
+        await restoreSessionActivity(session);
+      }
     }
 
     console.log(`📚 Loaded ${dbSessions.length} sessions from database`);
@@ -132,7 +146,8 @@ loadingPromise = loadSessionsFromDatabase();
 export async function createSimpleSession(
   lessonName: string,
   instructorId: string,
-  studentUsernames: string[]
+  studentUsernames: string[],
+  seed: number = generateSeed()
 ): Promise<SimpleSession> {
   try {
     console.log('🏗️ Creating simple session:', lessonName);
@@ -201,9 +216,11 @@ export async function createSimpleSession(
         classId: instructorClass.id,
         scenario: 'A',
         duration: 300,
-        status: 'PENDING'
+        status: 'PENDING',
+        seed
       }
     });
+    setSessionSeed(dbSession.id, seed);
 
     // Initialize starting balances ($100,000 each)
     const currentBalance: Record<string, number> = {};
@@ -268,7 +285,8 @@ export async function createSimpleSession(
       status: 'IN_PROGRESS', // Auto-start the session
       startTime: new Date(),
       currentBalance,
-      portfolios
+      portfolios,
+      seed
     };
 
     // Store in memory
@@ -285,8 +303,7 @@ export async function createSimpleSession(
     });
 
     // Open the market on the matching engine
-    const { getOrderMatchingEngine } = await import('./order-matching-engine');
-    const engine = getOrderMatchingEngine(dbSession.id);
+    const engine = await getReadyOrderMatchingEngine(dbSession.id);
     await engine.openMarket();
 
     console.log('✅ Simple session created and market opened:', session.id);
@@ -339,10 +356,13 @@ export async function placeSimpleOrder(
     throw new Error('Session not active');
   }
 
-  const orderId = `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  
+  // Route through the session's matching engine so orders trade against the shared book
+  attachExecutionListener(session);
+  const engine = await getReadyOrderMatchingEngine(sessionId);
+  const securityId = await resolveSecurityId(symbol);
+
   const order: SimpleOrder = {
-    id: orderId,
+    id: `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
     sessionId,
     userId,
     symbol,
@@ -353,37 +373,138 @@ export async function placeSimpleOrder(
     status: 'PENDING'
   };
 
-  // For now, immediately fill all orders at $50 (we'll add real pricing later)
-  const fillPrice = price || 50.00;
-  order.status = 'FILLED';
-  order.fillPrice = fillPrice;
-  order.fillTime = new Date();
-
-  // Update portfolio
-  const portfolio = session.portfolios[userId];
-  const totalCost = fillPrice * quantity;
-
-  if (side === 'BUY') {
-    portfolio.cash -= totalCost;
-    portfolio.positions[symbol] = (portfolio.positions[symbol] || 0) + quantity;
-  } else {
-    portfolio.cash += totalCost;
-    portfolio.positions[symbol] = (portfolio.positions[symbol] || 0) - quantity;
-  }
-
-  portfolio.totalValue = portfolio.cash + Object.entries(portfolio.positions)
-    .reduce((sum, [sym, qty]) => sum + (qty as number) * 50, 0);
-  portfolio.pnl = portfolio.totalValue - 1000000;
-
-  // Store order
+  // Store under its engine id before submitting so fills during matching find the order
   const orders = sessionOrders.get(sessionId) || [];
   orders.push(order);
   sessionOrders.set(sessionId, orders);
 
-  console.log(`📊 Order filled: ${side} ${quantity} ${symbol} @ $${fillPrice}`);
+  const marketOrder = await engine.submitOrder({
+    id: order.id,
+    sessionId,
+    userId,
+    securityId,
+    type: order.type,
+    side,
+    quantity,
+    price,
+    timeInForce: 'DAY'
+  });
+
+  if (marketOrder.status === 'REJECTED') {
+    order.status = 'REJECTED';
+    throw new Error(marketOrder.notes || 'Order rejected');
+  }
+
+  console.log(`📊 Order submitted: ${side} ${quantity} ${symbol} - Status: ${order.status}`);
   return order;
 }
 
+/**
+ * Settle matching core executions into simple session portfolios
+ */
+function attachExecutionListener(session: SimpleSession) {
+  if (sessionPrices.has(session.id)) return;
+  sessionPrices.set(session.id, {});
+
+  getMatchingCore(session.id).on('execution', ({ execution, buyOrder, sellOrder }: ExecutionEvent) => {
+    const orders = sessionOrders.get(session.id) || [];
+    const prices = sessionPrices.get(session.id)!;
+
+    for (const coreOrder of [buyOrder, sellOrder]) {
+      const order = orders.find(o => o.id === coreOrder.id);
+      if (!order) continue;
+
+      const filledQuantity = coreOrder.quantity - coreOrder.remainingQuantity;
+      const previousQuantity = filledQuantity - execution.quantity;
+      order.fillPrice = ((order.fillPrice || 0) * previousQuantity + execution.price * execution.quantity) / filledQuantity;
+      if (coreOrder.status === 'FILLED') {
+        order.status = 'FILLED';
+        order.fillTime = execution.timestamp;
+      }
+
+      const portfolio = session.portfolios[order.userId];
+      if (!portfolio) continue;
+
+      prices[order.symbol] = execution.price;
+      const totalCost = execution.price * execution.quantity;
+
+      if (order.side === 'BUY') {
+        portfolio.cash -= totalCost;
+        portfolio.positions[order.symbol] = (portfolio.positions[order.symbol] || 0) + execution.quantity;
+      } else {
+        portfolio.cash += totalCost;
+        portfolio.positions[order.symbol] = (portfolio.positions[order.symbol] || 0) - execution.quantity;
+      }
+
+      portfolio.totalValue = portfolio.cash + Object.entries(portfolio.positions)
+        .reduce((sum, [sym, qty]) => sum + (qty as number) * (prices[sym] || 0), 0);
+      portfolio.pnl = portfolio.totalValue - 1000000;
+    }
+  });
+}
+
+/**
+ * Rebuild orders and portfolios of a running session from persisted orders
+ * and executions, so a server restart does not reset student balances
+ */
+async function restoreSessionActivity(session: SimpleSession) {
+  const rows = await prisma.order.findMany({
+    where: { sessionId: session.id },
+    include: {
+      security: true,
+      executions: { orderBy: { timestamp: 'asc' } }
+    },
+    orderBy: { submittedAt: 'asc' }
+  });
+
+  const orders: SimpleOrder[] = [];
+  const prices: Record<string, number> = {};
+
+  for (const row of rows) {
+    if (row.type !== 'MARKET' && row.type !== 'LIMIT') continue;
+
+    const symbol = row.security.symbol;
+    const filledQuantity = row.executions.reduce((sum: number, e: any) => sum + e.quantity, 0);
+    const filledValue = row.executions.reduce((sum: number, e: any) => sum + e.quantity * Number(e.price), 0);
+
+    orders.push({
+      id: row.id,
+      sessionId: session.id,
+      userId: row.userId,
+      symbol,
+      side: row.side,
+      quantity: row.quantity,
+      price: row.price !== null ? Number(row.price) : undefined,
+      type: row.type,
+      status: row.status === 'EXPIRED' ? 'CANCELLED'
+        : row.status === 'FILLED' || row.status === 'CANCELLED' || row.status === 'REJECTED' ? row.status : 'PENDING',
+      fillPrice: filledQuantity > 0 ? filledValue / filledQuantity : undefined,
+      fillTime: row.executedAt || undefined
+    });
+
+    if (filledQuantity === 0) continue;
+    prices[symbol] = Number(row.executions[row.executions.length - 1].price);
+
+    const portfolio = session.portfolios[row.userId];
+    if (!portfolio) continue;
+
+    const direction = row.side === 'BUY' ? 1 : -1;
+    portfolio.cash -= direction * filledValue;
+    portfolio.positions[symbol] = (portfolio.positions[symbol] || 0) + direction * filledQuantity;
+  }
+
+  for (const [userId, portfolio] of Object.entries(session.portfolios)) {
+    session.currentBalance[userId] = portfolio.cash;
+    portfolio.totalValue = portfolio.cash + Object.entries(portfolio.positions)
+      .reduce((sum, [sym, qty]) => sum + (qty as number) * (prices[sym] || 0), 0);
+    portfolio.pnl = portfolio.totalValue - 1000000;
+  }
+
+  sessionOrders.set(session.id, orders);
+  attachExecutionListener(session);
+  Object.assign(sessionPrices.get(session.id)!, prices);
+}
+
 /**
  * Get session data
  */
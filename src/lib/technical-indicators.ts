@@ -0,0 +1,101 @@
+/**
+ * Technical Indicators
+ *
+ * Moving averages, RSI and MACD over a series of closing prices. Each
+ * result lines up with the input series; entries before the indicator has
+ * enough data are null.
+ */
+
+export interface MACDPoint {
+  macd: number;
+  signal: number | null;
+  histogram: number | null;
+}
+
+/**
+ * Simple moving average over the last `period` values
+ */
+export function simpleMovingAverage(values: number[], period: number): Array<number | null> {
+  let sum = 0;
+  return values.map((value, index) => {
+    sum += value;
+    if (index >= period) sum -= values[index - period];
+    return index >= period - 1 ? sum / period : null;
+  });
+}
+
+/**
+ * Exponential moving average, seeded with the simple average of the first
+ * `period` values
+ */
+export function exponentialMovingAverage(values: number[], period: number): Array<number | null> {
+  const k = 2 / (period + 1);
+  let ema: number | null = null;
+  return values.map((value, index) => {
+    if (index < period - 1) return null;
+    ema = ema === null
+      ? values.slice(0, period).reduce((sum, v) => sum + v, 0) / period
+      : value * k + ema * (1 - k);
+    return ema;
+  });
+}
+
+/**
+ * Relative strength index with Wilder's smoothing
+ */
+export function relativeStrengthIndex(values: number[], period = 14): Array<number | null> {
+  const result: Array<number | null> = values.map(() => null);
+  if (values.length <= period) return result;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    gain += Math.max(change, 0);
+    loss += Math.max(-change, 0);
+  }
+  gain /= period;
+  loss /= period;
+
+  const rsi = () => loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  result[period] = rsi();
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = rsi();
+  }
+
+  return result;
+}
+
+/**
+ * MACD line (fast EMA less slow EMA), its signal EMA and the histogram
+ */
+export function movingAverageConvergenceDivergence(
+  values: number[],
+  fastPeriod = 12,
+  slowPeriod = 26,
+  signalPeriod = 9
+): Array<MACDPoint | null> {
+  const fast = exponentialMovingAverage(values, fastPeriod);
+  const slow = exponentialMovingAverage(values, slowPeriod);
+  const macd = values.map((_, index) =>
+    fast[index] !== null && slow[index] !== null ? fast[index]! - slow[index]! : null
+  );
+
+  const first = macd.findIndex(value => value !== null);
+  if (first < 0) return macd.map(() => null);
+  const signal = exponentialMovingAverage(macd.slice(first) as number[], signalPeriod);
+
+  return macd.map((value, index) => {
+    if (value === null) return null;
+    const signalValue = signal[index - first];
+    return {
+      macd: value,
+      signal: signalValue,
+      histogram: signalValue !== null ? value - signalValue : null
+    };
+  });
+}
\ No newline at end of file
@@ -2,15 +2,28 @@
  * Trading Bots - Automated Market Simulation
  * 
  * Provides automated trading bots to create realistic market conditions,
- * liquidity provision, and competitive trading environment for students
+ * liquidity provision, and competitive trading environment for students.
+ * Each bot runs a strategy from the bot strategy registry, picked by name
+ * in its configuration.
  */
 
 import { EventEmitter } from 'events';
+import { getSessionRandom, SeededRandom } from './seeded-random';
+import { getSessionClock, ClockTimer } from './session-clock';
+import {
+  BotStrategy,
+  createStrategy,
+  getStrategyBook,
+  MarketView,
+  StrategyContext,
+  StrategyNews,
+  StrategyTrade
+} from './bot-strategy';
 
 export interface BotConfiguration {
   id: string;
   name: string;
-  type: 'LIQUIDITY_PROVIDER' | 'MOMENTUM_TRADER' | 'ARBITRAGEUR' | 'NOISE_TRADER' | 'MARKET_MAKER';
+  type: string; // name of a registered strategy, e.g. 'LIQUIDITY_PROVIDER'
   symbols: string[];
   active: boolean;
   parameters: {
@@ -30,27 +43,24 @@ export interface BotOrder {
   sessionId: string;
 }
 
-export interface MarketState {
-  symbol: string;
-  bid: number;
-  ask: number;
-  last: number;
-  volume: number;
-  volatility: number;
-  trend: 'UP' | 'DOWN' | 'SIDEWAYS';
-}
+export type MarketState = MarketView & { trend: 'UP' | 'DOWN' | 'SIDEWAYS' };
 
 export class TradingBot extends EventEmitter {
   public config: BotConfiguration;
   private isActive: boolean = false;
   private orderHistory: BotOrder[] = [];
-  private positionSize: number = 0;
+  private positions: Map<string, number> = new Map();
   private lastAction: Date = new Date();
   private sessionId?: string;
+  private strategy: BotStrategy;
+  private parameters: Record<string, any>;
+  private context?: StrategyContext;
+  private marketState: Map<string, MarketState> = new Map();
 
   constructor(config: BotConfiguration) {
     super();
     this.config = config;
+    ({ strategy: this.strategy, parameters: this.parameters } = createStrategy(config.type, config.parameters));
   }
 
   /**
@@ -58,9 +68,11 @@ export class TradingBot extends EventEmitter {
    */
   start(sessionId: string): void {
     this.sessionId = sessionId;
+    this.context = this.createContext(sessionId);
     this.isActive = true;
     this.emit('bot_started', { botId: this.config.id, sessionId });
-    
+    this.runHook(() => this.strategy.onStart?.(this.context!));
+
     // Start trading logic based on bot type
     this.beginTradingCycle();
   }
@@ -69,208 +81,99 @@ export class TradingBot extends EventEmitter {
    * Stop bot trading
    */
   stop(): void {
+    if (this.context) {
+      const context = this.context;
+      this.runHook(() => this.strategy.onStop?.(context));
+    }
     this.isActive = false;
     this.emit('bot_stopped', { botId: this.config.id });
   }
 
   /**
-   * Update market conditions for bot decision making
-   */
-  updateMarketState(marketState: MarketState): void {
-    if (!this.isActive || !this.sessionId) return;
-
-    // Make trading decisions based on bot type and market conditions
-    switch (this.config.type) {
-      case 'LIQUIDITY_PROVIDER':
-        this.handleLiquidityProviding(marketState);
-        break;
-      case 'MOMENTUM_TRADER':
-        this.handleMomentumTrading(marketState);
-        break;
-      case 'ARBITRAGEUR':
-        this.handleArbitrage(marketState);
-        break;
-      case 'NOISE_TRADER':
-        this.handleNoiseTrading(marketState);
-        break;
-      case 'MARKET_MAKER':
-        this.handleMarketMaking(marketState);
-        break;
-    }
-  }
-
-  /**
-   * Liquidity Provider Bot - Provides continuous two-way quotes
+   * Swap strategy and/or parameters. The new strategy starts fresh; the
+   * bot keeps its position and order history.
    */
-  private handleLiquidityProviding(market: MarketState): void {
-    const config = this.config.parameters;
-    const spread = config.minSpread || 0.02;
-    const quoteSize = config.quoteSize || 100;
-    const maxPosition = config.maxPosition || 1000;
-
-    // Don't provide liquidity if position is too large
-    if (Math.abs(this.positionSize) > maxPosition) {
-      return;
+  reconfigure(type: string, parameters: Record<string, any>): void {
+    const resolved = createStrategy(type, parameters);
+    if (this.context) {
+      const context = this.context;
+      this.runHook(() => this.strategy.onStop?.(context));
     }
 
-    // Calculate competitive bid/ask prices
-    const bidPrice = market.last - spread / 2;
-    const askPrice = market.last + spread / 2;
-
-    // Place bid order
-    if (this.positionSize < maxPosition) {
-      this.placeOrder({
-        symbol: market.symbol,
-        side: 'BUY',
-        quantity: quoteSize,
-        price: bidPrice,
-        orderType: 'LIMIT'
-      });
-    }
+    this.config = { ...this.config, type, parameters };
+    this.strategy = resolved.strategy;
+    this.parameters = resolved.parameters;
 
-    // Place ask order
-    if (this.positionSize > -maxPosition) {
-      this.placeOrder({
-        symbol: market.symbol,
-        side: 'SELL',
-        quantity: quoteSize,
-        price: askPrice,
-        orderType: 'LIMIT'
-      });
+    if (this.sessionId) {
+      this.context = this.createContext(this.sessionId);
+      if (this.isActive) {
+        this.runHook(() => this.strategy.onStart?.(this.context!));
+      }
     }
   }
 
   /**
-   * Momentum Trader Bot - Follows trends
+   * Update market conditions for bot decision making
    */
-  private handleMomentumTrading(market: MarketState): void {
-    const config = this.config.parameters;
-    const tradeSize = config.tradeSize || 200;
-    const momentumThreshold = config.momentumThreshold || 0.02;
-
-    // Calculate price momentum
-    const recentOrders = this.orderHistory.slice(-5);
-    if (recentOrders.length < 2) return;
-
-    const oldPrice = recentOrders[0].price;
-    const momentum = (market.last - oldPrice) / oldPrice;
+  updateMarketState(marketState: MarketState): void {
+    this.marketState.set(marketState.symbol, marketState);
+    if (!this.isActive || !this.context) return;
 
-    // Trade in direction of momentum if threshold is met
-    if (Math.abs(momentum) > momentumThreshold) {
-      const side = momentum > 0 ? 'BUY' : 'SELL';
-      
-      // Don't chase too aggressively
-      if (this.lastAction.getTime() < Date.now() - 10000) { // 10 second cooldown
-        this.placeOrder({
-          symbol: market.symbol,
-          side,
-          quantity: tradeSize,
-          price: market.last,
-          orderType: 'MARKET'
-        });
-      }
-    }
+    const context = this.context;
+    this.runHook(() => this.strategy.onTick?.(context, marketState));
   }
 
   /**
-   * Arbitrageur Bot - Exploits price differences
+   * A trade printed in one of the bot's symbols
    */
-  private handleArbitrage(market: MarketState): void {
-    const config = this.config.parameters;
-    const minArbitrageProfit = config.minProfit || 0.01;
-    
-    // Simplified arbitrage - look for spread compression opportunities
-    const currentSpread = market.ask - market.bid;
-    const expectedSpread = config.expectedSpread || 0.02;
-
-    if (currentSpread > expectedSpread + minArbitrageProfit) {
-      // Spread is wide - provide liquidity to capture it
-      this.placeOrder({
-        symbol: market.symbol,
-        side: 'BUY',
-        quantity: 50,
-        price: market.bid + 0.01,
-        orderType: 'LIMIT'
-      });
+  notifyTrade(trade: StrategyTrade): void {
+    if (!this.isActive || !this.context || !this.config.symbols.includes(trade.symbol)) return;
 
-      this.placeOrder({
-        symbol: market.symbol,
-        side: 'SELL',
-        quantity: 50,
-        price: market.ask - 0.01,
-        orderType: 'LIMIT'
-      });
-    }
+    const context = this.context;
+    this.runHook(() => this.strategy.onTrade?.(context, trade));
   }
 
   /**
-   * Noise Trader Bot - Random trading to add market activity
+   * A news event; symbol-specific news only reaches bots trading that symbol
    */
-  private handleNoiseTrading(market: MarketState): void {
-    const config = this.config.parameters;
-    const frequency = config.frequency || 0.1; // 10% chance per update
-    const maxSize = config.maxSize || 100;
+  notifyNews(news: StrategyNews): void {
+    if (!this.isActive || !this.context) return;
+    if (news.symbol && !this.config.symbols.includes(news.symbol)) return;
 
-    if (Math.random() < frequency) {
-      const side = Math.random() < 0.5 ? 'BUY' : 'SELL';
-      const quantity = Math.floor(Math.random() * maxSize) + 10;
-      const priceVariation = (Math.random() - 0.5) * 0.02; // ±1% price variation
+    const context = this.context;
+    this.runHook(() => this.strategy.onNews?.(context, news));
+  }
 
-      this.placeOrder({
-        symbol: market.symbol,
-        side,
-        quantity,
-        price: market.last * (1 + priceVariation),
-        orderType: 'LIMIT'
-      });
-    }
+  private createContext(sessionId: string): StrategyContext {
+    return {
+      botId: this.config.id,
+      sessionId,
+      parameters: this.parameters,
+      random: getSessionRandom(sessionId, `bot:${this.config.id}`),
+      now: () => getSessionClock(sessionId).now(),
+      getMarket: (symbol) => this.marketState.get(symbol),
+      getBook: (symbol) => getStrategyBook(sessionId, symbol),
+      getPosition: (symbol) => this.positions.get(symbol) || 0,
+      placeOrder: (order) => this.placeOrder({
+        symbol: order.symbol,
+        side: order.side,
+        quantity: order.quantity,
+        price: order.price ?? this.marketState.get(order.symbol)?.last ?? 0,
+        orderType: order.type
+      })
+    };
   }
 
   /**
-   * Market Maker Bot - Professional market making
+   * Run a strategy hook; a failing strategy must not take the bot down
    */
-  private handleMarketMaking(market: MarketState): void {
-    const config = this.config.parameters;
-    const baseSpread = config.baseSpread || 0.02;
-    const sizeMultiplier = config.sizeMultiplier || 1.0;
-    const inventoryTarget = config.inventoryTarget || 0;
-    const maxInventory = config.maxInventory || 500;
-
-    // Adjust spread based on inventory and volatility
-    const inventorySkew = (this.positionSize - inventoryTarget) / maxInventory;
-    const volatilityAdjustment = market.volatility * 0.5;
-    const adjustedSpread = baseSpread * (1 + volatilityAdjustment);
-
-    // Skew prices based on inventory
-    const midPrice = market.last;
-    const bidSkew = inventorySkew * 0.01; // Positive inventory makes us bid lower
-    const askSkew = -inventorySkew * 0.01; // Positive inventory makes us offer lower
-
-    const bidPrice = midPrice - adjustedSpread / 2 + bidSkew;
-    const askPrice = midPrice + adjustedSpread / 2 + askSkew;
-
-    // Size based on distance from market and inventory
-    const bidSize = Math.floor(100 * sizeMultiplier * (1 - Math.abs(inventorySkew)));
-    const askSize = Math.floor(100 * sizeMultiplier * (1 - Math.abs(inventorySkew)));
-
-    if (bidSize > 0 && this.positionSize < maxInventory) {
-      this.placeOrder({
-        symbol: market.symbol,
-        side: 'BUY',
-        quantity: bidSize,
-        price: bidPrice,
-        orderType: 'LIMIT'
-      });
-    }
-
-    if (askSize > 0 && this.positionSize > -maxInventory) {
-      this.placeOrder({
-        symbol: market.symbol,
-        side: 'SELL',
-        quantity: askSize,
-        price: askPrice,
-        orderType: 'LIMIT'
+  private runHook(hook: () => void | Promise<void>): void {
+    try {
+      Promise.resolve(hook()).catch(error => {
+        console.error(`Error in bot strategy ${this.config.type}:`, error);
       });
+    } catch (error) {
+      console.error(`Error in bot strategy ${this.config.type}:`, error);
     }
   }
 
@@ -297,20 +200,38 @@ export class TradingBot extends EventEmitter {
     this.orderHistory.push(order);
     this.lastAction = new Date();
 
-    // Update position (simplified)
+    // Update position (simplified: orders are treated as filled)
     const positionChange = orderData.side === 'BUY' ? orderData.quantity : -orderData.quantity;
-    this.positionSize += positionChange;
+    this.positions.set(orderData.symbol, (this.positions.get(orderData.symbol) || 0) + positionChange);
 
     this.emit('bot_order_placed', order);
+
+    if (this.context) {
+      const context = this.context;
+      this.runHook(() => this.strategy.onFill?.(context, {
+        symbol: order.symbol,
+        side: order.side,
+        quantity: order.quantity,
+        price: order.price,
+        timestamp: order.timestamp
+      }));
+    }
+  }
+
+  private get positionSize(): number {
+    let total = 0;
+    this.positions.forEach(quantity => { total += quantity; });
+    return total;
   }
 
   /**
    * Begin trading cycle
    */
   private beginTradingCycle(): void {
-    const interval = setInterval(() => {
+    const clock = getSessionClock(this.sessionId!);
+    const interval = clock.setInterval(() => {
       if (!this.isActive) {
-        clearInterval(interval);
+        clock.clear(interval);
         return;
       }
 
@@ -325,8 +246,8 @@ export class TradingBot extends EventEmitter {
    */
   private performPeriodicActions(): void {
     // Position size management
-    const maxPosition = this.config.parameters.maxPosition || 1000;
-    if (Math.abs(this.positionSize) > maxPosition * 1.2) {
+    const maxPosition = this.parameters.maxPosition || 1000;
+    if (Math.abs(this.positionSize) > maxPosition * 1.2 && this.config.symbols.length > 0) {
       // Emergency position reduction
       const reduceQuantity = Math.floor(Math.abs(this.positionSize) * 0.1);
       const side = this.positionSize > 0 ? 'SELL' : 'BUY';
@@ -357,8 +278,11 @@ export class TradingBot extends EventEmitter {
       botId: this.config.id,
       name: this.config.name,
       type: this.config.type,
+      symbols: this.config.symbols,
+      parameters: this.parameters,
       isActive: this.isActive,
       positionSize: this.positionSize,
+      positions: Object.fromEntries(this.positions),
       totalOrders,
       buyOrders,
       sellOrders,
@@ -374,7 +298,9 @@ export class TradingBot extends EventEmitter {
 export class BotManager extends EventEmitter {
   private bots: Map<string, TradingBot> = new Map();
   private marketData: Map<string, MarketState> = new Map();
-  private updateInterval?: NodeJS.Timeout;
+  private updateInterval?: ClockTimer;
+  private random?: SeededRandom;
+  private sessionId?: string;
 
   /**
    * Create and register a new bot
@@ -399,10 +325,66 @@ export class BotManager extends EventEmitter {
     return bot;
   }
 
+  getBot(botId: string): TradingBot | undefined {
+    return this.bots.get(botId);
+  }
+
+  /**
+   * Configure a bot live, creating it if it does not exist yet. Changing the
+   * type swaps in another registered strategy; parameters replace the
+   * strategy's current ones.
+   */
+  configureBot(botId: string, update: {
+    name?: string;
+    type?: string;
+    symbols?: string[];
+    parameters?: Record<string, any>;
+    active?: boolean;
+  }): TradingBot {
+    let bot = this.bots.get(botId);
+
+    if (!bot) {
+      if (!update.type) {
+        throw new Error(`Bot ${botId} does not exist; a strategy type is required to create it`);
+      }
+      bot = this.createBot({
+        id: botId,
+        name: update.name || botId,
+        type: update.type,
+        symbols: update.symbols || Array.from(this.marketData.keys()),
+        active: update.active ?? true,
+        parameters: update.parameters || {}
+      });
+      if (this.sessionId && bot.config.active) {
+        bot.start(this.sessionId);
+      }
+    } else {
+      if (update.type || update.parameters) {
+        bot.reconfigure(update.type || bot.config.type, update.parameters ?? bot.config.parameters);
+      }
+      if (update.name) bot.config.name = update.name;
+      if (update.symbols) bot.config.symbols = update.symbols;
+      if (update.active !== undefined && update.active !== bot.config.active) {
+        bot.config.active = update.active;
+        if (update.active && this.sessionId) {
+          bot.start(this.sessionId);
+        } else if (!update.active) {
+          bot.stop();
+        }
+      }
+    }
+
+    this.emit('bot_configured', bot.getStatistics());
+    return bot;
+  }
+
   /**
    * Start all bots for a session
    */
   startSession(sessionId: string, symbols: string[]): void {
+    this.sessionId = sessionId;
+    this.random = getSessionRandom(sessionId, 'bot-market-data');
+
     // Initialize market data
     symbols.forEach(symbol => {
       this.marketData.set(symbol, {
@@ -434,11 +416,12 @@ export class BotManager extends EventEmitter {
    */
   stopSession(): void {
     this.bots.forEach(bot => bot.stop());
-    
-    if (this.updateInterval) {
-      clearInterval(this.updateInterval);
+
+    if (this.updateInterval && this.sessionId) {
+      getSessionClock(this.sessionId).clear(this.updateInterval);
       this.updateInterval = undefined;
     }
+    this.sessionId = undefined;
 
     this.emit('session_stopped');
   }
@@ -461,6 +444,20 @@ export class BotManager extends EventEmitter {
     }
   }
 
+  /**
+   * Pass a printed trade to every bot's strategy
+   */
+  notifyTrade(trade: StrategyTrade): void {
+    this.bots.forEach(bot => bot.notifyTrade(trade));
+  }
+
+  /**
+   * Pass a news event to every bot's strategy
+   */
+  notifyNews(news: StrategyNews): void {
+    this.bots.forEach(bot => bot.notifyNews(news));
+  }
+
   /**
    * Get all bot statistics
    */
@@ -472,10 +469,12 @@ export class BotManager extends EventEmitter {
    * Start market data simulation
    */
   private startMarketDataUpdates(): void {
-    this.updateInterval = setInterval(() => {
+    const random = this.random!;
+
+    this.updateInterval = getSessionClock(this.sessionId!).setInterval(() => {
       // Simulate realistic market movements
       this.marketData.forEach((marketState, symbol) => {
-        const randomWalk = (Math.random() - 0.5) * marketState.volatility;
+        const randomWalk = (random.next() - 0.5) * marketState.volatility;
         const newPrice = marketState.last * (1 + randomWalk);
         
         // Update market state
@@ -484,8 +483,8 @@ export class BotManager extends EventEmitter {
           last: newPrice,
           bid: newPrice - 0.01,
           ask: newPrice + 0.01,
-          volume: marketState.volume + Math.floor(Math.random() * 100),
-          volatility: Math.max(0.001, marketState.volatility + (Math.random() - 0.5) * 0.001)
+          volume: marketState.volume + random.nextInt(100),
+          volatility: Math.max(0.001, marketState.volatility + (random.next() - 0.5) * 0.001)
         };
 
         this.marketData.set(symbol, updatedState);
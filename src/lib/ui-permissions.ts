@@ -23,6 +23,7 @@ export interface UIPermissions {
   canPlaceLimitOrders: boolean;
   canPlaceStopOrders: boolean;
   canPlaceStopLimitOrders: boolean;
+  canPlaceIcebergOrders: boolean;
   
   // Advanced Features
   canSeeAnalystWindow: boolean;          // Privilege 1
@@ -87,6 +88,7 @@ export function getUIPermissions(
   const canPlaceLimitOrders = config.orderTypes.limit;
   const canPlaceStopOrders = config.orderTypes.stop;
   const canPlaceStopLimitOrders = config.orderTypes.stopLimit;
+  const canPlaceIcebergOrders = config.orderTypes.iceberg && canPlaceLimitOrders;
   
   // Advanced Features
   const canSeeAnalystWindow = hasPrivilege(1) && windowAllowed(1);
@@ -122,6 +124,7 @@ export function getUIPermissions(
     canPlaceLimitOrders,
     canPlaceStopOrders,
     canPlaceStopLimitOrders,
+    canPlaceIcebergOrders,
     
     // Advanced Features
     canSeeAnalystWindow,
@@ -6,6 +6,16 @@ import { enhancedSessionEngine } from './enhanced-session-engine';
 import { lessonLoader } from './lesson-loader';
 import { getOrderMatchingEngine } from './order-matching-engine';
 import { getPortfolioEngine } from './portfolio-engine';
+import { getMarginEngine } from './margin-engine';
+import { getRiskLimitEngine } from './risk-limits';
+import { getAlgoSandbox } from './algo-sandbox';
+import { getMarketMakerProgram } from './market-maker-program';
+import { recordIterationReport } from './iteration-reports';
+import { getCandleAggregator } from './candle-aggregator';
+import { getOptionsMarket } from './options-market';
+import { getFuturesMarket } from './futures-market';
+import { getSessionClock } from './session-clock';
+import { isSealedAuction } from './privilege-system';
 
 const prisma = new PrismaClient();
 
@@ -33,6 +43,7 @@ export interface OrderData {
   type: 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT';
   stopPrice?: number;
   timeInForce: 'GTC' | 'IOC' | 'FOK' | 'DAY';
+  displayQuantity?: number; // iceberg orders
 }
 
 export interface MarketData {
@@ -51,6 +62,7 @@ export class TradingWebSocketServer {
   private activeSessions: Map<string, Set<string>> = new Map(); // sessionId -> userIds
   private userSessions: Map<string, string> = new Map(); // userId -> sessionId
   private marketData: Map<string, MarketData> = new Map(); // symbol -> marketData
+  private integratedSessions: Set<string> = new Set();
 
   constructor(server: HTTPServer) {
     // Get allowed origins from environment variable or use defaults
@@ -193,6 +205,40 @@ export class TradingWebSocketServer {
         }
       });
 
+      socket.on('modify_order', async (data: { orderId: string; userId: string; quantity?: number; price?: number; stopPrice?: number }) => {
+        try {
+          const sessionId = this.userSessions.get(data.userId);
+          if (!sessionId) {
+            socket.emit('error', { message: 'Not connected to any session' });
+            return;
+          }
+
+          const orderEngine = getOrderMatchingEngine(sessionId);
+          const result = await orderEngine.amendOrder(data.orderId, data.userId, {
+            quantity: data.quantity,
+            price: data.price,
+            stopPrice: data.stopPrice
+          });
+
+          if (result.success) {
+            socket.emit('order_modified', {
+              order: result.order,
+              priorityKept: result.priorityKept,
+              timestamp: new Date()
+            });
+          } else {
+            socket.emit('order_modify_rejected', {
+              orderId: data.orderId,
+              reason: result.reason,
+              timestamp: new Date()
+            });
+          }
+        } catch (error) {
+          console.error('Error modifying order:', error);
+          socket.emit('error', { message: 'Failed to modify order' });
+        }
+      });
+
       // Lesson control handlers
       socket.on('start_lesson', async (data: { sessionId: string; lessonId: string; scenario: string }) => {
         try {
@@ -295,10 +341,13 @@ export class TradingWebSocketServer {
             );
             
             if (success) {
+              // Sealed bids stay hidden until the auction closes; clock
+              // auctions fill at the clock price rather than the amount offered
+              const auction = enhancedSessionEngine.getAuction(sessionId, data.auctionId);
               this.io.to(`session_${sessionId}`).emit('auction_bid_placed', {
                 auctionId: data.auctionId,
                 userId: data.userId,
-                bidAmount: data.bidAmount
+                bidAmount: !auction ? data.bidAmount : isSealedAuction(auction) ? undefined : auction.currentPrice
               });
             }
           }
@@ -307,6 +356,58 @@ export class TradingWebSocketServer {
         }
       });
 
+      socket.on('list_privilege', async (data: { userId: string; privilegeId: number; kind: 'SALE' | 'LEASE'; price: number; leaseSeconds?: number }) => {
+        try {
+          const sessionId = this.userSessions.get(data.userId);
+          if (sessionId) {
+            enhancedSessionEngine.listPrivilege(sessionId, data.userId, data.privilegeId, data.kind, data.price, data.leaseSeconds);
+            this.io.to(`session_${sessionId}`).emit('privilege_listings', enhancedSessionEngine.getPrivilegeListings(sessionId));
+          }
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to list privilege: ' + (error as Error).message });
+        }
+      });
+
+      socket.on('cancel_privilege_listing', async (data: { userId: string; listingId: string }) => {
+        try {
+          const sessionId = this.userSessions.get(data.userId);
+          if (sessionId) {
+            enhancedSessionEngine.cancelPrivilegeListing(sessionId, data.userId, data.listingId);
+            this.io.to(`session_${sessionId}`).emit('privilege_listings', enhancedSessionEngine.getPrivilegeListings(sessionId));
+          }
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to cancel listing: ' + (error as Error).message });
+        }
+      });
+
+      socket.on('accept_privilege_listing', async (data: { userId: string; listingId: string }) => {
+        try {
+          const sessionId = this.userSessions.get(data.userId);
+          if (sessionId) {
+            const listing = await enhancedSessionEngine.acceptPrivilegeListing(sessionId, data.userId, data.listingId);
+            this.io.to(`session_${sessionId}`).emit('privilege_transferred', {
+              listingId: listing.id,
+              privilegeId: listing.privilegeId,
+              kind: listing.kind,
+              sellerId: listing.sellerId,
+              buyerId: data.userId,
+              price: listing.price
+            });
+            this.io.to(`session_${sessionId}`).emit('privilege_listings', enhancedSessionEngine.getPrivilegeListings(sessionId));
+          }
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to accept listing: ' + (error as Error).message });
+        }
+      });
+
+      socket.on('get_privilege_listings', async (data: { sessionId: string }) => {
+        try {
+          socket.emit('privilege_listings', enhancedSessionEngine.getPrivilegeListings(data.sessionId));
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to get privilege listings: ' + (error as Error).message });
+        }
+      });
+
       socket.on('get_privilege_data', async (data: { sessionId: string }) => {
         try {
           const privilegeData = enhancedSessionEngine.getPrivilegeSystem(data.sessionId);
@@ -318,6 +419,64 @@ export class TradingWebSocketServer {
         }
       });
 
+      socket.on('get_mm_compliance', async (data: { sessionId: string }) => {
+        try {
+          const program = getMarketMakerProgram(data.sessionId);
+          const { config, securities } = await program.getObligations();
+          socket.emit('mm_compliance', {
+            obligations: config,
+            securities,
+            compliance: program.getCompliance(),
+            timestamp: new Date()
+          });
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to get market maker compliance: ' + (error as Error).message });
+        }
+      });
+
+      socket.on('get_options_chain', async (data: { sessionId: string }) => {
+        try {
+          socket.emit('options_chain', {
+            chain: await getOptionsMarket(data.sessionId).getChain(),
+            timestamp: new Date()
+          });
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to get options chain: ' + (error as Error).message });
+        }
+      });
+
+      socket.on('get_futures_quotes', async (data: { sessionId: string }) => {
+        try {
+          socket.emit('futures_quotes', {
+            quotes: await getFuturesMarket(data.sessionId).getQuotes(),
+            timestamp: new Date()
+          });
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to get futures quotes: ' + (error as Error).message });
+        }
+      });
+
+      socket.on('exercise_option', async (data: { userId: string; securityId: string; quantity: number }) => {
+        try {
+          const sessionId = this.userSessions.get(data.userId);
+          if (!sessionId) {
+            socket.emit('error', { message: 'Not connected to any session' });
+            return;
+          }
+
+          const result = await getOptionsMarket(sessionId).exercise(data.userId, data.securityId, data.quantity);
+          if (!result.success) {
+            socket.emit('option_exercise_rejected', {
+              securityId: data.securityId,
+              reason: result.reason,
+              timestamp: new Date()
+            });
+          }
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to exercise option: ' + (error as Error).message });
+        }
+      });
+
       socket.on('instructor_announcement', async (data: { message: string; timestamp: Date }) => {
         try {
           // Broadcast announcement to all sessions the instructor manages
@@ -411,7 +570,8 @@ export class TradingWebSocketServer {
         quantity: orderData.quantity,
         price: orderData.price,
         stopPrice: orderData.stopPrice,
-        timeInForce: orderData.timeInForce
+        timeInForce: orderData.timeInForce,
+        displayQuantity: orderData.displayQuantity
       });
 
       // Get order book update
@@ -462,53 +622,6 @@ export class TradingWebSocketServer {
     return { valid: true };
   }
 
-  private async matchOrder(order: any): Promise<any[]> {
-    // Simplified matching engine - in production this would be much more sophisticated
-    // For now, just mark order as filled at submitted price
-    const fillPrice = order.price || this.getMarketPrice(order.security?.symbol || order.securityId);
-    
-    await prisma.order.update({
-      where: { id: order.id },
-      data: { 
-        status: 'FILLED',
-        executedAt: new Date()
-      }
-    });
-
-    // Create an order execution record
-    const execution = await prisma.orderExecution.create({
-      data: {
-        orderId: order.id,
-        quantity: order.quantity,
-        price: fillPrice
-        // timestamp is auto-generated
-      }
-    });
-
-    // Create trade for position service
-    const trade = {
-      userId: order.userId,
-      sessionId: order.sessionId,
-      symbol: order.security?.symbol || order.securityId,
-      side: order.side,
-      quantity: order.quantity,
-      price: fillPrice,
-      timestamp: new Date(),
-      commission: this.calculateCommission(order.quantity, fillPrice),
-      orderId: order.id
-    };
-
-    // Process trade in position service
-    await positionService.processTrade(trade);
-
-    return [execution];
-  }
-
-  private calculateCommission(quantity: number, price: number): number {
-    // Simple commission calculation: $0.01 per share, min $1.00
-    return Math.max(1.00, quantity * 0.01);
-  }
-
   private getMarketPrice(symbol: string): number {
     const marketData = this.marketData.get(symbol);
     return marketData?.lastPrice || 100; // Default price
@@ -533,8 +646,6 @@ export class TradingWebSocketServer {
       tick: 0
     };
 
-    const previousPrice = currentData.lastPrice;
-
     // Update with trade data
     currentData.lastPrice = lastTrade.price;
     currentData.volume += lastTrade.quantity;
@@ -545,11 +656,6 @@ export class TradingWebSocketServer {
     // Update position service with new market price
     positionService.updateMarketPrice(symbol, currentData.lastPrice);
 
-    // Check for stop order triggers on price change
-    if (previousPrice !== currentData.lastPrice) {
-      this.checkStopOrderTriggers(symbol, currentData.lastPrice);
-    }
-
     // Broadcast market update to all sessions
     this.io.emit('market_data', currentData);
   }
@@ -594,6 +700,18 @@ export class TradingWebSocketServer {
         scenario: data.session.scenario,
         status: data.session.status
       });
+
+      // Market makers are measured against their obligations from the first tick
+      this.integrateSessionEngines(data.sessionId);
+      getMarketMakerProgram(data.sessionId)
+        .start(() => enhancedSessionEngine.getMarketMakers(data.sessionId))
+        .catch(error => console.error('Error starting market maker program:', error));
+
+      // Option series start counting down to expiry, futures to their first settlement
+      getOptionsMarket(data.sessionId).start()
+        .catch(error => console.error('Error starting options market:', error));
+      getFuturesMarket(data.sessionId).start()
+        .catch(error => console.error('Error starting futures market:', error));
     });
 
     enhancedSessionEngine.on('session_paused', (data: { sessionId: string }) => {
@@ -609,6 +727,26 @@ export class TradingWebSocketServer {
         sessionId: data.sessionId,
         duration: data.session.endTime - data.session.startTime
       });
+
+      getMarketMakerProgram(data.sessionId).stop()
+        .catch(error => console.error('Error stopping market maker program:', error));
+      getOptionsMarket(data.sessionId).stop();
+      getFuturesMarket(data.sessionId).stop();
+
+      // Debrief for the iteration that just ended, with the lesson's report for it
+      const simulation = data.session.currentLesson?.simulations?.[data.session.scenario];
+      recordIterationReport(data.sessionId, simulation?.reportTemplates)
+        .then(report => {
+          if (!report) return;
+          this.io.to(`session_${data.sessionId}`).emit('iteration_report_ready', {
+            sessionId: data.sessionId,
+            scenario: report.scenario,
+            iteration: report.iteration,
+            template: report.template,
+            prints: report.tape.length
+          });
+        })
+        .catch(error => console.error('Error recording iteration report:', error));
     });
 
     enhancedSessionEngine.on('command_executed', (data: { sessionId: string; command: any; session: any }) => {
@@ -698,96 +836,6 @@ export class TradingWebSocketServer {
     this.io.emit('market_data', currentData);
   }
 
-  private async checkStopOrderTriggers(symbol: string, currentPrice: number) {
-    try {
-      // Find all pending stop orders for this symbol
-      const stopOrders = await prisma.order.findMany({
-        where: {
-          security: { symbol },
-          status: 'PENDING_TRIGGER',
-          type: { in: ['STOP', 'STOP_LIMIT'] }
-        },
-        include: {
-          user: true,
-          security: true
-        }
-      });
-
-      for (const order of stopOrders) {
-        let shouldTrigger = false;
-
-        // Check trigger conditions based on order side and stop price
-        if (order.side === 'SELL' && order.stopPrice && currentPrice <= Number(order.stopPrice)) {
-          // Sell stop triggered when price falls to or below stop price
-          shouldTrigger = true;
-        } else if (order.side === 'BUY' && order.stopPrice && currentPrice >= Number(order.stopPrice)) {
-          // Buy stop triggered when price rises to or above stop price
-          shouldTrigger = true;
-        }
-
-        if (shouldTrigger) {
-          await this.triggerStopOrder(order, currentPrice);
-        }
-      }
-    } catch (error) {
-      console.error('Error checking stop order triggers:', error);
-    }
-  }
-
-  private async triggerStopOrder(order: any, triggerPrice: number) {
-    try {
-      if (order.type === 'STOP') {
-        // Convert stop order to market order
-        await prisma.order.update({
-          where: { id: order.id },
-          data: { 
-            status: 'PENDING',
-            type: 'MARKET',
-            // Record the trigger price for audit
-            notes: `Triggered at ${triggerPrice}`
-          }
-        });
-
-        // Match the now-market order
-        const trades = await this.matchOrder({ ...order, type: 'MARKET' });
-
-        // Broadcast the trigger and execution
-        this.io.to(`session_${order.sessionId}`).emit('stop_order_triggered', {
-          orderId: order.id,
-          triggerPrice,
-          trades,
-          timestamp: new Date()
-        });
-
-      } else if (order.type === 'STOP_LIMIT') {
-        // Convert stop-limit order to limit order
-        await prisma.order.update({
-          where: { id: order.id },
-          data: { 
-            status: 'PENDING',
-            type: 'LIMIT',
-            notes: `Triggered at ${triggerPrice}`
-          }
-        });
-
-        // Match the now-limit order
-        const trades = await this.matchOrder({ ...order, type: 'LIMIT' });
-
-        // Broadcast the trigger
-        this.io.to(`session_${order.sessionId}`).emit('stop_order_triggered', {
-          orderId: order.id,
-          triggerPrice,
-          trades,
-          timestamp: new Date()
-        });
-      }
-
-      console.log(`Stop order ${order.id} triggered at price ${triggerPrice}`);
-    } catch (error) {
-      console.error('Error triggering stop order:', error);
-    }
-  }
-
   private initializeMarketData() {
     // Initialize with default securities from the system
     const defaultSecurities = [
@@ -870,6 +918,9 @@ export class TradingWebSocketServer {
    * Setup real-time integration for a specific session
    */
   private integrateSessionEngines(sessionId: string) {
+    if (this.integratedSessions.has(sessionId)) return;
+    this.integratedSessions.add(sessionId);
+
     try {
       const orderEngine = getOrderMatchingEngine(sessionId);
       const portfolioEngine = getPortfolioEngine(sessionId);
@@ -877,10 +928,36 @@ export class TradingWebSocketServer {
       // Order engine events
       orderEngine.on('orderExecuted', (data) => {
         this.io.to(`session_${sessionId}`).emit('order_executed', {
-          orderId: data.order.id,
-          trades: data.executions,
+          orderId: data.order1.id,
+          trades: [data.execution1, data.execution2],
           timestamp: new Date()
         });
+
+        // Each student's blotter shows their own fill with its costs
+        for (const [order, fill] of [[data.order1, data.execution1], [data.order2, data.execution2]]) {
+          if (order.isBot) continue;
+          this.io.to(`user_${order.userId}`).emit('trade_execution', {
+            id: order.id,
+            time: new Date(fill.timestamp).toLocaleTimeString(),
+            symbol: order.securityId,
+            side: order.side,
+            quantity: fill.quantity,
+            price: fill.price,
+            status: order.remainingQuantity > 0 ? 'PARTIAL' : 'FILLED',
+            type: order.type,
+            commission: fill.commission ?? 0,
+            slippage: fill.slippage ?? 0,
+            liquidity: fill.liquidity
+          });
+        }
+      });
+
+      orderEngine.on('stopOrderTriggered', (data) => {
+        this.io.to(`session_${sessionId}`).emit('stop_order_triggered', {
+          orderId: data.order.id,
+          triggerPrice: data.triggerPrice,
+          timestamp: data.timestamp
+        });
       });
 
       orderEngine.on('tradeExecuted', (data) => {
@@ -915,14 +992,98 @@ export class TradingWebSocketServer {
           // Broadcast market data update
           this.io.to(`session_${sessionId}`).emit('market_data', currentData);
         }
+
+        getCandleAggregator(sessionId).recordTrade(data)
+          .catch(error => console.error('Error aggregating candles:', error));
       });
 
-      orderEngine.on('orderRejected', (data) => {
-        this.io.to(`user_${data.order.userId}`).emit('order_rejected', {
+      // Chart Window bars changed by each trade, one per resolution
+      getCandleAggregator(sessionId).on('candlesUpdated', (data) => {
+        this.io.to(`session_${sessionId}`).emit('candle_update', data);
+      });
+
+      orderEngine.on('orderBookUpdated', (data) => {
+        const toLevel = (level: { price: number; quantity: number; orderCount: number }) => ({
+          price: level.price,
+          quantity: level.quantity,
+          orders: level.orderCount
+        });
+
+        // Depth shows displayed size only; iceberg reserves stay hidden
+        this.io.to(`session_${sessionId}`).emit('level2_update', {
+          symbol: data.securityId,
+          bids: data.orderBook.bids.map(toLevel),
+          asks: data.orderBook.asks.map(toLevel),
+          spread: data.orderBook.bids.length > 0 && data.orderBook.asks.length > 0
+            ? data.orderBook.asks[0].price - data.orderBook.bids[0].price
+            : undefined
+        });
+      });
+
+      orderEngine.on('auctionCallStarted', (data) => {
+        this.io.to(`session_${sessionId}`).emit('auction_call_started', {
+          phase: data.phase,
+          endsAt: data.endsAt,
+          timestamp: data.timestamp
+        });
+      });
+
+      // Indicative uncrossing price and imbalance while orders are collected
+      orderEngine.on('indicativeAuction', (data) => {
+        this.io.to(`session_${sessionId}`).emit('indicative_auction', {
+          phase: data.phase,
+          symbol: data.securityId,
+          indicativePrice: data.price,
+          indicativeVolume: data.volume,
+          imbalance: data.imbalance,
+          imbalanceSide: data.imbalanceSide,
+          timestamp: data.timestamp
+        });
+      });
+
+      orderEngine.on('auctionUncrossed', (data) => {
+        this.io.to(`session_${sessionId}`).emit('auction_uncrossed', {
+          phase: data.phase,
+          results: data.results.map((result: any) => ({
+            symbol: result.securityId,
+            price: result.price,
+            volume: result.volume,
+            imbalance: result.imbalance,
+            imbalanceSide: result.imbalanceSide
+          })),
+          timestamp: data.timestamp
+        });
+      });
+
+      orderEngine.on('orderExpired', (data) => {
+        this.io.to(`user_${data.order.userId}`).emit('order_expired', {
           orderId: data.order.id,
-          reason: data.reason || 'Order rejected',
+          reason: data.reason,
+          timeInForce: data.order.timeInForce,
+          remainingQuantity: data.order.remainingQuantity,
+          timestamp: data.timestamp
+        });
+      });
+
+      orderEngine.on('orderRejected', (data) => {
+        this.io.to(`user_${data.userId}`).emit('order_rejected', {
+          orderId: data.id,
+          reason: data.notes || 'Order rejected',
+          code: data.rejectCode,
           timestamp: new Date()
         });
+
+        // Risk limit breaches also show up in the student's risk alerts
+        if (data.rejectCode) {
+          this.io.to(`user_${data.userId}`).emit('risk_alert', {
+            id: `LIMIT_${data.id}`,
+            type: 'LIMIT',
+            severity: data.rejectCode === 'LOSS_LIMIT' ? 'CRITICAL' : 'HIGH',
+            message: data.notes,
+            timestamp: new Date().toLocaleTimeString(),
+            acknowledged: false
+          });
+        }
       });
 
       // Portfolio engine events
@@ -954,6 +1115,9 @@ export class TradingWebSocketServer {
           totalUnrealizedPnL: data.data.totalUnrealizedPnL,
           totalRealizedPnL: data.data.totalRealizedPnL,
           cashBalance: data.data.cashBalance,
+          escrowedCash: data.data.escrowedCash,
+          privilegeCosts: data.data.privilegeCosts,
+          transactionCosts: data.data.transactionCosts,
           positions: data.data.positions,
           timestamp: data.timestamp
         });
@@ -963,6 +1127,8 @@ export class TradingWebSocketServer {
           userId: data.data.userId,
           totalValue: data.data.totalValue,
           totalPnL: data.data.totalPnL,
+          privilegeCosts: data.data.privilegeCosts,
+          transactionCosts: data.data.transactionCosts,
           positionCount: data.data.positions.length
         });
       });
@@ -977,6 +1143,178 @@ export class TradingWebSocketServer {
         });
       });
 
+      // Risk limit events
+      const riskLimits = getRiskLimitEngine(sessionId);
+
+      riskLimits.on('limitsUpdated', (data) => {
+        const target = data.userId ? `user_${data.userId}` : `session_${sessionId}`;
+        this.io.to(target).emit('risk_limits_updated', {
+          limits: data.limits,
+          timestamp: data.timestamp
+        });
+      });
+
+      riskLimits.on('tradingLocked', (data) => {
+        this.io.to(`user_${data.userId}`).emit('risk_alert', {
+          id: `LOCK_${data.userId}_${data.timestamp.getTime()}`,
+          type: 'DRAWDOWN',
+          severity: 'CRITICAL',
+          message: `Loss limit of $${data.lossLimit.toLocaleString()} reached: trading locked`,
+          timestamp: data.timestamp.toLocaleTimeString(),
+          acknowledged: false
+        });
+        this.io.to(`session_${sessionId}`).emit('participant_trading_locked', {
+          userId: data.userId,
+          totalPnL: data.totalPnL,
+          lossLimit: data.lossLimit
+        });
+      });
+
+      riskLimits.on('tradingUnlocked', (data) => {
+        this.io.to(`user_${data.userId}`).emit('trading_unlocked', { timestamp: data.timestamp });
+      });
+
+      // Margin engine events
+      const marginEngine = getMarginEngine(sessionId);
+
+      marginEngine.on('accountUpdate', (data) => {
+        this.io.to(`user_${data.userId}`).emit('buying_power_update', {
+          cash: data.cash,
+          equity: data.equity,
+          buyingPower: data.buyingPower,
+          initialRequirement: data.initialRequirement,
+          maintenanceRequirement: data.maintenanceRequirement,
+          marginCall: !!data.marginCall,
+          timestamp: data.timestamp
+        });
+      });
+
+      marginEngine.on('marginCall', (data) => {
+        this.io.to(`user_${data.userId}`).emit('margin_call', {
+          deficiency: data.deficiency,
+          deadline: data.deadline,
+          timestamp: data.issuedAt
+        });
+        this.io.to(`session_${sessionId}`).emit('participant_margin_call', {
+          userId: data.userId,
+          deficiency: data.deficiency
+        });
+      });
+
+      marginEngine.on('marginCallCleared', (data) => {
+        this.io.to(`user_${data.userId}`).emit('margin_call_cleared', { timestamp: data.timestamp });
+      });
+
+      orderEngine.on('accountLiquidated', (data) => {
+        this.io.to(`user_${data.userId}`).emit('margin_liquidation', {
+          positions: data.positions,
+          timestamp: data.timestamp
+        });
+      });
+
+      // Auto Trader logs and P&L go to the script's owner only
+      const algoSandbox = getAlgoSandbox(sessionId);
+
+      algoSandbox.on('algoLog', (data) => {
+        this.io.to(`user_${data.userId}`).emit('algo_log', data.entry);
+      });
+
+      algoSandbox.on('algoStatus', (data) => {
+        this.io.to(`user_${data.userId}`).emit('algo_status', {
+          status: data.status,
+          pnl: data.pnl,
+          ordersPlaced: data.ordersPlaced,
+          startedAt: data.startedAt,
+          stopReason: data.stopReason,
+          timestamp: new Date()
+        });
+      });
+
+      // Market maker compliance goes to the instructor dashboard; each
+      // settlement goes to the market maker it was paid to or charged
+      const marketMakerProgram = getMarketMakerProgram(sessionId);
+
+      marketMakerProgram.on('complianceUpdate', (data) => {
+        this.io.to(`session_${sessionId}`).emit('mm_compliance', {
+          period: data.period,
+          tick: data.tick,
+          compliance: data.compliance,
+          timestamp: data.timestamp
+        });
+      });
+
+      marketMakerProgram.on('obligationSettled', (data) => {
+        this.io.to(`user_${data.userId}`).emit('mm_obligation_settled', {
+          symbol: data.symbol,
+          presence: data.presence,
+          compliant: data.compliant,
+          amount: data.amount,
+          period: data.period,
+          timestamp: data.timestamp
+        });
+      });
+
+      // Option chain for everyone; exercises go to the holder and each
+      // writer assigned, expiry settlements to the whole session
+      const optionsMarket = getOptionsMarket(sessionId);
+
+      optionsMarket.on('chainUpdated', (data) => {
+        this.io.to(`session_${sessionId}`).emit('options_chain', data);
+      });
+
+      optionsMarket.on('optionExercised', (data) => {
+        this.io.to(`user_${data.userId}`).emit('option_exercised', data);
+        for (const assignment of data.assignments) {
+          this.io.to(`user_${assignment.userId}`).emit('option_assigned', {
+            securityId: data.securityId,
+            symbol: data.symbol,
+            quantity: assignment.quantity,
+            strike: data.strike,
+            underlyingPrice: data.underlyingPrice,
+            timestamp: data.timestamp
+          });
+        }
+      });
+
+      optionsMarket.on('seriesSettled', (data) => {
+        this.io.to(`session_${sessionId}`).emit('option_expired', data);
+      });
+
+      // Futures quotes and settlements for everyone; each holder also gets
+      // the variation paid to or taken from them
+      const futuresMarket = getFuturesMarket(sessionId);
+
+      futuresMarket.on('quotesUpdated', (data) => {
+        this.io.to(`session_${sessionId}`).emit('futures_quotes', data);
+      });
+
+      futuresMarket.on('contractSettled', (data) => {
+        this.io.to(`session_${sessionId}`).emit('futures_settled', {
+          securityId: data.securityId,
+          symbol: data.symbol,
+          day: data.day,
+          previousSettlement: data.previousSettlement,
+          settlementPrice: data.settlementPrice,
+          final: data.final,
+          timestamp: data.timestamp
+        });
+        for (const payment of data.payments) {
+          this.io.to(`user_${payment.userId}`).emit('variation_margin', {
+            symbol: data.symbol,
+            quantity: payment.quantity,
+            amount: payment.amount,
+            settlementPrice: data.settlementPrice,
+            final: data.final,
+            timestamp: data.timestamp
+          });
+        }
+      });
+
+      // Clock speed, pause and step changes
+      getSessionClock(sessionId).on('clockChanged', (state) => {
+        this.io.to(`session_${sessionId}`).emit('clock_update', state);
+      });
+
       console.log(`Integrated engines for session ${sessionId}`);
     } catch (error) {
       console.error(`Error integrating engines for session ${sessionId}:`, error);
@@ -1002,6 +1340,9 @@ export class TradingWebSocketServer {
         totalUnrealizedPnL: portfolio.totalUnrealizedPnL,
         totalRealizedPnL: portfolio.totalRealizedPnL,
         cashBalance: portfolio.cashBalance,
+        escrowedCash: portfolio.escrowedCash,
+        privilegeCosts: portfolio.privilegeCosts,
+        transactionCosts: portfolio.transactionCosts,
         positions: portfolio.positions,
         timestamp: new Date()
       });
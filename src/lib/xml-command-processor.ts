@@ -7,6 +7,7 @@
  */
 
 import { SimulationCommand, PrivilegeGrant, MarketConfiguration, AuctionConfiguration } from './lesson-xml-parser';
+import { parseAuctionType } from './privilege-system';
 
 export interface SessionState {
   id: string;
@@ -355,7 +356,10 @@ export class XMLCommandProcessor {
     }
 
     const privilegeCode = parseInt(command.parameters[0]);
-    const auctionType = command.parameters[1].toUpperCase() as 'RIGHTS' | 'DUTCH' | 'ENGLISH';
+    const auctionType = parseAuctionType(command.parameters[1]);
+    if (!auctionType) {
+      return { success: false, message: `Unknown auction type: ${command.parameters[1]}` };
+    }
 
     const auction: AuctionConfiguration = {
       privilegeCode,